@@ -155,6 +155,29 @@ CREATE TABLE IF NOT EXISTS contact_tags (
   PRIMARY KEY (contact_id, tag_id)
 );
 
+-- Contact segments (saved dynamic audiences - rules are evaluated on demand)
+CREATE TABLE IF NOT EXISTS contact_segments (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  rules TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Suppression list (opt-outs) - never messaged or added to groups again, from any account.
+-- phone_key is the last 9 digits (or the full id for groups), same matching as contacts
+CREATE TABLE IF NOT EXISTS suppressions (
+  id TEXT PRIMARY KEY,
+  phone_number TEXT NOT NULL,
+  phone_key TEXT NOT NULL UNIQUE,
+  name TEXT,
+  reason TEXT,
+  source TEXT NOT NULL DEFAULT 'manual', -- manual, keyword, flow, import
+  account_id TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Messages/Inbox
 CREATE TABLE IF NOT EXISTS messages (
   id TEXT PRIMARY KEY,
@@ -261,6 +284,34 @@ CREATE TABLE IF NOT EXISTS flow_executions (
   FOREIGN KEY (flow_id) REFERENCES flows(id) ON DELETE CASCADE
 );
 
+-- Published snapshots of a flow's graph (nodes/edges as JSON) - for rollback and diffs
+CREATE TABLE IF NOT EXISTS flow_versions (
+  id TEXT PRIMARY KEY,
+  flow_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  nodes TEXT NOT NULL,
+  edges TEXT NOT NULL,
+  note TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (flow_id, version),
+  FOREIGN KEY (flow_id) REFERENCES flows(id) ON DELETE CASCADE
+);
+
+-- Step-level trace of flow executions (one row per executed node)
+CREATE TABLE IF NOT EXISTS flow_execution_steps (
+  id TEXT PRIMARY KEY,
+  execution_id TEXT NOT NULL,
+  node_id TEXT NOT NULL,
+  node_type TEXT NOT NULL,
+  branch TEXT,
+  input_text TEXT,
+  details TEXT,
+  error TEXT,
+  duration_ms INTEGER DEFAULT 0,
+  created_at DATETIME NOT NULL,
+  FOREIGN KEY (execution_id) REFERENCES flow_executions(id) ON DELETE CASCADE
+);
+
 -- Global key/value app settings (DuoPlus API key, tap calibration, etc.)
 CREATE TABLE IF NOT EXISTS settings (
   key TEXT PRIMARY KEY,
@@ -273,7 +324,7 @@ CREATE TABLE IF NOT EXISTS chats (
   contact_id TEXT NOT NULL,
   account_id TEXT NOT NULL,
   phone_number TEXT NOT NULL,
-  status TEXT DEFAULT 'unhandled',
+  status TEXT DEFAULT 'open',
   photo TEXT,
   name TEXT,
   last_message_at DATETIME,
@@ -283,12 +334,86 @@ CREATE TABLE IF NOT EXISTS chats (
   UNIQUE(phone_number, account_id)
 );
 
+-- Internal notes on an Inbox chat - only shown to the team, never sent to WhatsApp
+CREATE TABLE IF NOT EXISTS chat_notes (
+  id TEXT PRIMARY KEY,
+  chat_id TEXT NOT NULL,
+  author TEXT,
+  note TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (chat_id) REFERENCES chats(id) ON DELETE CASCADE
+);
+
+-- Emoji reactions on Inbox messages - one per sender, an empty reaction removes it
+CREATE TABLE IF NOT EXISTS message_reactions (
+  message_id TEXT NOT NULL,
+  sender_id TEXT NOT NULL,
+  emoji TEXT NOT NULL,
+  is_from_me INTEGER DEFAULT 0,
+  timestamp DATETIME,
+  PRIMARY KEY (message_id, sender_id),
+  FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+);
+
+-- Messages queued from the Inbox to go out later (status: pending, sending, sent, failed, cancelled)
+CREATE TABLE IF NOT EXISTS scheduled_messages (
+  id TEXT PRIMARY KEY,
+  chat_id TEXT NOT NULL,
+  account_id TEXT NOT NULL,
+  to_id TEXT NOT NULL,
+  message_text TEXT,
+  media_path TEXT,
+  scheduled_at DATETIME NOT NULL,
+  status TEXT DEFAULT 'pending',
+  attempts INTEGER DEFAULT 0,
+  error TEXT,
+  sent_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (chat_id) REFERENCES chats(id) ON DELETE CASCADE,
+  FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE
+);
+
+-- Connection events per account (disconnects, auth failures) - feeds the account health score
+CREATE TABLE IF NOT EXISTS account_events (
+  id TEXT PRIMARY KEY,
+  account_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  reason TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE
+);
+
+-- Hourly account health history
+CREATE TABLE IF NOT EXISTS account_health_snapshots (
+  id TEXT PRIMARY KEY,
+  account_id TEXT NOT NULL,
+  score INTEGER NOT NULL,
+  level TEXT NOT NULL,
+  metrics TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE
+);
+
+-- Every outgoing send counted against account quotas, whichever feature sent it (see AccountQuotaService)
+CREATE TABLE IF NOT EXISTS account_sends (
+  id TEXT PRIMARY KEY,
+  account_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  is_new_chat INTEGER,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE
+);
+
 -- Indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_messages_account_id ON messages(account_id);
 CREATE INDEX IF NOT EXISTS idx_messages_chat_id ON messages(chat_id);
 CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON messages(timestamp);
 CREATE INDEX IF NOT EXISTS idx_chats_account_id ON chats(account_id);
 CREATE INDEX IF NOT EXISTS idx_chats_contact_id ON chats(contact_id);
+CREATE INDEX IF NOT EXISTS idx_chat_notes_chat_id ON chat_notes(chat_id);
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_chat_id ON scheduled_messages(chat_id);
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_due ON scheduled_messages(status, scheduled_at);
 CREATE INDEX IF NOT EXISTS idx_campaign_contacts_campaign_id ON campaign_contacts(campaign_id);
 CREATE INDEX IF NOT EXISTS idx_campaign_contacts_status ON campaign_contacts(status);
 CREATE INDEX IF NOT EXISTS idx_contact_tags_contact_id ON contact_tags(contact_id);
@@ -296,9 +421,15 @@ CREATE INDEX IF NOT EXISTS idx_contact_tags_tag_id ON contact_tags(tag_id);
 CREATE INDEX IF NOT EXISTS idx_flow_nodes_flow_id ON flow_nodes(flow_id);
 CREATE INDEX IF NOT EXISTS idx_flow_edges_flow_id ON flow_edges(flow_id);
 CREATE INDEX IF NOT EXISTS idx_flow_executions_flow_id ON flow_executions(flow_id);
+CREATE INDEX IF NOT EXISTS idx_flow_executions_chat ON flow_executions(account_id, chat_id, status);
+CREATE INDEX IF NOT EXISTS idx_flow_execution_steps_execution ON flow_execution_steps(execution_id, created_at);
 CREATE INDEX IF NOT EXISTS idx_warmup_messages_session_id ON warmup_messages(session_id);
 CREATE INDEX IF NOT EXISTS idx_warmup_messages_from_account ON warmup_messages(from_account_id);
 CREATE INDEX IF NOT EXISTS idx_warmup_messages_sent_at ON warmup_messages(sent_at);
+CREATE INDEX IF NOT EXISTS idx_account_events_account ON account_events(account_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_account_health_snapshots_account ON account_health_snapshots(account_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_account_sends_account ON account_sends(account_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_account_sends_created_at ON account_sends(created_at);
 
 `;
 
@@ -457,6 +588,38 @@ export async function initDatabase() {
     // Column already exists
   }
 
+  // A/B testing: optionally lock in the best-performing message variant after a sample of sends
+  const campaignAbTestColumns = [
+    'ab_auto_winner INTEGER DEFAULT 0',
+    'ab_sample_size INTEGER DEFAULT 50',
+    'ab_winner_index INTEGER',
+    'ab_winner_at DATETIME',
+    // Replies and read receipts take time - the winner is picked this long after the sample went out
+    'ab_evaluation_hours INTEGER DEFAULT 4',
+    'ab_sample_completed_at DATETIME'
+  ];
+  for (const column of campaignAbTestColumns) {
+    try {
+      db.exec(`ALTER TABLE campaigns ADD COLUMN ${column};`);
+    } catch (e) {
+      // Column already exists
+    }
+  }
+
+  // Campaign audience can be a saved contact segment, resolved when the campaign starts
+  try {
+    db.exec(`ALTER TABLE campaigns ADD COLUMN segment_id TEXT REFERENCES contact_segments(id) ON DELETE SET NULL;`);
+  } catch (e) {
+    // Column already exists
+  }
+
+  // When a tag was applied - dates the suppression entries backfilled from BlackList tags
+  try {
+    db.exec(`ALTER TABLE contact_tags ADD COLUMN tagged_at DATETIME;`);
+  } catch (e) {
+    // Column already exists
+  }
+
   // Add custom_fields column to contacts
   try {
     db.exec(`ALTER TABLE contacts ADD COLUMN custom_fields TEXT;`);
@@ -477,6 +640,52 @@ export async function initDatabase() {
     // Column already exists
   }
 
+  // Delivery tracking for campaign sends: the WhatsApp message id (msg.id.id), which message
+  // variant was sent, and the message_ack progression (1 server, 2 delivered, 3 read, 4 played)
+  const campaignContactDeliveryColumns = [
+    'message_id TEXT',
+    'variant_index INTEGER',
+    'ack INTEGER',
+    'server_at DATETIME',
+    'delivered_at DATETIME',
+    'read_at DATETIME',
+    'played_at DATETIME'
+  ];
+  for (const column of campaignContactDeliveryColumns) {
+    try {
+      db.exec(`ALTER TABLE campaign_contacts ADD COLUMN ${column};`);
+    } catch (e) {
+      // Column already exists
+    }
+  }
+
+  try {
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_campaign_contacts_message_id ON campaign_contacts(message_id);`);
+  } catch (e) {
+    // Index already exists or column not ready
+  }
+
+  // Reply attribution: the first inbound reply to a campaign send (see ReplyAttributionService)
+  const campaignContactReplyColumns = [
+    'replied_at DATETIME',
+    'reply_latency_seconds INTEGER',
+    'reply_message_id TEXT',
+    'reply_chat_id TEXT'
+  ];
+  for (const column of campaignContactReplyColumns) {
+    try {
+      db.exec(`ALTER TABLE campaign_contacts ADD COLUMN ${column};`);
+    } catch (e) {
+      // Column already exists
+    }
+  }
+
+  try {
+    db.exec(`CREATE INDEX IF NOT EXISTS idx_campaign_contacts_reply_chat_id ON campaign_contacts(reply_chat_id);`);
+  } catch (e) {
+    // Index already exists or column not ready
+  }
+
   // Add software_chat_id column to messages
   try {
     db.exec(`ALTER TABLE messages ADD COLUMN software_chat_id TEXT REFERENCES chats(id);`);
@@ -498,6 +707,23 @@ export async function initDatabase() {
     // Column already exists
   }
 
+  // Replies, quotes and forwards - WhatsApp's serialized message id is what quoting, reacting and forwarding need
+  const messageReplyColumns = [
+    'wa_message_id TEXT',
+    'quoted_wa_message_id TEXT',
+    'quoted_message_text TEXT',
+    'quoted_is_from_me INTEGER',
+    'is_forwarded INTEGER DEFAULT 0'
+  ];
+  for (const column of messageReplyColumns) {
+    try {
+      db.exec(`ALTER TABLE messages ADD COLUMN ${column};`);
+    } catch (e) {
+      // Column already exists
+    }
+  }
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_messages_wa_message_id ON messages(wa_message_id);`);
+
   // Create index on software_chat_id (after column exists)
   try {
     db.exec(`CREATE INDEX IF NOT EXISTS idx_messages_software_chat_id ON messages(software_chat_id);`);
@@ -512,6 +738,117 @@ export async function initDatabase() {
     // Column already exists
   }
 
+  // Latest account health score (see AccountHealthService) - history lives in account_health_snapshots
+  const accountHealthColumns = [
+    'health_score INTEGER',
+    'health_level TEXT',
+    'health_updated_at DATETIME'
+  ];
+  for (const column of accountHealthColumns) {
+    try {
+      db.exec(`ALTER TABLE accounts ADD COLUMN ${column};`);
+    } catch (e) {
+      // Column already exists
+    }
+  }
+
+  // Temporary restriction (rate limit / "account restricted" send errors) - campaigns skip the account until then
+  try {
+    db.exec(`ALTER TABLE accounts ADD COLUMN restricted_until DATETIME;`);
+  } catch (e) {
+    // Column already exists
+  }
+
+  // Account-level sending quotas shared by every campaign, group campaign and warm-up (NULL = no limit)
+  const accountQuotaColumns = [
+    'quota_per_hour INTEGER',
+    'quota_per_day INTEGER',
+    'quota_rolling_24h INTEGER',
+    'quota_new_chats_per_day INTEGER',
+    'quota_existing_chats_per_day INTEGER'
+  ];
+  for (const column of accountQuotaColumns) {
+    try {
+      db.exec(`ALTER TABLE accounts ADD COLUMN ${column};`);
+    } catch (e) {
+      // Column already exists
+    }
+  }
+
+  // When an account claimed a campaign contact - failed sends never get sent_at, health needs a time for them too
+  try {
+    db.exec(`ALTER TABLE campaign_contacts ADD COLUMN attempted_at DATETIME;`);
+  } catch (e) {
+    // Column already exists
+  }
+
+  // Paused flow executions ('waiting' status) - the node they wait on, their variables and when the wait times out
+  const flowExecutionColumns = [
+    'current_node_id TEXT',
+    'variables TEXT',
+    'wait_until DATETIME'
+  ];
+  for (const column of flowExecutionColumns) {
+    try {
+      db.exec(`ALTER TABLE flow_executions ADD COLUMN ${column};`);
+    } catch (e) {
+      // Column already exists
+    }
+  }
+
+  // Flow drafts - the editor saves here, flow_nodes/flow_edges only change on publish
+  const flowColumns = [
+    'draft TEXT',
+    'published_version INTEGER',
+    // Concurrency rules - higher priority is checked first, stop_other_flows ends the search on a match
+    'priority INTEGER DEFAULT 0',
+    'stop_other_flows INTEGER DEFAULT 1',
+    'cooldown_minutes INTEGER DEFAULT 0',
+    'max_executions_per_contact INTEGER DEFAULT 0',
+    'skip_human_handled INTEGER DEFAULT 0'
+  ];
+  for (const column of flowColumns) {
+    try {
+      db.exec(`ALTER TABLE flows ADD COLUMN ${column};`);
+    } catch (e) {
+      // Column already exists
+    }
+  }
+
+  // Quick replies in the Inbox count how often each template is sent
+  const messageTemplateColumns = [
+    'usage_count INTEGER DEFAULT 0',
+    'last_used_at DATETIME'
+  ];
+  for (const column of messageTemplateColumns) {
+    try {
+      db.exec(`ALTER TABLE message_templates ADD COLUMN ${column};`);
+    } catch (e) {
+      // Column already exists
+    }
+  }
+
+  // Last time someone replied from the Inbox - flows can leave chats a human is handling alone
+  try {
+    db.exec(`ALTER TABLE chats ADD COLUMN last_human_reply_at DATETIME;`);
+  } catch (e) {
+    // Column already exists
+  }
+
+  // Team inbox - the agent a chat is assigned to, snoozing and pinning
+  const chatTeamColumns = [
+    'assigned_to TEXT',
+    'snoozed_until DATETIME',
+    'is_pinned INTEGER DEFAULT 0'
+  ];
+  for (const column of chatTeamColumns) {
+    try {
+      db.exec(`ALTER TABLE chats ADD COLUMN ${column};`);
+    } catch (e) {
+      // Column already exists
+    }
+  }
+
   // Add send_mode to campaigns ('web' = WhatsApp Web, 'cloud_phone' = DuoPlus cloud phone)
   try {
     db.exec(`ALTER TABLE campaigns ADD COLUMN send_mode TEXT DEFAULT 'web';`);
@@ -694,6 +1031,43 @@ export async function initDatabase() {
     console.log('ℹ️ BlackList tag setup:', e);
   }
 
+  // One-time migration: contacts tagged BlackList become entries on the suppression list
+  try {
+    const migrationId = 'backfill_suppressions_from_blacklist_2026_10_19';
+    const migrationExists = db.prepare(`SELECT id FROM migrations WHERE id = ?`).get(migrationId);
+
+    if (!migrationExists) {
+      const { v4: uuidv4 } = require('uuid');
+      const blacklisted = db.prepare(`
+        SELECT c.phone_number, c.name, ct.tagged_at
+        FROM contacts c
+        JOIN contact_tags ct ON ct.contact_id = c.id
+        JOIN tags t ON t.id = ct.tag_id
+        WHERE t.name = 'BlackList'
+      `).all() as any[];
+
+      const insertStmt = db.prepare(`
+        INSERT OR IGNORE INTO suppressions (id, phone_number, phone_key, name, source, created_at)
+        VALUES (?, ?, ?, ?, 'manual', ?)
+      `);
+
+      let backfilled = 0;
+      db.transaction(() => {
+        for (const row of blacklisted) {
+          const digits = String(row.phone_number || '').replace(/\D/g, '');
+          if (digits.length < 6) continue;
+          const result = insertStmt.run(uuidv4(), digits, digits.slice(-9), row.name || null, row.tagged_at || new Date().toISOString());
+          backfilled += result.changes;
+        }
+        db.prepare(`INSERT INTO migrations (id) VALUES (?)`).run(migrationId);
+      })();
+
+      console.log(`✅ Migration completed: ${backfilled} BlackList contacts added to the suppression list`);
+    }
+  } catch (e) {
+    console.log('ℹ️ Suppression backfill error:', e);
+  }
+
   // One-time migration: Create chats from existing messages
   try {
     const migrationId = 'create_chats_from_messages_2026_02_26';
@@ -778,7 +1152,7 @@ export async function initDatabase() {
           
           db.prepare(`
             INSERT OR IGNORE INTO chats (id, contact_id, account_id, phone_number, status, name, last_message_at)
-            VALUES (?, ?, ?, ?, 'unhandled', ?, ?)
+            VALUES (?, ?, ?, ?, 'open', ?, ?)
           `).run(chatId, contact.id, chat.account_id, otherNumber, chatName, lastMsg?.last_ts || null);
           
           // Update all messages with this chat_id + account_id to point to the new software chat
@@ -800,6 +1174,63 @@ export async function initDatabase() {
     console.log('ℹ️ Chat migration error:', e);
   }
 
+  // One-time migration: handled/unhandled chats move to the open/pending/snoozed/closed lifecycle
+  try {
+    const migrationId = 'chat_status_lifecycle_2026_10_19';
+    if (!db.prepare(`SELECT id FROM migrations WHERE id = ?`).get(migrationId)) {
+      const result = db.prepare(`
+        UPDATE chats SET status = CASE WHEN status = 'handled' THEN 'closed' ELSE 'open' END
+        WHERE status IS NULL OR status NOT IN ('open', 'pending', 'snoozed', 'closed')
+      `).run();
+      db.prepare(`INSERT INTO migrations (id) VALUES (?)`).run(migrationId);
+      console.log(`✅ Migration completed: ${result.changes} chats moved to the new status lifecycle`);
+    }
+  } catch (e) {
+    console.log('ℹ️ Chat status migration error:', e);
+  }
+
+  // Full-text index of Inbox messages (text and media file names) - kept in sync by triggers.
+  // It reads the columns from messages by rowid, which is stable because messages are never VACUUMed or REPLACEd.
+  try {
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+        message_text,
+        media_filename,
+        content = 'messages',
+        content_rowid = 'rowid',
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+        INSERT INTO messages_fts (rowid, message_text, media_filename)
+        VALUES (new.rowid, new.message_text, new.media_filename);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+        INSERT INTO messages_fts (messages_fts, rowid, message_text, media_filename)
+        VALUES ('delete', old.rowid, old.message_text, old.media_filename);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF message_text, media_filename ON messages BEGIN
+        INSERT INTO messages_fts (messages_fts, rowid, message_text, media_filename)
+        VALUES ('delete', old.rowid, old.message_text, old.media_filename);
+        INSERT INTO messages_fts (rowid, message_text, media_filename)
+        VALUES (new.rowid, new.message_text, new.media_filename);
+      END;
+    `);
+
+    // Messages stored before the index existed
+    const migrationId = 'messages_fts_rebuild_2026_10_19';
+    if (!db.prepare(`SELECT id FROM migrations WHERE id = ?`).get(migrationId)) {
+      console.log('🔄 Building the message search index...');
+      db.exec(`INSERT INTO messages_fts (messages_fts) VALUES ('rebuild');`);
+      db.prepare(`INSERT INTO migrations (id) VALUES (?)`).run(migrationId);
+      console.log('✅ Message search index built');
+    }
+  } catch (e) {
+    console.log('ℹ️ Message search index error:', e);
+  }
+
   console.log('Database initialized at:', dbPath);
 }
 
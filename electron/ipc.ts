@@ -1,7 +1,7 @@
 import { ipcMain, app, BrowserWindow } from 'electron';
 import { getDatabase } from './database/index';
 import { v4 as uuidv4 } from 'uuid';
-import type { Account, Campaign, Contact, Tag, Message } from '../src/types';
+import type { Account, AccountQuotas, Campaign, Contact, ContactSegment, CreateScheduledMessageInput, FlowSimulationInput, MessageReaction, MessageSearchFilters, SegmentRules, Tag, Message, StatsDeliveryBreakdownRow, StatsVariantRow, UpdateScheduledMessageInput } from '../src/types';
 import { WhatsAppManager } from './services/WhatsAppManager';
 import { CampaignScheduler } from './services/CampaignScheduler';
 import { WarmUpService } from './services/WarmUpService';
@@ -11,7 +11,19 @@ import { ScheduledCampaignChecker } from './services/ScheduledCampaignChecker';
 import { FlowEngine } from './services/FlowEngine';
 import { GroupCampaignScheduler } from './services/GroupCampaignScheduler';
 import { DuoPlusManager } from './services/DuoPlusManager';
+import { ReplyAttributionService } from './services/ReplyAttributionService';
+import { SegmentService } from './services/SegmentService';
+import { ContactTimelineService } from './services/ContactTimelineService';
+import { SuppressionService } from './services/SuppressionService';
+import { ContactService } from './services/ContactService';
+import { AccountHealthService } from './services/AccountHealthService';
+import { AccountQuotaService } from './services/AccountQuotaService';
+import { FlowVersionService } from './services/FlowVersionService';
+import { FlowWebhookServer } from './services/FlowWebhookServer';
+import { MessageSearchService } from './services/MessageSearchService';
+import { ScheduledMessageService } from './services/ScheduledMessageService';
 import { logger } from './logger';
+import { renderTemplate, buildContactVariables } from '../src/lib/template';
 import * as XLSX from 'xlsx';
 import fs from 'fs';
 import path from 'path';
@@ -20,11 +32,22 @@ let whatsappManager: WhatsAppManager;
 let campaignScheduler: CampaignScheduler;
 let warmUpService: WarmUpService;
 let inboxManager: InboxManager;
+let scheduledMessages: ScheduledMessageService;
 let licenseManager: LicenseManager;
 let scheduledCampaignChecker: ScheduledCampaignChecker;
 let flowEngine: FlowEngine;
 let groupCampaignScheduler: GroupCampaignScheduler;
 let duoplusManager: DuoPlusManager;
+let replyAttribution: ReplyAttributionService;
+let segmentService: SegmentService;
+let contactTimeline: ContactTimelineService;
+let suppressionService: SuppressionService;
+let contactService: ContactService;
+let accountHealth: AccountHealthService;
+let accountQuota: AccountQuotaService;
+let flowVersions: FlowVersionService;
+let flowWebhookServer: FlowWebhookServer;
+let messageSearch: MessageSearchService;
 
 // Helper function to normalize phone numbers for matching
 function normalizePhoneForMatching(phone: string): string[] {
@@ -59,6 +82,18 @@ function normalizePhoneForMatching(phone: string): string[] {
   return [...new Set(variants)]; // Remove duplicates
 }
 
+// Flow run settings as stored - whole non-negative numbers and 0/1 flags
+function normalizeFlowSettings(flowData: any) {
+  const toCount = (value: unknown) => Math.max(0, Math.floor(Number(value) || 0));
+  return {
+    priority: Math.floor(Number(flowData.priority) || 0),
+    stop_other_flows: flowData.stop_other_flows === false ? 0 : 1,
+    cooldown_minutes: toCount(flowData.cooldown_minutes),
+    max_executions_per_contact: toCount(flowData.max_executions_per_contact),
+    skip_human_handled: flowData.skip_human_handled ? 1 : 0
+  };
+}
+
 // Helper function to log activity
 function logActivity(db: any, type: string, message: string, relatedId?: string) {
   try {
@@ -72,6 +107,34 @@ function logActivity(db: any, type: string, message: string, relatedId?: string)
   }
 }
 
+// A reply sent from the Inbox - flows set to leave human-handled chats alone skip this chat for a while
+function markHumanReply(db: any, accountId: string, to: string) {
+  try {
+    const fromMessages = db.prepare(`
+      SELECT software_chat_id FROM messages
+      WHERE account_id = ? AND chat_id = ? AND software_chat_id IS NOT NULL
+      ORDER BY timestamp DESC
+      LIMIT 1
+    `).get(accountId, to) as { software_chat_id: string } | undefined;
+
+    const timestamp = new Date().toISOString();
+    if (fromMessages) {
+      db.prepare('UPDATE chats SET last_human_reply_at = ? WHERE id = ?').run(timestamp, fromMessages.software_chat_id);
+      return;
+    }
+
+    const digits = to.replace(/\D/g, '');
+    if (digits.length < 9) return;
+    db.prepare(`
+      UPDATE chats SET last_human_reply_at = ?
+      WHERE account_id = ?
+        AND SUBSTR(REPLACE(REPLACE(REPLACE(phone_number, '-', ''), ' ', ''), '+', ''), -9) = ?
+    `).run(timestamp, accountId, digits.slice(-9));
+  } catch (error) {
+    console.error('Failed to mark human reply:', error);
+  }
+}
+
 function parseSourceTagIds(sourceTagIds: unknown): string[] {
   if (Array.isArray(sourceTagIds)) {
     return sourceTagIds.filter((tagId): tagId is string => typeof tagId === 'string' && tagId.trim().length > 0);
@@ -120,6 +183,60 @@ function serializeMessageVariants(messageVariants: unknown): string | null {
   return normalized.length > 0 ? JSON.stringify(normalized) : null;
 }
 
+// Same pool CampaignScheduler picks from - campaign_contacts.variant_index points into it
+function getCampaignMessagePool(campaign: { message: string; message_variants?: unknown }): string[] {
+  const pool = [campaign.message, ...parseMessageVariants(campaign.message_variants)].filter(
+    (variant): variant is string => typeof variant === 'string' && variant.trim().length > 0
+  );
+  return pool.length > 0 ? pool : [campaign.message];
+}
+
+// Human-readable whatsapp-web.js message_ack level of a campaign send
+function describeMessageAck(ack: number | null | undefined): string {
+  switch (ack) {
+    case -1: return 'error';
+    case 0: return 'pending';
+    case 1: return 'server';
+    case 2: return 'delivered';
+    case 3: return 'read';
+    case 4: return 'played';
+    default: return '-';
+  }
+}
+
+function toPercent(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+}
+
+// Groups sent campaign_contacts rows and computes delivered/read rates per group. Only sends with a
+// recorded ack count, so rows sent before delivery tracking existed don't drag the rates down.
+function buildDeliveryBreakdown(
+  rows: any[],
+  getGroup: (row: any) => { id: string; label: string } | null
+): StatsDeliveryBreakdownRow[] {
+  const groups = new Map<string, StatsDeliveryBreakdownRow>();
+
+  for (const row of rows) {
+    if (row.status !== 'sent' || row.ack === null || row.ack === undefined) continue;
+    const group = getGroup(row);
+    if (!group) continue;
+
+    if (!groups.has(group.id)) {
+      groups.set(group.id, { ...group, sent: 0, delivered: 0, read: 0, deliveryRate: 0, readRate: 0 });
+    }
+    const bucket = groups.get(group.id)!;
+    bucket.sent++;
+    if (row.ack >= 2) bucket.delivered++;
+    if (row.ack >= 3) bucket.read++;
+  }
+
+  return [...groups.values()].map(bucket => ({
+    ...bucket,
+    deliveryRate: toPercent(bucket.delivered, bucket.sent),
+    readRate: toPercent(bucket.read, bucket.sent)
+  }));
+}
+
 function normalizeCampaignRow(campaign: any): Campaign | null {
   if (!campaign) {
     return null;
@@ -131,7 +248,8 @@ function normalizeCampaignRow(campaign: any): Campaign | null {
     send_mode: campaign.send_mode === 'cloud_phone' ? 'cloud_phone' : 'web',
     skip_recent_contacts: Boolean(campaign.skip_recent_contacts),
     source_tag_ids: parseSourceTagIds(campaign.source_tag_ids),
-    message_variants: parseMessageVariants(campaign.message_variants)
+    message_variants: parseMessageVariants(campaign.message_variants),
+    ab_auto_winner: Boolean(campaign.ab_auto_winner)
   };
 }
 
@@ -145,16 +263,32 @@ async function initializeServices() {
   console.log('🚀 Initializing WhatsApp and Campaign services...');
   whatsappManager = new WhatsAppManager(db);
   campaignScheduler = new CampaignScheduler(db, whatsappManager, duoplusManager);
+  campaignScheduler.setSegmentService(segmentService);
+  campaignScheduler.setAccountHealthService(accountHealth);
+  campaignScheduler.setAccountQuotaService(accountQuota);
   warmUpService = new WarmUpService(db, whatsappManager);
-  inboxManager = new InboxManager(db, whatsappManager);
+  warmUpService.setAccountQuotaService(accountQuota);
+  inboxManager.setWhatsAppManager(whatsappManager);
+  scheduledMessages.setWhatsAppManager(whatsappManager);
+  scheduledMessages.start(); // sends Inbox messages scheduled for later, including ones that came due while the app was closed
   
   // Initialize Flow Engine
   flowEngine = new FlowEngine(db, whatsappManager);
   whatsappManager.setFlowEngine(flowEngine);
+  flowEngine.setSuppressionService(suppressionService);
+  flowEngine.setSegmentService(segmentService);
+  flowEngine.setContactService(contactService);
+  flowEngine.setInboxManager(inboxManager);
+  flowEngine.start(); // times out flows waiting for a reply (including ones paused before a restart) and runs scheduled triggers
+  // Local endpoint for flows with an inbound webhook trigger
+  flowWebhookServer = new FlowWebhookServer(db, flowEngine);
+  flowWebhookServer.start();
   console.log('🤖 FlowEngine initialized');
 
   // Wire campaign scheduler so accounts trigger campaign resume on ready
   whatsappManager.setCampaignScheduler(campaignScheduler);
+  whatsappManager.setReplyAttribution(replyAttribution);
+  whatsappManager.setSuppressionService(suppressionService);
   
   // Initialize and start scheduled campaign checker (runs every hour)
   scheduledCampaignChecker = new ScheduledCampaignChecker(db, campaignScheduler);
@@ -162,8 +296,12 @@ async function initializeServices() {
 
   // Initialize and start the recurring group campaign scheduler (checks every minute)
   groupCampaignScheduler = new GroupCampaignScheduler(db, whatsappManager);
+  groupCampaignScheduler.setAccountQuotaService(accountQuota);
   groupCampaignScheduler.start();
 
+  // Hourly account health snapshots (scores themselves are computed on demand)
+  accountHealth.start();
+
   servicesInitialized = true;
   console.log('✅ All services initialized');
 }
@@ -174,6 +312,25 @@ export function setupIPCHandlers() {
   // DuoPlus manager is lightweight (just reads/writes the `settings` table and
   // calls the DuoPlus REST API) so it doesn't need to wait for license validation.
   duoplusManager = new DuoPlusManager(db);
+  // Reply attribution settings are edited from the Settings page, before services start
+  replyAttribution = new ReplyAttributionService(db);
+  // Segments are built and previewed from the Contacts page, before services start
+  segmentService = new SegmentService(db);
+  contactTimeline = new ContactTimelineService(db);
+  // The suppression list is managed from Contacts/Settings, before services start
+  suppressionService = new SuppressionService(db);
+  // Tags, custom fields and campaign enrollment - shared with flow actions
+  contactService = new ContactService(db, suppressionService);
+  accountHealth = new AccountHealthService(db);
+  // Quotas are edited and their remaining budget shown on the Accounts page, before services start
+  accountQuota = new AccountQuotaService(db);
+  // Flow drafts and versions are edited in the FlowEditor, before services start
+  flowVersions = new FlowVersionService(db);
+  messageSearch = new MessageSearchService(db);
+  // Chat status, assignment and internal notes are managed from the Inbox, before services start
+  inboxManager = new InboxManager(db);
+  // Messages are scheduled, edited and cancelled from the Inbox, before services start
+  scheduledMessages = new ScheduledMessageService(db);
 
   // Initialize only license manager (lightweight)
   licenseManager = new LicenseManager();
@@ -341,6 +498,22 @@ export function setupIPCHandlers() {
     stmt.run(deviceId || null, id);
   });
 
+  ipcMain.handle('accounts:getHealth', async (_event, id: string) => {
+    return {
+      health: accountHealth.getHealth(id, true),
+      history: accountHealth.getHistory(id)
+    };
+  });
+
+  ipcMain.handle('accounts:getQuotaBudgets', async () => {
+    return accountQuota.getAllBudgets();
+  });
+
+  ipcMain.handle('accounts:setQuotas', async (_event, id: string, quotas: AccountQuotas) => {
+    accountQuota.saveQuotas(id, quotas);
+    return accountQuota.getBudget(id);
+  });
+
   // ==================== DUOPLUS HANDLERS ====================
   ipcMain.handle('duoplus:getSettings', async () => {
     return duoplusManager.getSettings();
@@ -355,6 +528,15 @@ export function setupIPCHandlers() {
     return status || null;
   });
 
+  // ==================== REPLY ATTRIBUTION HANDLERS ====================
+  ipcMain.handle('replyAttribution:getSettings', async () => {
+    return replyAttribution.getSettings();
+  });
+
+  ipcMain.handle('replyAttribution:saveSettings', async (_event, settings: any) => {
+    replyAttribution.saveSettings(settings);
+  });
+
   // ==================== CAMPAIGN HANDLERS ====================
   ipcMain.handle('campaigns:getAll', async () => {
     const stmt = db.prepare('SELECT * FROM campaigns ORDER BY created_at DESC');
@@ -375,8 +557,8 @@ export function setupIPCHandlers() {
     const mediaCaption = sendMode === 'cloud_phone' ? null : (data.media_caption || null);
 
     const stmt = db.prepare(`
-      INSERT INTO campaigns (id, name, message, campaign_type, min_delay, max_delay, max_messages_per_day, start_hour, end_hour, media_path, media_type, media_caption, scheduled_start_datetime, messages_before_break, break_duration, skip_recent_contacts, skip_recent_days, target_group_id, target_group_name, group_source_account_id, source_tag_ids, message_variants, send_mode)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO campaigns (id, name, message, campaign_type, min_delay, max_delay, max_messages_per_day, start_hour, end_hour, media_path, media_type, media_caption, scheduled_start_datetime, messages_before_break, break_duration, skip_recent_contacts, skip_recent_days, target_group_id, target_group_name, group_source_account_id, source_tag_ids, message_variants, send_mode, ab_auto_winner, ab_sample_size, ab_evaluation_hours, segment_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
     stmt.run(
@@ -402,7 +584,11 @@ export function setupIPCHandlers() {
       data.group_source_account_id || null,
       serializeSourceTagIds(data.source_tag_ids),
       serializeMessageVariants(data.message_variants),
-      sendMode
+      sendMode,
+      data.ab_auto_winner ? 1 : 0,
+      data.ab_sample_size || 50,
+      data.ab_evaluation_hours ?? 4,
+      data.segment_id || null
     );
 
     const getStmt = db.prepare('SELECT * FROM campaigns WHERE id = ?');
@@ -543,6 +729,25 @@ export function setupIPCHandlers() {
       updates.push('message_variants = ?');
       values.push(serializeMessageVariants(data.message_variants));
     }
+
+    // A/B testing
+    if (data.ab_auto_winner !== undefined) {
+      updates.push('ab_auto_winner = ?');
+      values.push(data.ab_auto_winner ? 1 : 0);
+    }
+    if (data.ab_sample_size !== undefined) {
+      updates.push('ab_sample_size = ?');
+      values.push(data.ab_sample_size);
+    }
+    if (data.ab_evaluation_hours !== undefined) {
+      updates.push('ab_evaluation_hours = ?');
+      values.push(data.ab_evaluation_hours);
+    }
+
+    if (data.segment_id !== undefined) {
+      updates.push('segment_id = ?');
+      values.push(data.segment_id || null);
+    }
     
     // Scheduling
     if (data.scheduled_start_datetime !== undefined) {
@@ -609,11 +814,23 @@ export function setupIPCHandlers() {
         COUNT(*) as total,
         SUM(CASE WHEN status = 'sent' THEN 1 ELSE 0 END) as sent,
         SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END) as pending,
-        SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed
+        SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed,
+        SUM(CASE WHEN status = 'sent' AND ack >= 2 THEN 1 ELSE 0 END) as delivered,
+        SUM(CASE WHEN status = 'sent' AND ack >= 3 THEN 1 ELSE 0 END) as read,
+        SUM(CASE WHEN status = 'sent' AND replied_at IS NOT NULL THEN 1 ELSE 0 END) as replied
       FROM campaign_contacts
       WHERE campaign_id = ?
     `);
-    return stmt.get(id);
+    const stats = stmt.get(id) as any;
+
+    // Per-variant results for A/B testing
+    const variantRows = db.prepare(`
+      SELECT campaign_id, status, variant_index, ack, replied_at
+      FROM campaign_contacts
+      WHERE campaign_id = ? AND variant_index IS NOT NULL
+    `).all(id) as any[];
+
+    return { ...stats, variants: getVariantBreakdown(variantRows) };
   });
 
   ipcMain.handle('campaigns:exportReport', async (_event, campaignId: string) => {
@@ -659,6 +876,9 @@ export function setupIPCHandlers() {
     // Create Excel workbook
     const workbook = XLSX.utils.book_new();
     
+    const isGroupAdder = campaign.campaign_type === 'group_adder';
+    const messagePool = getCampaignMessagePool(campaign);
+
     // Prepare data for Excel
     const excelData = contacts.map((contact: any) => ({
       'Phone Number': contact.phone_number,
@@ -666,9 +886,17 @@ export function setupIPCHandlers() {
       'Status': contact.status,
       'Processed By': contact.account_name || contact.account_phone || '-',
       'Processed At': contact.sent_at ? new Date(contact.sent_at).toLocaleString() : '-',
-      'Campaign Type': campaign.campaign_type === 'group_adder' ? 'Group Adder' : 'Message',
+      'Campaign Type': isGroupAdder ? 'Group Adder' : 'Message',
       'Target Group': campaign.target_group_name || campaign.target_group_id || '-',
-      'Action': campaign.campaign_type === 'group_adder' ? `Add to ${campaign.target_group_name || campaign.target_group_id || 'group'}` : campaign.message,
+      'Action': isGroupAdder
+        ? `Add to ${campaign.target_group_name || campaign.target_group_id || 'group'}`
+        : (messagePool[contact.variant_index] ?? campaign.message),
+      'Message Variant': contact.variant_index !== null && contact.variant_index !== undefined ? `#${contact.variant_index + 1}` : '-',
+      'WhatsApp Status': describeMessageAck(contact.ack),
+      'Delivered At': contact.delivered_at ? new Date(contact.delivered_at).toLocaleString() : '-',
+      'Read At': contact.read_at ? new Date(contact.read_at).toLocaleString() : '-',
+      'Replied At': contact.replied_at ? new Date(contact.replied_at).toLocaleString() : '-',
+      'Reply Time (min)': contact.reply_latency_seconds !== null && contact.reply_latency_seconds !== undefined ? Math.round(contact.reply_latency_seconds / 60) : '-',
       'Result Code': contact.result_code || '-',
       'Error': contact.error || '-'
     }));
@@ -677,6 +905,10 @@ export function setupIPCHandlers() {
     
     // Add worksheet to workbook
     XLSX.utils.book_append_sheet(workbook, worksheet, 'Campaign Report');
+
+    if (!isGroupAdder) {
+      appendBreakdownSheets(workbook, contacts as any[]);
+    }
     
     // Generate Excel file
     const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
@@ -688,26 +920,7 @@ export function setupIPCHandlers() {
   });
 
   ipcMain.handle('campaigns:addContacts', async (_event, id: string, contacts: { phone_number: string }[]) => {
-    const stmt = db.prepare(`
-      INSERT OR IGNORE INTO campaign_contacts (id, campaign_id, phone_number, retry_count)
-      VALUES (?, ?, ?, 0)
-    `);
-
-    const uniqueContacts = Array.from(
-      new Set(
-        contacts
-          .map(contact => contact.phone_number?.trim())
-          .filter((phoneNumber): phoneNumber is string => Boolean(phoneNumber))
-      )
-    ).map(phone_number => ({ phone_number }));
-
-    const insertMany = db.transaction((contactList: { phone_number: string }[]) => {
-      for (const contact of contactList) {
-        stmt.run(uuidv4(), id, contact.phone_number);
-      }
-    });
-
-    insertMany(uniqueContacts);
+    contactService.addToCampaign(id, contacts.map(contact => contact.phone_number));
   });
 
   ipcMain.handle('campaigns:getContacts', async (_event, id: string) => {
@@ -748,28 +961,7 @@ export function setupIPCHandlers() {
   });
 
   ipcMain.handle('campaigns:setContacts', async (_event, campaignId: string, contacts: { phone_number: string }[]) => {
-    const deleteStmt = db.prepare(`DELETE FROM campaign_contacts WHERE campaign_id = ?`);
-    const insertStmt = db.prepare(`
-      INSERT OR IGNORE INTO campaign_contacts (id, campaign_id, phone_number, retry_count)
-      VALUES (?, ?, ?, 0)
-    `);
-
-    const uniqueContacts = Array.from(
-      new Set(
-        contacts
-          .map(contact => contact.phone_number?.trim())
-          .filter((phoneNumber): phoneNumber is string => Boolean(phoneNumber))
-      )
-    ).map(phone_number => ({ phone_number }));
-
-    const replaceContacts = db.transaction((contactList: { phone_number: string }[]) => {
-      deleteStmt.run(campaignId);
-      for (const contact of contactList) {
-        insertStmt.run(uuidv4(), campaignId, contact.phone_number);
-      }
-    });
-
-    replaceContacts(uniqueContacts);
+    campaignScheduler.setCampaignContacts(campaignId, contacts);
   });
 
   ipcMain.handle('campaigns:getAccounts', async (_event, campaignId: string) => {
@@ -871,6 +1063,10 @@ export function setupIPCHandlers() {
     return stmt.get(id);
   });
 
+  ipcMain.handle('contacts:getTimeline', async (_event, phoneNumber: string) => {
+    return contactTimeline.getTimeline(phoneNumber);
+  });
+
   ipcMain.handle('contacts:create', async (_event, data: Partial<Contact>) => {
     const id = uuidv4();
     const stmt = db.prepare(`
@@ -901,16 +1097,15 @@ export function setupIPCHandlers() {
       updates.push('phone_number = ?');
       values.push(data.phone_number);
     }
-    if (data.custom_fields !== undefined) {
-      updates.push('custom_fields = ?');
-      values.push(JSON.stringify(data.custom_fields));
-    }
 
     if (updates.length > 0) {
       values.push(id);
       const stmt = db.prepare(`UPDATE contacts SET ${updates.join(', ')} WHERE id = ?`);
       stmt.run(...values);
     }
+    if (data.custom_fields !== undefined) {
+      contactService.setCustomFields(id, data.custom_fields || {});
+    }
   });
 
   ipcMain.handle('contacts:delete', async (_event, id: string) => {
@@ -1115,39 +1310,15 @@ export function setupIPCHandlers() {
     return result.filePaths[0];
   });
 
-  // Get blacklist count
+  // Get blacklist count - everyone on the suppression list, saved as a contact or not
   ipcMain.handle('contacts:getBlacklistCount', async () => {
-    const stmt = db.prepare(`
-      SELECT COUNT(DISTINCT c.id) as count
-      FROM contacts c
-      JOIN contact_tags ct ON c.id = ct.contact_id
-      JOIN tags t ON ct.tag_id = t.id
-      WHERE t.name = 'BlackList'
-    `);
-    const result = stmt.get() as any;
+    const result = db.prepare('SELECT COUNT(*) as count FROM suppressions').get() as any;
     return result?.count || 0;
   });
 
-  // Check if phone number is in blacklist (checks all formats)
+  // Check if phone number is in blacklist (suppression list, matched by the last 9 digits)
   ipcMain.handle('contacts:isInBlacklist', async (_event, phoneNumber: string) => {
-    const phoneVariants = normalizePhoneForMatching(phoneNumber);
-    
-    // Build dynamic query with all variants
-    const placeholders = phoneVariants.map(() => 
-      'REPLACE(REPLACE(REPLACE(c.phone_number, \'-\', \'\'), \' \', \'\'), \'+\', \'\') = ?'
-    ).join(' OR ');
-    
-    const stmt = db.prepare(`
-      SELECT COUNT(*) as count
-      FROM contacts c
-      JOIN contact_tags ct ON c.id = ct.contact_id
-      JOIN tags t ON ct.tag_id = t.id
-      WHERE t.name = 'BlackList'
-        AND (${placeholders})
-    `);
-    
-    const result = stmt.get(...phoneVariants) as any;
-    return (result?.count || 0) > 0;
+    return suppressionService.isSuppressed(phoneNumber);
   });
 
   // Find contact by phone number (checks all formats)
@@ -1468,7 +1639,8 @@ export function setupIPCHandlers() {
     `);
     
     const createTagStmt = db.prepare('INSERT OR IGNORE INTO tags (id, name) VALUES (?, ?)');
-    const linkTagStmt = db.prepare('INSERT OR IGNORE INTO contact_tags (contact_id, tag_id) VALUES (?, ?)');
+    const linkTagStmt = db.prepare('INSERT OR IGNORE INTO contact_tags (contact_id, tag_id, tagged_at) VALUES (?, ?, ?)');
+    const importedAt = new Date().toISOString();
 
     // Process in chunks with a single transaction per chunk
     const CHUNK_SIZE = 2000;
@@ -1561,7 +1733,11 @@ export function setupIPCHandlers() {
               
               const contact = existingContactsCache.get(phoneNumber);
               if (contact) {
-                linkTagStmt.run(contact.id, tagId);
+                linkTagStmt.run(contact.id, tagId, importedAt);
+                // A BlackList column in the import is an opt-out list
+                if (tagName === 'BlackList') {
+                  suppressionService.suppress(phoneNumber, { source: 'import', name: name || null });
+                }
               }
             }
           }
@@ -1591,17 +1767,195 @@ export function setupIPCHandlers() {
     };
   });
 
+  // The BlackList tag mirrors the suppression list - ContactService keeps them in step
   ipcMain.handle('contacts:addTag', async (_event, contactId: string, tagId: string) => {
-    const stmt = db.prepare(`
-      INSERT OR IGNORE INTO contact_tags (contact_id, tag_id)
-      VALUES (?, ?)
-    `);
-    stmt.run(contactId, tagId);
+    const added = contactService.addTag(contactId, tagId);
+
+    // Flows with a "tag added" trigger start for the contact (bulk imports don't trigger them)
+    if (added && flowEngine) {
+      const contact = db.prepare('SELECT phone_number, name FROM contacts WHERE id = ?').get(contactId) as { phone_number: string; name: string | null } | undefined;
+      if (contact) {
+        flowEngine.triggerFlows({ type: 'tag_added', phone: contact.phone_number, name: contact.name, tagId });
+      }
+    }
   });
 
   ipcMain.handle('contacts:removeTag', async (_event, contactId: string, tagId: string) => {
-    const stmt = db.prepare('DELETE FROM contact_tags WHERE contact_id = ? AND tag_id = ?');
-    stmt.run(contactId, tagId);
+    contactService.removeTag(contactId, tagId);
+  });
+
+  // ==================== SEGMENT HANDLERS ====================
+  const normalizeSegmentRow = (row: any): ContactSegment => {
+    const rules = segmentService.parseRules(row.rules);
+    return {
+      ...row,
+      rules,
+      contact_count: segmentService.countContacts(rules)
+    };
+  };
+
+  ipcMain.handle('segments:getAll', async () => {
+    const rows = db.prepare('SELECT * FROM contact_segments ORDER BY name').all() as any[];
+    return rows.map(normalizeSegmentRow);
+  });
+
+  ipcMain.handle('segments:create', async (_event, data: { name: string; description?: string; rules: SegmentRules }) => {
+    const id = uuidv4();
+    db.prepare(`
+      INSERT INTO contact_segments (id, name, description, rules)
+      VALUES (?, ?, ?, ?)
+    `).run(id, data.name, data.description || null, JSON.stringify(segmentService.parseRules(data.rules)));
+
+    logActivity(db, 'contact', `Segment "${data.name}" created`, id);
+    return normalizeSegmentRow(db.prepare('SELECT * FROM contact_segments WHERE id = ?').get(id));
+  });
+
+  ipcMain.handle('segments:update', async (_event, id: string, data: Partial<ContactSegment>) => {
+    const updates: string[] = [];
+    const values: any[] = [];
+
+    if (data.name !== undefined) {
+      updates.push('name = ?');
+      values.push(data.name);
+    }
+    if (data.description !== undefined) {
+      updates.push('description = ?');
+      values.push(data.description || null);
+    }
+    if (data.rules !== undefined) {
+      updates.push('rules = ?');
+      values.push(JSON.stringify(segmentService.parseRules(data.rules)));
+    }
+
+    if (updates.length > 0) {
+      updates.push('updated_at = CURRENT_TIMESTAMP');
+      values.push(id);
+      db.prepare(`UPDATE contact_segments SET ${updates.join(', ')} WHERE id = ?`).run(...values);
+    }
+  });
+
+  ipcMain.handle('segments:delete', async (_event, id: string) => {
+    db.prepare('DELETE FROM contact_segments WHERE id = ?').run(id);
+  });
+
+  ipcMain.handle('segments:preview', async (_event, rules: SegmentRules) => {
+    const contacts = segmentService.resolveContacts(segmentService.parseRules(rules));
+    return {
+      count: contacts.length,
+      sample: contacts.slice(0, 20)
+    };
+  });
+
+  // ==================== SUPPRESSION LIST HANDLERS ====================
+  ipcMain.handle('suppressions:getAll', async (_event, search?: string) => {
+    return suppressionService.getAll(search);
+  });
+
+  ipcMain.handle('suppressions:add', async (_event, phoneNumber: string, reason?: string) => {
+    const suppression = suppressionService.suppress(phoneNumber, { source: 'manual', reason: reason?.trim() || null });
+    if (!suppression) {
+      throw new Error('Invalid phone number or group id');
+    }
+    return suppression;
+  });
+
+  ipcMain.handle('suppressions:remove', async (_event, id: string) => {
+    suppressionService.remove(id);
+  });
+
+  ipcMain.handle('suppressions:import', async () => {
+    const { dialog } = await import('electron');
+    const result = await dialog.showOpenDialog({
+      title: 'Import Suppression List',
+      properties: ['openFile'],
+      filters: [
+        { name: 'Spreadsheets', extensions: ['xlsx', 'xls', 'csv'] }
+      ]
+    });
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return null;
+    }
+
+    const workbook = XLSX.read(fs.readFileSync(result.filePaths[0]), { type: 'buffer', cellText: true });
+    const rows = XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]], {
+      raw: false,
+      defval: '',
+      blankrows: false
+    }) as Record<string, string>[];
+
+    // Same columns suppressions:export writes; otherwise fall back to the first column for numbers
+    const headers = Object.keys(rows[0] || {});
+    const phoneHeader = headers.find(h => /phone|number|mobile|טלפון|מספר|هاتف|رقم/i.test(h)) || headers[0];
+    const nameHeader = headers.find(h => /^(name|שם|الاسم|اسم)$/i.test(h.trim()));
+    const reasonHeader = headers.find(h => /reason|סיבה|سبب/i.test(h));
+
+    let imported = 0;
+    let skipped = 0;
+
+    db.transaction(() => {
+      for (const row of rows) {
+        const phoneNumber = String(row[phoneHeader] || '').trim();
+        if (!phoneNumber || suppressionService.isSuppressed(phoneNumber)) {
+          skipped++;
+          continue;
+        }
+
+        const suppression = suppressionService.suppress(phoneNumber, {
+          source: 'import',
+          name: nameHeader ? row[nameHeader] || null : null,
+          reason: reasonHeader ? row[reasonHeader] || null : null
+        });
+        if (suppression) {
+          imported++;
+        } else {
+          skipped++;
+        }
+      }
+    })();
+
+    logActivity(db, 'contacts', `Imported ${imported} numbers to the suppression list`);
+    return { imported, skipped };
+  });
+
+  ipcMain.handle('suppressions:export', async () => {
+    const { dialog } = await import('electron');
+    const defaultFileName = `suppression_list_${new Date().toISOString().split('T')[0]}.xlsx`;
+
+    const result = await dialog.showSaveDialog({
+      title: 'Export Suppression List',
+      defaultPath: path.join(app.getPath('desktop'), defaultFileName),
+      filters: [
+        { name: 'Excel Files', extensions: ['xlsx'] }
+      ]
+    });
+
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+
+    const rows = suppressionService.getAll().map(suppression => ({
+      'Phone': suppression.phone_number,
+      'Name': suppression.name || '',
+      'Source': suppression.source,
+      'Reason': suppression.reason || '',
+      'Account': suppression.account_name || '',
+      'Added At': suppression.created_at ? new Date(suppression.created_at).toLocaleString() : ''
+    }));
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), 'Suppression List');
+    fs.writeFileSync(result.filePath, XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }));
+
+    return result.filePath;
+  });
+
+  ipcMain.handle('suppressions:getKeywordSettings', async () => {
+    return suppressionService.getKeywordSettings();
+  });
+
+  ipcMain.handle('suppressions:saveKeywordSettings', async (_event, settings: any) => {
+    suppressionService.saveKeywordSettings(settings);
   });
 
   // ==================== TAG HANDLERS ====================
@@ -1918,12 +2272,33 @@ export function setupIPCHandlers() {
   // ==================== MESSAGE HANDLERS ====================
   ipcMain.handle('messages:send', async (_event, accountId: string, to: string, message: string) => {
     await whatsappManager.sendMessage(accountId, to, message, false); // Not a warmup message
+    markHumanReply(db, accountId, to);
     
     logActivity(db, 'message', `Message sent to ${to}`, accountId);
   });
 
   ipcMain.handle('messages:sendMedia', async (_event, accountId: string, to: string, filePath: string, caption?: string) => {
     await whatsappManager.sendMedia(accountId, to, filePath, caption);
+    markHumanReply(db, accountId, to);
+  });
+
+  // Quote-reply to a message (messages.id) - text, or a file with the text as caption
+  ipcMain.handle('messages:reply', async (_event, messageId: string, text: string, filePath?: string) => {
+    await whatsappManager.replyToMessage(messageId, text, filePath);
+    const original = db.prepare('SELECT account_id, chat_id FROM messages WHERE id = ?').get(messageId) as { account_id: string; chat_id: string } | undefined;
+    if (original) {
+      markHumanReply(db, original.account_id, original.chat_id);
+    }
+  });
+
+  // An empty emoji removes our reaction
+  ipcMain.handle('messages:react', async (_event, messageId: string, emoji: string) => {
+    await whatsappManager.reactToMessage(messageId, emoji);
+  });
+
+  ipcMain.handle('messages:forward', async (_event, messageId: string, targetChatId: string) => {
+    await whatsappManager.forwardMessage(messageId, targetChatId);
+    logActivity(db, 'message', `Message forwarded to chat ${targetChatId}`);
   });
 
   ipcMain.handle('messages:saveTempFile', async (_event, fileName: string, buffer: Buffer) => {
@@ -1954,11 +2329,31 @@ export function setupIPCHandlers() {
       ORDER BY timestamp ASC
     `);
     const messages = stmt.all(softwareChatId) as any[];
+
+    // Reactions, grouped by emoji, on the message they belong to
+    const reactions = db.prepare(`
+      SELECT r.message_id, r.emoji, COUNT(*) as count, MAX(r.is_from_me) as from_me
+      FROM message_reactions r
+      JOIN messages m ON m.id = r.message_id
+      WHERE m.software_chat_id = ?
+      GROUP BY r.message_id, r.emoji
+      ORDER BY MIN(r.timestamp) ASC
+    `).all(softwareChatId) as Array<{ message_id: string; emoji: string; count: number; from_me: number }>;
+    const reactionsByMessage = new Map<string, MessageReaction[]>();
+    for (const reaction of reactions) {
+      const list = reactionsByMessage.get(reaction.message_id) || [];
+      list.push({ emoji: reaction.emoji, count: reaction.count, from_me: Boolean(reaction.from_me) });
+      reactionsByMessage.set(reaction.message_id, list);
+    }
     
-    return messages;
+    return messages.map(message => ({ ...message, reactions: reactionsByMessage.get(message.id) || [] }));
+  });
+
+  ipcMain.handle('messages:search', async (_event, query: string, filters?: MessageSearchFilters) => {
+    return messageSearch.search(query, filters || {});
   });
 
-  ipcMain.handle('messages:getChats', async (_event, accountId?: string, searchQuery?: string) => {
+  ipcMain.handle('messages:getChats', async (_event, accountId?: string, searchQuery?: string, campaignId?: string) => {
     // Query chats from the chats table with unread count and last message
     let query = `
       SELECT 
@@ -1970,6 +2365,10 @@ export function setupIPCHandlers() {
         c.photo,
         c.name,
         c.last_message_at,
+        c.assigned_to,
+        c.snoozed_until,
+        c.is_pinned,
+        (SELECT COUNT(*) FROM chat_notes n WHERE n.chat_id = c.id) as notes_count,
         (SELECT COUNT(*) FROM messages m WHERE m.software_chat_id = c.id AND m.is_read = 0 AND m.is_from_me = 0) as unread_count
       FROM chats c
       WHERE 1=1
@@ -1980,9 +2379,17 @@ export function setupIPCHandlers() {
       query += ' AND c.account_id = ?';
       params.push(accountId);
     }
+
+    // Only chats where a reply was attributed to this campaign
+    if (campaignId) {
+      query += ' AND c.id IN (SELECT reply_chat_id FROM campaign_contacts WHERE campaign_id = ? AND reply_chat_id IS NOT NULL)';
+      params.push(campaignId);
+    }
     
-    query += ' ORDER BY c.last_message_at DESC';
+    // Pinned chats stay on top
+    query += ' ORDER BY c.is_pinned DESC, c.last_message_at DESC';
     
+    inboxManager.reopenExpiredSnoozes();
     const chatsStmt = db.prepare(query);
     const chats = chatsStmt.all(...params) as any[];
     
@@ -2006,6 +2413,10 @@ export function setupIPCHandlers() {
         photo: chat.photo,
         name: chat.name,
         last_message_at: chat.last_message_at,
+        assigned_to: chat.assigned_to,
+        snoozed_until: chat.snoozed_until,
+        is_pinned: Boolean(chat.is_pinned),
+        notes_count: chat.notes_count,
         unread_count: chat.unread_count,
         last_message: lastMessage ? {
           id: lastMessage.id,
@@ -2081,16 +2492,15 @@ export function setupIPCHandlers() {
   });
 
   // Update chat status (handled/unhandled) - this is a manual user action
-  ipcMain.handle('messages:markChatStatus', async (_event, softwareChatId: string, status: string) => {
-    const stmt = db.prepare(`UPDATE chats SET status = ? WHERE id = ?`);
-    stmt.run(status, softwareChatId);
+  ipcMain.handle('messages:markChatStatus', async (_event, softwareChatId: string, status: string, snoozedUntil?: string | null) => {
+    await inboxManager.markChatStatus(softwareChatId, status, snoozedUntil);
     console.log(`📝 Chat ${softwareChatId} marked as ${status}`);
   });
 
-  // Mark all chats as handled or unhandled
+  // Mark all chats as closed or reopen them
   ipcMain.handle('messages:markAllChats', async (_event, accountId: string | undefined, handled: boolean) => {
-    const status = handled ? 'handled' : 'unhandled';
-    let query = `UPDATE chats SET status = ? WHERE 1=1`;
+    const status = handled ? 'closed' : 'open';
+    let query = `UPDATE chats SET status = ?, snoozed_until = NULL${handled ? '' : ', last_human_reply_at = NULL'} WHERE 1=1`;
     const params: any[] = [status];
     
     if (accountId) {
@@ -2105,6 +2515,51 @@ export function setupIPCHandlers() {
     return result.changes;
   });
 
+  ipcMain.handle('messages:assignChat', async (_event, softwareChatId: string, agent: string | null) => {
+    inboxManager.assignChat(softwareChatId, agent);
+  });
+
+  ipcMain.handle('messages:setChatPinned', async (_event, softwareChatId: string, pinned: boolean) => {
+    inboxManager.setPinned(softwareChatId, pinned);
+  });
+
+  // Internal notes - shown to the team in the Inbox, never sent to WhatsApp
+  ipcMain.handle('messages:getChatNotes', async (_event, softwareChatId: string) => {
+    return inboxManager.getNotes(softwareChatId);
+  });
+
+  ipcMain.handle('messages:addChatNote', async (_event, softwareChatId: string, note: string, author?: string | null) => {
+    return inboxManager.addNote(softwareChatId, note, author);
+  });
+
+  ipcMain.handle('messages:deleteChatNote', async (_event, noteId: string) => {
+    inboxManager.deleteNote(noteId);
+  });
+
+  ipcMain.handle('messages:getAgents', async () => {
+    return inboxManager.getAgents();
+  });
+
+  ipcMain.handle('messages:saveAgents', async (_event, agents: string[]) => {
+    return inboxManager.saveAgents(agents);
+  });
+
+  ipcMain.handle('scheduledMessages:getByChat', async (_event, softwareChatId: string) => {
+    return scheduledMessages.getByChat(softwareChatId);
+  });
+
+  ipcMain.handle('scheduledMessages:create', async (_event, input: CreateScheduledMessageInput) => {
+    return scheduledMessages.create(input);
+  });
+
+  ipcMain.handle('scheduledMessages:update', async (_event, id: string, changes: UpdateScheduledMessageInput) => {
+    return scheduledMessages.update(id, changes);
+  });
+
+  ipcMain.handle('scheduledMessages:cancel', async (_event, id: string) => {
+    scheduledMessages.cancel(id);
+  });
+
   // Get chat photo file as buffer
   ipcMain.handle('messages:getChatPhoto', async (_event, photoPath: string) => {
     try {
@@ -2383,13 +2838,152 @@ export function setupIPCHandlers() {
     const total = rows.length;
     const successRate = total > 0 ? Math.round((sent / total) * 1000) / 10 : 0;
 
+    if (campaignType === 'group_adder') {
+      return {
+        summary: { total, sent, failed, successRate },
+        daily,
+        rows
+      };
+    }
+
+    const byAccount = getAccountDeliveryBreakdown(rows);
+    const byVariant = getVariantBreakdown(rows);
+    const tracked = byAccount.reduce((sum, row) => sum + row.sent, 0);
+    const delivered = byAccount.reduce((sum, row) => sum + row.delivered, 0);
+    const read = byAccount.reduce((sum, row) => sum + row.read, 0);
+    const repliedRows = rows.filter(row => row.status === 'sent' && row.replied_at);
+    const replied = repliedRows.length;
+    const avgReplyMinutes = replied > 0
+      ? Math.round(repliedRows.reduce((sum, row) => sum + (row.reply_latency_seconds || 0), 0) / replied / 60)
+      : 0;
+
     return {
-      summary: { total, sent, failed, successRate },
+      summary: {
+        total,
+        sent,
+        failed,
+        successRate,
+        delivered,
+        read,
+        deliveryRate: toPercent(delivered, tracked),
+        readRate: toPercent(read, tracked),
+        replied,
+        replyRate: toPercent(replied, sent),
+        avgReplyMinutes
+      },
       daily,
-      rows
+      rows,
+      byAccount,
+      byVariant
     };
   }
 
+  function getAccountDeliveryBreakdown(rows: any[]): StatsDeliveryBreakdownRow[] {
+    return buildDeliveryBreakdown(rows, row => row.sent_by_account_id
+      ? { id: row.sent_by_account_id, label: row.account_name || row.account_phone || row.sent_by_account_id }
+      : null
+    );
+  }
+
+  // Sent/failed/replied and delivery per message variant (A/B testing), across one or more campaigns
+  function getVariantBreakdown(rows: any[]): StatsVariantRow[] {
+    const campaignStmt = db.prepare('SELECT name, message, message_variants, ab_winner_index FROM campaigns WHERE id = ?');
+    const campaignsById = new Map<string, { name: string; pool: string[]; winnerIndex: number | null } | null>();
+    const variants = new Map<string, StatsVariantRow & { tracked: number }>();
+
+    for (const row of rows) {
+      if (row.variant_index === null || row.variant_index === undefined) continue;
+      if (row.status !== 'sent' && row.status !== 'failed') continue;
+
+      if (!campaignsById.has(row.campaign_id)) {
+        const campaign = campaignStmt.get(row.campaign_id) as any;
+        campaignsById.set(row.campaign_id, campaign
+          ? { name: campaign.name, pool: getCampaignMessagePool(campaign), winnerIndex: campaign.ab_winner_index ?? null }
+          : null
+        );
+      }
+      const campaign = campaignsById.get(row.campaign_id);
+      if (!campaign) continue;
+
+      const id = `${row.campaign_id}:${row.variant_index}`;
+      if (!variants.has(id)) {
+        const text = campaign.pool[row.variant_index] || '';
+        const preview = text.length > 40 ? `${text.substring(0, 40)}...` : text;
+        variants.set(id, {
+          id,
+          label: `${campaign.name} #${row.variant_index + 1}${preview ? ` - ${preview}` : ''}`,
+          campaign_id: row.campaign_id,
+          variant_index: row.variant_index,
+          isWinner: campaign.winnerIndex === row.variant_index,
+          sent: 0,
+          failed: 0,
+          replied: 0,
+          replyRate: 0,
+          delivered: 0,
+          read: 0,
+          deliveryRate: 0,
+          readRate: 0,
+          tracked: 0
+        });
+      }
+
+      const variant = variants.get(id)!;
+      if (row.status === 'failed') {
+        variant.failed++;
+        continue;
+      }
+
+      variant.sent++;
+      if (row.replied_at) variant.replied++;
+      if (row.ack !== null && row.ack !== undefined) {
+        variant.tracked++;
+        if (row.ack >= 2) variant.delivered++;
+        if (row.ack >= 3) variant.read++;
+      }
+    }
+
+    return [...variants.values()]
+      .sort((a, b) => a.campaign_id.localeCompare(b.campaign_id) || a.variant_index - b.variant_index)
+      .map(({ tracked, ...variant }) => ({
+        ...variant,
+        replyRate: toPercent(variant.replied, variant.sent),
+        deliveryRate: toPercent(variant.delivered, tracked),
+        readRate: toPercent(variant.read, tracked)
+      }));
+  }
+
+  function appendBreakdownSheets(workbook: XLSX.WorkBook, rows: any[]) {
+    const deliveryRows = getAccountDeliveryBreakdown(rows).map(item => ({
+      'Account': item.label,
+      'Sent': item.sent,
+      'Delivered': item.delivered,
+      'Read': item.read,
+      'Delivery Rate': `${item.deliveryRate}%`,
+      'Read Rate': `${item.readRate}%`
+    }));
+
+    if (deliveryRows.length > 0) {
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(deliveryRows), 'Delivery by Account');
+    }
+
+    const variantRows = getVariantBreakdown(rows).map(item => ({
+      'Variant': item.label,
+      'Sent': item.sent,
+      'Failed': item.failed,
+      'Replied': item.replied,
+      'Reply Rate': `${item.replyRate}%`,
+      'Delivered': item.delivered,
+      'Read': item.read,
+      'Delivery Rate': `${item.deliveryRate}%`,
+      'Read Rate': `${item.readRate}%`,
+      'A/B Winner': item.isWinner ? 'Yes' : '-'
+    }));
+
+    if (variantRows.length > 0) {
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(variantRows), 'Variants');
+    }
+  }
+
   ipcMain.handle('stats:getCampaignStats', async (_event, startDate: string, endDate: string, accountId?: string, campaignId?: string) => {
     return queryCampaignContactStats('message', startDate, endDate, accountId, campaignId);
   });
@@ -2546,6 +3140,14 @@ export function setupIPCHandlers() {
         'Status': r.status,
         'Processed By': r.account_name || r.account_phone || '-',
         'Processed At': r.sent_at ? new Date(r.sent_at).toLocaleString() : '-',
+        ...(type === 'campaign' ? {
+          'Message Variant': r.variant_index !== null && r.variant_index !== undefined ? `#${r.variant_index + 1}` : '-',
+          'WhatsApp Status': describeMessageAck(r.ack),
+          'Delivered At': r.delivered_at ? new Date(r.delivered_at).toLocaleString() : '-',
+          'Read At': r.read_at ? new Date(r.read_at).toLocaleString() : '-',
+          'Replied At': r.replied_at ? new Date(r.replied_at).toLocaleString() : '-',
+          'Reply Time (min)': r.reply_latency_seconds !== null && r.reply_latency_seconds !== undefined ? Math.round(r.reply_latency_seconds / 60) : '-'
+        } : {}),
         'Result Code': r.result_code || '-',
         'Error': r.error || '-'
       }));
@@ -2619,6 +3221,9 @@ export function setupIPCHandlers() {
     const workbook = XLSX.utils.book_new();
     const worksheet = XLSX.utils.json_to_sheet(excelData);
     XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
+    if (type === 'campaign') {
+      appendBreakdownSheets(workbook, rows);
+    }
     const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
     fs.writeFileSync(result.filePath, buffer);
 
@@ -2674,6 +3279,35 @@ export function setupIPCHandlers() {
     db.prepare('DELETE FROM message_templates WHERE id = ?').run(id);
   });
 
+  // Quick reply text for an Inbox chat - the template's variables filled from the chat's contact
+  ipcMain.handle('templates:renderForChat', async (_event, templateId: string, softwareChatId: string) => {
+    const db = getDatabase();
+    const template = db.prepare('SELECT message FROM message_templates WHERE id = ?').get(templateId) as { message: string } | undefined;
+    if (!template) {
+      return null;
+    }
+
+    const chat = db.prepare('SELECT contact_id, phone_number, name FROM chats WHERE id = ?').get(softwareChatId) as
+      { contact_id: string; phone_number: string; name: string | null } | undefined;
+    const contact = chat
+      ? db.prepare('SELECT name, phone_number, custom_fields FROM contacts WHERE id = ?').get(chat.contact_id) as any
+      : null;
+
+    const variables = buildContactVariables(
+      contact ? { ...contact, name: contact.name || chat?.name } : { name: chat?.name, phone_number: chat?.phone_number },
+      chat?.phone_number || ''
+    );
+    // Custom fields this contact has no value for render empty, same as in campaigns
+    const customFieldNames = (db.prepare('SELECT name FROM custom_fields').all() as { name: string }[]).map(field => field.name);
+    return renderTemplate(template.message, variables, { knownVariables: customFieldNames }).text;
+  });
+
+  ipcMain.handle('templates:markUsed', async (_event, id: string) => {
+    const db = getDatabase();
+    db.prepare('UPDATE message_templates SET usage_count = COALESCE(usage_count, 0) + 1, last_used_at = ? WHERE id = ?')
+      .run(new Date().toISOString(), id);
+  });
+
   ipcMain.handle('templates:getMediaFile', async (_event, mediaPath: string) => {
     try {
       if (!fs.existsSync(mediaPath)) {
@@ -2699,16 +3333,22 @@ export function setupIPCHandlers() {
     const id = uuidv4();
     
     const stmt = db.prepare(`
-      INSERT INTO flows (id, name, description, account_ids, is_active)
-      VALUES (?, ?, ?, ?, ?)
+      INSERT INTO flows (id, name, description, account_ids, is_active, priority, stop_other_flows, cooldown_minutes, max_executions_per_contact, skip_human_handled)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
+    const settings = normalizeFlowSettings(flowData);
     
     stmt.run(
       id,
       flowData.name,
       flowData.description || null,
       JSON.stringify(flowData.account_ids || []),
-      flowData.is_active !== undefined ? (flowData.is_active ? 1 : 0) : 1
+      flowData.is_active !== undefined ? (flowData.is_active ? 1 : 0) : 1,
+      settings.priority,
+      settings.stop_other_flows,
+      settings.cooldown_minutes,
+      settings.max_executions_per_contact,
+      settings.skip_human_handled
     );
     
     logActivity(db, 'flow', `Flow "${flowData.name}" created`, id);
@@ -2721,53 +3361,103 @@ export function setupIPCHandlers() {
     const nodes = flowData?.nodes || [];
     const edges = flowData?.edges || [];
 
-    db.prepare('UPDATE flows SET name = ?, description = ?, account_ids = ?, updated_at = ? WHERE id = ?').run(
+    const settings = normalizeFlowSettings(flowData || {});
+
+    // Run settings apply right away - only the graph waits for publish
+    db.prepare(`
+      UPDATE flows SET name = ?, description = ?, account_ids = ?, priority = ?, stop_other_flows = ?,
+        cooldown_minutes = ?, max_executions_per_contact = ?, skip_human_handled = ?, updated_at = ?
+      WHERE id = ?
+    `).run(
       flowData?.name,
       flowData?.description || null,
       JSON.stringify(flowData?.account_ids || []),
+      settings.priority,
+      settings.stop_other_flows,
+      settings.cooldown_minutes,
+      settings.max_executions_per_contact,
+      settings.skip_human_handled,
       timestamp,
       flowId
     );
     
-    // מחק nodes ו-edges ישנים
-    db.prepare('DELETE FROM flow_nodes WHERE flow_id = ?').run(flowId);
-    db.prepare('DELETE FROM flow_edges WHERE flow_id = ?').run(flowId);
-    
-    // הוסף nodes חדשים
-    const nodeStmt = db.prepare(`
-      INSERT INTO flow_nodes (id, flow_id, type, position_x, position_y, data)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `);
+    // nodes ו-edges נשמרים כטיוטה - הזרימה הפעילה משתנה רק בפרסום (flows:publish)
+    flowVersions.saveDraft(flowId, { nodes, edges });
     
-    for (const node of nodes) {
-      nodeStmt.run(
-        node.id,
-        flowId,
-        node.type,
-        node.position.x,
-        node.position.y,
-        JSON.stringify(node.data)
-      );
+    const flow = db.prepare('SELECT name FROM flows WHERE id = ?').get(flowId) as any;
+    logActivity(db, 'flow', `Flow "${flow.name}" draft saved`, flowId);
+  });
+
+  ipcMain.handle('flows:publish', async (_event, flowId: string, note?: string) => {
+    const db = getDatabase();
+    const version = flowVersions.publish(flowId, note?.trim() || null);
+    const flow = db.prepare('SELECT name FROM flows WHERE id = ?').get(flowId) as any;
+    logActivity(db, 'flow', `Flow "${flow.name}" published as v${version}`, flowId);
+    return version;
+  });
+
+  ipcMain.handle('flows:discardDraft', async (_event, flowId: string) => {
+    flowVersions.discardDraft(flowId);
+  });
+
+  ipcMain.handle('flows:getVersions', async (_event, flowId: string) => {
+    return flowVersions.getVersions(flowId);
+  });
+
+  ipcMain.handle('flows:getDiff', async (_event, flowId: string, versionId?: string) => {
+    return flowVersions.getDiff(flowId, versionId);
+  });
+
+  ipcMain.handle('flows:rollback', async (_event, flowId: string, versionId: string) => {
+    const db = getDatabase();
+    const version = flowVersions.rollback(flowId, versionId);
+    const flow = db.prepare('SELECT name FROM flows WHERE id = ?').get(flowId) as any;
+    logActivity(db, 'flow', `Flow "${flow.name}" rolled back (published as v${version})`, flowId);
+    return version;
+  });
+
+  ipcMain.handle('flows:exportToFile', async (_event, flowId: string) => {
+    const { dialog } = await import('electron');
+    const data = flowVersions.exportFlow(flowId);
+    if (!data) {
+      return null;
     }
-    
-    // הוסף edges חדשים
-    const edgeStmt = db.prepare(`
-      INSERT INTO flow_edges (id, flow_id, source, target, label)
-      VALUES (?, ?, ?, ?, ?)
-    `);
-    
-    for (const edge of edges) {
-      edgeStmt.run(
-        edge.id,
-        flowId,
-        edge.source,
-        edge.target,
-        edge.label || null
-      );
+
+    const result = await dialog.showSaveDialog({
+      title: 'Export Flow',
+      defaultPath: path.join(app.getPath('desktop'), `${data.name.replace(/[^a-zA-Z0-9א-ת]/g, '_')}.flow.json`),
+      filters: [
+        { name: 'Flow Files', extensions: ['json'] }
+      ]
+    });
+
+    if (result.canceled || !result.filePath) {
+      return null;
     }
-    
+
+    fs.writeFileSync(result.filePath, JSON.stringify(data, null, 2), 'utf-8');
+    return result.filePath;
+  });
+
+  ipcMain.handle('flows:importFromFile', async () => {
+    const { dialog } = await import('electron');
+    const result = await dialog.showOpenDialog({
+      title: 'Import Flow',
+      properties: ['openFile'],
+      filters: [
+        { name: 'Flow Files', extensions: ['json'] }
+      ]
+    });
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return null;
+    }
+
+    const db = getDatabase();
+    const flowId = flowVersions.importFlow(JSON.parse(fs.readFileSync(result.filePaths[0], 'utf-8')));
     const flow = db.prepare('SELECT name FROM flows WHERE id = ?').get(flowId) as any;
-    logActivity(db, 'flow', `Flow "${flow.name}" updated`, flowId);
+    logActivity(db, 'flow', `Flow "${flow.name}" imported`, flowId);
+    return flowId;
   });
 
   ipcMain.handle('flows:getAll', async () => {
@@ -2775,34 +3465,36 @@ export function setupIPCHandlers() {
     const flows = db.prepare('SELECT * FROM flows ORDER BY created_at DESC').all() as any[];
     
     // Parse account_ids
-    return flows.map(flow => ({
+    return flows.map(({ draft, ...flow }) => ({
       ...flow,
       account_ids: flow.account_ids ? JSON.parse(flow.account_ids) : [],
-      is_active: Boolean(flow.is_active)
+      is_active: Boolean(flow.is_active),
+      stop_other_flows: flow.stop_other_flows !== 0,
+      skip_human_handled: Boolean(flow.skip_human_handled),
+      has_draft: Boolean(draft)
     }));
   });
 
   ipcMain.handle('flows:getById', async (_event, flowId: string) => {
     const db = getDatabase();
     
-    const flow = db.prepare('SELECT * FROM flows WHERE id = ?').get(flowId) as any;
-    if (!flow) return null;
+    const row = db.prepare('SELECT * FROM flows WHERE id = ?').get(flowId) as any;
+    if (!row) return null;
     
-    const nodes = db.prepare('SELECT * FROM flow_nodes WHERE flow_id = ?').all(flowId) as any[];
-    const edges = db.prepare('SELECT * FROM flow_edges WHERE flow_id = ?').all(flowId) as any[];
+    // The editor works on the draft when there is one, otherwise on what is live
+    const { draft, ...flow } = row;
+    const { nodes, edges } = flowVersions.getEditableGraph(flowId);
     
     return {
       flow: {
         ...flow,
         account_ids: flow.account_ids ? JSON.parse(flow.account_ids) : [],
-        is_active: Boolean(flow.is_active)
+        is_active: Boolean(flow.is_active),
+        stop_other_flows: flow.stop_other_flows !== 0,
+        skip_human_handled: Boolean(flow.skip_human_handled),
+        has_draft: Boolean(draft)
       },
-      nodes: nodes.map(n => ({
-        id: n.id,
-        type: n.type,
-        position: { x: n.position_x, y: n.position_y },
-        data: JSON.parse(n.data || '{}')
-      })),
+      nodes,
       edges
     };
   });
@@ -2825,6 +3517,46 @@ export function setupIPCHandlers() {
     logActivity(db, 'flow', `Flow "${flow.name}" deleted`, flowId);
   });
 
+  ipcMain.handle('flows:getExecutions', async (_event, flowId: string, limit: number = 50) => {
+    const db = getDatabase();
+    return db.prepare(`
+      SELECT fe.id, fe.flow_id, fe.account_id, fe.chat_id, fe.status, fe.started_at, fe.completed_at, fe.wait_until,
+             COALESCE(a.name, a.phone_number) as account_name,
+             (SELECT COUNT(*) FROM flow_execution_steps s WHERE s.execution_id = fe.id) as step_count
+      FROM flow_executions fe
+      LEFT JOIN accounts a ON a.id = fe.account_id
+      WHERE fe.flow_id = ?
+      ORDER BY fe.started_at DESC
+      LIMIT ?
+    `).all(flowId, limit);
+  });
+
+  ipcMain.handle('flows:getExecutionSteps', async (_event, executionId: string) => {
+    const db = getDatabase();
+    const steps = db.prepare(`
+      SELECT * FROM flow_execution_steps WHERE execution_id = ? ORDER BY created_at ASC, rowid ASC
+    `).all(executionId) as any[];
+
+    return steps.map(step => {
+      let details: Record<string, any> = {};
+      try {
+        details = step.details ? JSON.parse(step.details) : {};
+      } catch {
+        details = {};
+      }
+      return { ...step, details };
+    });
+  });
+
+  ipcMain.handle('flows:simulate', async (_event, input: FlowSimulationInput) => {
+    return flowEngine.simulateFlow(input);
+  });
+
+  // Webhook trigger nodes show their full URL - null until services have started the server
+  ipcMain.handle('flows:getWebhookBaseUrl', async () => {
+    return flowWebhookServer ? flowWebhookServer.getBaseUrl() : null;
+  });
+
   // ==================== AUTO-UPDATER HANDLERS ====================
   ipcMain.handle('updater:check-for-updates', async () => {
     const { checkForUpdates } = await import('./updater');
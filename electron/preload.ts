@@ -30,6 +30,9 @@ const electronAPI: ElectronAPI = {
     updateWhatsAppImage: (id, imagePath) => ipcRenderer.invoke('accounts:updateWhatsAppImage', id, imagePath),
     refreshProfilePicture: (id) => ipcRenderer.invoke('accounts:refreshProfilePicture', id),
     setDuoplusDeviceId: (id, deviceId) => ipcRenderer.invoke('accounts:setDuoplusDeviceId', id, deviceId),
+    getHealth: (id) => ipcRenderer.invoke('accounts:getHealth', id),
+    getQuotaBudgets: () => ipcRenderer.invoke('accounts:getQuotaBudgets'),
+    setQuotas: (id, quotas) => ipcRenderer.invoke('accounts:setQuotas', id, quotas),
   },
 
   duoplus: {
@@ -38,6 +41,11 @@ const electronAPI: ElectronAPI = {
     testDevice: (deviceId) => ipcRenderer.invoke('duoplus:testDevice', deviceId),
   },
 
+  replyAttribution: {
+    getSettings: () => ipcRenderer.invoke('replyAttribution:getSettings'),
+    saveSettings: (settings) => ipcRenderer.invoke('replyAttribution:saveSettings', settings),
+  },
+
   campaigns: {
     getAll: () => ipcRenderer.invoke('campaigns:getAll'),
     getById: (id) => ipcRenderer.invoke('campaigns:getById', id),
@@ -81,6 +89,25 @@ const electronAPI: ElectronAPI = {
     },
     addTag: (contactId, tagId) => ipcRenderer.invoke('contacts:addTag', contactId, tagId),
     removeTag: (contactId, tagId) => ipcRenderer.invoke('contacts:removeTag', contactId, tagId),
+    getTimeline: (phoneNumber) => ipcRenderer.invoke('contacts:getTimeline', phoneNumber),
+  },
+
+  segments: {
+    getAll: () => ipcRenderer.invoke('segments:getAll'),
+    create: (data) => ipcRenderer.invoke('segments:create', data),
+    update: (id, data) => ipcRenderer.invoke('segments:update', id, data),
+    delete: (id) => ipcRenderer.invoke('segments:delete', id),
+    preview: (rules) => ipcRenderer.invoke('segments:preview', rules),
+  },
+
+  suppressions: {
+    getAll: (search) => ipcRenderer.invoke('suppressions:getAll', search),
+    add: (phoneNumber, reason) => ipcRenderer.invoke('suppressions:add', phoneNumber, reason),
+    remove: (id) => ipcRenderer.invoke('suppressions:remove', id),
+    import: () => ipcRenderer.invoke('suppressions:import'),
+    export: () => ipcRenderer.invoke('suppressions:export'),
+    getKeywordSettings: () => ipcRenderer.invoke('suppressions:getKeywordSettings'),
+    saveKeywordSettings: (settings) => ipcRenderer.invoke('suppressions:saveKeywordSettings', settings),
   },
 
   tags: {
@@ -124,19 +151,37 @@ const electronAPI: ElectronAPI = {
 
   messages: {
     getByChat: (softwareChatId) => ipcRenderer.invoke('messages:getByChat', softwareChatId),
-    getChats: (accountId, searchQuery?) => ipcRenderer.invoke('messages:getChats', accountId, searchQuery),
+    getChats: (accountId, searchQuery?, campaignId?) => ipcRenderer.invoke('messages:getChats', accountId, searchQuery, campaignId),
+    search: (query, filters) => ipcRenderer.invoke('messages:search', query, filters),
     send: (accountId, to, message) => ipcRenderer.invoke('messages:send', accountId, to, message),
     sendMedia: (accountId, to, filePath, caption) => ipcRenderer.invoke('messages:sendMedia', accountId, to, filePath, caption),
+    reply: (messageId, text, filePath) => ipcRenderer.invoke('messages:reply', messageId, text, filePath),
+    react: (messageId, emoji) => ipcRenderer.invoke('messages:react', messageId, emoji),
+    forward: (messageId, targetChatId) => ipcRenderer.invoke('messages:forward', messageId, targetChatId),
     saveTempFile: (fileName, buffer) => ipcRenderer.invoke('messages:saveTempFile', fileName, buffer),
     deleteTempFile: (filePath) => ipcRenderer.invoke('messages:deleteTempFile', filePath),
     markAsRead: (softwareChatId) => ipcRenderer.invoke('messages:markAsRead', softwareChatId),
     markAsHandled: (chatId, accountId) => ipcRenderer.invoke('messages:markAsHandled', chatId, accountId),
-    markChatStatus: (softwareChatId, status) => ipcRenderer.invoke('messages:markChatStatus', softwareChatId, status),
+    markChatStatus: (softwareChatId, status, snoozedUntil) => ipcRenderer.invoke('messages:markChatStatus', softwareChatId, status, snoozedUntil),
     markAllChats: (accountId, handled) => ipcRenderer.invoke('messages:markAllChats', accountId, handled),
+    assignChat: (softwareChatId, agent) => ipcRenderer.invoke('messages:assignChat', softwareChatId, agent),
+    setChatPinned: (softwareChatId, pinned) => ipcRenderer.invoke('messages:setChatPinned', softwareChatId, pinned),
+    getChatNotes: (softwareChatId) => ipcRenderer.invoke('messages:getChatNotes', softwareChatId),
+    addChatNote: (softwareChatId, note, author) => ipcRenderer.invoke('messages:addChatNote', softwareChatId, note, author),
+    deleteChatNote: (noteId) => ipcRenderer.invoke('messages:deleteChatNote', noteId),
+    getAgents: () => ipcRenderer.invoke('messages:getAgents'),
+    saveAgents: (agents) => ipcRenderer.invoke('messages:saveAgents', agents),
     getMediaFile: (messageId) => ipcRenderer.invoke('messages:getMediaFile', messageId),
     getChatPhoto: (photoPath) => ipcRenderer.invoke('messages:getChatPhoto', photoPath),
   },
 
+  scheduledMessages: {
+    getByChat: (softwareChatId) => ipcRenderer.invoke('scheduledMessages:getByChat', softwareChatId),
+    create: (input) => ipcRenderer.invoke('scheduledMessages:create', input),
+    update: (id, changes) => ipcRenderer.invoke('scheduledMessages:update', id, changes),
+    cancel: (id) => ipcRenderer.invoke('scheduledMessages:cancel', id),
+  },
+
   warmup: {
     start: (accountIds, minDelay, maxDelay) => ipcRenderer.invoke('warmup:start', accountIds, minDelay, maxDelay),
     stop: (sessionId) => ipcRenderer.invoke('warmup:stop', sessionId),
@@ -156,6 +201,17 @@ const electronAPI: ElectronAPI = {
     toggleActive: (flowId) => ipcRenderer.invoke('flows:toggleActive', flowId),
     delete: (flowId) => ipcRenderer.invoke('flows:delete', flowId),
     selectMedia: () => ipcRenderer.invoke('flows:selectMedia'),
+    getExecutions: (flowId, limit) => ipcRenderer.invoke('flows:getExecutions', flowId, limit),
+    getExecutionSteps: (executionId) => ipcRenderer.invoke('flows:getExecutionSteps', executionId),
+    simulate: (input) => ipcRenderer.invoke('flows:simulate', input),
+    getWebhookBaseUrl: () => ipcRenderer.invoke('flows:getWebhookBaseUrl'),
+    publish: (flowId, note) => ipcRenderer.invoke('flows:publish', flowId, note),
+    discardDraft: (flowId) => ipcRenderer.invoke('flows:discardDraft', flowId),
+    getVersions: (flowId) => ipcRenderer.invoke('flows:getVersions', flowId),
+    getDiff: (flowId, versionId) => ipcRenderer.invoke('flows:getDiff', flowId, versionId),
+    rollback: (flowId, versionId) => ipcRenderer.invoke('flows:rollback', flowId, versionId),
+    exportToFile: (flowId) => ipcRenderer.invoke('flows:exportToFile', flowId),
+    importFromFile: () => ipcRenderer.invoke('flows:importFromFile'),
   },
 
   templates: {
@@ -165,6 +221,8 @@ const electronAPI: ElectronAPI = {
     update: (id, data) => ipcRenderer.invoke('templates:update', id, data),
     delete: (id) => ipcRenderer.invoke('templates:delete', id),
     getMediaFile: (mediaPath) => ipcRenderer.invoke('templates:getMediaFile', mediaPath),
+    renderForChat: (templateId, softwareChatId) => ipcRenderer.invoke('templates:renderForChat', templateId, softwareChatId),
+    markUsed: (id) => ipcRenderer.invoke('templates:markUsed', id),
   },
 
   stats: {
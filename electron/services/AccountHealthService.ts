@@ -0,0 +1,279 @@
+import type { Database } from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  AccountRestrictionKind,
+  AccountHealth,
+  AccountHealthFactor,
+  AccountHealthLevel,
+  AccountHealthMetrics,
+  AccountHealthSnapshot
+} from '../../src/types';
+
+const WINDOW_DAYS = 7;
+// Scores are cheap to compute but the schedulers ask on every send
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000;
+const SNAPSHOT_RETENTION_DAYS = 90;
+
+// Rates are only meaningful once an account has some volume behind it
+const MIN_ATTEMPTS_FOR_RATES = 10;
+const MIN_SENT_FOR_REPLY_RATE = 20;
+
+// Failures that say something about the target or the group, not about the sending account
+const NEUTRAL_RESULT_CODES = [
+  'suppressed',
+  'already_in_group',
+  'privacy_restricted',
+  'recently_left',
+  'group_full',
+  'not_admin',
+  'group_not_found',
+  'group_access_denied',
+  'account_not_connected'
+];
+
+const NOT_REGISTERED_CLAUSE = `(
+  cc.result_code = 'not_registered'
+  OR LOWER(COALESCE(cc.error, '')) LIKE '%not registered%'
+  OR LOWER(COALESCE(cc.error, '')) LIKE '%no lid for user%'
+)`;
+
+// whatsapp-web.js disconnect reasons (WAState values) that are not plain connection drops
+const DISCONNECT_REASON_KINDS: Record<string, AccountRestrictionKind> = {
+  LOGOUT: 'logged_out',
+  UNPAIRED: 'logged_out',
+  UNPAIRED_IDLE: 'logged_out',
+  TOS_BLOCK: 'banned',
+  SMB_TOS_BLOCK: 'banned',
+  PROXYBLOCK: 'restricted',
+  DEPRECATED_VERSION: 'restricted'
+};
+
+const BANNED_ERROR_PATTERNS = ['banned', 'tos_block', 'not allowed to use whatsapp'];
+const RESTRICTED_ERROR_PATTERNS = ['account restricted', 'account is restricted', 'temporarily restricted'];
+// Throttling (WhatsApp's rate-overlimit, an HTTP 429 from the DuoPlus API) passes on its own
+const RATE_LIMIT_ERROR_PATTERNS = ['rate-overlimit', 'rate overlimit', 'too many requests', 'too frequent', 'http 429'];
+
+/**
+ * Classifies the reason a client emitted 'disconnected' with. Unknown reasons count as network drops.
+ */
+export function classifyDisconnectReason(reason: unknown): AccountRestrictionKind {
+  const value = String(reason ?? '').trim().toUpperCase();
+  return DISCONNECT_REASON_KINDS[value] || 'network';
+}
+
+/**
+ * Classifies a send error that points at the sending account rather than the recipient.
+ * Returns null for recipient/transient errors.
+ */
+export function classifySendError(message: string): Extract<AccountRestrictionKind, 'banned' | 'restricted'> | null {
+  const value = message.toLowerCase();
+  if (BANNED_ERROR_PATTERNS.some(pattern => value.includes(pattern))) {
+    return 'banned';
+  }
+  if (RESTRICTED_ERROR_PATTERNS.some(pattern => value.includes(pattern))) {
+    return 'restricted';
+  }
+  return null;
+}
+
+/**
+ * A send error that means "slow down" - the account is fine, the send should be retried later.
+ */
+export function isRateLimitError(message: string): boolean {
+  const value = message.toLowerCase();
+  return RATE_LIMIT_ERROR_PATTERNS.some(pattern => value.includes(pattern));
+}
+
+/**
+ * Per-account ban-risk model.
+ *
+ * The score starts at 100 and loses points for send failures, numbers that are not
+ * on WhatsApp, disconnects/auth failures, bans/restrictions, a poor reply rate, a young account and
+ * sending more today than an account of that age should. Warning accounts are
+ * throttled by CampaignScheduler, critical ones are pulled out of campaigns.
+ * The latest score is kept on the account row and an hourly history in
+ * account_health_snapshots.
+ */
+export class AccountHealthService {
+  private db: Database;
+  private cache: Map<string, AccountHealth> = new Map();
+  private snapshotInterval: NodeJS.Timeout | null = null;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  start(): void {
+    if (this.snapshotInterval) {
+      return;
+    }
+
+    setTimeout(() => this.recordSnapshots(), 30 * 1000);
+    this.snapshotInterval = setInterval(() => this.recordSnapshots(), SNAPSHOT_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.snapshotInterval) {
+      clearInterval(this.snapshotInterval);
+      this.snapshotInterval = null;
+    }
+  }
+
+  /**
+   * Current health for an account. Served from a short-lived cache unless `fresh` is set.
+   */
+  getHealth(accountId: string, fresh = false): AccountHealth {
+    const cached = this.cache.get(accountId);
+    if (!fresh && cached && Date.now() - new Date(cached.updatedAt).getTime() < CACHE_TTL_MS) {
+      return cached;
+    }
+
+    const health = this.computeHealth(accountId);
+    this.cache.set(accountId, health);
+
+    this.db.prepare(`
+      UPDATE accounts SET health_score = ?, health_level = ?, health_updated_at = ? WHERE id = ?
+    `).run(health.score, health.level, health.updatedAt, accountId);
+
+    return health;
+  }
+
+  getHistory(accountId: string, days = 14): AccountHealthSnapshot[] {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    return this.db.prepare(`
+      SELECT score, level, created_at FROM account_health_snapshots
+      WHERE account_id = ? AND created_at >= ?
+      ORDER BY created_at ASC
+    `).all(accountId, since) as AccountHealthSnapshot[];
+  }
+
+  recordSnapshots(): void {
+    try {
+      const accounts = this.db.prepare('SELECT id FROM accounts').all() as { id: string }[];
+      const insertStmt = this.db.prepare(`
+        INSERT INTO account_health_snapshots (id, account_id, score, level, metrics, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `);
+
+      for (const account of accounts) {
+        const health = this.getHealth(account.id, true);
+        insertStmt.run(uuidv4(), account.id, health.score, health.level, JSON.stringify(health.metrics), health.updatedAt);
+      }
+
+      const cutoff = new Date(Date.now() - SNAPSHOT_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      this.db.prepare('DELETE FROM account_health_snapshots WHERE created_at < ?').run(cutoff);
+      this.db.prepare('DELETE FROM account_events WHERE created_at < ?').run(cutoff);
+    } catch (error) {
+      console.error('❌ Failed to record account health snapshots:', error);
+    }
+  }
+
+  private computeHealth(accountId: string): AccountHealth {
+    const metrics = this.collectMetrics(accountId);
+    const factors: AccountHealthFactor[] = [];
+    const addFactor = (key: AccountHealthFactor['key'], penalty: number) => {
+      if (penalty > 0) {
+        factors.push({ key, penalty: Math.round(penalty) });
+      }
+    };
+
+    if (metrics.attempts >= MIN_ATTEMPTS_FOR_RATES) {
+      const failureRate = metrics.failures / metrics.attempts;
+      addFactor('failures', Math.min(30, failureRate * 60));
+
+      const notRegisteredRate = metrics.notRegistered / metrics.attempts;
+      addFactor('not_registered', Math.min(20, notRegisteredRate * 80));
+    }
+
+    addFactor('disconnects', Math.min(25, metrics.disconnects * 4 + metrics.authFailures * 10));
+    addFactor('restrictions', Math.min(60, metrics.restrictions * 35));
+
+    if (metrics.messagesSent >= MIN_SENT_FOR_REPLY_RATE) {
+      const replyRate = metrics.replies / metrics.messagesSent;
+      addFactor('low_reply_rate', replyRate < 0.02 ? 10 : replyRate < 0.05 ? 5 : 0);
+    }
+
+    addFactor('new_account', metrics.ageDays < 3 ? 15 : metrics.ageDays < 7 ? 10 : metrics.ageDays < 14 ? 5 : 0);
+
+    if (metrics.sentToday > metrics.dailyAllowance) {
+      const overage = metrics.sentToday / metrics.dailyAllowance - 1;
+      addFactor('high_volume', Math.min(20, 10 + overage * 20));
+    }
+
+    const score = Math.max(0, 100 - factors.reduce((sum, factor) => sum + factor.penalty, 0));
+    const level: AccountHealthLevel = score >= 70 ? 'healthy' : score >= 40 ? 'warning' : 'critical';
+
+    return {
+      accountId,
+      score,
+      level,
+      factors: factors.sort((a, b) => b.penalty - a.penalty),
+      metrics,
+      delayMultiplier: level === 'warning' ? 2 : 1,
+      dailyLimitFactor: level === 'healthy' ? 1 : level === 'warning' ? 0.5 : 0,
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  private collectMetrics(accountId: string): AccountHealthMetrics {
+    const since = new Date(Date.now() - WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const today = new Date().toISOString().split('T')[0];
+
+    const sends = this.db.prepare(`
+      SELECT
+        COUNT(*) as attempts,
+        SUM(CASE WHEN cc.status = 'failed' THEN 1 ELSE 0 END) as failures,
+        SUM(CASE WHEN cc.status = 'failed' AND ${NOT_REGISTERED_CLAUSE} THEN 1 ELSE 0 END) as not_registered,
+        SUM(CASE WHEN cc.status = 'sent' AND COALESCE(c.campaign_type, 'message') = 'message' THEN 1 ELSE 0 END) as messages_sent,
+        SUM(CASE WHEN cc.status = 'sent' AND cc.replied_at IS NOT NULL THEN 1 ELSE 0 END) as replies
+      FROM campaign_contacts cc
+      JOIN campaigns c ON c.id = cc.campaign_id
+      WHERE cc.sent_by_account_id = ?
+        AND cc.status IN ('sent', 'failed')
+        AND COALESCE(cc.attempted_at, cc.sent_at) >= ?
+        AND COALESCE(cc.result_code, '') NOT IN (${NEUTRAL_RESULT_CODES.map(() => '?').join(', ')})
+    `).get(accountId, since, ...NEUTRAL_RESULT_CODES) as any;
+
+    const events = this.db.prepare(`
+      SELECT type, COUNT(*) as count FROM account_events
+      WHERE account_id = ? AND created_at >= ?
+      GROUP BY type
+    `).all(accountId, since) as { type: string; count: number }[];
+    const eventCount = (type: string) => events.find(event => event.type === type)?.count || 0;
+
+    // Age counts from whichever came first: adding the account or its first warm-up message
+    const age = this.db.prepare(`
+      SELECT
+        a.created_at,
+        (SELECT MIN(sent_at) FROM warmup_messages WHERE from_account_id = a.id) as first_warmup_at
+      FROM accounts a WHERE a.id = ?
+    `).get(accountId) as { created_at: string | null; first_warmup_at: string | null } | undefined;
+    const startedAt = [age?.created_at, age?.first_warmup_at]
+      .filter((value): value is string => !!value)
+      .map(value => new Date(value).getTime())
+      .filter(value => Number.isFinite(value));
+    const ageDays = startedAt.length > 0
+      ? Math.max(0, Math.floor((Date.now() - Math.min(...startedAt)) / (24 * 60 * 60 * 1000)))
+      : 0;
+
+    const sentToday = this.db.prepare(`
+      SELECT COUNT(*) as count FROM campaign_contacts
+      WHERE sent_by_account_id = ? AND status = 'sent' AND DATE(sent_at) = ?
+    `).get(accountId, today) as { count: number };
+
+    return {
+      attempts: sends?.attempts || 0,
+      failures: sends?.failures || 0,
+      notRegistered: sends?.not_registered || 0,
+      messagesSent: sends?.messages_sent || 0,
+      replies: sends?.replies || 0,
+      disconnects: eventCount('disconnected'),
+      authFailures: eventCount('auth_failure'),
+      restrictions: eventCount('banned') + eventCount('restricted'),
+      ageDays,
+      sentToday: sentToday?.count || 0,
+      dailyAllowance: ageDays < 7 ? 40 : ageDays < 14 ? 80 : ageDays < 30 ? 150 : 300
+    };
+  }
+}
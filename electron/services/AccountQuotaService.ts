@@ -0,0 +1,213 @@
+import type { Database } from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  AccountQuotaBudget,
+  AccountQuotaCheck,
+  AccountQuotaKey,
+  AccountQuotas,
+  AccountQuotaUsage,
+  AccountSendKind
+} from '../../src/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const SEND_LOG_RETENTION_DAYS = 7;
+
+const QUOTA_COLUMNS: Record<AccountQuotaKey, string> = {
+  perHour: 'quota_per_hour',
+  perDay: 'quota_per_day',
+  rolling24h: 'quota_rolling_24h',
+  newChatsPerDay: 'quota_new_chats_per_day',
+  existingChatsPerDay: 'quota_existing_chats_per_day'
+};
+
+function digitsKey(column: string): string {
+  return `SUBSTR(REPLACE(REPLACE(REPLACE(${column}, '-', ''), ' ', ''), '+', ''), -9)`;
+}
+
+function startOfToday(): Date {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+function startOfTomorrow(): Date {
+  const start = startOfToday();
+  start.setDate(start.getDate() + 1);
+  return start;
+}
+
+/**
+ * Account-level sending quotas.
+ *
+ * Campaign limits (max_messages_per_day) are per campaign, so an account in three campaigns
+ * could send three times its intended volume. Every feature that sends from an account -
+ * CampaignScheduler (messages and group adds), GroupCampaignScheduler and WarmUpService -
+ * asks canSend() first and calls recordSend() afterwards, so the limits set here hold across
+ * all of them. Sends are logged in account_sends; quotas live on the account row.
+ */
+export class AccountQuotaService {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+
+    const cutoff = new Date(Date.now() - SEND_LOG_RETENTION_DAYS * 24 * HOUR_MS).toISOString();
+    this.db.prepare('DELETE FROM account_sends WHERE created_at < ?').run(cutoff);
+  }
+
+  getQuotas(accountId: string): AccountQuotas {
+    const row = this.db.prepare(`
+      SELECT ${Object.values(QUOTA_COLUMNS).join(', ')} FROM accounts WHERE id = ?
+    `).get(accountId) as Record<string, number | null> | undefined;
+
+    const quotas = {} as AccountQuotas;
+    for (const [key, column] of Object.entries(QUOTA_COLUMNS) as [AccountQuotaKey, string][]) {
+      const value = row?.[column];
+      quotas[key] = value !== null && value !== undefined && value >= 0 ? value : null;
+    }
+    return quotas;
+  }
+
+  saveQuotas(accountId: string, quotas: AccountQuotas): void {
+    const entries = Object.entries(QUOTA_COLUMNS) as [AccountQuotaKey, string][];
+    const values = entries.map(([key]) => {
+      const value = quotas[key];
+      return value === null || value === undefined || !Number.isFinite(Number(value)) || Number(value) < 0
+        ? null
+        : Math.floor(Number(value));
+    });
+
+    this.db.prepare(`
+      UPDATE accounts SET ${entries.map(([, column]) => `${column} = ?`).join(', ')} WHERE id = ?
+    `).run(...values, accountId);
+  }
+
+  getUsage(accountId: string): AccountQuotaUsage {
+    const now = Date.now();
+    const hourAgo = new Date(now - HOUR_MS).toISOString();
+    const dayAgo = new Date(now - 24 * HOUR_MS).toISOString();
+    const today = startOfToday().toISOString();
+
+    const row = this.db.prepare(`
+      SELECT
+        SUM(CASE WHEN created_at >= ? THEN 1 ELSE 0 END) as per_hour,
+        SUM(CASE WHEN created_at >= ? THEN 1 ELSE 0 END) as per_day,
+        SUM(CASE WHEN created_at >= ? THEN 1 ELSE 0 END) as rolling_24h,
+        SUM(CASE WHEN created_at >= ? AND is_new_chat = 1 THEN 1 ELSE 0 END) as new_chats,
+        SUM(CASE WHEN created_at >= ? AND is_new_chat = 0 THEN 1 ELSE 0 END) as existing_chats
+      FROM account_sends
+      WHERE account_id = ? AND created_at >= ?
+    `).get(hourAgo, today, dayAgo, today, today, accountId, today < dayAgo ? today : dayAgo) as any;
+
+    return {
+      perHour: row?.per_hour || 0,
+      perDay: row?.per_day || 0,
+      rolling24h: row?.rolling_24h || 0,
+      newChatsPerDay: row?.new_chats || 0,
+      existingChatsPerDay: row?.existing_chats || 0
+    };
+  }
+
+  getBudget(accountId: string): AccountQuotaBudget {
+    const quotas = this.getQuotas(accountId);
+    const usage = this.getUsage(accountId);
+
+    const remaining = {} as Record<AccountQuotaKey, number | null>;
+    for (const key of Object.keys(QUOTA_COLUMNS) as AccountQuotaKey[]) {
+      const quota = quotas[key];
+      remaining[key] = quota === null ? null : Math.max(0, quota - usage[key]);
+    }
+
+    return { accountId, quotas, usage, remaining };
+  }
+
+  getAllBudgets(): AccountQuotaBudget[] {
+    const accounts = this.db.prepare('SELECT id FROM accounts').all() as { id: string }[];
+    return accounts.map(account => this.getBudget(account.id));
+  }
+
+  /**
+   * How many more sends the account may make right now across the hourly/daily/24h quotas,
+   * ignoring the new/existing chat split. null when none of those are limited.
+   */
+  getRemainingSends(accountId: string): number | null {
+    const { remaining } = this.getBudget(accountId);
+    const limited = [remaining.perHour, remaining.perDay, remaining.rolling24h].filter((value): value is number => value !== null);
+    return limited.length > 0 ? Math.min(...limited) : null;
+  }
+
+  /**
+   * Whether the account may send one more message. `newChat` applies the new/existing chat
+   * quotas - leave it undefined for sends that are not 1:1 chats (group adds, warm-up).
+   */
+  canSend(accountId: string, newChat?: boolean): AccountQuotaCheck {
+    const budget = this.getBudget(accountId);
+    const keys: AccountQuotaKey[] = ['perHour', 'rolling24h', 'perDay'];
+    if (newChat === true) {
+      keys.push('newChatsPerDay');
+    } else if (newChat === false) {
+      keys.push('existingChatsPerDay');
+    }
+
+    for (const key of keys) {
+      if (budget.remaining[key] === 0) {
+        return { allowed: false, exhausted: key, retryAt: this.getRetryAt(accountId, key, budget) };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  recordSend(accountId: string, kind: AccountSendKind, newChat?: boolean): void {
+    try {
+      this.db.prepare(`
+        INSERT INTO account_sends (id, account_id, kind, is_new_chat, created_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(uuidv4(), accountId, kind, newChat === undefined ? null : newChat ? 1 : 0, new Date().toISOString());
+    } catch (error) {
+      console.error('Failed to record account send:', error);
+    }
+  }
+
+  /**
+   * A chat is new when the account has no chat row for the number yet - findOrCreateChat creates one
+   * for every conversation. Groups never are.
+   */
+  isNewChat(accountId: string, phoneNumber: string): boolean {
+    if (phoneNumber.endsWith('@g.us')) {
+      return false;
+    }
+
+    const key = phoneNumber.replace(/\D/g, '').slice(-9);
+    if (!key) {
+      return true;
+    }
+
+    const existing = this.db.prepare(`
+      SELECT 1 FROM chats WHERE account_id = ? AND ${digitsKey('phone_number')} = ? LIMIT 1
+    `).get(accountId, key);
+
+    return !existing;
+  }
+
+  private getRetryAt(accountId: string, key: AccountQuotaKey, budget: AccountQuotaBudget): string {
+    if (key !== 'perHour' && key !== 'rolling24h') {
+      return startOfTomorrow().toISOString();
+    }
+
+    // The window frees up when enough of its oldest sends age out of it
+    const windowMs = key === 'perHour' ? HOUR_MS : 24 * HOUR_MS;
+    const quota = budget.quotas[key] || 0;
+    const excess = Math.max(0, budget.usage[key] - quota);
+    const oldest = this.db.prepare(`
+      SELECT created_at FROM account_sends
+      WHERE account_id = ? AND created_at >= ?
+      ORDER BY created_at ASC
+      LIMIT 1 OFFSET ?
+    `).get(accountId, new Date(Date.now() - windowMs).toISOString(), excess) as { created_at: string } | undefined;
+
+    return oldest
+      ? new Date(new Date(oldest.created_at).getTime() + windowMs).toISOString()
+      : new Date(Date.now() + 60 * 1000).toISOString();
+  }
+}
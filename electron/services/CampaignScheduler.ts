@@ -1,9 +1,15 @@
 import type { Database } from 'better-sqlite3';
 import type { WhatsAppManager } from './WhatsAppManager';
 import type { DuoPlusManager } from './DuoPlusManager';
+import type { SegmentService } from './SegmentService';
+import { classifySendError, isRateLimitError, type AccountHealthService } from './AccountHealthService';
+import type { AccountQuotaService } from './AccountQuotaService';
+import { getSuppressionKey, isSuppressedClause } from './SuppressionService';
 import { BrowserWindow } from 'electron';
-import { replaceVariables, getRandomDelay } from '../../src/lib/utils';
+import { getRandomDelay } from '../../src/lib/utils';
+import { renderTemplate, buildContactVariables } from '../../src/lib/template';
 import { v4 as uuidv4 } from 'uuid';
+import type { AccountAlert, AccountQuotaCheck, AccountRestrictionKind } from '../../src/types';
 
 interface CampaignState {
   isRunning: boolean;
@@ -12,9 +18,39 @@ interface CampaignState {
   activeAccounts: Set<string>;
   messagesSentToday: Map<string, number>; // accountId -> count
   messagesSinceLastBreak: Map<string, number>; // accountId -> count (for break tracking)
+  rateLimitStrikes: Map<string, number>; // accountId -> rate-limit errors in a row (for backoff)
   lastResetDate: string;
 }
 
+// whatsapp-web.js MessageAck levels (-1 error, 0 pending) mapped to the campaign_contacts column
+// recording when each later level was first reached
+const ACK_TIMESTAMP_COLUMNS: Array<[number, string]> = [
+  [1, 'server_at'],
+  [2, 'delivered_at'],
+  [3, 'read_at'],
+  [4, 'played_at']
+];
+
+// How long an ack for a not-yet-recorded message id is kept waiting for its campaign row
+const PENDING_ACK_TTL_MS = 2 * 60 * 1000;
+
+// Backoff after a rate-limit error: 1 minute, doubling with every one in a row, up to 30 minutes
+const RATE_LIMIT_BASE_BACKOFF_MS = 60 * 1000;
+const RATE_LIMIT_MAX_BACKOFF_MS = 30 * 60 * 1000;
+
+const DEFAULT_AB_SAMPLE_SIZE = 50;
+const DEFAULT_AB_EVALUATION_HOURS = 4;
+// How often held-back contacts check whether the A/B winner can be picked yet
+const AB_HOLD_RECHECK_MS = 5 * 60 * 1000;
+
+interface VariantResult {
+  variantIndex: number;
+  sent: number;
+  failed: number;
+  replied: number;
+  read: number;
+}
+
 interface SendNextMessageResult {
   success: boolean;
   delayMs?: number;
@@ -26,7 +62,11 @@ export class CampaignScheduler {
   private db: Database;
   private whatsappManager: WhatsAppManager;
   private duoplusManager?: DuoPlusManager;
+  private segmentService?: SegmentService;
+  private accountHealth?: AccountHealthService;
+  private accountQuota?: AccountQuotaService;
   private activeCampaigns: Map<string, CampaignState> = new Map();
+  private pendingAcks: Map<string, { ack: number; receivedAt: number }> = new Map(); // `${accountId}:${messageId}` -> highest ack seen
 
   constructor(db: Database, whatsappManager: WhatsAppManager, duoplusManager?: DuoPlusManager) {
     this.db = db;
@@ -37,6 +77,76 @@ export class CampaignScheduler {
     this.startDailyReset();
   }
 
+  setSegmentService(segmentService: SegmentService): void {
+    this.segmentService = segmentService;
+  }
+
+  setAccountHealthService(accountHealth: AccountHealthService): void {
+    this.accountHealth = accountHealth;
+  }
+
+  setAccountQuotaService(accountQuota: AccountQuotaService): void {
+    this.accountQuota = accountQuota;
+  }
+
+  /**
+   * Replace a campaign's audience. Duplicate and empty phone numbers are dropped.
+   */
+  setCampaignContacts(campaignId: string, contacts: { phone_number: string }[]): void {
+    const deleteStmt = this.db.prepare(`DELETE FROM campaign_contacts WHERE campaign_id = ?`);
+    const insertStmt = this.db.prepare(`
+      INSERT OR IGNORE INTO campaign_contacts (id, campaign_id, phone_number, retry_count)
+      VALUES (?, ?, ?, 0)
+    `);
+
+    const uniqueContacts = Array.from(
+      new Set(
+        contacts
+          .map(contact => contact.phone_number?.trim())
+          .filter((phoneNumber): phoneNumber is string => Boolean(phoneNumber))
+      )
+    ).map(phone_number => ({ phone_number }));
+
+    const replaceContacts = this.db.transaction((contactList: { phone_number: string }[]) => {
+      deleteStmt.run(campaignId);
+      for (const contact of contactList) {
+        insertStmt.run(uuidv4(), campaignId, contact.phone_number);
+      }
+    });
+
+    replaceContacts(uniqueContacts);
+  }
+
+  /**
+   * Campaigns targeting a segment get their audience resolved when they start, so
+   * contacts added since the campaign was created are included. Once any contact
+   * has been processed the list is frozen - resuming never re-resolves it.
+   */
+  private resolveSegmentAudience(campaignId: string, campaign: any): void {
+    if (!campaign.segment_id || !this.segmentService || this.isGroupAdderCampaign(campaign)) {
+      return;
+    }
+
+    const processed = this.db.prepare(`
+      SELECT COUNT(*) as count FROM campaign_contacts
+      WHERE campaign_id = ? AND status != 'pending'
+    `).get(campaignId) as { count: number };
+
+    if (processed.count > 0) {
+      return;
+    }
+
+    const contacts = this.segmentService.resolveSegment(campaign.segment_id);
+    if (!contacts) {
+      console.log(`⚠️ Segment ${campaign.segment_id} for campaign ${campaignId} no longer exists - keeping current contacts`);
+      return;
+    }
+
+    this.setCampaignContacts(campaignId, contacts);
+    console.log(`🎯 Resolved segment audience for campaign ${campaignId}: ${contacts.length} contacts`);
+    this.logActivity('campaign', `Campaign "${campaign.name}" audience resolved from segment: ${contacts.length} contacts`, campaignId);
+  }
+
   /**
    * Called by WhatsAppManager when an account fires the 'ready' event.
    * Resumes any running campaigns that include this account.
@@ -114,6 +224,129 @@ export class CampaignScheduler {
     }
   }
 
+  /**
+   * Called by WhatsAppManager when an account is logged out, banned or restricted.
+   * Takes the account out of every running campaign and releases the contacts it had claimed
+   * but not sent, so the remaining accounts pick them up. A campaign left without accounts is paused.
+   */
+  async onAccountRestricted(accountId: string, kind: AccountRestrictionKind, reason: string): Promise<void> {
+    try {
+      const accountName = this.getAccountLabel(accountId);
+      const affectedCampaigns: AccountAlert['campaigns'] = [];
+
+      for (const [campaignId, state] of this.activeCampaigns) {
+        if (!state.isRunning || !state.activeAccounts.has(accountId)) {
+          continue;
+        }
+
+        const campaign = this.getCampaign(campaignId);
+        this.finishAccountRun(campaignId, accountId, state.runId);
+
+        const released = this.db.prepare(`
+          UPDATE campaign_contacts
+          SET status = 'pending', sent_by_account_id = NULL
+          WHERE campaign_id = ? AND status = 'sending' AND sent_by_account_id = ?
+        `).run(campaignId, accountId).changes;
+
+        const paused = state.activeAccounts.size === 0;
+        if (paused) {
+          await this.pauseCampaign(campaignId);
+        }
+
+        console.log(`🚨 Account ${accountId.substring(0, 8)}... (${kind}) removed from campaign ${campaignId} - ${released} contacts released${paused ? ', campaign paused' : ''}`);
+        this.logActivity(
+          'error',
+          paused
+            ? `Campaign "${campaign?.name}" paused - account ${accountName} is ${kind.replace('_', ' ')} and no other accounts are left`
+            : `Account ${accountName} is ${kind.replace('_', ' ')} - ${released} contacts moved to the other accounts in campaign "${campaign?.name}"`,
+          campaignId
+        );
+
+        affectedCampaigns.push({ id: campaignId, name: campaign?.name || campaignId, redistributed: released, paused });
+      }
+
+      const alert: AccountAlert = { accountId, accountName, kind, reason, campaigns: affectedCampaigns };
+      this.notifyRenderer('account:alert', alert);
+    } catch (error) {
+      console.error(`Failed in onAccountRestricted for ${accountId}:`, error);
+    }
+  }
+
+  /**
+   * Called by WhatsAppManager on every `message_ack` event for an outgoing message.
+   * Records the ack progression of campaign sends; acks for other messages are ignored.
+   */
+  onMessageAck(accountId: string, messageId: string, ack: number): void {
+    try {
+      const contact = this.db.prepare(`
+        SELECT id, campaign_id FROM campaign_contacts
+        WHERE message_id = ? AND sent_by_account_id = ?
+      `).get(messageId, accountId) as { id: string; campaign_id: string } | undefined;
+
+      if (!contact) {
+        // The ack can beat the send call back, before the row has its message_id - keep it for applyPendingAck
+        this.bufferPendingAck(accountId, messageId, ack);
+        return;
+      }
+
+      if (ack < 0) {
+        this.db.prepare(`
+          UPDATE campaign_contacts SET ack = ? WHERE id = ? AND COALESCE(ack, 0) <= 0
+        `).run(ack, contact.id);
+        return;
+      }
+
+      // Acks can be skipped (e.g. straight to read), so every lower level is backfilled too
+      const now = new Date().toISOString();
+      const reached = ACK_TIMESTAMP_COLUMNS.filter(([level]) => ack >= level);
+      const updates = ['ack = MAX(COALESCE(ack, 0), ?)', ...reached.map(([, column]) => `${column} = COALESCE(${column}, ?)`)];
+
+      const result = this.db.prepare(`
+        UPDATE campaign_contacts SET ${updates.join(', ')}
+        WHERE id = ? AND COALESCE(ack, 0) < ?
+      `).run(ack, ...reached.map(() => now), contact.id, ack);
+
+      if (result.changes > 0) {
+        this.notifyRenderer('campaign:progress', contact.campaign_id, {
+          contactId: contact.id,
+          status: 'sent',
+          accountId,
+          ack
+        });
+      }
+    } catch (error) {
+      console.error(`Failed to record message ack for ${messageId}:`, error);
+    }
+  }
+
+  private bufferPendingAck(accountId: string, messageId: string, ack: number): void {
+    const now = Date.now();
+    // Acks of non-campaign messages land here too, so old entries are dropped as new ones come in
+    for (const [key, pending] of this.pendingAcks) {
+      if (now - pending.receivedAt > PENDING_ACK_TTL_MS) {
+        this.pendingAcks.delete(key);
+      }
+    }
+
+    const key = `${accountId}:${messageId}`;
+    const previous = this.pendingAcks.get(key);
+    this.pendingAcks.set(key, { ack: previous ? Math.max(previous.ack, ack) : ack, receivedAt: now });
+  }
+
+  /**
+   * Records an ack that arrived before the campaign row was written with this message id
+   */
+  private applyPendingAck(accountId: string, messageId: string): void {
+    const key = `${accountId}:${messageId}`;
+    const pending = this.pendingAcks.get(key);
+    if (!pending) {
+      return;
+    }
+
+    this.pendingAcks.delete(key);
+    this.onMessageAck(accountId, messageId, pending.ack);
+  }
+
   private resumeRunningCampaigns(): void {
     try {
       const stmt = this.db.prepare(`
@@ -191,6 +424,11 @@ export class CampaignScheduler {
     }
   }
 
+  private getAccountLabel(accountId: string): string {
+    const account = this.db.prepare('SELECT name, phone_number FROM accounts WHERE id = ?').get(accountId) as { name: string | null; phone_number: string } | undefined;
+    return account?.name || account?.phone_number || accountId.substring(0, 8);
+  }
+
   private logActivity(type: string, message: string, relatedId?: string) {
     try {
       const stmt = this.db.prepare(`
@@ -216,8 +454,9 @@ export class CampaignScheduler {
    * missed, the chat could have not loaded, etc). To catch that, the account's WhatsApp Web
    * session (kept connected as a linked device, but never used to send) is used afterwards to
    * confirm a new outgoing message actually appeared in that chat before we consider this a success.
+   * Returns the id of that confirmed message.
    */
-  private async sendViaCloudPhone(accountId: string, phoneNumber: string, message: string): Promise<void> {
+  private async sendViaCloudPhone(accountId: string, phoneNumber: string, message: string): Promise<string> {
     if (!this.duoplusManager) {
       throw new Error('DuoPlus integration is not available');
     }
@@ -242,13 +481,15 @@ export class CampaignScheduler {
     const sentAfter = Date.now() - 10000;
     await this.duoplusManager.sendWhatsAppTextViaIntent(account.duoplus_device_id, phoneNumber, message);
 
-    const verified = await this.whatsappManager.waitForOutgoingMessage(accountId, phoneNumber, sentAfter);
-    if (!verified) {
+    const verifiedMessageId = await this.whatsappManager.waitForOutgoingMessage(accountId, phoneNumber, sentAfter);
+    if (!verifiedMessageId) {
       throw new Error(
         'Could not verify the message was actually sent from the cloud phone - no new outgoing message ' +
         'was detected in WhatsApp Web for this chat. The tap/keyevent may have missed the send button.'
       );
     }
+
+    return verifiedMessageId;
   }
 
   private markRemainingPendingContactsAsFailed(campaignId: string, error: string, resultCode: string): void {
@@ -261,6 +502,30 @@ export class CampaignScheduler {
   }
 
   private async getEligibleAccountsForCampaign(campaignId: string, campaign: any, accountIds: string[]): Promise<string[]> {
+    // Banned accounts and accounts under a temporary restriction sit out
+    accountIds = accountIds.filter(accountId => {
+      if (!this.whatsappManager.isAccountRestricted(accountId)) {
+        return true;
+      }
+
+      console.log(`⚠️ Skipping account ${accountId.substring(0, 8)}... for campaign ${campaignId}: banned or restricted`);
+      return false;
+    });
+
+    // Accounts that look at risk of a ban sit out until their health recovers
+    if (this.accountHealth) {
+      accountIds = accountIds.filter(accountId => {
+        const health = this.accountHealth!.getHealth(accountId);
+        if (health.level !== 'critical') {
+          return true;
+        }
+
+        console.log(`⚠️ Skipping account ${accountId.substring(0, 8)}... for campaign ${campaignId}: health score ${health.score} is critical`);
+        this.logActivity('account', `Account ${this.getAccountLabel(accountId)} was left out of campaign "${campaign.name}" - health score ${health.score}`, campaignId);
+        return false;
+      });
+    }
+
     if (!this.isGroupAdderCampaign(campaign)) {
       return accountIds;
     }
@@ -302,6 +567,16 @@ export class CampaignScheduler {
       return { success: false };
     }
 
+    // Batches are claimed up front and added one by one - re-check in case the contact opted out meanwhile
+    if (this.isPhoneSuppressed(contact.phone_number)) {
+      this.db.prepare(`
+        UPDATE campaign_contacts
+        SET status = 'failed', error = ?, result_code = 'suppressed'
+        WHERE id = ?
+      `).run('Contact opted out (suppression list)', contact.id);
+      return { success: false };
+    }
+
     const result = await this.whatsappManager.addParticipantToGroup(accountId, campaign.target_group_id, contact.phone_number);
 
     if (!result.success) {
@@ -318,6 +593,7 @@ export class CampaignScheduler {
         WHERE id = ?
       `);
       updateStmt.run(accountId, new Date().toISOString(), result.resultCode, contact.id);
+      this.accountQuota?.recordSend(accountId, 'group_add');
 
       const currentCount = state.messagesSentToday.get(accountId) || 0;
       state.messagesSentToday.set(accountId, currentCount + 1);
@@ -480,6 +756,8 @@ export class CampaignScheduler {
       return;
     }
 
+    this.resolveSegmentAudience(campaignId, campaign);
+
     // Get participating accounts
     const accountsStmt = this.db.prepare(`
       SELECT account_id FROM campaign_accounts WHERE campaign_id = ?
@@ -516,6 +794,7 @@ export class CampaignScheduler {
       activeAccounts: new Set(accountIds),
       messagesSentToday: new Map(),
       messagesSinceLastBreak: new Map(),
+      rateLimitStrikes: new Map(),
       lastResetDate: today
     };
 
@@ -596,15 +875,26 @@ export class CampaignScheduler {
           sent_by_account_id = NULL, 
           sent_at = NULL, 
           error = NULL,
-          retry_count = 0
+          retry_count = 0,
+          message_id = NULL,
+          variant_index = NULL,
+          ack = NULL,
+          server_at = NULL,
+          delivered_at = NULL,
+          read_at = NULL,
+          played_at = NULL,
+          replied_at = NULL,
+          reply_latency_seconds = NULL,
+          reply_message_id = NULL,
+          reply_chat_id = NULL
       WHERE campaign_id = ?
     `);
     stmt.run(campaignId);
 
-    // Update campaign status
+    // Update campaign status (a reset also restarts the A/B test)
     const updateStmt = this.db.prepare(`
       UPDATE campaigns 
-      SET status = 'draft', started_at = NULL, completed_at = NULL 
+      SET status = 'draft', started_at = NULL, completed_at = NULL, ab_winner_index = NULL, ab_winner_at = NULL, ab_sample_completed_at = NULL
       WHERE id = ?
     `);
     updateStmt.run(campaignId);
@@ -748,8 +1038,12 @@ export class CampaignScheduler {
         // Reset break counter
         state.messagesSinceLastBreak.set(accountId, 0);
       } else {
-        // Regular delay
+        // Regular delay, stretched for accounts whose health score dropped
         delay = getRandomDelay(campaign.min_delay, campaign.max_delay) * 1000;
+        const delayMultiplier = this.accountHealth?.getHealth(accountId).delayMultiplier ?? 1;
+        if (delayMultiplier > 1) {
+          delay = Math.round(delay * delayMultiplier);
+        }
         console.log(`✅ Next campaign message from ${accountId.substring(0, 8)}... in ${Math.floor(delay / 1000)} seconds`);
       }
     } else {
@@ -760,16 +1054,33 @@ export class CampaignScheduler {
      this.scheduleAccountTimeout(campaignId, accountId, delay, runId);
    }
  
+  private getQuotaDelay(accountId: string, check: AccountQuotaCheck): number {
+    const retryAt = check.retryAt ? new Date(check.retryAt).getTime() : Date.now();
+    const delay = Math.max(60 * 1000, retryAt - Date.now());
+    console.log(`📊 Account ${accountId.substring(0, 8)}... reached its ${check.exhausted} quota - next attempt at ${new Date(Date.now() + delay).toLocaleString()}`);
+    return delay;
+  }
+
+  private isPhoneSuppressed(phoneNumber: string): boolean {
+    const key = getSuppressionKey(phoneNumber);
+    return !!key && !!this.db.prepare('SELECT 1 FROM suppressions WHERE phone_key = ?').get(key);
+  }
+
+  private markSuppressedContacts(campaignId: string, error: string): number {
+    const result = this.db.prepare(`
+      UPDATE campaign_contacts
+      SET status = 'failed', error = ?, result_code = 'suppressed'
+      WHERE campaign_id = ? AND status = 'pending'
+      AND ${isSuppressedClause('phone_number')}
+    `).run(error, campaignId);
+    return result.changes;
+  }
+
   private claimPendingContacts(campaignId: string, accountId: string, campaign: any, limit: number = 1): any[] {
     let contactQuery = `
       SELECT cc.* FROM campaign_contacts cc
       WHERE cc.campaign_id = ? AND cc.status = 'pending'
-      AND cc.phone_number NOT IN (
-        SELECT c.phone_number FROM contacts c
-        JOIN contact_tags ct ON c.id = ct.contact_id
-        JOIN tags t ON ct.tag_id = t.id
-        WHERE t.name = 'BlackList'
-      )
+      AND NOT ${isSuppressedClause('cc.phone_number')}
     `;
     
     // Add filter for recent contacts if enabled
@@ -806,7 +1117,7 @@ export class CampaignScheduler {
       const contactStmt = this.db.prepare(contactQuery);
       const claimStmt = this.db.prepare(`
         UPDATE campaign_contacts 
-        SET status = 'sending', sent_by_account_id = ?, error = NULL
+        SET status = 'sending', sent_by_account_id = ?, error = NULL, attempted_at = ?
         WHERE id = ? AND status = 'pending'
       `);
 
@@ -816,9 +1127,10 @@ export class CampaignScheduler {
       }
 
       const claimedContacts: any[] = [];
+      const attemptedAt = new Date().toISOString();
 
       for (const contact of contacts) {
-        const claimResult = claimStmt.run(accountId, contact.id);
+        const claimResult = claimStmt.run(accountId, attemptedAt, contact.id);
         if (claimResult.changes > 0) {
           claimedContacts.push({ ...contact, status: 'sending', sent_by_account_id: accountId });
         }
@@ -841,10 +1153,22 @@ export class CampaignScheduler {
       return { success: false, finished: true };
     }
 
+    if (this.whatsappManager.isAccountRestricted(accountId)) {
+      return { success: false, finished: true, finishReason: 'account is banned or restricted' };
+    }
+
+    // Unhealthy accounts get a reduced daily limit; critical ones stop sending for this campaign
+    const health = this.accountHealth?.getHealth(accountId);
+    if (health?.level === 'critical') {
+      this.logActivity('account', `Account ${this.getAccountLabel(accountId)} stopped sending for campaign "${campaign.name}" - health score ${health.score}`, campaignId);
+      return { success: false, finished: true, finishReason: `account health critical (score ${health.score})` };
+    }
+    const dailyLimit = Math.floor(campaign.max_messages_per_day * (health?.dailyLimitFactor ?? 1));
+
     // Check if account reached daily limit
     const sentToday = state.messagesSentToday.get(accountId) || 0;
-    if (sentToday >= campaign.max_messages_per_day) {
-      console.log(`📊 Account ${accountId} reached daily limit (${sentToday}/${campaign.max_messages_per_day})`);
+    if (sentToday >= dailyLimit) {
+      console.log(`📊 Account ${accountId} reached daily limit (${sentToday}/${dailyLimit})`);
       console.log(`   Will resume tomorrow after midnight reset`);
       
       // Don't stop completely! Schedule for tomorrow
@@ -880,12 +1204,19 @@ export class CampaignScheduler {
       return { success: false };
     }
 
+    // Account-level quotas are shared with the account's other campaigns, group campaigns and warm-up
+    const quotaCheck = this.accountQuota?.canSend(accountId);
+    if (quotaCheck && !quotaCheck.allowed) {
+      return { success: false, delayMs: this.getQuotaDelay(accountId, quotaCheck) };
+    }
+    const remainingQuota = this.accountQuota?.getRemainingSends(accountId) ?? null;
+
     // CLAIM PATTERN: Get next pending contact and immediately mark as 'sending'
     // This prevents other accounts from taking the same contact
-    // IMPORTANT: Skip contacts in BlackList and skip recent contacts if enabled
-    const remainingDailyCapacity = Math.max(0, campaign.max_messages_per_day - sentToday);
+    // IMPORTANT: Skip suppressed (opted-out) contacts and skip recent contacts if enabled
+    const remainingDailyCapacity = Math.max(0, dailyLimit - sentToday);
     const groupAdderBatchSize = this.isGroupAdderCampaign(campaign)
-      ? Math.min(10, remainingDailyCapacity)
+      ? Math.min(10, remainingDailyCapacity, remainingQuota ?? Infinity)
       : 1;
 
     const contacts = this.claimPendingContacts(campaignId, accountId, campaign, groupAdderBatchSize || 1);
@@ -926,35 +1257,19 @@ export class CampaignScheduler {
     }
 
     if (!contact) {
-      // Check if there are blacklisted contacts that were skipped
-      const blacklistedStmt = this.db.prepare(`
+      // Check if there are suppressed contacts that were skipped
+      const suppressedStmt = this.db.prepare(`
         SELECT COUNT(*) as count FROM campaign_contacts cc
         WHERE cc.campaign_id = ? AND cc.status = 'pending'
-        AND cc.phone_number IN (
-          SELECT c.phone_number FROM contacts c
-          JOIN contact_tags ct ON c.id = ct.contact_id
-          JOIN tags t ON ct.tag_id = t.id
-          WHERE t.name = 'BlackList'
-        )
+        AND ${isSuppressedClause('cc.phone_number')}
       `);
-      const blacklistedResult = blacklistedStmt.get(campaignId) as any;
+      const suppressedResult = suppressedStmt.get(campaignId) as any;
       
-      if (blacklistedResult && blacklistedResult.count > 0) {
-        console.log(`🚫 ${blacklistedResult.count} contacts skipped due to BlackList`);
+      if (suppressedResult && suppressedResult.count > 0) {
+        console.log(`🚫 ${suppressedResult.count} contacts skipped - on the suppression list`);
         
         // Mark them as 'skipped' instead of leaving as 'pending'
-        const markSkippedStmt = this.db.prepare(`
-          UPDATE campaign_contacts 
-          SET status = 'failed', error = 'Contact in BlackList'
-          WHERE campaign_id = ? AND status = 'pending'
-          AND phone_number IN (
-            SELECT c.phone_number FROM contacts c
-            JOIN contact_tags ct ON c.id = ct.contact_id
-            JOIN tags t ON ct.tag_id = t.id
-            WHERE t.name = 'BlackList'
-          )
-        `);
-        markSkippedStmt.run(campaignId);
+        this.markSuppressedContacts(campaignId, 'Contact opted out (suppression list)');
       }
       
       // Check for contacts skipped due to recent messages
@@ -1007,7 +1322,7 @@ export class CampaignScheduler {
         }
       }
       
-      // No more pending contacts (excluding blacklisted)
+      // No more pending contacts (excluding suppressed)
       console.log(`✅ Account ${accountId} has no more pending contacts`);
       
       // Check if there are any contacts still in 'sending' status (stuck)
@@ -1029,44 +1344,76 @@ export class CampaignScheduler {
       return this.handleGroupAdderBatch(campaignId, accountId, contacts, state, campaign);
     }
 
+    // New and existing chats have separate quotas - a contact the account can't message yet goes back to the pool
+    const newChat = this.accountQuota?.isNewChat(accountId, contact.phone_number);
+    const chatQuotaCheck = newChat !== undefined ? this.accountQuota!.canSend(accountId, newChat) : null;
+    if (chatQuotaCheck && !chatQuotaCheck.allowed) {
+      this.db.prepare(`
+        UPDATE campaign_contacts
+        SET status = 'pending', sent_by_account_id = NULL
+        WHERE id = ? AND status = 'sending'
+      `).run(contact.id);
+      return { success: false, delayMs: this.getQuotaDelay(accountId, chatQuotaCheck) };
+    }
+
     // Get contact details for variable replacement
     const contactDetailsStmt = this.db.prepare(`
       SELECT * FROM contacts WHERE phone_number = ?
     `);
     const contactDetails = contactDetailsStmt.get(contact.phone_number) as any;
 
-    // Replace variables in message
+    // Render the message template (spintax, fallbacks, conditionals) for this contact
     const variables: Record<string, string> = {
-      name: contactDetails?.name || contact.phone_number,
-      phone: contact.phone_number,
       custom1: '',
-      custom2: ''
+      custom2: '',
+      ...buildContactVariables(contactDetails, contact.phone_number)
     };
     
     const messagePool = this.getMessageVariantPool(campaign);
-    const chosenMessage = messagePool[Math.floor(Math.random() * messagePool.length)];
-    const message = replaceVariables(chosenMessage, variables);
+    const variantIndex = this.pickVariantIndex(campaign, messagePool.length);
+    if (variantIndex === null) {
+      // A/B sample sent - the rest of the audience waits for the winner instead of being split evenly
+      this.db.prepare(`
+        UPDATE campaign_contacts
+        SET status = 'pending', sent_by_account_id = NULL
+        WHERE id = ? AND status = 'sending'
+      `).run(contact.id);
+      const untilEvaluation = this.getAbEvaluationEnd(campaign) - Date.now();
+      return { success: false, delayMs: Math.max(1000, Math.min(AB_HOLD_RECHECK_MS, untilEvaluation)) };
+    }
+    const chosenMessage = messagePool[variantIndex];
+    const rendered = renderTemplate(chosenMessage, variables, { knownVariables: this.getCustomFieldNames() });
+    if (rendered.unknownVariables.length > 0) {
+      console.log(`⚠️ Unknown template variables in campaign ${campaignId}: ${rendered.unknownVariables.join(', ')}`);
+    }
+    const message = rendered.text;
 
     try {
+      let waMessageId: string | null;
+
       if (campaign.send_mode === 'cloud_phone') {
         // Cloud-phone mode: send text only, through the DuoPlus cloud phone assigned to this account
-        await this.sendViaCloudPhone(accountId, contact.phone_number, message);
+        waMessageId = await this.sendViaCloudPhone(accountId, contact.phone_number, message);
       } else if (campaign.media_path && campaign.media_type) {
         // Send media with optional caption
         const caption = campaign.media_caption || message;
-        await this.whatsappManager.sendMediaFromPath(accountId, contact.phone_number, campaign.media_path, caption, false);
+        waMessageId = await this.whatsappManager.sendMediaFromPath(accountId, contact.phone_number, campaign.media_path, caption, false);
       } else {
         // Send text message only
-        await this.whatsappManager.sendMessage(accountId, contact.phone_number, message, false);
+        waMessageId = await this.whatsappManager.sendMessage(accountId, contact.phone_number, message, false);
       }
 
-      // Update contact status
+      // Update contact status. A known message id starts at ack 0 (pending) until message_ack events arrive;
+      // an ack already recorded for this same message id is never lowered
       const updateStmt = this.db.prepare(`
         UPDATE campaign_contacts 
-        SET status = 'sent', sent_by_account_id = ?, sent_at = ?, error = NULL, retry_count = 0
+        SET status = 'sent', sent_by_account_id = ?, sent_at = ?, error = NULL, retry_count = 0,
+            ack = CASE WHEN message_id = ? THEN MAX(COALESCE(ack, 0), 0) ELSE ? END,
+            message_id = ?, variant_index = ?
         WHERE id = ?
       `);
-      updateStmt.run(accountId, new Date().toISOString(), contact.id);
+      updateStmt.run(accountId, new Date().toISOString(), waMessageId, waMessageId ? 0 : null, waMessageId, variantIndex, contact.id);
+      this.accountQuota?.recordSend(accountId, 'campaign', newChat);
 
       // Increment counters
       const currentCount = state.messagesSentToday.get(accountId) || 0;
@@ -1074,6 +1421,7 @@ export class CampaignScheduler {
       
       const messagesSinceBreak = state.messagesSinceLastBreak.get(accountId) || 0;
       state.messagesSinceLastBreak.set(accountId, messagesSinceBreak + 1);
+      state.rateLimitStrikes.delete(accountId);
 
       console.log(`✅ Account ${accountId} sent message (${currentCount + 1}/${campaign.max_messages_per_day} today, ${messagesSinceBreak + 1} since last break)`);
 
@@ -1087,19 +1435,51 @@ export class CampaignScheduler {
         accountId
       });
 
+      if (waMessageId) {
+        this.applyPendingAck(accountId, waMessageId);
+      }
+
       return { success: true };
     } catch (error) {
       console.error('Failed to send message:', error);
       
       const errorMsg = (error as Error).message?.toLowerCase() || '';
+
+      // The account itself was banned/restricted - the contact goes back to the pool for the other accounts
+      const restriction = classifySendError(errorMsg);
+      if (restriction) {
+        console.log(`🚨 Account ${accountId.substring(0, 8)}... looks ${restriction}: ${errorMsg}`);
+
+        this.db.prepare(`
+          UPDATE campaign_contacts
+          SET status = 'pending', sent_by_account_id = NULL, error = NULL
+          WHERE id = ? AND status = 'sending'
+        `).run(contact.id);
+
+        this.whatsappManager.markAccountRestricted(accountId, restriction, (error as Error).message);
+        return { success: false, finished: true, finishReason: `account ${restriction}` };
+      }
+
+      // Throttled - the account stays in the campaign and backs off; the contact isn't charged a retry
+      if (isRateLimitError(errorMsg)) {
+        const strikes = (state.rateLimitStrikes.get(accountId) || 0) + 1;
+        state.rateLimitStrikes.set(accountId, strikes);
+        const backoffMs = Math.min(RATE_LIMIT_MAX_BACKOFF_MS, RATE_LIMIT_BASE_BACKOFF_MS * 2 ** (strikes - 1));
+        console.log(`⏳ Account ${accountId.substring(0, 8)}... rate limited (${strikes} in a row) - backing off ${Math.round(backoffMs / 1000)}s`);
+
+        this.db.prepare(`
+          UPDATE campaign_contacts
+          SET status = 'pending', sent_by_account_id = NULL, error = NULL
+          WHERE id = ? AND status = 'sending' AND sent_by_account_id = ?
+        `).run(contact.id, accountId);
+
+        return { success: false, delayMs: backoffMs };
+      }
       
       // Determine if this is a permanent failure or temporary issue
       const isPermanentFailure = 
-        // Account issues
-        errorMsg.includes('banned') || 
+        // Blocked by the recipient
         errorMsg.includes('blocked') || 
-        errorMsg.includes('restricted') ||
-        errorMsg.includes('account has been') ||
         
         // Phone number/Contact issues
         errorMsg.includes('not registered') ||
@@ -1134,10 +1514,10 @@ export class CampaignScheduler {
         
         const updateStmt = this.db.prepare(`
           UPDATE campaign_contacts 
-          SET status = 'failed', error = ?
+          SET status = 'failed', error = ?, variant_index = ?
           WHERE id = ?
         `);
-        updateStmt.run((error as Error).message, contact.id);
+        updateStmt.run((error as Error).message, variantIndex, contact.id);
         
         this.notifyRenderer('campaign:progress', campaignId, {
           contactId: contact.id,
@@ -1159,10 +1539,10 @@ export class CampaignScheduler {
           
           const updateStmt = this.db.prepare(`
             UPDATE campaign_contacts 
-            SET status = 'failed', error = ?, retry_count = ?
+            SET status = 'failed', error = ?, retry_count = ?, variant_index = ?
             WHERE id = ?
           `);
-          updateStmt.run(`Failed after 2 attempts: ${(error as Error).message}`, newRetryCount, contact.id);
+          updateStmt.run(`Failed after 2 attempts: ${(error as Error).message}`, newRetryCount, variantIndex, contact.id);
           
           this.notifyRenderer('campaign:progress', campaignId, {
             contactId: contact.id,
@@ -1173,12 +1553,13 @@ export class CampaignScheduler {
           // Still have retries left - return to pending
           console.log(`   Returning to 'pending' pool for retry (${2 - newRetryCount} attempts left)`);
           
+          // Only while still ours - if the account dropped out mid-send the contact was already released
           const updateStmt = this.db.prepare(`
             UPDATE campaign_contacts 
             SET status = 'pending', sent_by_account_id = NULL, error = NULL, retry_count = ?
-            WHERE id = ?
+            WHERE id = ? AND status = 'sending' AND sent_by_account_id = ?
           `);
-          updateStmt.run(newRetryCount, contact.id);
+          updateStmt.run(newRetryCount, contact.id, accountId);
         }
       }
 
@@ -1191,6 +1572,134 @@ export class CampaignScheduler {
     return stmt.get(campaignId);
   }
 
+  /**
+   * Picks which message variant (index into getMessageVariantPool) a contact gets.
+   * Normally random. With A/B auto-winner enabled, variants are filled evenly until each has
+   * `ab_sample_size` results. Replies and reads only come in later, so the winner is locked
+   * `ab_evaluation_hours` after that; until then the remaining contacts are held back (null).
+   */
+  private pickVariantIndex(campaign: any, poolSize: number): number | null {
+    if (poolSize <= 1) {
+      return 0;
+    }
+
+    if (!campaign.ab_auto_winner) {
+      return Math.floor(Math.random() * poolSize);
+    }
+
+    const lockedWinner = campaign.ab_winner_index;
+    if (lockedWinner !== null && lockedWinner !== undefined && lockedWinner >= 0 && lockedWinner < poolSize) {
+      return lockedWinner;
+    }
+
+    const results = this.getVariantResults(campaign.id, poolSize);
+    const sampleSize = Math.max(1, Number(campaign.ab_sample_size) || DEFAULT_AB_SAMPLE_SIZE);
+
+    if (results.every(result => result.sent + result.failed >= sampleSize)) {
+      return this.evaluateSample(campaign, results);
+    }
+
+    // Still sampling - top up a variant with the fewest results
+    const fewest = Math.min(...results.map(result => result.sent + result.failed));
+    const candidates = results.filter(result => result.sent + result.failed === fewest);
+    return candidates[Math.floor(Math.random() * candidates.length)].variantIndex;
+  }
+
+  /**
+   * Called once every variant has its sample. Starts the evaluation window the first time,
+   * and locks the winner when it is over - or returns null while it is still running.
+   */
+  private evaluateSample(campaign: any, results: VariantResult[]): number | null {
+    if (!campaign.ab_sample_completed_at) {
+      const completedAt = new Date().toISOString();
+      this.db.prepare(`
+        UPDATE campaigns SET ab_sample_completed_at = ? WHERE id = ? AND ab_sample_completed_at IS NULL
+      `).run(completedAt, campaign.id);
+      campaign.ab_sample_completed_at = completedAt;
+      console.log(`🧪 Campaign ${campaign.id} A/B test: sample complete, waiting for replies before picking a winner`);
+    }
+
+    if (Date.now() < this.getAbEvaluationEnd(campaign)) {
+      return null;
+    }
+
+    return this.lockWinningVariant(campaign, results);
+  }
+
+  private getAbEvaluationEnd(campaign: any): number {
+    const evaluationHours = Math.max(0, Number(campaign.ab_evaluation_hours ?? DEFAULT_AB_EVALUATION_HOURS) || 0);
+    return new Date(campaign.ab_sample_completed_at).getTime() + evaluationHours * 60 * 60 * 1000;
+  }
+
+  private getVariantResults(campaignId: string, poolSize: number): VariantResult[] {
+    const rows = this.db.prepare(`
+      SELECT 
+        variant_index,
+        SUM(CASE WHEN status = 'sent' THEN 1 ELSE 0 END) as sent,
+        SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed,
+        SUM(CASE WHEN status = 'sent' AND replied_at IS NOT NULL THEN 1 ELSE 0 END) as replied,
+        SUM(CASE WHEN status = 'sent' AND ack >= 3 THEN 1 ELSE 0 END) as read
+      FROM campaign_contacts
+      WHERE campaign_id = ? AND variant_index IS NOT NULL
+      GROUP BY variant_index
+    `).all(campaignId) as Array<{ variant_index: number; sent: number; failed: number; replied: number; read: number }>;
+
+    const byIndex = new Map(rows.map(row => [row.variant_index, row]));
+    return Array.from({ length: poolSize }, (_, variantIndex) => {
+      const row = byIndex.get(variantIndex);
+      return {
+        variantIndex,
+        sent: row?.sent || 0,
+        failed: row?.failed || 0,
+        replied: row?.replied || 0,
+        read: row?.read || 0
+      };
+    });
+  }
+
+  /**
+   * Best variant by reply rate, then read rate, then the lowest failure rate - so a sample with no
+   * replies or reads still gets a winner; a tie is broken at random.
+   * Persisted so it survives pause/resume and restarts.
+   */
+  private lockWinningVariant(campaign: any, results: VariantResult[]): number {
+    const rate = (part: number, total: number) => (total > 0 ? part / total : 0);
+    const compare = (a: VariantResult, b: VariantResult) =>
+      (rate(a.replied, a.sent) - rate(b.replied, b.sent))
+      || (rate(a.read, a.sent) - rate(b.read, b.sent))
+      || (rate(b.failed, b.sent + b.failed) - rate(a.failed, a.sent + a.failed));
+    const best = results.reduce((top, result) => (compare(result, top) > 0 ? result : top));
+    const tied = results.filter(result => compare(result, best) === 0);
+    const winner = tied[Math.floor(Math.random() * tied.length)];
+
+    const locked = this.db.prepare(`
+      UPDATE campaigns SET ab_winner_index = ?, ab_winner_at = ?
+      WHERE id = ? AND ab_winner_index IS NULL
+    `).run(winner.variantIndex, new Date().toISOString(), campaign.id);
+
+    if (locked.changes > 0) {
+      const replyRate = Math.round(rate(winner.replied, winner.sent) * 1000) / 10;
+      console.log(`🏆 Campaign ${campaign.id} A/B test: variant #${winner.variantIndex + 1} wins (${replyRate}% replies)`);
+      this.logActivity(
+        'campaign',
+        `Campaign "${campaign.name}" A/B test: variant #${winner.variantIndex + 1} won with ${replyRate}% replies - sending it to all remaining contacts`,
+        campaign.id
+      );
+      this.notifyRenderer('campaign:progress', campaign.id, { abWinnerIndex: winner.variantIndex });
+    }
+
+    return winner.variantIndex;
+  }
+
+  /**
+   * Custom field names are valid template variables even for contacts that
+   * have no value for them - they render empty instead of being left raw.
+   */
+  private getCustomFieldNames(): string[] {
+    const rows = this.db.prepare('SELECT name FROM custom_fields').all() as { name: string }[];
+    return rows.map(row => row.name);
+  }
+
   private getMessageVariantPool(campaign: any): string[] {
     let extraVariants: string[] = [];
 
@@ -1220,21 +1729,10 @@ export class CampaignScheduler {
     
     console.log(`✅ All accounts finished for campaign ${campaignId}`);
     
-    // Mark any remaining BlackList contacts as failed
-    const markBlacklistStmt = this.db.prepare(`
-      UPDATE campaign_contacts 
-      SET status = 'failed', error = 'Contact in BlackList - skipped'
-      WHERE campaign_id = ? AND status = 'pending'
-      AND phone_number IN (
-        SELECT c.phone_number FROM contacts c
-        JOIN contact_tags ct ON c.id = ct.contact_id
-        JOIN tags t ON ct.tag_id = t.id
-        WHERE t.name = 'BlackList'
-      )
-    `);
-    const blacklistResult = markBlacklistStmt.run(campaignId);
-    if (blacklistResult.changes > 0) {
-      console.log(`🚫 Marked ${blacklistResult.changes} remaining BlackList contacts as failed`);
+    // Mark any remaining suppressed contacts as failed
+    const suppressedCount = this.markSuppressedContacts(campaignId, 'Contact opted out (suppression list) - skipped');
+    if (suppressedCount > 0) {
+      console.log(`🚫 Marked ${suppressedCount} remaining suppressed contacts as failed`);
     }
     
     // Mark any remaining recent contacts as failed if skip_recent_contacts is enabled
@@ -1305,7 +1803,7 @@ export class CampaignScheduler {
       return;
     }
     
-    // Truly complete (all sent, failed, or blacklisted)
+    // Truly complete (all sent, failed, or suppressed)
     console.log(`🎉 Campaign ${campaignId} is complete - marking as completed`);
     await this.stopCampaign(campaignId);
     
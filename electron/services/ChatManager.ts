@@ -143,7 +143,7 @@ export class ChatManager {
     const chatId = uuidv4();
     this.db.prepare(`
       INSERT INTO chats (id, contact_id, account_id, phone_number, status, name, last_message_at)
-      VALUES (?, ?, ?, ?, 'unhandled', ?, ?)
+      VALUES (?, ?, ?, ?, 'open', ?, ?)
     `).run(chatId, contact.id, accountId, normalizedNumber, chatName, new Date().toISOString());
     
     console.log('💬 Created new chat:', chatId, 'for phone:', normalizedNumber, 'contact:', contact.id);
@@ -163,6 +163,16 @@ export class ChatManager {
     this.db.prepare(`UPDATE chats SET last_message_at = ? WHERE id = ?`).run(timestamp, chatId);
   }
 
+  /**
+   * A new message from the contact brings a pending, snoozed or closed chat back to open
+   */
+  reopenOnIncomingMessage(chatId: string): void {
+    this.db.prepare(`
+      UPDATE chats SET status = 'open', snoozed_until = NULL
+      WHERE id = ? AND status IN ('pending', 'snoozed', 'closed')
+    `).run(chatId);
+  }
+
   /**
    * Download profile picture from WhatsApp and save locally
    */
@@ -0,0 +1,127 @@
+import type { Database } from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import type { SuppressionSource } from '../../src/types';
+import type { SuppressionService } from './SuppressionService';
+
+// Last 9 digits of a phone column - same normalization used everywhere contacts are matched across tables
+const phoneKey = (column: string) =>
+  `SUBSTR(REPLACE(REPLACE(REPLACE(${column}, '-', ''), ' ', ''), '+', ''), -9)`;
+
+const digitsKey = (phoneNumber: string) => (phoneNumber || '').replace(/\D/g, '').slice(-9);
+
+/**
+ * Contact writes shared by the Contacts page (IPC) and flow actions - tags, custom fields
+ * and campaign enrollment. Starting "tag added" flows is left to the caller.
+ */
+export class ContactService {
+  private db: Database;
+  private suppressionService: SuppressionService;
+
+  constructor(db: Database, suppressionService: SuppressionService) {
+    this.db = db;
+    this.suppressionService = suppressionService;
+  }
+
+  /**
+   * The contact with this phone (matched on the last 9 digits), created if there is none yet.
+   * Returns null when the value has no digits.
+   */
+  findOrCreateByPhone(phoneNumber: string, name?: string | null): string | null {
+    const digits = (phoneNumber || '').replace(/\D/g, '');
+    if (!digits) {
+      return null;
+    }
+
+    const contact = this.db.prepare(`
+      SELECT id FROM contacts WHERE ${phoneKey('phone_number')} = ? LIMIT 1
+    `).get(digits.slice(-9)) as { id: string } | undefined;
+    if (contact) {
+      return contact.id;
+    }
+
+    const contactId = uuidv4();
+    this.db.prepare('INSERT INTO contacts (id, phone_number, name) VALUES (?, ?, ?)').run(contactId, digits, name || null);
+    return contactId;
+  }
+
+  /**
+   * Returns true when the contact didn't have the tag yet. The BlackList tag mirrors the suppression list.
+   */
+  addTag(contactId: string, tagId: string, source: SuppressionSource = 'manual'): boolean {
+    const result = this.db.prepare(`
+      INSERT OR IGNORE INTO contact_tags (contact_id, tag_id, tagged_at)
+      VALUES (?, ?, ?)
+    `).run(contactId, tagId, new Date().toISOString());
+
+    if (this.isBlacklistTag(tagId)) {
+      this.suppressionService.syncContactBlacklistTag(contactId, true, source);
+    }
+    return result.changes > 0;
+  }
+
+  removeTag(contactId: string, tagId: string, source: SuppressionSource = 'manual'): void {
+    this.db.prepare('DELETE FROM contact_tags WHERE contact_id = ? AND tag_id = ?').run(contactId, tagId);
+
+    if (this.isBlacklistTag(tagId)) {
+      this.suppressionService.syncContactBlacklistTag(contactId, false, source);
+    }
+  }
+
+  setCustomFields(contactId: string, customFields: Record<string, any>): void {
+    this.db.prepare('UPDATE contacts SET custom_fields = ? WHERE id = ?').run(JSON.stringify(customFields), contactId);
+  }
+
+  /**
+   * Sets one custom field, keeping the others
+   */
+  setCustomField(contactId: string, fieldName: string, value: string): void {
+    const contact = this.db.prepare('SELECT custom_fields FROM contacts WHERE id = ?').get(contactId) as
+      { custom_fields: string | null } | undefined;
+    if (!contact) {
+      return;
+    }
+
+    let customFields: Record<string, any> = {};
+    try {
+      customFields = contact.custom_fields ? JSON.parse(contact.custom_fields) || {} : {};
+    } catch {
+      customFields = {};
+    }
+    customFields[fieldName] = value;
+    this.setCustomFields(contactId, customFields);
+  }
+
+  /**
+   * Adds numbers to a campaign as pending contacts. A number already in the campaign
+   * (matched on the last 9 digits) is skipped. Returns how many were added.
+   */
+  addToCampaign(campaignId: string, phoneNumbers: string[]): number {
+    const existing = this.db.prepare(`
+      SELECT ${phoneKey('phone_number')} as phone_key FROM campaign_contacts WHERE campaign_id = ?
+    `).all(campaignId) as { phone_key: string }[];
+    const seen = new Set(existing.map(row => row.phone_key));
+
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO campaign_contacts (id, campaign_id, phone_number, retry_count)
+      VALUES (?, ?, ?, 0)
+    `);
+
+    let added = 0;
+    this.db.transaction(() => {
+      for (const raw of phoneNumbers) {
+        const phoneNumber = raw?.trim();
+        const key = phoneNumber ? digitsKey(phoneNumber) : '';
+        if (!key || seen.has(key)) {
+          continue;
+        }
+        seen.add(key);
+        added += insert.run(uuidv4(), campaignId, phoneNumber).changes;
+      }
+    })();
+    return added;
+  }
+
+  private isBlacklistTag(tagId: string): boolean {
+    return !!this.db.prepare(`SELECT 1 FROM tags WHERE id = ? AND name = 'BlackList'`).get(tagId);
+  }
+}
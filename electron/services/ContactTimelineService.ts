@@ -0,0 +1,211 @@
+import type { Database } from 'better-sqlite3';
+import type { ContactTimeline, ContactTimelineEvent } from '../../src/types';
+
+// Most recent Inbox messages included on a timeline - a long conversation would drown out everything else
+const MAX_TIMELINE_MESSAGES = 200;
+
+// Last 9 digits of a phone column - same normalization used everywhere contacts are matched across tables
+const phoneKey = (column: string) =>
+  `SUBSTR(REPLACE(REPLACE(REPLACE(${column}, '-', ''), ' ', ''), '+', ''), -9)`;
+
+/**
+ * Builds a single chronological history for one contact out of every table that
+ * records something about them: campaign sends, group adder results, Inbox
+ * messages, flow executions and the suppression list.
+ */
+export class ContactTimelineService {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  getTimeline(phoneNumber: string): ContactTimeline {
+    const digits = (phoneNumber || '').replace(/\D/g, '');
+    const key = digits.slice(-9);
+
+    if (!key) {
+      return { contact: null, phoneNumber, events: [] };
+    }
+
+    const contactRow = this.db.prepare(`
+      SELECT * FROM contacts WHERE ${phoneKey('phone_number')} = ? LIMIT 1
+    `).get(key) as any;
+
+    const contact = contactRow
+      ? {
+        ...contactRow,
+        custom_fields: this.parseCustomFields(contactRow.custom_fields)
+      }
+      : null;
+
+    const events: ContactTimelineEvent[] = [
+      ...this.getCampaignEvents(key),
+      ...this.getMessageEvents(key),
+      ...this.getFlowEvents(key),
+      ...this.getSuppressionEvents(key)
+    ];
+
+    // Newest first; events without a recorded time go last
+    events.sort((a, b) => {
+      if (!a.timestamp) return b.timestamp ? 1 : 0;
+      if (!b.timestamp) return -1;
+      return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+    });
+
+    return { contact, phoneNumber: contactRow?.phone_number || digits, events };
+  }
+
+  private getCampaignEvents(key: string): ContactTimelineEvent[] {
+    const rows = this.db.prepare(`
+      SELECT
+        cc.*,
+        c.name as campaign_name,
+        c.campaign_type,
+        c.target_group_name,
+        c.target_group_id,
+        c.started_at as campaign_started_at,
+        a.name as account_name,
+        a.phone_number as account_phone
+      FROM campaign_contacts cc
+      JOIN campaigns c ON c.id = cc.campaign_id
+      LEFT JOIN accounts a ON a.id = cc.sent_by_account_id
+      WHERE ${phoneKey('cc.phone_number')} = ?
+        AND cc.status IN ('sent', 'failed')
+    `).all(key) as any[];
+
+    const events: ContactTimelineEvent[] = [];
+
+    for (const row of rows) {
+      const base = {
+        campaignId: row.campaign_id,
+        campaignName: row.campaign_name,
+        accountName: row.account_name || row.account_phone || undefined
+      };
+
+      if ((row.campaign_type || 'message') === 'group_adder') {
+        const groupName = row.target_group_name || row.target_group_id || undefined;
+        const type = row.status === 'failed'
+          ? 'group_add_failed'
+          : row.result_code === 'invite_sent' ? 'group_invite_sent' : 'group_added';
+
+        events.push({
+          ...base,
+          id: `${row.id}:group`,
+          type,
+          timestamp: row.sent_at || row.campaign_started_at || null,
+          groupName,
+          status: row.result_code || undefined,
+          text: row.status === 'failed' ? row.error || undefined : undefined
+        });
+        continue;
+      }
+
+      if (row.status === 'failed') {
+        // Failed message sends never get sent_at - the campaign start is the closest time we have
+        events.push({
+          ...base,
+          id: `${row.id}:failed`,
+          type: 'campaign_failed',
+          timestamp: row.sent_at || row.campaign_started_at || null,
+          status: row.result_code || undefined,
+          text: row.error || undefined
+        });
+        continue;
+      }
+
+      events.push({ ...base, id: `${row.id}:sent`, type: 'campaign_sent', timestamp: row.sent_at || null });
+      if (row.delivered_at) {
+        events.push({ ...base, id: `${row.id}:delivered`, type: 'campaign_delivered', timestamp: row.delivered_at });
+      }
+      if (row.read_at) {
+        events.push({ ...base, id: `${row.id}:read`, type: 'campaign_read', timestamp: row.read_at });
+      }
+      if (row.replied_at) {
+        events.push({ ...base, id: `${row.id}:replied`, type: 'campaign_replied', timestamp: row.replied_at });
+      }
+    }
+
+    return events;
+  }
+
+  private getMessageEvents(key: string): ContactTimelineEvent[] {
+    const rows = this.db.prepare(`
+      SELECT
+        m.id,
+        m.message_text,
+        m.message_type,
+        m.media_filename,
+        m.is_from_me,
+        m.timestamp,
+        a.name as account_name,
+        a.phone_number as account_phone
+      FROM messages m
+      JOIN chats ch ON ch.id = m.software_chat_id
+      LEFT JOIN accounts a ON a.id = m.account_id
+      WHERE ${phoneKey('ch.phone_number')} = ?
+        AND COALESCE(m.is_warmup, 0) = 0
+      ORDER BY m.timestamp DESC
+      LIMIT ?
+    `).all(key, MAX_TIMELINE_MESSAGES) as any[];
+
+    return rows.map(row => ({
+      id: `${row.id}:message`,
+      type: row.is_from_me ? 'message_out' : 'message_in',
+      timestamp: row.timestamp,
+      accountName: row.account_name || row.account_phone || undefined,
+      text: row.message_text || row.media_filename || (row.message_type && row.message_type !== 'text' ? `[${row.message_type}]` : undefined)
+    }));
+  }
+
+  private getFlowEvents(key: string): ContactTimelineEvent[] {
+    // flow_executions only keeps the WhatsApp chat id (e.g. 972501234567@c.us)
+    const rows = this.db.prepare(`
+      SELECT fe.*, f.name as flow_name, a.name as account_name, a.phone_number as account_phone
+      FROM flow_executions fe
+      LEFT JOIN flows f ON f.id = fe.flow_id
+      LEFT JOIN accounts a ON a.id = fe.account_id
+      WHERE SUBSTR(REPLACE(fe.chat_id, '@c.us', ''), -9) = ?
+    `).all(key) as any[];
+
+    return rows.map(row => ({
+      id: `${row.id}:flow`,
+      type: 'flow_execution',
+      timestamp: row.started_at || null,
+      flowName: row.flow_name || undefined,
+      accountName: row.account_name || row.account_phone || undefined,
+      status: row.status || undefined
+    }));
+  }
+
+  private getSuppressionEvents(key: string): ContactTimelineEvent[] {
+    const row = this.db.prepare(`
+      SELECT s.id, s.source, s.reason, s.created_at, a.name as account_name, a.phone_number as account_phone
+      FROM suppressions s
+      LEFT JOIN accounts a ON a.id = s.account_id
+      WHERE s.phone_key = ?
+    `).get(key) as any;
+
+    if (!row) {
+      return [];
+    }
+
+    return [{
+      id: `${row.id}:blacklisted`,
+      type: 'blacklisted',
+      timestamp: row.created_at || null,
+      accountName: row.account_name || row.account_phone || undefined,
+      status: row.source,
+      text: row.reason || undefined
+    }];
+  }
+
+  private parseCustomFields(value: string | null): Record<string, string> {
+    if (!value) return {};
+    try {
+      return JSON.parse(value) || {};
+    } catch {
+      return {};
+    }
+  }
+}
@@ -1,6 +1,13 @@
 import type { Database } from 'better-sqlite3';
 import { WhatsAppManager } from './WhatsAppManager';
+import type { SuppressionService } from './SuppressionService';
+import type { SegmentService } from './SegmentService';
+import type { ContactService } from './ContactService';
+import { toChatStatus, type InboxManager } from './InboxManager';
 import { v4 as uuidv4 } from 'uuid';
+import { createHmac } from 'crypto';
+import { renderTemplate, buildContactVariables } from '../../src/lib/template';
+import type { FlowSimulationAction, FlowSimulationInput, FlowSimulationResult, FlowSimulationStep } from '../../src/types';
 
 interface FlowNode {
   id: string;
@@ -25,6 +32,11 @@ interface Flow {
   description?: string;
   is_active: boolean;
   account_ids: string;
+  priority?: number;
+  stop_other_flows?: number;
+  cooldown_minutes?: number;
+  max_executions_per_contact?: number;
+  skip_human_handled?: number;
 }
 
 interface ExecutionNode {
@@ -33,22 +45,391 @@ interface ExecutionNode {
   data: any;
   edgeYes?: ExecutionNode | null;
   edgeNo?: ExecutionNode | null;
+  edgeTimeout?: ExecutionNode | null;
   nextNode?: ExecutionNode | null;
 }
 
+interface WaitingExecution {
+  id: string;
+  flow_id: string;
+  account_id: string;
+  chat_id: string;
+  current_node_id: string | null;
+  variables: string | null;
+  flow_name: string;
+  flow_is_active: number;
+  flow_skip_human_handled: number;
+}
+
+// Values a flow carries between runs - saved with a paused execution and available to message templates
+type FlowVariables = Record<string, string>;
+
+// What a node did, for the execution trace (rendered text, webhook status, captured value...)
+type FlowStepDetails = Record<string, any>;
+
+// A simulator run - the sender is made up, and side effects go into actions instead of WhatsApp / the DB
+interface FlowSimulation {
+  phone: string;
+  name: string;
+  tagIds: Set<string>;
+  actions: FlowSimulationAction[];
+}
+
+const SIMULATION_MAX_STEPS = 50;
+
+const DEFAULT_WAIT_TIMEOUT_HOURS = 24;
+const WAIT_CHECK_INTERVAL_MS = 30 * 1000;
+const STEP_TRACE_RETENTION_DAYS = 30;
+const SCHEDULE_CHECK_INTERVAL_MS = 60 * 1000;
+
+const WEBHOOK_DEFAULT_TIMEOUT_SECONDS = 10;
+const WEBHOOK_MAX_TIMEOUT_SECONDS = 120;
+const WEBHOOK_MAX_RETRIES = 5;
+const WEBHOOK_DEFAULT_BACKOFF_SECONDS = 2;
+const WEBHOOK_DEFAULT_SIGNATURE_HEADER = 'X-Signature-256';
+// Response bodies kept in the execution trace are cut at this length
+const WEBHOOK_TRACE_RESPONSE_LENGTH = 2000;
+// A scheduled trigger whose minute was missed (app closed, computer asleep) still runs within this window
+const SCHEDULE_CATCH_UP_MINUTES = 60;
+// A chat counts as handled by a human for this long after someone last replied to it from the Inbox
+const HUMAN_HANDLING_WINDOW_HOURS = 24;
+
+// Start nodes for events other than "a message came in". The camelCase name is what the editor saves.
+const TRIGGER_NODE_TYPES = {
+  campaign_reply: ['triggerCampaignReply', 'trigger_campaign_reply'],
+  first_message: ['triggerFirstMessage', 'trigger_first_message'],
+  tag_added: ['triggerTagAdded', 'trigger_tag_added'],
+  schedule: ['triggerSchedule', 'trigger_schedule'],
+  group_join: ['triggerGroupJoin', 'trigger_group_join'],
+  webhook: ['triggerWebhook', 'trigger_webhook'],
+};
+
+type FlowTriggerKind = keyof typeof TRIGGER_NODE_TYPES;
+
+function getTriggerKind(type: string): FlowTriggerKind | null {
+  const entry = Object.entries(TRIGGER_NODE_TYPES).find(([, types]) => types.includes(type));
+  return entry ? entry[0] as FlowTriggerKind : null;
+}
+
+// What an incoming message carries besides itself - set when the reply was attributed to a campaign send
+export interface FlowMessageTrigger {
+  campaignId?: string | null;
+}
+
+// Events that start flows without an incoming message (scheduled runs are found by FlowEngine itself)
+export type FlowTriggerEvent =
+  | { type: 'tag_added'; phone: string; name?: string | null; tagId: string }
+  | { type: 'group_join'; accountId: string; phone: string; name?: string | null; groupId: string; groupName?: string | null }
+  | { type: 'webhook'; token: string; phone: string; name?: string | null; accountId?: string | null; payload: Record<string, any> };
+
+function isWaitForReplyNode(node: ExecutionNode): boolean {
+  return node.type === 'actionWaitForReply' || node.type === 'action_wait_for_reply';
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function isConditionRuleNode(type: string): boolean {
+  return type === 'conditionRule' || type === 'condition_rule';
+}
+
+/**
+ * Incoming message kind as the generic condition node names it. whatsapp-web.js calls text "chat"
+ * and voice notes "ptt".
+ */
+export function getMessageKind(message: any): string {
+  switch (message?.type) {
+    case 'chat':
+      return 'text';
+    case 'ptt':
+      return 'voice';
+    case 'image':
+    case 'video':
+    case 'audio':
+    case 'document':
+    case 'sticker':
+    case 'location':
+      return message.type;
+    default:
+      return message?.hasMedia ? 'document' : 'text';
+  }
+}
+
+/**
+ * Keyword list check - keywords are separated by commas or new lines, matching is case-insensitive.
+ */
+export function matchesKeywords(text: string, keywords: string | undefined, match: string | undefined): boolean {
+  const list = (keywords || '').split(/[,\n]/).map(keyword => keyword.trim().toLowerCase()).filter(Boolean);
+  if (list.length === 0) {
+    return false;
+  }
+
+  const value = (text || '').toLowerCase();
+  return match === 'all'
+    ? list.every(keyword => value.includes(keyword))
+    : list.some(keyword => value.includes(keyword));
+}
+
+/**
+ * Weekday (0 = Sunday), minutes since midnight and YYYY-MM-DD date of `now` in an IANA timezone
+ * (the computer's own when empty or invalid)
+ */
+function getZonedClock(now: Date, timezone?: string): { weekday: number; minutes: number; date: string } {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const local = {
+    weekday: now.getDay(),
+    minutes: now.getHours() * 60 + now.getMinutes(),
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+  };
+
+  if (!timezone) {
+    return local;
+  }
+
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+    const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+    return {
+      weekday: WEEKDAYS.indexOf(part('weekday')),
+      minutes: Number(part('hour')) * 60 + Number(part('minute')),
+      date: `${part('year')}-${part('month')}-${part('day')}`,
+    };
+  } catch (error) {
+    console.log(`⚠️ Unknown timezone "${timezone}" - using the local time`);
+    return local;
+  }
+}
+
+function parseClockMinutes(value: string | undefined, fallback: number): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec((value || '').trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : fallback;
+}
+
+/**
+ * Whether `now` falls in a weekly business-hours window. `days` are 0 (Sunday) - 6, start/end are
+ * HH:MM in the given IANA timezone (the computer's own when empty or invalid). A window whose end
+ * is before its start runs past midnight.
+ */
+export function isWithinBusinessHours(
+  window: { days?: number[]; start?: string; end?: string; timezone?: string },
+  now: Date = new Date()
+): boolean {
+  const { weekday, minutes } = getZonedClock(now, window.timezone);
+
+  const start = parseClockMinutes(window.start, 9 * 60);
+  const end = parseClockMinutes(window.end, 17 * 60);
+  const days = Array.isArray(window.days) && window.days.length > 0 ? window.days.map(Number) : [0, 1, 2, 3, 4, 5, 6];
+
+  if (start <= end) {
+    return days.includes(weekday) && minutes >= start && minutes < end;
+  }
+
+  // Overnight window - the hours after midnight belong to the previous day's window
+  const previousDay = (weekday + 6) % 7;
+  return (days.includes(weekday) && minutes >= start) || (days.includes(previousDay) && minutes < end);
+}
+
+/**
+ * The date a scheduled trigger is due on right now, or null. It is due from its HH:MM on one of its
+ * days for SCHEDULE_CATCH_UP_MINUTES; each date runs once per contact (see runScheduledTrigger).
+ */
+export function getDueScheduleDate(
+  schedule: { days?: number[]; time?: string; timezone?: string },
+  now: Date = new Date()
+): string | null {
+  const { weekday, minutes, date } = getZonedClock(now, schedule.timezone);
+  const days = Array.isArray(schedule.days) && schedule.days.length > 0 ? schedule.days.map(Number) : [0, 1, 2, 3, 4, 5, 6];
+  const time = parseClockMinutes(schedule.time, 9 * 60);
+
+  if (!days.includes(weekday) || minutes < time || minutes >= time + SCHEDULE_CATCH_UP_MINUTES) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Value at a dot path in parsed JSON - "data.items[0].id" and "data.items.0.id" are the same.
+ * An empty path is the whole value.
+ */
+export function getJsonPath(value: any, path: string | undefined): any {
+  const segments = (path || '').replace(/\[(\d+)\]/g, '.$1').split('.').map(segment => segment.trim()).filter(Boolean);
+  let current = value;
+  for (const segment of segments) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+}
+
+/**
+ * Hex HMAC-SHA256 of a webhook payload - sent as "sha256=<hex>" so the receiver can verify it came from us
+ */
+export function signWebhookPayload(secret: string, payload: string): string {
+  return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+// Template variables inside a raw JSON body are escaped, so a quote or a new line in a reply can't break the JSON
+function escapeJsonString(value: string): string {
+  return JSON.stringify(value).slice(1, -1);
+}
+
+function clampNumber(value: any, min: number, max: number, fallback: number): number {
+  const number = Number(value);
+  if (value === '' || value === null || value === undefined || Number.isNaN(number)) {
+    return fallback;
+  }
+  return Math.min(max, Math.max(min, number));
+}
+
+/**
+ * Custom field comparison used by the generic condition node.
+ */
+export function compareFieldValue(actual: string | undefined, operator: string | undefined, expected: string | undefined): boolean {
+  const value = (actual ?? '').trim();
+  const target = (expected ?? '').trim();
+
+  switch (operator) {
+    case 'not_equals':
+      return value.toLowerCase() !== target.toLowerCase();
+    case 'contains':
+      return value.toLowerCase().includes(target.toLowerCase());
+    case 'is_empty':
+      return value === '';
+    case 'is_not_empty':
+      return value !== '';
+    case 'greater_than':
+    case 'less_than': {
+      const left = parseFloat(value);
+      const right = parseFloat(target);
+      if (Number.isNaN(left) || Number.isNaN(right)) {
+        return false;
+      }
+      return operator === 'greater_than' ? left > right : left < right;
+    }
+    case 'equals':
+    default:
+      return value.toLowerCase() === target.toLowerCase();
+  }
+}
+
+/**
+ * Variable / custom field names as templates reference them: {{budget}}, {{company_name}}
+ */
+export function normalizeVariableName(name: string | null | undefined): string {
+  return (name || '').trim().replace(/\s+/g, '_');
+}
+
+/**
+ * What a capture node takes from a message: the whole (trimmed) text, or - with a regex - the first
+ * capture group, falling back to the whole match. null when there is nothing to capture.
+ */
+export function captureFromText(text: string, mode: string | undefined, pattern: string | undefined): string | null {
+  const value = (text || '').trim();
+
+  if (mode !== 'regex') {
+    return value || null;
+  }
+
+  if (!pattern) {
+    return null;
+  }
+
+  try {
+    const match = new RegExp(pattern, 'i').exec(value);
+    if (!match) {
+      return null;
+    }
+    const captured = (match[1] ?? match[0] ?? '').trim();
+    return captured || null;
+  } catch (error) {
+    console.log(`⚠️ Invalid capture regex "${pattern}":`, error);
+    return null;
+  }
+}
+
 export class FlowEngine {
   // Track messages currently being processed to prevent duplicate flow execution
   private processingMessages: Set<string> = new Set();
+  private suppressionService: SuppressionService | null = null;
+  private segmentService: SegmentService | null = null;
+  private contactService: ContactService | null = null;
+  private inboxManager: InboxManager | null = null;
+  private waitCheckInterval: NodeJS.Timeout | null = null;
+  private scheduleCheckInterval: NodeJS.Timeout | null = null;
+  // Scheduled trigger nodes still working through their segment - a slow run is never started twice
+  private runningSchedules: Set<string> = new Set();
   
   constructor(
     private db: Database,
     private whatsappManager: WhatsAppManager
   ) {}
 
+  setSuppressionService(suppressionService: SuppressionService) {
+    this.suppressionService = suppressionService;
+  }
+
+  setSegmentService(segmentService: SegmentService) {
+    this.segmentService = segmentService;
+  }
+
+  // CRM actions write through the same services as the Contacts page and the Inbox
+  setContactService(contactService: ContactService) {
+    this.contactService = contactService;
+  }
+
+  setInboxManager(inboxManager: InboxManager) {
+    this.inboxManager = inboxManager;
+  }
+
+  /**
+   * מתחיל בדיקה תקופתית של המתנות לתשובה שפג תוקפן, ובדיקה כל דקה של טריגרים מתוזמנים.
+   * ההמתנות שמורות ב-flow_executions, כך שהן ממשיכות גם אחרי הפעלה מחדש של האפליקציה.
+   */
+  start(): void {
+    if (this.waitCheckInterval) {
+      return;
+    }
+
+    const traceCutoff = new Date(Date.now() - STEP_TRACE_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    this.db.prepare('DELETE FROM flow_execution_steps WHERE created_at < ?').run(traceCutoff);
+
+    setTimeout(() => void this.checkWaitTimeouts(), 10000);
+    this.waitCheckInterval = setInterval(() => void this.checkWaitTimeouts(), WAIT_CHECK_INTERVAL_MS);
+    this.scheduleCheckInterval = setInterval(() => void this.checkScheduledTriggers(), SCHEDULE_CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.waitCheckInterval) {
+      clearInterval(this.waitCheckInterval);
+      this.waitCheckInterval = null;
+    }
+    if (this.scheduleCheckInterval) {
+      clearInterval(this.scheduleCheckInterval);
+      this.scheduleCheckInterval = null;
+    }
+  }
+
   /**
-   * בדוק אם יש Flow פעיל עבור account זה והפעל אותו
+   * בדוק אם יש Flow פעיל עבור account זה והפעל אותו.
+   * trigger.campaignId - הקמפיין שההודעה שויכה אליו כתשובה (לטריגר "תשובה לקמפיין")
    */
-  async checkAndExecuteFlow(accountId: string, chatId: string, incomingMessage: any, softwareChatId?: string): Promise<boolean> {
+  async checkAndExecuteFlow(
+    accountId: string,
+    chatId: string,
+    incomingMessage: any,
+    softwareChatId?: string,
+    trigger: FlowMessageTrigger = {}
+  ): Promise<boolean> {
     try {
       // Generate unique key for this message in this chat
       const messageKey = `${accountId}:${chatId}:${incomingMessage.id?.id || incomingMessage.timestamp}`;
@@ -66,6 +447,11 @@ export class FlowEngine {
       setTimeout(() => {
         this.processingMessages.delete(messageKey);
       }, 30000);
+
+      // A flow waiting for this contact's reply continues instead of a new flow starting
+      if (await this.resumeWaitingExecution(accountId, chatId, incomingMessage, softwareChatId)) {
+        return true;
+      }
       
       // 1. מצא Flows פעילים עבור account זה
       const activeFlows = this.getActiveFlowsForAccount(accountId);
@@ -76,27 +462,357 @@ export class FlowEngine {
       
       console.log(`🤖 Found ${activeFlows.length} active flow(s) for account ${accountId.substring(0, 8)}...`);
       
-      // 2. עבור על כל Flow ובדוק תנאים
+      // 2. עבור על ה-Flows לפי עדיפות ובדוק תנאים. Flow עם "עצור Flows אחרים" מסיים את החיפוש
+      const matchedFlows: Flow[] = [];
       for (const flow of activeFlows) {
-        const shouldExecute = await this.evaluateFlowConditions(flow, accountId, chatId, incomingMessage, softwareChatId);
-        
-        if (shouldExecute) {
-          console.log(`🤖 Flow "${flow.name}" conditions matched - executing...`);
-          
-          // 3. הפעל את הFlow
-          await this.executeFlow(flow, accountId, chatId, incomingMessage, softwareChatId);
-          return true; // Flow executed
-        }
+        const shouldExecute = await this.evaluateFlowConditions(flow, accountId, chatId, incomingMessage, trigger);
+        if (!shouldExecute) continue;
+
+        if (!this.canStartFlow(flow, accountId, chatId, softwareChatId)) continue;
+
+        console.log(`🤖 Flow "${flow.name}" conditions matched - executing...`);
+        matchedFlows.push(flow);
+        if (flow.stop_other_flows !== 0) break;
       }
-      
-      console.log(`🤖 No matching flow conditions for message: "${incomingMessage.body?.substring(0, 50)}..."`);
-      return false; // No matching flow
+
+      if (matchedFlows.length === 0) {
+        console.log(`🤖 No matching flow conditions for message: "${incomingMessage.body?.substring(0, 50)}..."`);
+        return false; // No matching flow
+      }
+
+      // 3. הפעל את ה-Flows שהתאימו
+      const variables = this.getCampaignVariables(trigger.campaignId);
+      await Promise.all(matchedFlows.map(flow =>
+        this.executeFlow(flow, accountId, chatId, incomingMessage, softwareChatId, variables)
+      ));
+      return true; // Flow executed
     } catch (error) {
       console.error('❌ Error in checkAndExecuteFlow:', error);
       return false;
     }
   }
 
+  /**
+   * Start the flows whose trigger node matches an event that is not an incoming message - a tag was
+   * added, someone joined a group through an invite link, the local webhook was called.
+   * The flows run in the background; returns how many were started.
+   */
+  triggerFlows(event: FlowTriggerEvent): number {
+    const phone = this.extractDigits(event.phone);
+    if (!phone) {
+      return 0;
+    }
+
+    if (this.suppressionService?.isSuppressed(phone)) {
+      console.log(`🚫 ${phone} is on the suppression list - "${event.type}" trigger skipped`);
+      return 0;
+    }
+
+    let started = 0;
+    try {
+      for (const { flow, node } of this.getTriggeredFlows(event.type)) {
+        if (!this.triggerMatches(event, node.data)) continue;
+
+        // A group join can only be answered by the account that is in the group
+        const preferredAccountId = event.type === 'group_join' ? event.accountId : event.type === 'webhook' ? event.accountId : null;
+        const accountId = this.pickTriggerAccount(flow, phone, preferredAccountId);
+        if (!accountId) {
+          console.log(`⚠️ Flow "${flow.name}" not triggered by ${event.type} - none of its accounts is connected`);
+          continue;
+        }
+
+        if (!this.canStartFlow(flow, accountId, `${phone}@c.us`)) continue;
+
+        console.log(`🤖 Flow "${flow.name}" triggered by ${event.type} for ${phone}`);
+        void this.startTriggeredFlow(flow, node.id, accountId, phone, event.name || '', event.type, this.getTriggerVariables(event));
+        started++;
+        if (flow.stop_other_flows !== 0) break;
+      }
+    } catch (error) {
+      console.error(`❌ Error triggering flows for ${event.type}:`, error);
+    }
+
+    return started;
+  }
+
+  /**
+   * Active flows with a trigger node of this kind. The trigger node is returned too - it, not the
+   * graph's first node, is where the execution starts.
+   */
+  private getTriggeredFlows(kind: FlowTriggerKind): Array<{ flow: Flow; node: { id: string; data: any } }> {
+    const types = TRIGGER_NODE_TYPES[kind];
+    const rows = this.db.prepare(`
+      SELECT f.*, fn.id as trigger_node_id, fn.data as trigger_node_data
+      FROM flows f
+      JOIN flow_nodes fn ON fn.flow_id = f.id
+      WHERE f.is_active = 1 AND fn.type IN (${types.map(() => '?').join(', ')})
+      ORDER BY f.priority DESC, f.created_at ASC
+    `).all(...types) as Array<Flow & { trigger_node_id: string; trigger_node_data: string | null }>;
+
+    return rows.map(({ trigger_node_id, trigger_node_data, ...flow }) => {
+      let data: any = {};
+      try {
+        data = JSON.parse(trigger_node_data || '{}') || {};
+      } catch {
+        data = {};
+      }
+      return { flow, node: { id: trigger_node_id, data } };
+    });
+  }
+
+  private triggerMatches(event: FlowTriggerEvent, data: any): boolean {
+    switch (event.type) {
+      case 'tag_added':
+        return !!data.tagId && data.tagId === event.tagId;
+      case 'group_join':
+        return !data.groupId || data.groupId === event.groupId;
+      case 'webhook':
+        return !!data.token && data.token === event.token;
+    }
+  }
+
+  private getTriggerVariables(event: FlowTriggerEvent): FlowVariables {
+    switch (event.type) {
+      case 'tag_added': {
+        const tag = this.db.prepare('SELECT name FROM tags WHERE id = ?').get(event.tagId) as { name: string } | undefined;
+        return { tag_id: event.tagId, tag_name: tag?.name || '' };
+      }
+      case 'group_join':
+        return { group_id: event.groupId, group_name: event.groupName || '' };
+      case 'webhook': {
+        // Every top-level field of the request body is available to templates, e.g. {{order_id}}
+        const variables: FlowVariables = {};
+        for (const [key, value] of Object.entries(event.payload || {})) {
+          const name = normalizeVariableName(key);
+          if (!name || value === null || value === undefined) continue;
+          variables[name] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+        }
+        return variables;
+      }
+    }
+  }
+
+  private getCampaignVariables(campaignId?: string | null): FlowVariables {
+    if (!campaignId) {
+      return {};
+    }
+    const campaign = this.db.prepare('SELECT name FROM campaigns WHERE id = ?').get(campaignId) as { name: string } | undefined;
+    return { campaign_id: campaignId, campaign_name: campaign?.name || '' };
+  }
+
+  /**
+   * The account a triggered flow sends from: the one asked for (when the flow uses it), otherwise the
+   * flow account that talked to this contact last, otherwise any connected flow account.
+   */
+  private pickTriggerAccount(flow: Flow, phone: string, preferredAccountId?: string | null): string | null {
+    const accountIds = this.parseAccountIds(flow).filter(accountId => this.whatsappManager.isConnected(accountId));
+
+    if (preferredAccountId) {
+      return accountIds.includes(preferredAccountId) ? preferredAccountId : null;
+    }
+    if (accountIds.length === 0) {
+      return null;
+    }
+
+    const chat = this.db.prepare(`
+      SELECT account_id FROM chats
+      WHERE account_id IN (${accountIds.map(() => '?').join(', ')})
+        AND SUBSTR(REPLACE(REPLACE(REPLACE(phone_number, '-', ''), ' ', ''), '+', ''), -9) = ?
+      ORDER BY last_message_at DESC
+      LIMIT 1
+    `).get(...accountIds, phone.slice(-9)) as { account_id: string } | undefined;
+
+    return chat?.account_id || accountIds[0];
+  }
+
+  private parseAccountIds(flow: Flow): string[] {
+    try {
+      const accountIds = JSON.parse(flow.account_ids || '[]');
+      return Array.isArray(accountIds) ? accountIds : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Run a flow from its trigger node for a contact that did not write anything. The trigger stands in for
+   * the incoming message - its id is triggerKey, which the execution keeps as trigger_message_id.
+   */
+  private startTriggeredFlow(
+    flow: Flow,
+    triggerNodeId: string,
+    accountId: string,
+    phone: string,
+    name: string,
+    triggerKey: string,
+    variables: FlowVariables
+  ): Promise<void> {
+    const chatId = `${phone}@c.us`;
+    const message = {
+      id: { id: triggerKey },
+      body: '',
+      from: chatId,
+      type: 'trigger',
+      timestamp: Math.floor(Date.now() / 1000),
+      _data: { notifyName: name },
+    };
+    return this.executeFlow(flow, accountId, chatId, message, undefined, variables, triggerNodeId);
+  }
+
+  /**
+   * כל דקה: טריגרים מתוזמנים שהגיע זמנם מתחילים לרוץ על הסגמנט שלהם
+   */
+  private async checkScheduledTriggers(): Promise<void> {
+    if (!this.segmentService) {
+      return;
+    }
+
+    try {
+      for (const { flow, node } of this.getTriggeredFlows('schedule')) {
+        const date = getDueScheduleDate(node.data);
+        if (!date || !node.data.segmentId || this.runningSchedules.has(node.id)) continue;
+
+        this.runningSchedules.add(node.id);
+        void this.runScheduledTrigger(flow, node, date).finally(() => this.runningSchedules.delete(node.id));
+      }
+    } catch (error) {
+      console.error('❌ Error checking scheduled flow triggers:', error);
+    }
+  }
+
+  /**
+   * מריץ טריגר מתוזמן על אנשי הקשר בסגמנט, אחד אחרי השני. כל איש קשר רץ פעם אחת בכל תאריך -
+   * ה-trigger_message_id של הביצוע הוא schedule:<node>:<date>, כך שבדיקה חוזרת בחלון ההשלמה
+   * (או אחרי הפעלה מחדש) ממשיכה רק עם מי שעוד לא קיבל.
+   */
+  private async runScheduledTrigger(flow: Flow, node: { id: string; data: any }, date: string): Promise<void> {
+    const contacts = this.segmentService?.resolveSegment(node.data.segmentId);
+    if (!contacts) {
+      console.log(`⚠️ Scheduled flow "${flow.name}" skipped - its segment no longer exists`);
+      return;
+    }
+
+    const triggerKey = `schedule:${node.id}:${date}`;
+    const alreadyRan = new Set(
+      (this.db.prepare('SELECT chat_id FROM flow_executions WHERE flow_id = ? AND trigger_message_id = ?').all(flow.id, triggerKey) as Array<{ chat_id: string }>)
+        .map(row => row.chat_id)
+    );
+
+    let started = 0;
+    for (const contact of contacts) {
+      const phone = this.extractDigits(contact.phone_number);
+      if (!phone || alreadyRan.has(`${phone}@c.us`)) continue;
+
+      const current = this.db.prepare('SELECT is_active FROM flows WHERE id = ?').get(flow.id) as { is_active: number } | undefined;
+      if (!current?.is_active) {
+        console.log(`⏹️ Scheduled flow "${flow.name}" stopped - the flow was deactivated`);
+        break;
+      }
+
+      const accountId = this.pickTriggerAccount(flow, phone);
+      if (!accountId) {
+        // The next check within the catch-up window continues from here
+        console.log(`⚠️ Scheduled flow "${flow.name}" paused - none of its accounts is connected`);
+        break;
+      }
+
+      if (!this.canStartFlow(flow, accountId, `${phone}@c.us`)) continue;
+
+      await this.startTriggeredFlow(flow, node.id, accountId, phone, contact.name || '', triggerKey, { scheduled_date: date });
+      started++;
+    }
+
+    if (started > 0) {
+      console.log(`⏰ Scheduled flow "${flow.name}" ran for ${started} contact(s)`);
+    }
+  }
+
+  /**
+   * סימולטור (dry run) מה-FlowEditor - מריץ את הקנבס הנוכחי, גם לפני שמירה, על שולח מדומה.
+   * שליחות, webhooks, שינויי CRM והשהיות נרשמים ב-actions במקום להתבצע. נעצר בצומת "המתן לתשובה";
+   * ההודעה הבאה בסימולטור ממשיכה ממנו עם resume.
+   */
+  async simulateFlow(input: FlowSimulationInput): Promise<FlowSimulationResult> {
+    const digits = this.extractDigits(input.phone) || '0000000000';
+    const chatId = `${digits}@c.us`;
+    const accountId = input.accountId || '';
+    const message = { body: input.message || '', from: chatId, type: 'chat', timestamp: Math.floor(Date.now() / 1000) };
+    const simulation: FlowSimulation = {
+      phone: digits,
+      name: input.name || '',
+      tagIds: new Set(input.tagIds || []),
+      actions: [],
+    };
+
+    const nodes: FlowNode[] = (input.nodes || []).map(node => ({
+      id: node.id,
+      flow_id: '',
+      type: node.type || '',
+      position_x: 0,
+      position_y: 0,
+      data: JSON.stringify(node.data || {}),
+    }));
+    const edges: FlowEdge[] = (input.edges || []).map((edge, index) => ({
+      id: String(index),
+      flow_id: '',
+      source: edge.source,
+      target: edge.target,
+      label: edge.label || undefined,
+    }));
+
+    const variables: FlowVariables = input.resume
+      ? { ...input.resume.variables, last_reply: message.body }
+      : { trigger_message: message.body };
+    const steps: FlowSimulationStep[] = [];
+    const result: FlowSimulationResult = { started: true, steps, actions: simulation.actions, variables, waitingNodeId: null };
+
+    const graph = this.buildExecutionGraph(nodes, edges);
+    let currentNode: ExecutionNode | null;
+    if (input.resume) {
+      const waitNode = graph.nodeMap.get(input.resume.nodeId);
+      if (!waitNode) {
+        return { ...result, started: false };
+      }
+      steps.push({ node_id: waitNode.id, node_type: waitNode.type, branch: 'reply', details: {}, error: null });
+      currentNode = waitNode.nextNode || null;
+    } else {
+      if (!graph.startNode || !(await this.evaluateStartNode(nodes, edges, accountId, chatId, message, {}, simulation))) {
+        return { ...result, started: false };
+      }
+      currentNode = graph.startNode;
+    }
+
+    while (currentNode && steps.length < SIMULATION_MAX_STEPS) {
+      if (isWaitForReplyNode(currentNode)) {
+        steps.push({ node_id: currentNode.id, node_type: currentNode.type, branch: 'waiting', details: {}, error: null });
+        result.waitingNodeId = currentNode.id;
+        break;
+      }
+
+      const details: FlowStepDetails = {};
+      try {
+        const nextNode = await this.executeNode(currentNode, accountId, chatId, message, undefined, variables, details, simulation);
+        steps.push({ node_id: currentNode.id, node_type: currentNode.type, branch: this.getBranch(currentNode, nextNode), details, error: null });
+        currentNode = nextNode;
+      } catch (error) {
+        steps.push({
+          node_id: currentNode.id,
+          node_type: currentNode.type,
+          branch: null,
+          details,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        break;
+      }
+    }
+
+    return result;
+  }
+
+  private recordSimulatedAction(simulation: FlowSimulation, node: ExecutionNode, type: FlowSimulationAction['type'], details: FlowStepDetails): void {
+    simulation.actions.push({ node_id: node.id, type, details: { ...details } });
+  }
+
   /**
    * מצא Flows פעילים עבור account ספציפי
    */
@@ -104,7 +820,7 @@ export class FlowEngine {
     const stmt = this.db.prepare(`
       SELECT * FROM flows 
       WHERE is_active = 1
-      ORDER BY created_at ASC
+      ORDER BY priority DESC, created_at ASC
     `);
     
     const allFlows = stmt.all() as Flow[];
@@ -125,7 +841,7 @@ export class FlowEngine {
   /**
    * בדוק אם Flow צריך להתבצע (בדוק את התנאי הראשון)
    */
-  private async evaluateFlowConditions(flow: Flow, accountId: string, chatId: string, message: any, softwareChatId?: string): Promise<boolean> {
+  private async evaluateFlowConditions(flow: Flow, accountId: string, chatId: string, message: any, trigger: FlowMessageTrigger): Promise<boolean> {
     // מצא את הצומת הראשון (שאין לו target handle - אין edge שמגיע אליו)
     const nodesStmt = this.db.prepare('SELECT * FROM flow_nodes WHERE flow_id = ?');
     const nodes = nodesStmt.all(flow.id) as FlowNode[];
@@ -134,7 +850,22 @@ export class FlowEngine {
     
     const edgesStmt = this.db.prepare('SELECT * FROM flow_edges WHERE flow_id = ?');
     const edges = edgesStmt.all(flow.id) as FlowEdge[];
-    
+
+    return this.evaluateStartNode(nodes, edges, accountId, chatId, message, trigger);
+  }
+
+  /**
+   * הצומת הראשון מחליט אם הזרימה רצה בכלל - משותף להודעות אמיתיות ולסימולטור
+   */
+  private async evaluateStartNode(
+    nodes: FlowNode[],
+    edges: FlowEdge[],
+    accountId: string,
+    chatId: string,
+    message: any,
+    trigger: FlowMessageTrigger,
+    simulation?: FlowSimulation
+  ): Promise<boolean> {
     // מצא צומת ראשון (אין edge שמגיע אליו)
     const targetNodeIds = new Set(edges.map(e => e.target));
     const startNode = nodes.find(n => !targetNodeIds.has(n.id));
@@ -143,6 +874,24 @@ export class FlowEngine {
       console.log('⚠️ No start node found for flow');
       return false;
     }
+
+    const triggerKind = getTriggerKind(startNode.type);
+    if (triggerKind) {
+      // In the simulator the typed message stands in for whatever the trigger is
+      if (simulation) {
+        return true;
+      }
+      if (triggerKind === 'first_message') {
+        const { senderPhone } = await this.getMessageContext(accountId, chatId, message);
+        return this.isFirstMessageFrom(senderPhone);
+      }
+      if (triggerKind === 'campaign_reply') {
+        const data = JSON.parse(startNode.data || '{}');
+        return !!trigger.campaignId && (!data.campaignId || data.campaignId === trigger.campaignId);
+      }
+      // Tag / schedule / group join / webhook flows are started by triggerFlows and the schedule check, not by messages
+      return false;
+    }
     
     // אם הצומת הראשון הוא תנאי - בדוק אותו
     if (startNode.type === 'condition_contains' || startNode.type === 'condition_equals') {
@@ -160,6 +909,14 @@ export class FlowEngine {
       // Always execute the flow - YES/NO branching happens inside executeNode
       return true;
     }
+
+    if (isConditionRuleNode(startNode.type)) {
+      // Like contains/equals, a rule at the start decides whether the flow runs at all - unless its NO branch leads somewhere
+      if (edges.some(e => e.source === startNode.id && e.label === 'no')) {
+        return true;
+      }
+      return this.evaluateConditionRule(JSON.parse(startNode.data || '{}'), accountId, chatId, message, {}, simulation);
+    }
     
     // אם הצומת הראשון הוא action - תמיד הפעל
     return true;
@@ -171,27 +928,9 @@ export class FlowEngine {
    * אם אין הודעה קודמת - מחזיר true ("מזמן לא הייתה הודעה").
    */
   private isLastMessageOlderThan(accountId: string, chatId: string, value: number, unit: string, softwareChatId?: string): boolean {
-    // Use softwareChatId directly if available (passed from WhatsAppManager)
-    // Otherwise fall back to phone number lookup
-    let resolvedChatId = softwareChatId;
-
+    const resolvedChatId = this.resolveSoftwareChatId(accountId, chatId, softwareChatId);
     if (!resolvedChatId) {
-      const digits = this.extractDigits(chatId);
-      if (!digits) {
-        return true;
-      }
-      const chatStmt = this.db.prepare(`
-        SELECT id FROM chats
-        WHERE account_id = ?
-          AND (phone_number = ? OR phone_number LIKE ?)
-        ORDER BY last_message_at DESC
-        LIMIT 1
-      `);
-      const chat = chatStmt.get(accountId, digits, `%${digits.slice(-9)}`) as { id?: string } | undefined;
-      if (!chat?.id) {
-        return true;
-      }
-      resolvedChatId = chat.id;
+      return true;
     }
 
     // Get the second-to-last message (the one BEFORE the current incoming message)
@@ -218,18 +957,122 @@ export class FlowEngine {
   }
 
   /**
-   * הפעל Flow מלא
+   * כללי ההפעלה של Flow עבור צ'אט: זמן צינון, מקסימום הפעלות לאיש קשר, וצ'אטים שנציג מטפל בהם ב-Inbox
+   */
+  private canStartFlow(flow: Flow, accountId: string, chatId: string, softwareChatId?: string): boolean {
+    const cooldownMinutes = Number(flow.cooldown_minutes) || 0;
+    const maxExecutions = Number(flow.max_executions_per_contact) || 0;
+
+    if (cooldownMinutes > 0 || maxExecutions > 0) {
+      // Triggered runs use phone@c.us - match those by the number as well as the exact chat id
+      const digits = chatId.endsWith('@c.us') ? this.extractDigits(chatId).slice(-9) : '';
+      const executions = this.db.prepare(`
+        SELECT COUNT(*) as count, MAX(started_at) as last_started_at
+        FROM flow_executions
+        WHERE flow_id = ? AND (chat_id = ? OR (? != '' AND chat_id LIKE ?))
+      `).get(flow.id, chatId, digits, `%${digits}@c.us`) as { count: number; last_started_at: string | null };
+
+      if (maxExecutions > 0 && executions.count >= maxExecutions) {
+        console.log(`⏭️ Flow "${flow.name}" skipped for ${chatId} - it already ran ${executions.count}/${maxExecutions} time(s)`);
+        return false;
+      }
+
+      const lastStarted = executions.last_started_at ? new Date(executions.last_started_at).getTime() : NaN;
+      if (cooldownMinutes > 0 && !Number.isNaN(lastStarted) && Date.now() - lastStarted < cooldownMinutes * 60 * 1000) {
+        console.log(`⏭️ Flow "${flow.name}" skipped for ${chatId} - still in its ${cooldownMinutes} minute cooldown`);
+        return false;
+      }
+    }
+
+    if (flow.skip_human_handled && this.isHandledByHuman(accountId, chatId, softwareChatId)) {
+      console.log(`🙋 Flow "${flow.name}" skipped for ${chatId} - a human is handling the chat`);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * צ'אט שמישהו ענה בו מה-Inbox ב-HUMAN_HANDLING_WINDOW_HOURS האחרונות ושלא סומן מחדש כ"לא טופל"
    */
-  private async executeFlow(flow: Flow, accountId: string, chatId: string, triggerMessage: any, softwareChatId?: string): Promise<void> {
+  private isHandledByHuman(accountId: string, chatId: string, softwareChatId?: string): boolean {
+    const resolvedChatId = this.resolveSoftwareChatId(accountId, chatId, softwareChatId);
+    if (!resolvedChatId) {
+      return false;
+    }
+
+    const chat = this.db.prepare('SELECT last_human_reply_at FROM chats WHERE id = ?').get(resolvedChatId) as { last_human_reply_at: string | null } | undefined;
+    const lastReply = chat?.last_human_reply_at ? new Date(chat.last_human_reply_at).getTime() : NaN;
+    return !Number.isNaN(lastReply) && Date.now() - lastReply < HUMAN_HANDLING_WINDOW_HOURS * 60 * 60 * 1000;
+  }
+
+  /**
+   * ה-id של הצ'אט בטבלת chats. softwareChatId מגיע מ-WhatsAppManager; אחרת מחפשים לפי מספר הטלפון
+   */
+  private resolveSoftwareChatId(accountId: string, chatId: string, softwareChatId?: string): string | null {
+    if (softwareChatId) {
+      return softwareChatId;
+    }
+
+    const digits = this.extractDigits(chatId);
+    if (!digits) {
+      return null;
+    }
+    const chatStmt = this.db.prepare(`
+      SELECT id FROM chats
+      WHERE account_id = ?
+        AND (phone_number = ? OR phone_number LIKE ?)
+      ORDER BY last_message_at DESC
+      LIMIT 1
+    `);
+    const chat = chatStmt.get(accountId, digits, `%${digits.slice(-9)}`) as { id?: string } | undefined;
+    return chat?.id || null;
+  }
+
+  /**
+   * הפעל Flow מלא. startNodeId - צומת הטריגר שהפעיל אותו, כשהזרימה לא הופעלה על ידי הודעה
+   */
+  private async executeFlow(
+    flow: Flow,
+    accountId: string,
+    chatId: string,
+    triggerMessage: any,
+    softwareChatId?: string,
+    initialVariables: FlowVariables = {},
+    startNodeId?: string
+  ): Promise<void> {
     const executionId = uuidv4();
     
     // רשום התחלת ביצוע
     const logStmt = this.db.prepare(`
-      INSERT INTO flow_executions (id, flow_id, account_id, chat_id, trigger_message_id, status)
-      VALUES (?, ?, ?, ?, ?, 'running')
+      INSERT INTO flow_executions (id, flow_id, account_id, chat_id, trigger_message_id, status, started_at)
+      VALUES (?, ?, ?, ?, ?, 'running', ?)
     `);
-    logStmt.run(executionId, flow.id, accountId, chatId, triggerMessage.id.id);
-    
+    logStmt.run(executionId, flow.id, accountId, chatId, triggerMessage.id?.id || null, new Date().toISOString());
+
+    const variables: FlowVariables = {
+      ...initialVariables,
+      trigger_message: triggerMessage.body || '',
+    };
+
+    await this.runExecution(executionId, flow, accountId, chatId, triggerMessage, softwareChatId, variables, undefined, startNodeId);
+  }
+
+  /**
+   * מריץ ביצוע מהצומת הראשון, או - כשממשיכים ביצוע מושהה - מהענף של צומת ההמתנה (תשובה / פג זמן).
+   * ביצוע שמגיע לצומת "המתן לתשובה" נשמר כ-waiting ונעצר עד ההודעה הבאה בצ'אט או עד שפג הזמן.
+   */
+  private async runExecution(
+    executionId: string,
+    flow: Pick<Flow, 'id' | 'name'>,
+    accountId: string,
+    chatId: string,
+    message: any,
+    softwareChatId: string | undefined,
+    variables: FlowVariables,
+    resume?: { nodeId: string; branch: 'reply' | 'timeout' },
+    startNodeId?: string
+  ): Promise<void> {
     try {
       // 1. טען nodes ו-edges
       const nodesStmt = this.db.prepare('SELECT * FROM flow_nodes WHERE flow_id = ?');
@@ -241,41 +1084,274 @@ export class FlowEngine {
       // 2. בנה גרף ביצוע
       const executionGraph = this.buildExecutionGraph(nodes, edges);
       
-      if (!executionGraph.startNode) {
-        throw new Error('No start node found');
+      let currentNode: ExecutionNode | null;
+      if (resume) {
+        const waitNode = executionGraph.nodeMap.get(resume.nodeId);
+        if (!waitNode) {
+          throw new Error('The node this execution was waiting on no longer exists');
+        }
+        currentNode = (resume.branch === 'reply' ? waitNode.nextNode : waitNode.edgeTimeout) || null;
+        this.recordStep(executionId, waitNode, message, resume.branch, {}, 0);
+        console.log(`▶️ Resuming flow "${flow.name}" on ${resume.branch === 'reply' ? 'reply' : 'timeout'}`);
+      } else {
+        currentNode = startNodeId ? executionGraph.nodeMap.get(startNodeId) || null : executionGraph.startNode;
+        if (!currentNode) {
+          throw new Error('No start node found');
+        }
       }
       
       // 3. עבור על הזרימה
-      let currentNode: ExecutionNode | null = executionGraph.startNode;
       let stepCount = 0;
       const maxSteps = 50; // מניעת לולאות אינסופיות
       
       while (currentNode && stepCount < maxSteps) {
+        if (isWaitForReplyNode(currentNode)) {
+          const waitUntil = this.pauseExecution(executionId, currentNode, variables);
+          this.recordStep(executionId, currentNode, message, 'waiting', { waitUntil }, 0);
+          console.log(`⏸️ Flow "${flow.name}" waiting for a reply (${stepCount} steps)`);
+          return;
+        }
+
         console.log(`🤖 Executing node: ${currentNode.type}`);
-        currentNode = await this.executeNode(currentNode, accountId, chatId, triggerMessage, softwareChatId);
+        const stepStartedAt = Date.now();
+        const details: FlowStepDetails = {};
+        let nextNode: ExecutionNode | null;
+        try {
+          nextNode = await this.executeNode(currentNode, accountId, chatId, message, softwareChatId, variables, details);
+        } catch (error) {
+          this.recordStep(executionId, currentNode, message, null, details, Date.now() - stepStartedAt, error);
+          throw error;
+        }
+        this.recordStep(executionId, currentNode, message, this.getBranch(currentNode, nextNode), details, Date.now() - stepStartedAt);
+        currentNode = nextNode;
         stepCount++;
       }
-      
-      // סיים בהצלחה
-      const completeStmt = this.db.prepare(`
-        UPDATE flow_executions 
-        SET status = 'completed', completed_at = ?
-        WHERE id = ?
-      `);
-      completeStmt.run(new Date().toISOString(), executionId);
-      
-      console.log(`✅ Flow "${flow.name}" completed successfully (${stepCount} steps)`);
-      
+      
+      // סיים בהצלחה
+      this.finishExecution(executionId, 'completed', variables);
+      
+      console.log(`✅ Flow "${flow.name}" completed successfully (${stepCount} steps)`);
+      
+    } catch (error) {
+      console.error(`❌ Error executing flow "${flow.name}":`, error);
+      
+      // רשום כישלון
+      this.finishExecution(executionId, 'failed', variables);
+    }
+  }
+
+  private finishExecution(executionId: string, status: 'completed' | 'failed' | 'cancelled', variables?: FlowVariables): void {
+    this.db.prepare(`
+      UPDATE flow_executions 
+      SET status = ?, completed_at = ?, wait_until = NULL, variables = COALESCE(?, variables)
+      WHERE id = ?
+    `).run(status, new Date().toISOString(), variables ? JSON.stringify(variables) : null, executionId);
+  }
+
+  /**
+   * שמור ביצוע מושהה על צומת "המתן לתשובה"
+   */
+  private pauseExecution(executionId: string, node: ExecutionNode, variables: FlowVariables): string {
+    const value = Number(node.data.timeout) > 0 ? Number(node.data.timeout) : DEFAULT_WAIT_TIMEOUT_HOURS;
+    const unit = Number(node.data.timeout) > 0 ? node.data.unit || 'hours' : 'hours';
+    const unitMs = unit === 'minutes' ? 60 * 1000 : unit === 'days' ? 24 * 60 * 60 * 1000 : 60 * 60 * 1000;
+    const waitUntil = new Date(Date.now() + value * unitMs).toISOString();
+
+    this.db.prepare(`
+      UPDATE flow_executions
+      SET status = 'waiting', current_node_id = ?, variables = ?, wait_until = ?
+      WHERE id = ?
+    `).run(node.id, JSON.stringify(variables), waitUntil, executionId);
+    return waitUntil;
+  }
+
+  /**
+   * The output a node left through - matched against its edges, so it works for every node type
+   */
+  private getBranch(node: ExecutionNode, next: ExecutionNode | null): string | null {
+    if (!next) return null;
+    if (next === node.edgeYes) return 'yes';
+    if (next === node.edgeNo) return 'no';
+    if (next === node.edgeTimeout) return 'timeout';
+    return 'next';
+  }
+
+  /**
+   * רשום צעד בביצוע (flow_execution_steps) - לעולם לא מפיל את הזרימה
+   */
+  private recordStep(
+    executionId: string,
+    node: ExecutionNode,
+    message: any,
+    branch: string | null,
+    details: FlowStepDetails,
+    durationMs: number,
+    error?: unknown
+  ): void {
+    try {
+      this.db.prepare(`
+        INSERT INTO flow_execution_steps (id, execution_id, node_id, node_type, branch, input_text, details, error, duration_ms, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        uuidv4(),
+        executionId,
+        node.id,
+        node.type,
+        branch,
+        message?.body || null,
+        JSON.stringify(details),
+        error ? (error instanceof Error ? error.message : String(error)) : null,
+        durationMs,
+        new Date().toISOString()
+      );
+    } catch (traceError) {
+      console.error('❌ Error recording flow step:', traceError);
+    }
+  }
+
+  /**
+   * Moves a waiting execution back to running. Only one caller wins, so a reply that lands while the
+   * timeout check runs can't continue the same execution twice.
+   */
+  private claimWaitingExecution(executionId: string): boolean {
+    const result = this.db.prepare(`
+      UPDATE flow_executions SET status = 'running', wait_until = NULL
+      WHERE id = ? AND status = 'waiting'
+    `).run(executionId);
+    return result.changes > 0;
+  }
+
+  private parseVariables(value: string | null): FlowVariables {
+    if (!value) return {};
+    try {
+      const parsed = JSON.parse(value);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * המשך ביצוע שממתין לתשובה מהצ'אט הזה, אם יש כזה
+   */
+  private async resumeWaitingExecution(accountId: string, chatId: string, message: any, softwareChatId?: string): Promise<boolean> {
+    // Triggered runs wait on phone@c.us while the reply may come in on an @lid chat - match those by the number
+    const phoneKey = this.getChatPhoneKey(chatId, softwareChatId);
+    const execution = this.db.prepare(`
+      SELECT fe.id, fe.flow_id, fe.account_id, fe.chat_id, fe.current_node_id, fe.variables,
+             f.name as flow_name, f.is_active as flow_is_active, f.skip_human_handled as flow_skip_human_handled
+      FROM flow_executions fe
+      JOIN flows f ON f.id = fe.flow_id
+      WHERE fe.account_id = ? AND fe.status = 'waiting'
+        AND (fe.chat_id = ? OR (? != '' AND fe.chat_id LIKE ?))
+      ORDER BY fe.started_at DESC
+      LIMIT 1
+    `).get(accountId, chatId, phoneKey, `%${phoneKey}@c.us`) as WaitingExecution | undefined;
+
+    if (!execution) {
+      return false;
+    }
+
+    if (!execution.flow_is_active || !execution.current_node_id) {
+      this.finishExecution(execution.id, 'cancelled');
+      return false;
+    }
+
+    // Someone took over the chat from the Inbox while the flow was waiting - the flow steps back
+    if (execution.flow_skip_human_handled && this.isHandledByHuman(accountId, chatId, softwareChatId)) {
+      console.log(`🙋 Flow "${execution.flow_name}" stopped waiting in ${chatId} - a human is handling the chat`);
+      this.finishExecution(execution.id, 'cancelled');
+      return false;
+    }
+
+    if (!this.claimWaitingExecution(execution.id)) {
+      return false;
+    }
+
+    const variables = this.parseVariables(execution.variables);
+    variables.last_reply = message.body || '';
+
+    await this.runExecution(
+      execution.id,
+      { id: execution.flow_id, name: execution.flow_name },
+      accountId,
+      chatId,
+      message,
+      softwareChatId,
+      variables,
+      { nodeId: execution.current_node_id, branch: 'reply' }
+    );
+    return true;
+  }
+
+  /**
+   * Last 9 digits of the contact's number - from the Inbox chat when known, since an @lid chat id has no phone in it
+   */
+  private getChatPhoneKey(chatId: string, softwareChatId?: string): string {
+    if (softwareChatId) {
+      const chat = this.db.prepare('SELECT phone_number FROM chats WHERE id = ?').get(softwareChatId) as
+        { phone_number: string } | undefined;
+      if (chat?.phone_number) {
+        return this.extractDigits(chat.phone_number).slice(-9);
+      }
+    }
+    return chatId.endsWith('@c.us') ? this.extractDigits(chatId).slice(-9) : '';
+  }
+
+  /**
+   * המשך בענף "פג זמן" ביצועים שההמתנה שלהם הסתיימה בלי תשובה
+   */
+  private async checkWaitTimeouts(): Promise<void> {
+    try {
+      const now = new Date().toISOString();
+
+      // Flows that were switched off don't continue their waiting executions
+      this.db.prepare(`
+        UPDATE flow_executions SET status = 'cancelled', completed_at = ?, wait_until = NULL
+        WHERE status = 'waiting' AND flow_id IN (SELECT id FROM flows WHERE is_active = 0)
+      `).run(now);
+
+      const expired = this.db.prepare(`
+        SELECT fe.id, fe.flow_id, fe.account_id, fe.chat_id, fe.current_node_id, fe.variables,
+               f.name as flow_name, f.is_active as flow_is_active
+        FROM flow_executions fe
+        JOIN flows f ON f.id = fe.flow_id
+        WHERE fe.status = 'waiting' AND fe.wait_until IS NOT NULL AND fe.wait_until <= ?
+        ORDER BY fe.wait_until ASC
+      `).all(now) as WaitingExecution[];
+
+      for (const execution of expired) {
+        // The timeout branch usually sends something - leave it for a later check until the account is back online
+        if (!this.whatsappManager.isConnected(execution.account_id)) {
+          continue;
+        }
+
+        if (!execution.current_node_id) {
+          this.finishExecution(execution.id, 'cancelled');
+          continue;
+        }
+
+        if (!this.claimWaitingExecution(execution.id)) {
+          continue;
+        }
+
+        const variables = this.parseVariables(execution.variables);
+        // No message arrived - the timeout branch runs with an empty one from the contact's chat
+        const message = { body: '', from: execution.chat_id };
+
+        await this.runExecution(
+          execution.id,
+          { id: execution.flow_id, name: execution.flow_name },
+          execution.account_id,
+          execution.chat_id,
+          message,
+          undefined,
+          variables,
+          { nodeId: execution.current_node_id, branch: 'timeout' }
+        );
+      }
     } catch (error) {
-      console.error(`❌ Error executing flow "${flow.name}":`, error);
-      
-      // רשום כישלון
-      const failStmt = this.db.prepare(`
-        UPDATE flow_executions 
-        SET status = 'failed', completed_at = ?
-        WHERE id = ?
-      `);
-      failStmt.run(new Date().toISOString(), executionId);
+      console.error('❌ Error checking flow wait timeouts:', error);
     }
   }
 
@@ -315,8 +1391,11 @@ export class FlowEngine {
       } else if (edge.label === 'no') {
         sourceNode.edgeNo = targetNode;
         console.log(`  ❌ NO edge → ${targetNode.type}`);
+      } else if (edge.label === 'timeout') {
+        sourceNode.edgeTimeout = targetNode;
+        console.log(`  ⏰ TIMEOUT edge → ${targetNode.type}`);
       } else {
-        // edge רגיל (next)
+        // edge רגיל (next) - כולל ענף "תשובה" של צומת המתנה
         sourceNode.nextNode = targetNode;
         console.log(`  ➡️ NEXT edge → ${targetNode.type}`);
       }
@@ -338,13 +1417,40 @@ export class FlowEngine {
   /**
    * בצע צומת בודד
    */
-  private async executeNode(node: ExecutionNode, accountId: string, chatId: string, message: any, softwareChatId?: string): Promise<ExecutionNode | null> {
+  private async executeNode(
+    node: ExecutionNode,
+    accountId: string,
+    chatId: string,
+    message: any,
+    softwareChatId: string | undefined,
+    variables: FlowVariables,
+    details: FlowStepDetails,
+    simulation?: FlowSimulation
+  ): Promise<ExecutionNode | null> {
     switch (node.type) {
+      case 'triggerCampaignReply':
+      case 'trigger_campaign_reply':
+      case 'triggerFirstMessage':
+      case 'trigger_first_message':
+      case 'triggerTagAdded':
+      case 'trigger_tag_added':
+      case 'triggerSchedule':
+      case 'trigger_schedule':
+      case 'triggerGroupJoin':
+      case 'trigger_group_join':
+      case 'triggerWebhook':
+      case 'trigger_webhook': {
+        // The trigger already matched when the execution started
+        details.trigger = getTriggerKind(node.type);
+        return node.nextNode || null;
+      }
+
       case 'conditionContains':
       case 'condition_contains': {
         const messageText = message.body || '';
         const contains = messageText.toLowerCase().includes((node.data.text || '').toLowerCase());
         console.log(`🔍 Condition "contains ${node.data.text}": ${contains ? 'YES' : 'NO'}`);
+        details.result = contains;
         return contains ? node.edgeYes || null : node.edgeNo || null;
       }
       
@@ -353,6 +1459,7 @@ export class FlowEngine {
         const messageText = message.body || '';
         const equals = messageText.toLowerCase() === (node.data.text || '').toLowerCase();
         console.log(`🔍 Condition "equals ${node.data.text}": ${equals ? 'YES' : 'NO'}`);
+        details.result = equals;
         return equals ? node.edgeYes || null : node.edgeNo || null;
       }
 
@@ -362,29 +1469,50 @@ export class FlowEngine {
         const unit = node.data.unit || 'hours';
         const older = this.isLastMessageOlderThan(accountId, chatId, value, unit, softwareChatId);
         console.log(`🔍 Condition "last message older than ${value}${unit === 'minutes' ? 'm' : 'h'}": ${older ? 'YES' : 'NO'}`);
+        details.result = older;
         return older ? node.edgeYes || null : node.edgeNo || null;
       }
       
+      case 'conditionRule':
+      case 'condition_rule': {
+        const matches = await this.evaluateConditionRule(node.data, accountId, chatId, message, variables, simulation);
+        console.log(`🔍 Condition "${node.data.rule || 'regex'}": ${matches ? 'YES' : 'NO'}`);
+        details.rule = node.data.rule || 'regex';
+        details.result = matches;
+        return matches ? node.edgeYes || null : node.edgeNo || null;
+      }
+      
       case 'actionSend':
       case 'action_send': {
-        const messageContext = await this.getMessageContext(accountId, chatId, message);
-        const resolvedMessage = this.renderTemplate(node.data.message || '', messageContext);
+        const messageContext = await this.getMessageContext(accountId, chatId, message, simulation);
+        const resolvedMessage = this.renderTemplate(node.data.message || '', messageContext, variables);
         console.log(`📤 Sending message: "${resolvedMessage.substring(0, 50)}..."`);
+        details.text = resolvedMessage;
         
         // אם יש קובץ מדיה
         if (node.data.mediaPath) {
           console.log(`📎 Sending media: ${node.data.mediaPath}`);
-          await this.whatsappManager.sendMedia(
-            accountId,
-            chatId,
-            node.data.mediaPath,
-            resolvedMessage
-          );
+          details.mediaPath = node.data.mediaPath;
+          if (simulation) {
+            this.recordSimulatedAction(simulation, node, 'send', details);
+          } else {
+            await this.whatsappManager.sendMedia(
+              accountId,
+              chatId,
+              node.data.mediaPath,
+              resolvedMessage
+            );
+          }
         } else if (resolvedMessage.trim()) {
           // הודעת טקסט רגילה
-          await this.whatsappManager.sendMessage(accountId, chatId, resolvedMessage);
+          if (simulation) {
+            this.recordSimulatedAction(simulation, node, 'send', details);
+          } else {
+            await this.whatsappManager.sendMessage(accountId, chatId, resolvedMessage);
+          }
         } else {
           console.log('⚠️ actionSend skipped - no message content configured');
+          details.skipped = 'no message content';
         }
         
         return node.nextNode || null;
@@ -392,37 +1520,51 @@ export class FlowEngine {
 
       case 'actionAutoReply':
       case 'action_auto_reply': {
-        const messageContext = await this.getMessageContext(accountId, chatId, message);
-        const resolvedMessage = this.renderTemplate(node.data.message || '', messageContext);
+        const messageContext = await this.getMessageContext(accountId, chatId, message, simulation);
+        const resolvedMessage = this.renderTemplate(node.data.message || '', messageContext, variables);
 
         if (!resolvedMessage.trim()) {
           console.log('⚠️ actionAutoReply skipped - no message content configured');
+          details.skipped = 'no message content';
           return node.nextNode || null;
         }
 
         console.log(`🤖 Auto reply: "${resolvedMessage.substring(0, 50)}..."`);
-        await this.whatsappManager.sendMessage(accountId, chatId, resolvedMessage);
+        details.text = resolvedMessage;
+        if (simulation) {
+          this.recordSimulatedAction(simulation, node, 'send', details);
+        } else {
+          await this.whatsappManager.sendMessage(accountId, chatId, resolvedMessage);
+        }
         return node.nextNode || null;
       }
 
       case 'actionForwardMessage':
       case 'action_forward_message': {
         const targetNumber = (node.data.phoneNumber || '').trim();
-        const messageContext = await this.getMessageContext(accountId, chatId, message);
-        const resolvedMessage = this.renderTemplate(node.data.message || '', messageContext);
+        const messageContext = await this.getMessageContext(accountId, chatId, message, simulation);
+        const resolvedMessage = this.renderTemplate(node.data.message || '', messageContext, variables);
 
         if (!targetNumber) {
           console.log('⚠️ actionForwardMessage skipped - no destination number configured');
+          details.skipped = 'no destination number';
           return node.nextNode || null;
         }
 
         if (!resolvedMessage.trim()) {
           console.log('⚠️ actionForwardMessage skipped - no message content configured');
+          details.skipped = 'no message content';
           return node.nextNode || null;
         }
 
         console.log(`📨 Forwarding message to ${targetNumber}: "${resolvedMessage.substring(0, 50)}..."`);
-        await this.whatsappManager.sendMessage(accountId, targetNumber, resolvedMessage);
+        details.to = targetNumber;
+        details.text = resolvedMessage;
+        if (simulation) {
+          this.recordSimulatedAction(simulation, node, 'forward', details);
+        } else {
+          await this.whatsappManager.sendMessage(accountId, targetNumber, resolvedMessage);
+        }
         return node.nextNode || null;
       }
       
@@ -430,7 +1572,12 @@ export class FlowEngine {
       case 'action_delay': {
         const seconds = node.data.seconds || 1;
         console.log(`⏱️ Delay: ${seconds} seconds`);
-        await this.sleep(seconds * 1000);
+        details.seconds = seconds;
+        if (simulation) {
+          this.recordSimulatedAction(simulation, node, 'delay', details);
+        } else {
+          await this.sleep(seconds * 1000);
+        }
         return node.nextNode || null;
       }
       
@@ -440,7 +1587,12 @@ export class FlowEngine {
         const max = node.data.max || 5;
         const seconds = Math.floor(Math.random() * (max - min + 1)) + min;
         console.log(`⏱️ Random delay: ${seconds} seconds (${min}-${max})`);
-        await this.sleep(seconds * 1000);
+        details.seconds = seconds;
+        if (simulation) {
+          this.recordSimulatedAction(simulation, node, 'delay', details);
+        } else {
+          await this.sleep(seconds * 1000);
+        }
         return node.nextNode || null;
       }
       
@@ -449,22 +1601,165 @@ export class FlowEngine {
         const min = node.data.min || 1;
         const max = node.data.max || 3;
         console.log(`⌨️ Simulating typing: ${min}-${max} seconds`);
-        await this.simulateTyping(accountId, chatId, min, max);
+        if (simulation) {
+          details.min = min;
+          details.max = max;
+          this.recordSimulatedAction(simulation, node, 'typing', details);
+        } else {
+          await this.simulateTyping(accountId, chatId, min, max);
+        }
         return node.nextNode || null;
       }
       
       case 'actionWebhook':
       case 'action_webhook': {
         console.log(`🌐 Sending webhook to: ${node.data.url}`);
-        await this.executeWebhook(node.data, accountId, chatId, message);
+        await this.executeWebhook(node.data, accountId, chatId, message, variables, details, simulation);
+        if (simulation && !details.skipped) {
+          this.recordSimulatedAction(simulation, node, 'webhook', details);
+        }
+        return node.nextNode || null;
+      }
+
+      case 'actionCaptureReply':
+      case 'action_capture_reply': {
+        const captured = captureFromText(message?.body || '', node.data.mode, node.data.pattern);
+        if (captured === null) {
+          console.log('🔍 Capture: nothing matched in the reply');
+          details.result = false;
+          return node.edgeNo || null;
+        }
+        details.result = true;
+        details.captured = captured;
+
+        const saveToField = node.data.target === 'field';
+        const name = normalizeVariableName(saveToField ? node.data.fieldName : node.data.variableName);
+        if (!name) {
+          console.log('⚠️ actionCaptureReply skipped - no variable or field configured');
+          details.skipped = 'no variable or field';
+          return node.edgeYes || null;
+        }
+        details[saveToField ? 'field' : 'variable'] = name;
+
+        // The value is always available to later nodes, even when it also goes into the contact
+        variables[name] = captured;
+        console.log(`📝 Captured "${captured.substring(0, 50)}" into ${saveToField ? 'contact field' : 'variable'} "${name}"`);
+
+        if (saveToField) {
+          if (simulation) {
+            this.recordSimulatedAction(simulation, node, 'field', { field: name, value: captured });
+          } else {
+            const messageContext = await this.getMessageContext(accountId, chatId, message, simulation);
+            this.saveContactField(messageContext.senderPhone, messageContext.senderName, name, captured);
+          }
+        }
+
+        return node.edgeYes || null;
+      }
+
+      case 'actionAddTag':
+      case 'action_add_tag':
+      case 'actionRemoveTag':
+      case 'action_remove_tag': {
+        const tagged = node.type === 'actionAddTag' || node.type === 'action_add_tag';
+        if (!node.data.tagId) {
+          console.log(`⚠️ ${node.type} skipped - no tag configured`);
+          details.skipped = 'no tag';
+          return node.nextNode || null;
+        }
+        details.tagId = node.data.tagId;
+        const messageContext = await this.getMessageContext(accountId, chatId, message, simulation);
+        console.log(`🏷️ ${tagged ? 'Adding' : 'Removing'} tag ${node.data.tagId} ${tagged ? 'to' : 'from'} ${messageContext.senderPhone}`);
+        if (simulation) {
+          // Later tag conditions in the same run see the change
+          if (tagged) simulation.tagIds.add(node.data.tagId);
+          else simulation.tagIds.delete(node.data.tagId);
+          this.recordSimulatedAction(simulation, node, 'tag', { ...details, tagged });
+        } else {
+          this.setContactTag(messageContext.senderPhone, messageContext.senderName, node.data.tagId, tagged);
+        }
+        return node.nextNode || null;
+      }
+
+      case 'actionSetCustomField':
+      case 'action_set_custom_field': {
+        const fieldName = normalizeVariableName(node.data.fieldName);
+        if (!fieldName) {
+          console.log('⚠️ actionSetCustomField skipped - no field configured');
+          details.skipped = 'no field';
+          return node.nextNode || null;
+        }
+        const messageContext = await this.getMessageContext(accountId, chatId, message, simulation);
+        const value = this.renderTemplate(node.data.value || '', messageContext, variables);
+        variables[fieldName] = value;
+        details.field = fieldName;
+        details.value = value;
+        console.log(`📝 Setting contact field "${fieldName}" = "${value.substring(0, 50)}"`);
+        if (simulation) {
+          this.recordSimulatedAction(simulation, node, 'field', details);
+        } else {
+          this.saveContactField(messageContext.senderPhone, messageContext.senderName, fieldName, value);
+        }
+        return node.nextNode || null;
+      }
+
+      case 'actionSetChatStatus':
+      case 'action_set_chat_status': {
+        // Nodes saved before the status lifecycle use handled/unhandled
+        const status = toChatStatus(node.data.status || 'closed');
+        details.status = status;
+        if (simulation) {
+          this.recordSimulatedAction(simulation, node, 'chat_status', details);
+          return node.nextNode || null;
+        }
+        const resolvedChatId = this.resolveSoftwareChatId(accountId, chatId, softwareChatId);
+        if (!resolvedChatId) {
+          console.log('⚠️ actionSetChatStatus skipped - chat not found');
+          details.skipped = 'chat not found';
+          return node.nextNode || null;
+        }
+        if (!this.inboxManager) {
+          console.log('⚠️ actionSetChatStatus skipped - Inbox not ready');
+          details.skipped = 'inbox not ready';
+          return node.nextNode || null;
+        }
+        try {
+          await this.inboxManager.markChatStatus(resolvedChatId, status);
+          console.log(`📝 Chat ${resolvedChatId} marked as ${status}`);
+        } catch (error: any) {
+          console.error('❌ Error changing chat status:', error);
+          details.skipped = error?.message || 'invalid status';
+        }
+        return node.nextNode || null;
+      }
+
+      case 'actionAddToCampaign':
+      case 'action_add_to_campaign': {
+        if (!node.data.campaignId) {
+          console.log('⚠️ actionAddToCampaign skipped - no campaign configured');
+          details.skipped = 'no campaign';
+          return node.nextNode || null;
+        }
+        details.campaignId = node.data.campaignId;
+        if (simulation) {
+          this.recordSimulatedAction(simulation, node, 'campaign', details);
+          return node.nextNode || null;
+        }
+        const messageContext = await this.getMessageContext(accountId, chatId, message, simulation);
+        this.addToCampaign(messageContext.senderPhone, node.data.campaignId);
         return node.nextNode || null;
       }
 
       case 'actionBlacklist':
       case 'action_blacklist': {
-        const messageContext = await this.getMessageContext(accountId, chatId, message);
+        const messageContext = await this.getMessageContext(accountId, chatId, message, simulation);
         console.log(`🚫 Adding contact ${messageContext.senderPhone} to BlackList`);
-        await this.addContactToBlacklist(messageContext.senderPhone, messageContext.senderName);
+        details.phone = messageContext.senderPhone;
+        if (simulation) {
+          this.recordSimulatedAction(simulation, node, 'blacklist', details);
+        } else {
+          await this.addContactToBlacklist(messageContext.senderPhone, messageContext.senderName);
+        }
         return node.nextNode || null;
       }
 
@@ -474,7 +1769,124 @@ export class FlowEngine {
     }
   }
 
-  private async getMessageContext(accountId: string, chatId: string, message: any): Promise<{ incomingMessage: string; senderPhone: string; senderName: string }> {
+  /**
+   * בדיקת התנאי הכללי (conditionRule) - regex, מילות מפתח, סוג הודעה, שעות פעילות, תגיות, שדות מותאמים והודעה ראשונה
+   */
+  private async evaluateConditionRule(
+    data: any,
+    accountId: string,
+    chatId: string,
+    message: any,
+    variables: FlowVariables,
+    simulation?: FlowSimulation
+  ): Promise<boolean> {
+    const messageText = message?.body || '';
+
+    switch (data.rule || 'regex') {
+      case 'regex': {
+        if (!data.pattern) return false;
+        try {
+          return new RegExp(data.pattern, 'i').test(messageText);
+        } catch (error) {
+          console.log(`⚠️ Invalid condition regex "${data.pattern}":`, error);
+          return false;
+        }
+      }
+
+      case 'keywords':
+        return matchesKeywords(messageText, data.keywords, data.match);
+
+      case 'message_type':
+        return getMessageKind(message) === (data.messageType || 'text');
+
+      case 'business_hours':
+        return isWithinBusinessHours({ days: data.days, start: data.start, end: data.end, timezone: data.timezone });
+
+      case 'tag': {
+        if (!data.tagId) return false;
+        const { senderPhone } = await this.getMessageContext(accountId, chatId, message, simulation);
+        const hasTag = simulation ? simulation.tagIds.has(data.tagId) : this.contactHasTag(senderPhone, data.tagId);
+        return data.tagMode === 'lacks' ? !hasTag : hasTag;
+      }
+
+      case 'custom_field': {
+        const fieldName = normalizeVariableName(data.fieldName);
+        if (!fieldName) return false;
+        const { senderPhone } = await this.getMessageContext(accountId, chatId, message, simulation);
+        // A value captured earlier in this execution wins over what is saved on the contact
+        const value = variables[fieldName] ?? this.getContactFieldValue(senderPhone, fieldName);
+        return compareFieldValue(value, data.operator, data.value);
+      }
+
+      case 'first_message': {
+        const { senderPhone } = await this.getMessageContext(accountId, chatId, message, simulation);
+        return this.isFirstMessageFrom(senderPhone);
+      }
+
+      case 'variable': {
+        // Values from earlier nodes in this execution - captured replies, webhook response mappings...
+        const variableName = normalizeVariableName(data.variableName);
+        if (!variableName) return false;
+        return compareFieldValue(variables[variableName], data.operator, data.value);
+      }
+
+      default:
+        console.log(`⚠️ Unknown condition rule: ${data.rule}`);
+        return false;
+    }
+  }
+
+  private contactHasTag(phoneNumber: string, tagId: string): boolean {
+    const digits = this.extractDigits(phoneNumber);
+    if (!digits) return false;
+
+    const row = this.db.prepare(`
+      SELECT 1 FROM contact_tags ct
+      JOIN contacts c ON c.id = ct.contact_id
+      WHERE ct.tag_id = ?
+        AND SUBSTR(REPLACE(REPLACE(REPLACE(c.phone_number, '-', ''), ' ', ''), '+', ''), -9) = ?
+      LIMIT 1
+    `).get(tagId, digits.slice(-9));
+    return !!row;
+  }
+
+  private getContactFieldValue(phoneNumber: string, fieldName: string): string | undefined {
+    const contact = this.findContactByPhone(phoneNumber);
+    if (!contact?.custom_fields) return undefined;
+
+    try {
+      const value = JSON.parse(contact.custom_fields)?.[fieldName];
+      return value === null || value === undefined ? undefined : String(value);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * The incoming message is already saved when flows run, so "first" means it is the only one from this number
+   */
+  private isFirstMessageFrom(phoneNumber: string): boolean {
+    const digits = this.extractDigits(phoneNumber);
+    if (!digits) return false;
+
+    const row = this.db.prepare(`
+      SELECT COUNT(*) as count FROM messages
+      WHERE is_from_me = 0
+        AND SUBSTR(REPLACE(REPLACE(REPLACE(from_number, '-', ''), ' ', ''), '+', ''), -9) = ?
+    `).get(digits.slice(-9)) as { count: number };
+    return row.count <= 1;
+  }
+
+  private async getMessageContext(
+    accountId: string,
+    chatId: string,
+    message: any,
+    simulation?: FlowSimulation
+  ): Promise<{ incomingMessage: string; senderPhone: string; senderName: string }> {
+    if (simulation) {
+      return { incomingMessage: message?.body || '', senderPhone: simulation.phone, senderName: simulation.name };
+    }
+
     let senderPhone = this.extractDigits(message?.from || chatId);
     let senderName = message?._data?.notifyName || message?._data?.pushname || '';
 
@@ -497,24 +1909,164 @@ export class FlowEngine {
     };
   }
 
-  private renderTemplate(template: string, context: { incomingMessage: string; senderPhone: string; senderName: string }): string {
-    return (template || '')
-      .split('{{incoming_message}}').join(context.incomingMessage || '')
-      .split('{{sender_phone}}').join(context.senderPhone || '')
-      .split('{{sender_name}}').join(context.senderName || '');
+  private renderTemplate(
+    template: string,
+    context: { incomingMessage: string; senderPhone: string; senderName: string },
+    flowVariables: FlowVariables = {},
+    options: { escapeValue?: (value: string) => string; variablesOnly?: boolean } = {}
+  ): string {
+    // Saved contact data (name + custom fields) when the sender is known, otherwise what WhatsApp told us
+    const contact = this.findContactByPhone(context.senderPhone)
+      || { name: context.senderName, phone_number: context.senderPhone };
+
+    const variables = {
+      ...buildContactVariables(contact, context.senderPhone),
+      ...flowVariables,
+      incoming_message: context.incomingMessage || '',
+      sender_phone: context.senderPhone || '',
+      sender_name: context.senderName || '',
+    };
+
+    if (options.escapeValue) {
+      for (const [name, value] of Object.entries(variables)) {
+        variables[name] = options.escapeValue(String(value ?? ''));
+      }
+    }
+
+    // Custom fields this contact has no value for render empty, same as in campaigns
+    return renderTemplate(template || '', variables, {
+      knownVariables: this.getCustomFieldNames(),
+      variablesOnly: options.variablesOnly,
+    }).text;
+  }
+
+  private getCustomFieldNames(): string[] {
+    const rows = this.db.prepare('SELECT name FROM custom_fields').all() as { name: string }[];
+    return rows.map(row => row.name);
+  }
+
+  private findContactByPhone(phoneNumber: string): { name: string | null; phone_number: string; custom_fields: string | null } | undefined {
+    const digits = this.extractDigits(phoneNumber);
+    if (!digits) return undefined;
+
+    try {
+      const stmt = this.db.prepare(`
+        SELECT name, phone_number, custom_fields FROM contacts
+        WHERE SUBSTR(REPLACE(REPLACE(REPLACE(phone_number, '-', ''), ' ', ''), '+', ''), -9) = ?
+        LIMIT 1
+      `);
+      return stmt.get(digits.slice(-9)) as any;
+    } catch (error) {
+      console.log('ℹ️ Could not load contact for template variables:', error);
+      return undefined;
+    }
   }
 
   private extractDigits(value: string): string {
     return (value || '').replace(/\D/g, '');
   }
 
+  /**
+   * שמור ערך בשדה מותאם של איש הקשר - יוצר את איש הקשר אם עוד לא קיים
+   */
+  private saveContactField(phoneNumber: string, name: string, fieldName: string, value: string): void {
+    if (!this.contactService) {
+      console.log('⚠️ Contact field not saved - contacts not ready');
+      return;
+    }
+
+    try {
+      const contactId = this.contactService.findOrCreateByPhone(phoneNumber, name);
+      if (!contactId) {
+        console.log('⚠️ Contact field not saved - no phone number resolved for this contact');
+        return;
+      }
+      this.contactService.setCustomField(contactId, fieldName, value);
+    } catch (error) {
+      console.error('❌ Error saving contact field:', error);
+    }
+  }
+
+  /**
+   * הוסף / הסר תגית - דרך ContactService, כמו contacts:addTag / contacts:removeTag, כולל סנכרון תגית BlackList
+   */
+  private setContactTag(phoneNumber: string, name: string, tagId: string, tagged: boolean): void {
+    if (!this.contactService) {
+      console.log('⚠️ Tag not changed - contacts not ready');
+      return;
+    }
+
+    try {
+      const contactId = this.contactService.findOrCreateByPhone(phoneNumber, name);
+      if (!contactId) {
+        console.log('⚠️ Tag not changed - no phone number resolved for this contact');
+        return;
+      }
+
+      if (tagged) {
+        if (this.contactService.addTag(contactId, tagId, 'flow')) {
+          this.triggerFlows({ type: 'tag_added', phone: phoneNumber, name, tagId });
+        }
+      } else {
+        this.contactService.removeTag(contactId, tagId, 'flow');
+      }
+    } catch (error) {
+      console.error('❌ Error changing contact tag:', error);
+    }
+  }
+
+  /**
+   * הוסף את המספר לקמפיין כאיש קשר ממתין (פעם אחת בלבד לכל קמפיין)
+   */
+  private addToCampaign(phoneNumber: string, campaignId: string): void {
+    const digits = this.extractDigits(phoneNumber);
+    if (!digits) {
+      console.log('⚠️ actionAddToCampaign skipped - no phone number resolved for this contact');
+      return;
+    }
+    if (!this.contactService) {
+      console.log('⚠️ actionAddToCampaign skipped - contacts not ready');
+      return;
+    }
+
+    try {
+      const campaign = this.db.prepare('SELECT name, status FROM campaigns WHERE id = ?').get(campaignId) as { name: string; status: string } | undefined;
+      if (!campaign) {
+        console.log('⚠️ actionAddToCampaign skipped - campaign no longer exists');
+        return;
+      }
+
+      if (campaign.status === 'completed' || campaign.status === 'stopped') {
+        console.log(`⚠️ actionAddToCampaign skipped - campaign "${campaign.name}" is ${campaign.status}`);
+        return;
+      }
+
+      if (this.contactService.addToCampaign(campaignId, [digits]) === 0) {
+        console.log(`ℹ️ ${digits} is already in campaign "${campaign.name}"`);
+        return;
+      }
+      console.log(`✅ ${digits} added to campaign "${campaign.name}"`);
+    } catch (error) {
+      console.error('❌ Error adding contact to campaign:', error);
+    }
+  }
+
   /**
    * שליחת Webhook
    */
-  private async executeWebhook(data: any, accountId: string, chatId: string, message: any): Promise<void> {
+  private async executeWebhook(
+    data: any,
+    accountId: string,
+    chatId: string,
+    message: any,
+    variables: FlowVariables,
+    details: FlowStepDetails,
+    simulation?: FlowSimulation
+  ): Promise<void> {
     const url = data.url;
     if (!url) {
       console.log('⚠️ Webhook node has no URL configured');
+      details.skipped = 'no URL';
       return;
     }
 
@@ -522,22 +2074,24 @@ export class FlowEngine {
       const method = (data.method || 'POST').toUpperCase();
       
       // Build the body
-      const body: Record<string, any> = {};
+      let body: Record<string, any> = {};
       
       // Resolve real phone number via getContact() (most reliable)
-      let resolvedPhone = '';
-      let resolvedName = message._data?.notifyName || message._data?.pushname || '';
+      let resolvedPhone = simulation?.phone || '';
+      let resolvedName = simulation ? simulation.name : message._data?.notifyName || message._data?.pushname || '';
       
-      try {
-        const resolvedContact = await this.whatsappManager.resolveContactData(accountId, chatId, message);
-        if (resolvedContact.phone) {
-          resolvedPhone = resolvedContact.phone;
-        }
-        if (resolvedContact.name) {
-          resolvedName = resolvedContact.name;
+      if (!simulation) {
+        try {
+          const resolvedContact = await this.whatsappManager.resolveContactData(accountId, chatId, message);
+          if (resolvedContact.phone) {
+            resolvedPhone = resolvedContact.phone;
+          }
+          if (resolvedContact.name) {
+            resolvedName = resolvedContact.name;
+          }
+        } catch (e) {
+          // Ignore - will use fallback
         }
-      } catch (e) {
-        // Ignore - will use fallback
       }
       
       // Try DB lookup for contact name (more reliable than WhatsApp pushname)
@@ -554,52 +2108,194 @@ export class FlowEngine {
         }
       }
 
-      // Add phone number if enabled
-      if (data.sendPhone) {
-        body.phone = resolvedPhone;
-      }
-      
-      // Add contact name if enabled
-      if (data.sendName) {
-        body.name = resolvedName;
-      }
-      
-      // Add body text if provided
-      if (data.bodyText) {
-        body.text = data.bodyText;
-      }
-      
-      // Add custom fields
-      if (data.fields && Array.isArray(data.fields)) {
-        for (const field of data.fields) {
-          if (field.key && field.key.trim()) {
-            body[field.key.trim()] = field.value || '';
+      // Body text, field values, headers and the raw body may use {{variables}} - same set as message templates
+      const templateContext = {
+        incomingMessage: message?.body || '',
+        senderPhone: resolvedPhone || this.extractDigits(message?.from || chatId),
+        senderName: resolvedName,
+      };
+      const render = (template: string) => this.renderTemplate(template, templateContext, variables);
+      // JSON, headers, credentials and the URL get their variables filled in and nothing else -
+      // a "|" inside braces there is data, not spintax
+      const renderValue = (template: string) =>
+        this.renderTemplate(template, templateContext, variables, { variablesOnly: true });
+
+      if (data.bodyMode === 'raw') {
+        const rendered = this.renderTemplate(data.rawBody || '{}', templateContext, variables, {
+          escapeValue: escapeJsonString,
+          variablesOnly: true,
+        });
+        try {
+          body = JSON.parse(rendered);
+        } catch {
+          throw new Error('The webhook body is not valid JSON after filling in variables');
+        }
+      } else {
+        // Add phone number if enabled
+        if (data.sendPhone) {
+          body.phone = resolvedPhone;
+        }
+
+        // Add contact name if enabled
+        if (data.sendName) {
+          body.name = resolvedName;
+        }
+
+        // Add body text if provided
+        if (data.bodyText) {
+          body.text = render(data.bodyText);
+        }
+
+        // Add custom fields
+        if (data.fields && Array.isArray(data.fields)) {
+          for (const field of data.fields) {
+            if (field.key && field.key.trim()) {
+              body[field.key.trim()] = render(field.value || '');
+            }
           }
         }
+
+        // Add every flow variable collected so far
+        if (data.sendVariables) {
+          body.variables = { ...variables };
+        }
       }
-      
-      console.log(`🌐 Webhook ${method} ${url}`, JSON.stringify(body));
-      
+
+      const headers: Record<string, string> = {};
+      for (const header of Array.isArray(data.headers) ? data.headers : []) {
+        if (header?.key && header.key.trim()) {
+          headers[header.key.trim()] = renderValue(header.value || '');
+        }
+      }
+      if (data.authType === 'bearer' && data.authToken) {
+        headers.Authorization = `Bearer ${renderValue(data.authToken)}`;
+      } else if (data.authType === 'basic' && (data.authUsername || data.authPassword)) {
+        headers.Authorization = `Basic ${Buffer.from(`${renderValue(data.authUsername || '')}:${renderValue(data.authPassword || '')}`).toString('base64')}`;
+      }
+
+      let requestUrl = renderValue(url);
+      let payload: string | undefined;
       if (method === 'GET') {
         // For GET, append as query params
-        const urlObj = new URL(url);
+        const urlObj = new URL(requestUrl);
         for (const [key, value] of Object.entries(body)) {
-          urlObj.searchParams.append(key, String(value));
+          urlObj.searchParams.append(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
         }
-        const response = await fetch(urlObj.toString(), { method: 'GET' });
-        console.log(`✅ Webhook response: ${response.status}`);
+        requestUrl = urlObj.toString();
       } else {
-        // POST / PUT
-        const response = await fetch(url, {
-          method,
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(body),
-        });
-        console.log(`✅ Webhook response: ${response.status}`);
+        payload = JSON.stringify(body);
+        if (!Object.keys(headers).some(key => key.toLowerCase() === 'content-type')) {
+          headers['Content-Type'] = 'application/json';
+        }
+      }
+
+      if (data.hmacSecret) {
+        // The exact bytes sent are signed: the JSON body, or the query string for GET
+        const signedPayload = payload ?? new URL(requestUrl).search.replace(/^\?/, '');
+        headers[(data.hmacHeader || '').trim() || WEBHOOK_DEFAULT_SIGNATURE_HEADER] = `sha256=${signWebhookPayload(data.hmacSecret, signedPayload)}`;
+      }
+
+      console.log(`🌐 Webhook ${method} ${requestUrl}`, payload || '');
+      details.method = method;
+      details.url = requestUrl;
+      details.body = body;
+      // Credentials stay out of the trace
+      details.headers = Object.keys(headers);
+
+      if (simulation) {
+        return;
       }
+
+      const response = await this.fetchWithRetry(requestUrl, { method, headers, body: payload }, {
+        timeoutMs: clampNumber(data.timeoutSeconds, 1, WEBHOOK_MAX_TIMEOUT_SECONDS, WEBHOOK_DEFAULT_TIMEOUT_SECONDS) * 1000,
+        retries: Math.round(clampNumber(data.retries, 0, WEBHOOK_MAX_RETRIES, 0)),
+        backoffMs: clampNumber(data.backoffSeconds, 0, 60, WEBHOOK_DEFAULT_BACKOFF_SECONDS) * 1000,
+      }, details);
+
+      console.log(`✅ Webhook response: ${response.status}`);
+      details.responseStatus = response.status;
+      variables.webhook_status = String(response.status);
+
+      const responseText = response.text;
+      details.response = responseText.slice(0, WEBHOOK_TRACE_RESPONSE_LENGTH);
+      this.mapWebhookResponse(data.responseMappings, responseText, variables, details);
     } catch (error) {
       console.error('❌ Webhook error:', error);
+      details.error = error instanceof Error ? error.message : String(error);
+      variables.webhook_status = 'error';
+    }
+  }
+
+  /**
+   * fetch with a timeout per attempt, covering the response body as well as the headers. Network errors,
+   * timeouts, 429 and 5xx responses are retried after backoff, 2×backoff, 4×backoff...; any other
+   * response is returned as it is.
+   */
+  private async fetchWithRetry(
+    url: string,
+    init: { method: string; headers: Record<string, string>; body?: string },
+    options: { timeoutMs: number; retries: number; backoffMs: number },
+    details: FlowStepDetails
+  ): Promise<{ status: number; text: string }> {
+    for (let attempt = 1; ; attempt++) {
+      details.attempts = attempt;
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+      const canRetry = attempt <= options.retries;
+
+      try {
+        const response = await fetch(url, { ...init, signal: controller.signal });
+        if (!canRetry || (response.status !== 429 && response.status < 500)) {
+          // Read while the timer still runs - a server can send headers and then stall the body
+          return { status: response.status, text: await response.text() };
+        }
+        console.log(`⚠️ Webhook returned ${response.status} - retry ${attempt}/${options.retries}`);
+      } catch (error) {
+        const reason = controller.signal.aborted ? new Error(`Timed out after ${options.timeoutMs / 1000}s`) : error;
+        if (!canRetry) {
+          throw reason;
+        }
+        console.log(`⚠️ Webhook failed (${reason instanceof Error ? reason.message : reason}) - retry ${attempt}/${options.retries}`);
+      } finally {
+        clearTimeout(timer);
+      }
+
+      await this.sleep(options.backoffMs * 2 ** (attempt - 1));
+    }
+  }
+
+  /**
+   * Copy fields of a JSON response into flow variables - {{order_status}} in a later message, or a
+   * "flow variable" condition. A mapping without a path takes the whole response.
+   */
+  private mapWebhookResponse(
+    mappings: any,
+    responseText: string,
+    variables: FlowVariables,
+    details: FlowStepDetails
+  ): void {
+    const list = Array.isArray(mappings) ? mappings.filter((mapping: any) => normalizeVariableName(mapping?.variable)) : [];
+    if (list.length === 0) {
+      return;
+    }
+
+    let parsed: any = responseText;
+    try {
+      parsed = JSON.parse(responseText);
+    } catch {
+      // Not JSON - only path-less mappings get a value
+    }
+
+    const mapped: Record<string, string> = {};
+    for (const mapping of list) {
+      const value = getJsonPath(parsed, mapping.path);
+      if (value === undefined || value === null) continue;
+
+      const name = normalizeVariableName(mapping.variable);
+      variables[name] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+      mapped[name] = variables[name];
     }
+    details.mapped = mapped;
   }
 
   /**
@@ -636,8 +2332,7 @@ export class FlowEngine {
   }
 
   /**
-   * הוסף איש קשר לרשימה השחורה (BlackList) לפי מספר טלפון.
-   * יוצר את איש הקשר אם עדיין לא קיים בטבלת ה-contacts.
+   * הוסף את המספר לרשימת ההסרה (suppression) - מסומן גם בטאג BlackList אם קיים איש קשר.
    */
   private async addContactToBlacklist(phoneNumber: string, name?: string): Promise<void> {
     const digits = this.extractDigits(phoneNumber);
@@ -646,46 +2341,16 @@ export class FlowEngine {
       return;
     }
 
-    try {
-      // Find existing contact by matching normalized phone number formats
-      const findStmt = this.db.prepare(`
-        SELECT id FROM contacts
-        WHERE REPLACE(REPLACE(REPLACE(phone_number, '-', ''), ' ', ''), '+', '') = ?
-           OR REPLACE(REPLACE(REPLACE(phone_number, '-', ''), ' ', ''), '+', '') LIKE ?
-      `);
-      let contact = findStmt.get(digits, `%${digits.slice(-9)}`) as { id: string } | undefined;
-
-      if (!contact) {
-        const newContactId = uuidv4();
-        const insertContactStmt = this.db.prepare(`
-          INSERT OR IGNORE INTO contacts (id, phone_number, name)
-          VALUES (?, ?, ?)
-        `);
-        insertContactStmt.run(newContactId, digits, name || null);
-        contact = { id: newContactId };
-      }
-
-      // Ensure the system BlackList tag exists (should already, created on DB init)
-      const tagStmt = this.db.prepare(`SELECT id FROM tags WHERE name = 'BlackList'`);
-      let tag = tagStmt.get() as { id: string } | undefined;
-
-      if (!tag) {
-        const newTagId = uuidv4();
-        this.db.prepare(`
-          INSERT INTO tags (id, name, color, is_system)
-          VALUES (?, 'BlackList', '#000000', 1)
-        `).run(newTagId);
-        tag = { id: newTagId };
-      }
-
-      this.db.prepare(`
-        INSERT OR IGNORE INTO contact_tags (contact_id, tag_id)
-        VALUES (?, ?)
-      `).run(contact.id, tag.id);
+    if (!this.suppressionService) {
+      console.log('⚠️ actionBlacklist skipped - suppression list is not available');
+      return;
+    }
 
-      console.log(`✅ Contact ${digits} added to BlackList`);
+    try {
+      this.suppressionService.suppress(digits, { source: 'flow', reason: 'Flow blacklist action', name: name || null });
+      console.log(`✅ Contact ${digits} added to the suppression list`);
     } catch (error) {
-      console.error('❌ Error adding contact to BlackList:', error);
+      console.error('❌ Error adding contact to the suppression list:', error);
     }
   }
 }
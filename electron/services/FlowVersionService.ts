@@ -0,0 +1,311 @@
+import type { Database } from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import type { FlowDiffSummary, FlowEdge, FlowExportFile, FlowGraph, FlowNode, FlowVersion } from '../../src/types';
+
+const EXPORT_FORMAT = 'leadsender-flow';
+
+const edgeKey = (edge: FlowEdge) => `${edge.source}->${edge.target}:${edge.label || ''}`;
+
+/**
+ * Drafts, published versions and JSON import/export of flows.
+ *
+ * FlowEngine only ever reads flow_nodes/flow_edges - the live graph. The editor
+ * saves into flows.draft, and publishing copies the draft into the live tables and
+ * keeps a snapshot in flow_versions, so an edit never reaches contacts until it is
+ * published and any published version can be restored.
+ */
+export class FlowVersionService {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  getLiveGraph(flowId: string): FlowGraph {
+    const nodes = this.db.prepare('SELECT * FROM flow_nodes WHERE flow_id = ?').all(flowId) as any[];
+    const edges = this.db.prepare('SELECT * FROM flow_edges WHERE flow_id = ?').all(flowId) as any[];
+
+    return {
+      nodes: nodes.map(node => ({
+        id: node.id,
+        type: node.type,
+        position: { x: node.position_x, y: node.position_y },
+        data: JSON.parse(node.data || '{}'),
+      })),
+      edges: edges.map(edge => ({
+        id: edge.id,
+        source: edge.source,
+        target: edge.target,
+        label: edge.label || undefined,
+      })),
+    };
+  }
+
+  getDraft(flowId: string): FlowGraph | null {
+    const row = this.db.prepare('SELECT draft FROM flows WHERE id = ?').get(flowId) as { draft: string | null } | undefined;
+    return row?.draft ? this.parseGraph(row.draft) : null;
+  }
+
+  /**
+   * What the editor shows - the draft when there is one, otherwise the live graph
+   */
+  getEditableGraph(flowId: string): FlowGraph {
+    return this.getDraft(flowId) || this.getLiveGraph(flowId);
+  }
+
+  saveDraft(flowId: string, graph: FlowGraph): void {
+    this.db.prepare('UPDATE flows SET draft = ?, updated_at = ? WHERE id = ?')
+      .run(JSON.stringify(this.normalizeGraph(graph)), new Date().toISOString(), flowId);
+  }
+
+  discardDraft(flowId: string): void {
+    this.db.prepare('UPDATE flows SET draft = NULL, updated_at = ? WHERE id = ?').run(new Date().toISOString(), flowId);
+  }
+
+  /**
+   * Make the draft live. Returns the new version number.
+   */
+  publish(flowId: string, note?: string | null): number {
+    return this.db.transaction(() => {
+      const graph = this.getEditableGraph(flowId);
+      return this.publishGraph(flowId, graph, note || null);
+    })();
+  }
+
+  /**
+   * Restore a published version. It is published again as a new version, so the history stays linear.
+   */
+  rollback(flowId: string, versionId: string): number {
+    return this.db.transaction(() => {
+      const version = this.getVersionRow(flowId, versionId);
+      return this.publishGraph(flowId, this.parseGraph(version), `Rollback to v${version.version}`);
+    })();
+  }
+
+  getVersions(flowId: string): FlowVersion[] {
+    const flow = this.db.prepare('SELECT published_version FROM flows WHERE id = ?').get(flowId) as { published_version: number | null } | undefined;
+    const rows = this.db.prepare(`
+      SELECT id, flow_id, version, note, nodes, edges, created_at
+      FROM flow_versions
+      WHERE flow_id = ?
+      ORDER BY version DESC
+    `).all(flowId) as any[];
+
+    return rows.map(row => {
+      const graph = this.parseGraph(row);
+      return {
+        id: row.id,
+        flow_id: row.flow_id,
+        version: row.version,
+        note: row.note,
+        node_count: graph.nodes.length,
+        edge_count: graph.edges.length,
+        is_published: row.version === flow?.published_version,
+        created_at: row.created_at,
+      };
+    });
+  }
+
+  /**
+   * Changes to the live flow if the draft is published, or - with versionId - if that version is restored
+   */
+  getDiff(flowId: string, versionId?: string): FlowDiffSummary {
+    const live = this.getLiveGraph(flowId);
+    const target = versionId
+      ? this.parseGraph(this.getVersionRow(flowId, versionId))
+      : this.getDraft(flowId) || live;
+    return this.diff(live, target);
+  }
+
+  diff(before: FlowGraph, after: FlowGraph): FlowDiffSummary {
+    const beforeNodes = new Map(before.nodes.map(node => [node.id, node]));
+    const afterNodes = new Map(after.nodes.map(node => [node.id, node]));
+    const summary: FlowDiffSummary = {
+      addedNodes: [],
+      removedNodes: [],
+      changedNodes: [],
+      movedNodes: 0,
+      addedEdges: 0,
+      removedEdges: 0,
+    };
+
+    for (const node of after.nodes) {
+      const previous = beforeNodes.get(node.id);
+      if (!previous) {
+        summary.addedNodes.push({ id: node.id, type: node.type });
+        continue;
+      }
+      if (previous.type !== node.type || JSON.stringify(previous.data ?? {}) !== JSON.stringify(node.data ?? {})) {
+        summary.changedNodes.push({ id: node.id, type: node.type });
+      } else if (previous.position?.x !== node.position?.x || previous.position?.y !== node.position?.y) {
+        summary.movedNodes++;
+      }
+    }
+
+    for (const node of before.nodes) {
+      if (!afterNodes.has(node.id)) {
+        summary.removedNodes.push({ id: node.id, type: node.type });
+      }
+    }
+
+    const beforeEdges = new Set(before.edges.map(edgeKey));
+    const afterEdges = new Set(after.edges.map(edgeKey));
+    summary.addedEdges = [...afterEdges].filter(key => !beforeEdges.has(key)).length;
+    summary.removedEdges = [...beforeEdges].filter(key => !afterEdges.has(key)).length;
+
+    return summary;
+  }
+
+  exportFlow(flowId: string): FlowExportFile | null {
+    const flow = this.db.prepare('SELECT name, description FROM flows WHERE id = ?').get(flowId) as { name: string; description: string | null } | undefined;
+    if (!flow) {
+      return null;
+    }
+
+    const graph = this.getEditableGraph(flowId);
+    return {
+      format: EXPORT_FORMAT,
+      format_version: 1,
+      exported_at: new Date().toISOString(),
+      name: flow.name,
+      description: flow.description,
+      nodes: graph.nodes,
+      edges: graph.edges,
+    };
+  }
+
+  /**
+   * Create a new, inactive flow from an exported file and publish it as v1.
+   * Node and edge ids are regenerated - flow_nodes ids are global, and the same file may be imported twice.
+   * Accounts are not part of the file; the imported flow has none selected.
+   */
+  importFlow(file: any): string {
+    if (file?.format !== EXPORT_FORMAT || !Array.isArray(file.nodes) || !Array.isArray(file.edges)) {
+      throw new Error('Not a flow export file');
+    }
+
+    const idMap = new Map<string, string>();
+    const nodes: FlowNode[] = [];
+    for (const node of file.nodes) {
+      if (!node?.id || !node?.type) continue;
+      const id = `node_${uuidv4()}`;
+      idMap.set(String(node.id), id);
+      nodes.push({
+        id,
+        type: String(node.type),
+        position: { x: Number(node.position?.x) || 0, y: Number(node.position?.y) || 0 },
+        data: node.data ?? {},
+      });
+    }
+
+    const edges: FlowEdge[] = [];
+    for (const edge of file.edges) {
+      const source = idMap.get(String(edge?.source));
+      const target = idMap.get(String(edge?.target));
+      if (!source || !target) continue;
+      edges.push({ id: uuidv4(), source, target, label: edge.label || undefined });
+    }
+
+    const flowId = uuidv4();
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO flows (id, name, description, account_ids, is_active)
+        VALUES (?, ?, ?, '[]', 0)
+      `).run(flowId, String(file.name || 'Imported flow'), file.description || null);
+      this.publishGraph(flowId, { nodes, edges }, 'Imported');
+    })();
+
+    return flowId;
+  }
+
+  private publishGraph(flowId: string, graph: FlowGraph, note: string | null): number {
+    const normalized = this.normalizeGraph(graph);
+    const latest = this.db.prepare('SELECT MAX(version) as version FROM flow_versions WHERE flow_id = ?').get(flowId) as { version: number | null };
+    let version = latest.version || 0;
+
+    // Flows from before versioning: keep what was live as v1, so the first publish can be rolled back
+    if (version === 0) {
+      const live = this.getLiveGraph(flowId);
+      if (live.nodes.length > 0) {
+        this.insertVersion(flowId, ++version, live, 'Before versioning');
+      }
+    }
+
+    this.insertVersion(flowId, ++version, normalized, note);
+    this.writeLiveGraph(flowId, normalized);
+    this.db.prepare('UPDATE flows SET draft = NULL, published_version = ?, updated_at = ? WHERE id = ?')
+      .run(version, new Date().toISOString(), flowId);
+
+    return version;
+  }
+
+  private insertVersion(flowId: string, version: number, graph: FlowGraph, note: string | null): void {
+    this.db.prepare(`
+      INSERT INTO flow_versions (id, flow_id, version, nodes, edges, note, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(uuidv4(), flowId, version, JSON.stringify(graph.nodes), JSON.stringify(graph.edges), note, new Date().toISOString());
+  }
+
+  private writeLiveGraph(flowId: string, graph: FlowGraph): void {
+    this.db.prepare('DELETE FROM flow_nodes WHERE flow_id = ?').run(flowId);
+    this.db.prepare('DELETE FROM flow_edges WHERE flow_id = ?').run(flowId);
+
+    const nodeStmt = this.db.prepare(`
+      INSERT INTO flow_nodes (id, flow_id, type, position_x, position_y, data)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    for (const node of graph.nodes) {
+      nodeStmt.run(node.id, flowId, node.type, node.position.x, node.position.y, JSON.stringify(node.data));
+    }
+
+    const edgeStmt = this.db.prepare(`
+      INSERT INTO flow_edges (id, flow_id, source, target, label)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    for (const edge of graph.edges) {
+      edgeStmt.run(edge.id, flowId, edge.source, edge.target, edge.label || null);
+    }
+  }
+
+  private getVersionRow(flowId: string, versionId: string): { version: number; nodes: string; edges: string } {
+    const row = this.db.prepare('SELECT version, nodes, edges FROM flow_versions WHERE id = ? AND flow_id = ?').get(versionId, flowId) as any;
+    if (!row) {
+      throw new Error('Flow version not found');
+    }
+    return row;
+  }
+
+  private parseGraph(value: string | { nodes: string; edges: string }): FlowGraph {
+    try {
+      const parsed = typeof value === 'string'
+        ? JSON.parse(value)
+        : { nodes: JSON.parse(value.nodes), edges: JSON.parse(value.edges) };
+      return this.normalizeGraph(parsed);
+    } catch {
+      return { nodes: [], edges: [] };
+    }
+  }
+
+  /**
+   * Keep only what the flow needs - React Flow adds selection, sizes and styles to nodes and edges
+   */
+  private normalizeGraph(graph: any): FlowGraph {
+    const nodes = Array.isArray(graph?.nodes) ? graph.nodes : [];
+    const edges = Array.isArray(graph?.edges) ? graph.edges : [];
+
+    return {
+      nodes: nodes.map((node: any) => ({
+        id: node.id,
+        type: node.type,
+        position: { x: Number(node.position?.x) || 0, y: Number(node.position?.y) || 0 },
+        data: node.data ?? {},
+      })),
+      edges: edges.map((edge: any) => ({
+        id: edge.id,
+        source: edge.source,
+        target: edge.target,
+        label: edge.label || undefined,
+      })),
+    };
+  }
+}
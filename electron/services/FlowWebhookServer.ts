@@ -0,0 +1,132 @@
+import http from 'http';
+import type { Database } from 'better-sqlite3';
+import type { FlowEngine } from './FlowEngine';
+
+const PORT_SETTING_KEY = 'flow_webhook_port';
+const DEFAULT_PORT = 3789;
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const TOKEN_PATH = /^\/flows\/([A-Za-z0-9_-]+)\/?$/;
+
+/**
+ * Local HTTP endpoint for flows with an inbound webhook trigger.
+ *
+ * POST http://127.0.0.1:<port>/flows/<token> with a JSON body such as
+ * { "phone": "972501234567", "name": "Dana", "order_id": "1042" } starts every active
+ * flow whose webhook trigger has that token. `phone` is required; `account_id` picks the
+ * sending account; every top-level field becomes a flow variable.
+ *
+ * It only listens on 127.0.0.1 - other tools on this computer (or a tunnel the user sets
+ * up themselves) can call it, the network can't.
+ */
+export class FlowWebhookServer {
+  private db: Database;
+  private flowEngine: FlowEngine;
+  private server: http.Server | null = null;
+  private port: number = DEFAULT_PORT;
+
+  constructor(db: Database, flowEngine: FlowEngine) {
+    this.db = db;
+    this.flowEngine = flowEngine;
+  }
+
+  start(): void {
+    if (this.server) {
+      return;
+    }
+
+    this.port = this.getConfiguredPort();
+    this.server = http.createServer((req, res) => void this.handleRequest(req, res));
+    this.server.on('error', (error) => {
+      console.error(`❌ Flow webhook server could not listen on port ${this.port}:`, error);
+    });
+    this.server.listen(this.port, '127.0.0.1', () => {
+      console.log(`🪝 Flow webhooks listening on ${this.getBaseUrl()}`);
+    });
+  }
+
+  stop(): void {
+    this.server?.close();
+    this.server = null;
+  }
+
+  /**
+   * The URL a webhook trigger's token is appended to
+   */
+  getBaseUrl(): string {
+    return `http://127.0.0.1:${this.port}/flows/`;
+  }
+
+  private getConfiguredPort(): number {
+    const row = this.db.prepare('SELECT value FROM settings WHERE key = ?').get(PORT_SETTING_KEY) as { value: string } | undefined;
+    const port = Number(row?.value);
+    return Number.isInteger(port) && port > 0 && port < 65536 ? port : DEFAULT_PORT;
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const match = TOKEN_PATH.exec((req.url || '').split('?')[0]);
+    if (!match) {
+      this.respond(res, 404, { ok: false, error: 'Not found' });
+      return;
+    }
+    if (req.method !== 'POST') {
+      this.respond(res, 405, { ok: false, error: 'Use POST' });
+      return;
+    }
+
+    let payload: Record<string, any>;
+    try {
+      const body = await this.readBody(req);
+      payload = body ? JSON.parse(body) : {};
+      if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+        throw new Error('The body must be a JSON object');
+      }
+    } catch (error) {
+      this.respond(res, 400, { ok: false, error: error instanceof Error ? error.message : 'Invalid JSON body' });
+      return;
+    }
+
+    const phone = String(payload.phone ?? payload.phone_number ?? '').trim();
+    if (!phone) {
+      this.respond(res, 400, { ok: false, error: 'phone is required' });
+      return;
+    }
+
+    const started = this.flowEngine.triggerFlows({
+      type: 'webhook',
+      token: match[1],
+      phone,
+      name: typeof payload.name === 'string' ? payload.name : null,
+      accountId: typeof payload.account_id === 'string' ? payload.account_id : null,
+      payload,
+    });
+    this.respond(res, 202, { ok: true, started });
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new Error('Body too large'));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+
+  private respond(res: http.ServerResponse, status: number, body: Record<string, any>): void {
+    if (res.headersSent || res.destroyed) {
+      return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -1,6 +1,8 @@
 import type { Database } from 'better-sqlite3';
 import { BrowserWindow } from 'electron';
 import type { WhatsAppManager } from './WhatsAppManager';
+import type { AccountQuotaService } from './AccountQuotaService';
+import { getSuppressionKey } from './SuppressionService';
 import { getRandomDelay } from '../../src/lib/utils';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -44,12 +46,17 @@ export class GroupCampaignScheduler {
   private whatsappManager: WhatsAppManager;
   private tickInterval: NodeJS.Timeout | null = null;
   private runningCampaignIds: Set<string> = new Set();
+  private accountQuota?: AccountQuotaService;
 
   constructor(db: Database, whatsappManager: WhatsAppManager) {
     this.db = db;
     this.whatsappManager = whatsappManager;
   }
 
+  setAccountQuotaService(accountQuota: AccountQuotaService): void {
+    this.accountQuota = accountQuota;
+  }
+
   start(): void {
     if (this.tickInterval) {
       return;
@@ -77,6 +84,11 @@ export class GroupCampaignScheduler {
     }
   }
 
+  private isGroupSuppressed(groupId: string): boolean {
+    const key = getSuppressionKey(groupId);
+    return !!key && !!this.db.prepare('SELECT 1 FROM suppressions WHERE phone_key = ?').get(key);
+  }
+
   private async tick(): Promise<void> {
     try {
       const stmt = this.db.prepare(`SELECT * FROM group_campaigns WHERE status = 'active'`);
@@ -179,6 +191,8 @@ export class GroupCampaignScheduler {
         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
+      let quotaExhausted = false;
+
       for (let i = 0; i < targets.length; i++) {
         const target = targets[i];
 
@@ -195,6 +209,22 @@ export class GroupCampaignScheduler {
           break;
         }
 
+        // The account's sending quota is shared with its campaigns and warm-up - the next tick picks up the rest
+        const quotaCheck = this.accountQuota?.canSend(campaign.account_id);
+        if (quotaCheck && !quotaCheck.allowed) {
+          console.log(`⏳ Group campaign "${campaign.name}" - account reached its ${quotaCheck.exhausted} quota, remaining groups wait until ${quotaCheck.retryAt}`);
+          quotaExhausted = true;
+          break;
+        }
+
+        // Groups whose admins asked us to stop posting are on the suppression list by group id
+        if (this.isGroupSuppressed(target.group_id)) {
+          insertRunStmt.run(uuidv4(), campaignId, target.group_id, target.group_name, 'failed', 'Group is on the suppression list', today, new Date().toISOString());
+          console.log(`🚫 Group campaign "${campaign.name}" - skipped suppressed group ${target.group_name || target.group_id}`);
+          this.notifyRenderer('groupCampaign:progress', campaignId);
+          continue;
+        }
+
         try {
           if (campaign.media_path) {
             await this.whatsappManager.sendMedia(
@@ -212,6 +242,7 @@ export class GroupCampaignScheduler {
           }
 
           insertRunStmt.run(uuidv4(), campaignId, target.group_id, target.group_name, 'sent', null, today, new Date().toISOString());
+          this.accountQuota?.recordSend(campaign.account_id, 'group_campaign');
           console.log(`✅ Group campaign "${campaign.name}" - sent to ${target.group_name || target.group_id}`);
         } catch (error) {
           const message = (error as Error).message || 'Unknown error';
@@ -228,9 +259,9 @@ export class GroupCampaignScheduler {
       }
 
       // Only mark as run-for-today if we actually attempted all groups
-      // (i.e. we weren't halted early by a pause/stop/disconnect).
+      // (i.e. we weren't halted early by a pause/stop/disconnect/quota).
       const finalCampaign = campaignStmt.get(campaignId) as GroupCampaignRow | undefined;
-      if (finalCampaign && finalCampaign.status === 'active' && this.whatsappManager.isConnected(campaign.account_id)) {
+      if (!quotaExhausted && finalCampaign && finalCampaign.status === 'active' && this.whatsappManager.isConnected(campaign.account_id)) {
         this.db.prepare('UPDATE group_campaigns SET last_run_date = ? WHERE id = ?').run(today, campaignId);
       }
 
@@ -1,12 +1,30 @@
 import type { Database } from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
 import type { WhatsAppManager } from './WhatsAppManager';
+import type { ChatNote, ChatStatus } from '../../src/types';
+
+const CHAT_STATUSES: ChatStatus[] = ['open', 'pending', 'snoozed', 'closed'];
+// Flow nodes saved before the status lifecycle still use the old names
+const LEGACY_CHAT_STATUSES: Record<string, ChatStatus> = { handled: 'closed', unhandled: 'open' };
+const AGENTS_SETTING_KEY = 'inbox_agents';
+
+/**
+ * Maps the older handled/unhandled names onto the status lifecycle; anything else is returned as is
+ */
+export function toChatStatus(status: string): string {
+  return LEGACY_CHAT_STATUSES[status] || status;
+}
 
 export class InboxManager {
   private db: Database;
-  private whatsappManager: WhatsAppManager;
+  private whatsappManager: WhatsAppManager | null = null;
 
-  constructor(db: Database, whatsappManager: WhatsAppManager) {
+  constructor(db: Database) {
     this.db = db;
+  }
+
+  // Sending needs the WhatsApp clients; status, assignment and notes work before they start
+  setWhatsAppManager(whatsappManager: WhatsAppManager): void {
     this.whatsappManager = whatsappManager;
   }
 
@@ -25,8 +43,9 @@ export class InboxManager {
       params.push(accountId);
     }
     
-    query += ' ORDER BY c.last_message_at DESC';
+    query += ' ORDER BY c.is_pinned DESC, c.last_message_at DESC';
     
+    this.reopenExpiredSnoozes();
     const chats = this.db.prepare(query).all(...params) as any[];
     
     const lastMsgStmt = this.db.prepare(`
@@ -48,6 +67,9 @@ export class InboxManager {
         photo: chat.photo,
         name: chat.name,
         last_message_at: chat.last_message_at,
+        assigned_to: chat.assigned_to,
+        snoozed_until: chat.snoozed_until,
+        is_pinned: Boolean(chat.is_pinned),
         unread_count: chat.unread_count,
         last_message: lastMessage || null
       };
@@ -73,12 +95,99 @@ export class InboxManager {
     stmt.run(softwareChatId);
   }
 
-  async markChatStatus(softwareChatId: string, status: string): Promise<void> {
-    const stmt = this.db.prepare(`UPDATE chats SET status = ? WHERE id = ?`);
-    stmt.run(status, softwareChatId);
+  /**
+   * open - waiting for us, pending - waiting for the contact, snoozed - hidden until snoozedUntil, closed - done.
+   * Reopening a chat hands it back to flows that skip chats a human is handling.
+   * Used by the Inbox and by flow actions; the older handled/unhandled names are accepted too.
+   */
+  async markChatStatus(softwareChatId: string, requestedStatus: string, snoozedUntil?: string | null): Promise<void> {
+    const status = toChatStatus(requestedStatus);
+    if (!CHAT_STATUSES.includes(status as ChatStatus)) {
+      throw new Error(`Unknown chat status: ${status}`);
+    }
+    if (status === 'snoozed' && (!snoozedUntil || Number.isNaN(new Date(snoozedUntil).getTime()))) {
+      throw new Error('A snoozed chat needs a time to wake up');
+    }
+
+    const stmt = this.db.prepare(`
+      UPDATE chats
+      SET status = ?,
+          snoozed_until = ?,
+          last_human_reply_at = CASE WHEN ? = 'open' THEN NULL ELSE last_human_reply_at END
+      WHERE id = ?
+    `);
+    stmt.run(status, status === 'snoozed' ? new Date(snoozedUntil!).toISOString() : null, status, softwareChatId);
+  }
+
+  /**
+   * Snoozed chats whose time has come are open again. Runs before the chat list is read.
+   */
+  reopenExpiredSnoozes(): number {
+    const result = this.db.prepare(`
+      UPDATE chats SET status = 'open', snoozed_until = NULL
+      WHERE status = 'snoozed' AND (snoozed_until IS NULL OR snoozed_until <= ?)
+    `).run(new Date().toISOString());
+    return result.changes;
+  }
+
+  assignChat(softwareChatId: string, agent: string | null): void {
+    this.db.prepare('UPDATE chats SET assigned_to = ? WHERE id = ?').run(agent?.trim() || null, softwareChatId);
+  }
+
+  setPinned(softwareChatId: string, pinned: boolean): void {
+    this.db.prepare('UPDATE chats SET is_pinned = ? WHERE id = ?').run(pinned ? 1 : 0, softwareChatId);
+  }
+
+  getNotes(softwareChatId: string): ChatNote[] {
+    return this.db.prepare(`
+      SELECT * FROM chat_notes WHERE chat_id = ? ORDER BY created_at ASC
+    `).all(softwareChatId) as ChatNote[];
+  }
+
+  addNote(softwareChatId: string, note: string, author?: string | null): ChatNote {
+    const text = (note || '').trim();
+    if (!text) {
+      throw new Error('A note needs some text');
+    }
+
+    const id = uuidv4();
+    this.db.prepare(`
+      INSERT INTO chat_notes (id, chat_id, author, note, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(id, softwareChatId, author?.trim() || null, text, new Date().toISOString());
+    return this.db.prepare('SELECT * FROM chat_notes WHERE id = ?').get(id) as ChatNote;
+  }
+
+  deleteNote(noteId: string): void {
+    this.db.prepare('DELETE FROM chat_notes WHERE id = ?').run(noteId);
+  }
+
+  /**
+   * The team's agent names - chats are assigned to one of them
+   */
+  getAgents(): string[] {
+    const row = this.db.prepare('SELECT value FROM settings WHERE key = ?').get(AGENTS_SETTING_KEY) as { value: string } | undefined;
+    try {
+      const agents = JSON.parse(row?.value || '[]');
+      return Array.isArray(agents) ? agents.filter((agent): agent is string => typeof agent === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+
+  saveAgents(agents: string[]): string[] {
+    const unique = [...new Set((agents || []).map(agent => String(agent).trim()).filter(Boolean))];
+    this.db.prepare(`
+      INSERT INTO settings (key, value) VALUES (?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value
+    `).run(AGENTS_SETTING_KEY, JSON.stringify(unique));
+    return unique;
   }
 
   async sendMessage(accountId: string, to: string, message: string): Promise<void> {
+    if (!this.whatsappManager) {
+      throw new Error('WhatsApp services are not running');
+    }
     await this.whatsappManager.sendMessage(accountId, to, message);
   }
 }
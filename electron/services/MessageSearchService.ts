@@ -0,0 +1,142 @@
+import type { Database } from 'better-sqlite3';
+import type { MessageSearchChatGroup, MessageSearchFilters, MessageSearchHit, MessageSearchResult } from '../../src/types';
+
+// Matches read per search - a one-letter query can hit most of the database
+const MAX_SEARCH_MATCHES = 1000;
+// Hits listed under each chat; the group still reports how many there were
+const MAX_HITS_PER_CHAT = 5;
+const SNIPPET_TOKENS = 12;
+
+// Control characters can't appear in a WhatsApp message, so they are safe snippet markers
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+/**
+ * Full-text search over Inbox messages (text and media file names) through the
+ * messages_fts index. Every word of the query must appear, as a word prefix, so
+ * "inv 2026" finds "Invoice_2026.pdf". Results are grouped by chat, chats with
+ * the most recent hit first.
+ */
+export class MessageSearchService {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  search(query: string, filters: MessageSearchFilters = {}): MessageSearchResult {
+    const match = this.buildMatchQuery(query);
+    if (!match) {
+      return { groups: [], total_hits: 0, truncated: false };
+    }
+
+    const conditions = [
+      'messages_fts MATCH ?',
+      'm.software_chat_id IS NOT NULL',
+      // Same rule as the chat window - our own warm-up messages are not shown
+      '(m.is_warmup = 0 OR m.is_warmup IS NULL OR m.is_from_me = 0)'
+    ];
+    const params: any[] = [match];
+
+    if (filters.accountId) {
+      conditions.push('m.account_id = ?');
+      params.push(filters.accountId);
+    }
+    if (filters.dateFrom) {
+      conditions.push('m.timestamp >= ?');
+      params.push(filters.dateFrom);
+    }
+    if (filters.dateTo) {
+      conditions.push('m.timestamp <= ?');
+      params.push(filters.dateTo);
+    }
+    if (filters.direction === 'incoming') {
+      conditions.push('m.is_from_me = 0');
+    } else if (filters.direction === 'outgoing') {
+      conditions.push('m.is_from_me = 1');
+    }
+
+    const rows = this.db.prepare(`
+      SELECT
+        m.id, m.software_chat_id, m.timestamp, m.is_from_me, m.message_type, m.media_filename,
+        snippet(messages_fts, -1, '${MATCH_START}', '${MATCH_END}', '…', ${SNIPPET_TOKENS}) as snippet,
+        c.account_id, c.name, c.phone_number, c.photo
+      FROM messages_fts
+      JOIN messages m ON m.rowid = messages_fts.rowid
+      JOIN chats c ON c.id = m.software_chat_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY m.timestamp DESC
+      LIMIT ${MAX_SEARCH_MATCHES + 1}
+    `).all(...params) as any[];
+
+    const truncated = rows.length > MAX_SEARCH_MATCHES;
+    const groups = new Map<string, MessageSearchChatGroup>();
+
+    for (const row of rows.slice(0, MAX_SEARCH_MATCHES)) {
+      let group = groups.get(row.software_chat_id);
+      if (!group) {
+        group = {
+          chat_id: row.software_chat_id,
+          account_id: row.account_id,
+          name: row.name,
+          phone_number: row.phone_number,
+          photo: row.photo,
+          total_hits: 0,
+          hits: [],
+        };
+        groups.set(row.software_chat_id, group);
+      }
+
+      group.total_hits++;
+      if (group.hits.length < MAX_HITS_PER_CHAT) {
+        group.hits.push(this.toHit(row));
+      }
+    }
+
+    return {
+      groups: [...groups.values()],
+      total_hits: Math.min(rows.length, MAX_SEARCH_MATCHES),
+      truncated,
+    };
+  }
+
+  /**
+   * Each word becomes a quoted prefix term, so FTS5 syntax in the input (AND, NEAR, "-", ":")
+   * is searched for literally instead of breaking the query
+   */
+  private buildMatchQuery(query: string): string {
+    return (query || '')
+      .split(/\s+/)
+      .map(term => term.trim())
+      .filter(Boolean)
+      .map(term => `"${term.replace(/"/g, '""')}"*`)
+      .join(' ');
+  }
+
+  private toHit(row: any): MessageSearchHit {
+    return {
+      message_id: row.id,
+      timestamp: row.timestamp,
+      is_from_me: Boolean(row.is_from_me),
+      message_type: row.message_type || 'text',
+      media_filename: row.media_filename,
+      snippet: this.splitSnippet(row.snippet || ''),
+    };
+  }
+
+  private splitSnippet(snippet: string): MessageSearchHit['snippet'] {
+    const parts: MessageSearchHit['snippet'] = [];
+    for (const piece of snippet.split(MATCH_START)) {
+      const end = piece.indexOf(MATCH_END);
+      if (end === -1) {
+        if (piece) parts.push({ text: piece, match: false });
+        continue;
+      }
+      parts.push({ text: piece.slice(0, end), match: true });
+      if (end + 1 < piece.length) {
+        parts.push({ text: piece.slice(end + 1), match: false });
+      }
+    }
+    return parts;
+  }
+}
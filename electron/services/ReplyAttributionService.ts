@@ -0,0 +1,126 @@
+import type { Database } from 'better-sqlite3';
+import { BrowserWindow } from 'electron';
+import type { ReplyAttributionSettings } from '../../src/types';
+
+const DEFAULT_WINDOW_HOURS = 72;
+
+export interface AttributedReply {
+  campaignContactId: string;
+  campaignId: string;
+  latencySeconds: number;
+}
+
+/**
+ * Links inbound messages back to the campaign send that triggered them.
+ *
+ * When a contact writes to an account that sent them a campaign message within the
+ * configured window, the matching campaign_contacts row gets `replied_at`, the reply
+ * latency and the Inbox chat the reply landed in. Only the first reply counts - later
+ * messages in the same conversation are left alone. The row's `status` stays 'sent',
+ * so send/delivery stats are unaffected; "replied" means `replied_at IS NOT NULL`.
+ */
+export class ReplyAttributionService {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  // ==================== Settings (stored in the `settings` key/value table) ====================
+
+  getSettings(): ReplyAttributionSettings {
+    const row = this.db.prepare(`SELECT value FROM settings WHERE key = 'reply_attribution_window_hours'`).get() as { value: string } | undefined;
+    const windowHours = row ? Number(row.value) : NaN;
+
+    return {
+      windowHours: Number.isFinite(windowHours) && windowHours > 0 ? windowHours : DEFAULT_WINDOW_HOURS,
+    };
+  }
+
+  saveSettings(settings: Partial<ReplyAttributionSettings>): void {
+    if (settings.windowHours === undefined) {
+      return;
+    }
+
+    const windowHours = Math.max(1, Math.floor(Number(settings.windowHours) || DEFAULT_WINDOW_HOURS));
+    this.db.prepare(`
+      INSERT INTO settings (key, value) VALUES ('reply_attribution_window_hours', ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value
+    `).run(String(windowHours));
+  }
+
+  // ==================== Attribution ====================
+
+  /**
+   * Called for every incoming private message. Attributes it to the most recent unanswered
+   * campaign send from this account to the sender, if that send is inside the reply window.
+   */
+  attributeReply(
+    accountId: string,
+    phoneNumber: string,
+    messageId: string,
+    softwareChatId: string,
+    receivedAt: string
+  ): AttributedReply | null {
+    // Same last-9-digits matching CampaignScheduler uses for skip_recent - campaign lists hold
+    // numbers in all sorts of local/international formats
+    const digits = phoneNumber.replace(/\D/g, '');
+    if (digits.length < 6) {
+      return null;
+    }
+
+    const receivedAtMs = new Date(receivedAt).getTime();
+    const windowStart = new Date(receivedAtMs - this.getSettings().windowHours * 60 * 60 * 1000).toISOString();
+
+    try {
+      const sentContact = this.db.prepare(`
+        SELECT cc.id, cc.campaign_id, cc.sent_at
+        FROM campaign_contacts cc
+        JOIN campaigns c ON c.id = cc.campaign_id
+        WHERE cc.sent_by_account_id = ?
+          AND cc.status = 'sent'
+          AND cc.replied_at IS NULL
+          AND c.campaign_type = 'message'
+          AND cc.sent_at BETWEEN ? AND ?
+          AND SUBSTR(REPLACE(REPLACE(REPLACE(cc.phone_number, '-', ''), ' ', ''), '+', ''), -9) = ?
+        ORDER BY cc.sent_at DESC
+        LIMIT 1
+      `).get(accountId, windowStart, receivedAt, digits.slice(-9)) as { id: string; campaign_id: string; sent_at: string } | undefined;
+
+      if (!sentContact) {
+        return null;
+      }
+
+      const latencySeconds = Math.max(0, Math.round((receivedAtMs - new Date(sentContact.sent_at).getTime()) / 1000));
+      const result = this.db.prepare(`
+        UPDATE campaign_contacts
+        SET replied_at = ?, reply_latency_seconds = ?, reply_message_id = ?, reply_chat_id = ?
+        WHERE id = ? AND replied_at IS NULL
+      `).run(receivedAt, latencySeconds, messageId, softwareChatId, sentContact.id);
+
+      if (result.changes === 0) {
+        return null;
+      }
+
+      console.log(`💬 Reply from ${phoneNumber} attributed to campaign ${sentContact.campaign_id} (after ${latencySeconds}s)`);
+      this.notifyRenderer('campaign:progress', sentContact.campaign_id, {
+        contactId: sentContact.id,
+        status: 'sent',
+        accountId,
+        replied: true
+      });
+
+      return { campaignContactId: sentContact.id, campaignId: sentContact.campaign_id, latencySeconds };
+    } catch (error) {
+      console.error(`Failed to attribute reply ${messageId}:`, error);
+      return null;
+    }
+  }
+
+  private notifyRenderer(channel: string, ...args: any[]): void {
+    const mainWindow = BrowserWindow.getAllWindows()[0];
+    if (mainWindow) {
+      mainWindow.webContents.send(channel, ...args);
+    }
+  }
+}
@@ -0,0 +1,227 @@
+import type { Database } from 'better-sqlite3';
+import { app, BrowserWindow } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { WhatsAppManager } from './WhatsAppManager';
+import type { CreateScheduledMessageInput, ScheduledMessage, UpdateScheduledMessageInput } from '../../src/types';
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+// Send errors (not a disconnected account) before a message is marked failed
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Messages an agent queues from the Inbox to go out at a chosen time.
+ * The queue lives in scheduled_messages, so it survives restarts - messages that
+ * came due while the app was closed go out on the first check after start.
+ * Media is copied into userData/scheduled-media, the renderer's temp file is gone by then.
+ */
+export class ScheduledMessageService {
+  private db: Database;
+  private whatsappManager: WhatsAppManager | null = null;
+  private intervalId: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  setWhatsAppManager(whatsappManager: WhatsAppManager): void {
+    this.whatsappManager = whatsappManager;
+  }
+
+  start(): void {
+    if (this.intervalId) return;
+
+    // A message that was mid-send when the app quit may or may not have gone out - don't send it twice
+    const interrupted = this.db.prepare(`
+      UPDATE scheduled_messages
+      SET status = 'failed', error = 'Interrupted by an app restart', updated_at = ?
+      WHERE status = 'sending'
+    `).run(new Date().toISOString());
+    if (interrupted.changes > 0) {
+      console.warn(`⚠️ ${interrupted.changes} scheduled message(s) were interrupted mid-send`);
+    }
+
+    this.intervalId = setInterval(() => void this.checkDueMessages(), CHECK_INTERVAL_MS);
+    // Accounts take a moment to reconnect after start; overdue messages wait for them
+    setTimeout(() => void this.checkDueMessages(), 10 * 1000);
+    console.log('⏰ ScheduledMessageService started - checking every 30s');
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  /**
+   * What is still to come for a chat - pending ones and failures the agent should see
+   */
+  getByChat(chatId: string): ScheduledMessage[] {
+    return this.db.prepare(`
+      SELECT * FROM scheduled_messages
+      WHERE chat_id = ? AND status IN ('pending', 'sending', 'failed')
+      ORDER BY scheduled_at ASC
+    `).all(chatId) as ScheduledMessage[];
+  }
+
+  create(input: CreateScheduledMessageInput): ScheduledMessage {
+    const message = input.message?.trim() || null;
+    if (!message && !input.mediaPath) {
+      throw new Error('A scheduled message needs text or a file');
+    }
+    const scheduledAt = this.parseFutureTime(input.scheduledAt);
+
+    const id = uuidv4();
+    const mediaPath = input.mediaPath ? this.copyMedia(id, input.mediaPath) : null;
+    const now = new Date().toISOString();
+
+    this.db.prepare(`
+      INSERT INTO scheduled_messages (id, chat_id, account_id, to_id, message_text, media_path, scheduled_at, status, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?)
+    `).run(id, input.chatId, input.accountId, input.to, message, mediaPath, scheduledAt, now, now);
+
+    console.log(`⏰ Message for chat ${input.chatId} scheduled for ${scheduledAt}`);
+    return this.getById(id)!;
+  }
+
+  /**
+   * Edits the text or time. A failed message edited this way is queued again.
+   */
+  update(id: string, changes: UpdateScheduledMessageInput): ScheduledMessage {
+    const existing = this.getById(id);
+    if (!existing || (existing.status !== 'pending' && existing.status !== 'failed')) {
+      throw new Error('This message was already sent or cancelled');
+    }
+
+    const message = changes.message !== undefined ? changes.message.trim() || null : existing.message_text;
+    if (!message && !existing.media_path) {
+      throw new Error('A scheduled message needs text or a file');
+    }
+    // A failed message keeps its past time, so it goes out on the next check
+    const scheduledAt = changes.scheduledAt !== undefined ? this.parseFutureTime(changes.scheduledAt) : existing.scheduled_at;
+
+    this.db.prepare(`
+      UPDATE scheduled_messages
+      SET message_text = ?, scheduled_at = ?, status = 'pending', attempts = 0, error = NULL, updated_at = ?
+      WHERE id = ?
+    `).run(message, scheduledAt, new Date().toISOString(), id);
+
+    return this.getById(id)!;
+  }
+
+  cancel(id: string): void {
+    const existing = this.getById(id);
+    if (!existing || (existing.status !== 'pending' && existing.status !== 'failed')) {
+      throw new Error('This message was already sent or cancelled');
+    }
+
+    this.db.prepare(`
+      UPDATE scheduled_messages SET status = 'cancelled', updated_at = ? WHERE id = ?
+    `).run(new Date().toISOString(), id);
+    this.removeMedia(existing.media_path);
+  }
+
+  private getById(id: string): ScheduledMessage | undefined {
+    return this.db.prepare('SELECT * FROM scheduled_messages WHERE id = ?').get(id) as ScheduledMessage | undefined;
+  }
+
+  private parseFutureTime(value: string): string {
+    const time = new Date(value);
+    if (Number.isNaN(time.getTime())) {
+      throw new Error('Invalid send time');
+    }
+    if (time.getTime() < Date.now() - 60 * 1000) {
+      throw new Error('Pick a send time in the future');
+    }
+    return time.toISOString();
+  }
+
+  private copyMedia(id: string, sourcePath: string): string {
+    if (!fs.existsSync(sourcePath)) {
+      throw new Error('The file to send was not found');
+    }
+    const mediaDir = path.join(app.getPath('userData'), 'scheduled-media');
+    fs.mkdirSync(mediaDir, { recursive: true });
+    // Temp files are named whatsapp_<timestamp>_<name> - keep just the name
+    const fileName = path.basename(sourcePath).replace(/^whatsapp_\d+_/, '');
+    const target = path.join(mediaDir, `${id}_${fileName}`);
+    fs.copyFileSync(sourcePath, target);
+    return target;
+  }
+
+  private removeMedia(mediaPath: string | null | undefined): void {
+    if (!mediaPath) return;
+    try {
+      fs.unlinkSync(mediaPath);
+    } catch (error) {
+      console.warn('Failed to delete scheduled media:', error);
+    }
+  }
+
+  private notifyRenderer(chatId: string): void {
+    const mainWindow = BrowserWindow.getAllWindows()[0];
+    if (mainWindow) {
+      mainWindow.webContents.send('scheduled-message:updated', chatId);
+    }
+  }
+
+  private async checkDueMessages(): Promise<void> {
+    if (this.checking || !this.whatsappManager) return;
+    this.checking = true;
+
+    try {
+      const due = this.db.prepare(`
+        SELECT * FROM scheduled_messages
+        WHERE status = 'pending' AND scheduled_at <= ?
+        ORDER BY scheduled_at ASC
+      `).all(new Date().toISOString()) as ScheduledMessage[];
+
+      for (const scheduled of due) {
+        // A disconnected account keeps its messages pending until it is back
+        if (!this.whatsappManager.isConnected(scheduled.account_id)) continue;
+        await this.send(scheduled);
+      }
+    } catch (error) {
+      console.error('❌ Error checking scheduled messages:', error);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private async send(scheduled: ScheduledMessage): Promise<void> {
+    // Claim it first - a cancel from the Inbox while it is sending is refused
+    const claimed = this.db.prepare(`
+      UPDATE scheduled_messages SET status = 'sending', updated_at = ? WHERE id = ? AND status = 'pending'
+    `).run(new Date().toISOString(), scheduled.id);
+    if (claimed.changes === 0) return;
+
+    try {
+      if (scheduled.media_path) {
+        await this.whatsappManager!.sendMedia(scheduled.account_id, scheduled.to_id, scheduled.media_path, scheduled.message_text || undefined);
+      } else {
+        await this.whatsappManager!.sendMessage(scheduled.account_id, scheduled.to_id, scheduled.message_text || '', false);
+      }
+
+      const now = new Date().toISOString();
+      this.db.prepare(`
+        UPDATE scheduled_messages SET status = 'sent', sent_at = ?, error = NULL, updated_at = ? WHERE id = ?
+      `).run(now, now, scheduled.id);
+      // Same as replying from the Inbox - the chat is now in a human's hands
+      this.db.prepare('UPDATE chats SET last_human_reply_at = ? WHERE id = ?').run(now, scheduled.chat_id);
+      this.removeMedia(scheduled.media_path);
+      console.log(`✅ Scheduled message ${scheduled.id} sent to ${scheduled.to_id}`);
+    } catch (error: any) {
+      const attempts = (scheduled.attempts || 0) + 1;
+      const status = attempts >= MAX_ATTEMPTS ? 'failed' : 'pending';
+      this.db.prepare(`
+        UPDATE scheduled_messages SET status = ?, attempts = ?, error = ?, updated_at = ? WHERE id = ?
+      `).run(status, attempts, error?.message || String(error), new Date().toISOString(), scheduled.id);
+      console.error(`❌ Scheduled message ${scheduled.id} failed (attempt ${attempts}/${MAX_ATTEMPTS}):`, error);
+    }
+
+    this.notifyRenderer(scheduled.chat_id);
+  }
+}
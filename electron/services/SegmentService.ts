@@ -0,0 +1,226 @@
+import type { Database } from 'better-sqlite3';
+import type { SegmentRule, SegmentRules } from '../../src/types';
+import { isSuppressedClause } from './SuppressionService';
+
+// Last 9 digits of a phone column - same normalization used everywhere contacts are matched across tables
+const phoneKey = (column: string) =>
+  `SUBSTR(REPLACE(REPLACE(REPLACE(${column}, '-', ''), ' ', ''), '+', ''), -9)`;
+
+// custom_fields is free-form JSON; guard json_extract so one malformed row doesn't fail the whole query
+const customFieldValue = `CASE WHEN json_valid(c.custom_fields) THEN json_extract(c.custom_fields, '$."' || ? || '"') END`;
+
+export interface SegmentContact {
+  id: string;
+  phone_number: string;
+  name: string | null;
+}
+
+/**
+ * Turns saved segment rules into a contacts query.
+ *
+ * Segments are dynamic: nothing is stored per contact, the rules are evaluated
+ * whenever the segment is previewed or a campaign targeting it starts.
+ * Contacts on the suppression list are never part of a segment.
+ */
+export class SegmentService {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  parseRules(value: unknown): SegmentRules {
+    let parsed: any = value;
+    if (typeof value === 'string') {
+      try {
+        parsed = JSON.parse(value);
+      } catch {
+        parsed = null;
+      }
+    }
+
+    return {
+      match: parsed?.match === 'any' ? 'any' : 'all',
+      rules: Array.isArray(parsed?.rules) ? parsed.rules : [],
+    };
+  }
+
+  resolveContacts(rules: SegmentRules): SegmentContact[] {
+    const { where, params } = this.buildWhere(rules);
+    return this.db.prepare(`
+      SELECT c.id, c.phone_number, c.name
+      FROM contacts c
+      WHERE ${where}
+      ORDER BY c.created_at DESC
+    `).all(...params) as SegmentContact[];
+  }
+
+  countContacts(rules: SegmentRules): number {
+    const { where, params } = this.buildWhere(rules);
+    const row = this.db.prepare(`SELECT COUNT(*) as count FROM contacts c WHERE ${where}`).get(...params) as { count: number };
+    return row?.count || 0;
+  }
+
+  resolveSegment(segmentId: string): SegmentContact[] | null {
+    const segment = this.db.prepare('SELECT rules FROM contact_segments WHERE id = ?').get(segmentId) as { rules: string } | undefined;
+    if (!segment) {
+      return null;
+    }
+    return this.resolveContacts(this.parseRules(segment.rules));
+  }
+
+  private buildWhere(rules: SegmentRules): { where: string; params: any[] } {
+    const clauses: string[] = [];
+    const params: any[] = [];
+
+    for (const rule of rules.rules || []) {
+      const clause = this.buildRuleClause(rule, params);
+      if (clause) {
+        clauses.push(`(${clause})`);
+      }
+    }
+
+    const blacklistClause = `NOT ${isSuppressedClause('c.phone_number')}`;
+
+    if (clauses.length === 0) {
+      return { where: blacklistClause, params };
+    }
+
+    const joiner = rules.match === 'any' ? ' OR ' : ' AND ';
+    return { where: `(${clauses.join(joiner)}) AND ${blacklistClause}`, params };
+  }
+
+  /**
+   * Returns a SQL condition over `contacts c` for one rule, pushing its parameters.
+   * Incomplete rules (e.g. no tags picked yet) return null and are ignored.
+   */
+  private buildRuleClause(rule: SegmentRule, params: any[]): string | null {
+    switch (rule.type) {
+      case 'tags_include':
+      case 'tags_exclude': {
+        const tagIds = (rule.tagIds || []).filter(Boolean);
+        if (tagIds.length === 0) return null;
+        params.push(...tagIds);
+        const operator = rule.type === 'tags_include' ? 'IN' : 'NOT IN';
+        return `c.id ${operator} (SELECT contact_id FROM contact_tags WHERE tag_id IN (${tagIds.map(() => '?').join(', ')}))`;
+      }
+
+      case 'custom_field': {
+        if (!rule.field) return null;
+        const value = (rule.value ?? '').toString();
+        params.push(rule.field);
+
+        switch (rule.operator) {
+          case 'equals':
+            params.push(value);
+            return `LOWER(TRIM(COALESCE(${customFieldValue}, ''))) = LOWER(TRIM(?))`;
+          case 'not_equals':
+            params.push(value);
+            return `LOWER(TRIM(COALESCE(${customFieldValue}, ''))) != LOWER(TRIM(?))`;
+          case 'contains':
+            params.push(`%${value}%`);
+            return `COALESCE(${customFieldValue}, '') LIKE ?`;
+          case 'not_contains':
+            params.push(`%${value}%`);
+            return `COALESCE(${customFieldValue}, '') NOT LIKE ?`;
+          case 'is_empty':
+            return `TRIM(COALESCE(${customFieldValue}, '')) = ''`;
+          case 'is_not_empty':
+            return `TRIM(COALESCE(${customFieldValue}, '')) != ''`;
+          case 'greater_than':
+            params.push(Number(value) || 0);
+            return `CAST(${customFieldValue} AS REAL) > ?`;
+          case 'less_than':
+            params.push(Number(value) || 0);
+            return `CAST(${customFieldValue} AS REAL) < ?`;
+          default:
+            params.pop();
+            return null;
+        }
+      }
+
+      case 'created_at': {
+        const parts: string[] = [];
+        if (rule.from) {
+          parts.push('DATE(c.created_at) >= DATE(?)');
+          params.push(rule.from);
+        }
+        if (rule.to) {
+          parts.push('DATE(c.created_at) <= DATE(?)');
+          params.push(rule.to);
+        }
+        return parts.length > 0 ? parts.join(' AND ') : null;
+      }
+
+      case 'replied_within_days': {
+        const days = Math.max(1, Math.floor(Number(rule.days) || 0));
+        const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+        params.push(since, since);
+        // Any inbound Inbox message, or a campaign reply picked up by reply attribution
+        return `EXISTS (
+            SELECT 1 FROM messages m
+            JOIN chats ch ON ch.id = m.software_chat_id
+            WHERE ch.contact_id = c.id AND m.is_from_me = 0 AND m.timestamp >= ?
+          ) OR EXISTS (
+            SELECT 1 FROM campaign_contacts cc
+            WHERE ${phoneKey('cc.phone_number')} = ${phoneKey('c.phone_number')}
+              AND cc.replied_at >= ?
+          )`;
+      }
+
+      case 'never_messaged':
+        return `NOT EXISTS (
+            SELECT 1 FROM campaign_contacts cc
+            WHERE ${phoneKey('cc.phone_number')} = ${phoneKey('c.phone_number')}
+              AND cc.status = 'sent'
+          ) AND NOT EXISTS (
+            SELECT 1 FROM messages m
+            JOIN chats ch ON ch.id = m.software_chat_id
+            WHERE ch.contact_id = c.id AND m.is_from_me = 1 AND COALESCE(m.is_warmup, 0) = 0
+          )`;
+
+      case 'campaign_outcome': {
+        let outcomeClause: string;
+        switch (rule.outcome) {
+          case 'sent':
+            outcomeClause = `cc.status = 'sent'`;
+            break;
+          case 'failed':
+            outcomeClause = `cc.status = 'failed'`;
+            break;
+          case 'not_registered':
+            outcomeClause = `cc.status = 'failed' AND (
+              cc.result_code = 'not_registered'
+              OR LOWER(COALESCE(cc.error, '')) LIKE '%not registered%'
+              OR LOWER(COALESCE(cc.error, '')) LIKE '%no lid for user%'
+            )`;
+            break;
+          case 'replied':
+            outcomeClause = `cc.status = 'sent' AND cc.replied_at IS NOT NULL`;
+            break;
+          case 'read':
+            outcomeClause = `cc.status = 'sent' AND cc.ack >= 3`;
+            break;
+          default:
+            return null;
+        }
+
+        let campaignClause = '';
+        if (rule.campaignId) {
+          campaignClause = 'AND cc.campaign_id = ?';
+          params.push(rule.campaignId);
+        }
+
+        return `EXISTS (
+            SELECT 1 FROM campaign_contacts cc
+            WHERE ${phoneKey('cc.phone_number')} = ${phoneKey('c.phone_number')}
+              ${campaignClause}
+              AND ${outcomeClause}
+          )`;
+      }
+
+      default:
+        return null;
+    }
+  }
+}
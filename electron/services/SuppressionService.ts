@@ -0,0 +1,283 @@
+import type { Database } from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import type { Suppression, SuppressionKeywordSettings, SuppressionSource } from '../../src/types';
+
+// Matched against the whole message (after normalization), never as a substring -
+// "don't stop sending me updates" must not unsubscribe anyone
+const DEFAULT_KEYWORDS: SuppressionKeywordSettings['keywords'] = {
+  en: ['stop', 'unsubscribe', 'stop all', 'remove me', 'opt out'],
+  he: ['הסר', 'הסרה', 'הסירו אותי', 'תסיר', 'עצור', 'די'],
+  ar: ['توقف', 'إلغاء', 'الغاء', 'إلغاء الاشتراك', 'الغاء الاشتراك', 'إزالة', 'ازالة'],
+};
+
+const KEYWORD_LANGUAGES = ['en', 'he', 'ar'] as const;
+
+// Last 9 digits of a phone column - same normalization used everywhere contacts are matched across tables
+const phoneKey = (column: string) =>
+  `SUBSTR(REPLACE(REPLACE(REPLACE(${column}, '-', ''), ' ', ''), '+', ''), -9)`;
+
+/**
+ * SQL condition that is true when `column` (a phone number column) is on the suppression list.
+ * Used by the schedulers so suppressed numbers are filtered in the same query that claims them.
+ */
+export const isSuppressedClause = (column: string) =>
+  `${phoneKey(column)} IN (SELECT phone_key FROM suppressions)`;
+
+/**
+ * Key a number or group id is stored under: last 9 digits for phone numbers, the full
+ * id for groups. Returns null for values too short to identify anyone.
+ */
+export function getSuppressionKey(value: string): string | null {
+  const trimmed = (value || '').trim().toLowerCase();
+  if (trimmed.endsWith('@g.us')) {
+    return trimmed;
+  }
+  const digits = trimmed.split('@')[0].replace(/\D/g, '');
+  return digits.length >= 6 ? digits.slice(-9) : null;
+}
+
+// Lowercase, drop punctuation/emoji/diacritics and collapse whitespace so "STOP!" and " stop " match "stop"
+function normalizeKeyword(text: string): string {
+  return (text || '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export interface SuppressOptions {
+  source: SuppressionSource;
+  reason?: string | null;
+  name?: string | null;
+  accountId?: string | null;
+}
+
+/**
+ * The suppression (opt-out) list: numbers that must never be messaged by a campaign
+ * or added to a group again, from any account.
+ *
+ * The table is the source of truth. The system BlackList tag is kept in step for
+ * contacts that exist, so tag filters in Contacts and Segments keep working - tagging a
+ * contact BlackList suppresses it and removing the tag lifts the suppression.
+ */
+export class SuppressionService {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  // ==================== Keyword settings (stored in the `settings` key/value table) ====================
+
+  getKeywordSettings(): SuppressionKeywordSettings {
+    const rows = this.db.prepare(`
+      SELECT key, value FROM settings WHERE key IN ('suppression_keywords_enabled', 'suppression_keywords')
+    `).all() as { key: string; value: string }[];
+    const values = new Map(rows.map(row => [row.key, row.value]));
+
+    let stored: Partial<SuppressionKeywordSettings['keywords']> = {};
+    try {
+      stored = JSON.parse(values.get('suppression_keywords') || '{}') || {};
+    } catch {
+      stored = {};
+    }
+
+    const keywords = {} as SuppressionKeywordSettings['keywords'];
+    for (const language of KEYWORD_LANGUAGES) {
+      keywords[language] = Array.isArray(stored[language]) ? stored[language]! : DEFAULT_KEYWORDS[language];
+    }
+
+    return {
+      enabled: values.get('suppression_keywords_enabled') !== '0',
+      keywords,
+    };
+  }
+
+  saveKeywordSettings(settings: Partial<SuppressionKeywordSettings>): void {
+    const upsert = this.db.prepare(`
+      INSERT INTO settings (key, value) VALUES (?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value
+    `);
+
+    if (settings.enabled !== undefined) {
+      upsert.run('suppression_keywords_enabled', settings.enabled ? '1' : '0');
+    }
+
+    if (settings.keywords) {
+      const keywords = {} as SuppressionKeywordSettings['keywords'];
+      for (const language of KEYWORD_LANGUAGES) {
+        const list = settings.keywords[language] || [];
+        keywords[language] = [...new Set(list.map(keyword => keyword.trim()).filter(Boolean))];
+      }
+      upsert.run('suppression_keywords', JSON.stringify(keywords));
+    }
+  }
+
+  // ==================== List ====================
+
+  getAll(search?: string): Suppression[] {
+    const term = (search || '').trim();
+    const params: any[] = [];
+    let where = '';
+
+    if (term) {
+      where = 'WHERE s.phone_number LIKE ? OR s.name LIKE ? OR s.reason LIKE ?';
+      params.push(`%${term}%`, `%${term}%`, `%${term}%`);
+    }
+
+    return this.db.prepare(`
+      SELECT s.*, a.name as account_name
+      FROM suppressions s
+      LEFT JOIN accounts a ON a.id = s.account_id
+      ${where}
+      ORDER BY s.created_at DESC
+    `).all(...params) as Suppression[];
+  }
+
+  isSuppressed(phoneNumber: string): boolean {
+    const key = getSuppressionKey(phoneNumber);
+    if (!key) {
+      return false;
+    }
+    return !!this.db.prepare('SELECT 1 FROM suppressions WHERE phone_key = ?').get(key);
+  }
+
+  /**
+   * Put a number (or group id) on the list. Suppressing an already suppressed number keeps
+   * the original entry - the first opt-out is the one that counts.
+   */
+  suppress(phoneNumber: string, options: SuppressOptions): Suppression | null {
+    const key = getSuppressionKey(phoneNumber);
+    if (!key) {
+      return null;
+    }
+
+    const isGroup = key.endsWith('@g.us');
+    const storedNumber = isGroup ? key : phoneNumber.split('@')[0].replace(/\D/g, '');
+
+    this.db.prepare(`
+      INSERT INTO suppressions (id, phone_number, phone_key, name, reason, source, account_id, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(phone_key) DO NOTHING
+    `).run(
+      uuidv4(),
+      storedNumber,
+      key,
+      options.name || null,
+      options.reason || null,
+      options.source,
+      options.accountId || null,
+      new Date().toISOString()
+    );
+
+    if (!isGroup) {
+      this.setBlacklistTag(key, true);
+    }
+
+    return this.db.prepare('SELECT * FROM suppressions WHERE phone_key = ?').get(key) as Suppression;
+  }
+
+  remove(id: string): void {
+    const row = this.db.prepare('SELECT phone_key FROM suppressions WHERE id = ?').get(id) as { phone_key: string } | undefined;
+    if (!row) {
+      return;
+    }
+
+    this.db.prepare('DELETE FROM suppressions WHERE id = ?').run(id);
+    if (!row.phone_key.endsWith('@g.us')) {
+      this.setBlacklistTag(row.phone_key, false);
+    }
+  }
+
+  // ==================== BlackList tag sync ====================
+
+  /**
+   * Called when the BlackList tag is added to or removed from a contact by hand, so the
+   * tag and the list never disagree.
+   */
+  syncContactBlacklistTag(contactId: string, blacklisted: boolean, source: SuppressionSource = 'manual'): void {
+    const contact = this.db.prepare('SELECT phone_number, name FROM contacts WHERE id = ?').get(contactId) as
+      { phone_number: string; name: string | null } | undefined;
+    if (!contact) {
+      return;
+    }
+
+    if (blacklisted) {
+      this.suppress(contact.phone_number, { source, name: contact.name });
+      return;
+    }
+
+    const key = getSuppressionKey(contact.phone_number);
+    if (key) {
+      this.db.prepare('DELETE FROM suppressions WHERE phone_key = ?').run(key);
+    }
+  }
+
+  private setBlacklistTag(key: string, tagged: boolean): void {
+    const tag = this.db.prepare(`SELECT id FROM tags WHERE name = 'BlackList'`).get() as { id: string } | undefined;
+    if (!tag) {
+      return;
+    }
+
+    const contacts = this.db.prepare(`
+      SELECT id FROM contacts WHERE ${phoneKey('phone_number')} = ?
+    `).all(key) as { id: string }[];
+
+    const tagStmt = tagged
+      ? this.db.prepare('INSERT OR IGNORE INTO contact_tags (contact_id, tag_id, tagged_at) VALUES (?, ?, ?)')
+      : this.db.prepare('DELETE FROM contact_tags WHERE contact_id = ? AND tag_id = ?');
+    const taggedAt = new Date().toISOString();
+
+    for (const contact of contacts) {
+      if (tagged) {
+        tagStmt.run(contact.id, tag.id, taggedAt);
+      } else {
+        tagStmt.run(contact.id, tag.id);
+      }
+    }
+  }
+
+  // ==================== STOP keywords ====================
+
+  /**
+   * Called for every incoming private message. When the whole message is one of the
+   * configured STOP keywords the sender is suppressed and true is returned.
+   */
+  checkIncomingMessage(accountId: string, phoneNumber: string, text: string | null, senderName?: string | null): boolean {
+    const normalized = normalizeKeyword(text || '');
+    if (!normalized) {
+      return false;
+    }
+
+    const settings = this.getKeywordSettings();
+    if (!settings.enabled) {
+      return false;
+    }
+
+    const matched = KEYWORD_LANGUAGES
+      .flatMap(language => settings.keywords[language])
+      .some(keyword => normalizeKeyword(keyword) === normalized);
+
+    if (!matched || this.isSuppressed(phoneNumber)) {
+      return false;
+    }
+
+    const suppression = this.suppress(phoneNumber, {
+      source: 'keyword',
+      reason: `Replied "${(text || '').trim()}"`,
+      name: senderName,
+      accountId,
+    });
+    if (!suppression) {
+      return false;
+    }
+
+    this.db.prepare(`
+      INSERT INTO activities (id, type, message, related_id, timestamp)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(uuidv4(), 'contact', `${suppression.phone_number} opted out ("${(text || '').trim()}") and was added to the suppression list`, suppression.id, new Date().toISOString());
+
+    console.log(`🚫 ${suppression.phone_number} sent a STOP keyword - suppressed from all accounts`);
+    return true;
+  }
+}
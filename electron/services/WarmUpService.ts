@@ -1,5 +1,6 @@
 import type { Database } from 'better-sqlite3';
 import type { WhatsAppManager } from './WhatsAppManager';
+import type { AccountQuotaService } from './AccountQuotaService';
 import { v4 as uuidv4 } from 'uuid';
 import { getRandomDelay } from '../../src/lib/utils';
 
@@ -1912,6 +1913,7 @@ export class WarmUpService {
   private activeSessions: Map<string, WarmUpState> = new Map();
   // pairKey (sorted "accountA:accountB") -> pending reply timeout for an ongoing conversation
   private conversationTimeouts: Map<string, NodeJS.Timeout> = new Map();
+  private accountQuota?: AccountQuotaService;
 
   constructor(db: Database, whatsappManager: WhatsAppManager) {
     this.db = db;
@@ -1924,6 +1926,10 @@ export class WarmUpService {
     this.startDailyReset();
   }
 
+  setAccountQuotaService(accountQuota: AccountQuotaService): void {
+    this.accountQuota = accountQuota;
+  }
+
   private resumeActiveSessions(): void {
     try {
       const sessionStmt = this.db.prepare(`
@@ -2274,6 +2280,18 @@ export class WarmUpService {
       return;
     }
 
+    // Warm-up shares the account's sending quota with its campaigns - wait until it frees up
+    const quotaCheck = this.accountQuota?.canSend(accountId);
+    if (quotaCheck && !quotaCheck.allowed) {
+      const delay = Math.max(60 * 1000, new Date(quotaCheck.retryAt || Date.now()).getTime() - Date.now());
+      console.log(`🔥 Account ${accountId} reached its ${quotaCheck.exhausted} quota - next warm-up attempt in ${Math.floor(delay / 1000 / 60)} minutes`);
+      const timeout = setTimeout(() => {
+        this.scheduleNextWarmUpForAccount(sessionId, allAccountIds, accountId, minDelay, maxDelay);
+      }, delay);
+      state.accountTimeouts.set(accountId, timeout);
+      return;
+    }
+
     // If this account already holds its max number of simultaneous conversations, skip
     // starting a new one this cycle - the existing conversation chains drive their own timing.
     const currentConversationCount = state.activeConversations.get(accountId)?.size || 0;
@@ -2442,6 +2460,12 @@ export class WarmUpService {
       return;
     }
 
+    if (this.accountQuota && !this.accountQuota.canSend(senderId).allowed) {
+      console.log(`🔥 💬 Account ${senderId} reached its sending quota mid-conversation, ending conversation early`);
+      this.releaseConversation(sessionId, senderId, receiverId);
+      return;
+    }
+
     // Double-check sender is still connected before sending this turn
     if (!this.whatsappManager.isConnected(senderId)) {
       console.log(`🔥 💬 Account ${senderId} disconnected mid-conversation, ending conversation early`);
@@ -2532,6 +2556,7 @@ export class WarmUpService {
       await this.whatsappManager.sendMessage(senderId, receiverPhone, message, true);
 
       console.log(`✅ Warm-up conversation message sent successfully!`);
+      this.accountQuota?.recordSend(senderId, 'warmup');
 
       // Save to warmup_messages log
       try {
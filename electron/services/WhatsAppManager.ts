@@ -7,8 +7,11 @@ import os from 'os';
 import QRCode from 'qrcode';
 import { v4 as uuidv4 } from 'uuid';
 import proxyChain from 'proxy-chain';
-import type { CampaignContactResultCode, GroupAddParticipantResult, GroupJoinByInviteResult, ProxyConfig, WhatsAppGroupInviteInfo, WhatsAppGroupParticipant, WhatsAppGroupSummary } from '../../src/types';
+import type { AccountRestrictionKind, CampaignContactResultCode, GroupAddParticipantResult, GroupJoinByInviteResult, ProxyConfig, WhatsAppGroupInviteInfo, WhatsAppGroupParticipant, WhatsAppGroupSummary } from '../../src/types';
 import type { FlowEngine } from './FlowEngine';
+import type { ReplyAttributionService } from './ReplyAttributionService';
+import type { SuppressionService } from './SuppressionService';
+import { classifyDisconnectReason } from './AccountHealthService';
 import { ChatManager } from './ChatManager';
 
 // Find Chrome executable path
@@ -99,6 +102,18 @@ interface GroupAccessState {
   name: string;
 }
 
+// The message a reply quotes - kept on the reply so the Inbox can show it
+interface QuotedMessage {
+  waMessageId: string;
+  text: string | null;
+  isFromMe: boolean;
+}
+
+interface OutgoingMessageOptions {
+  quoted?: QuotedMessage;
+  forwarded?: boolean;
+}
+
 export class WhatsAppManager {
   private db: Database;
   private clients: Map<string, Client> = new Map();
@@ -108,6 +123,8 @@ export class WhatsAppManager {
   private anonymizedProxyServers: Map<string, proxyChain.Server> = new Map(); // accountId -> proxy server
   private flowEngine: FlowEngine | null = null;
   private campaignScheduler: any | null = null;
+  private replyAttribution: ReplyAttributionService | null = null;
+  private suppressionService: SuppressionService | null = null;
   private chatManager: ChatManager;
 
   // Initialization progress tracking (for startup loader UI)
@@ -165,6 +182,14 @@ export class WhatsAppManager {
     this.campaignScheduler = scheduler;
   }
 
+  setReplyAttribution(replyAttribution: ReplyAttributionService) {
+    this.replyAttribution = replyAttribution;
+  }
+
+  setSuppressionService(suppressionService: SuppressionService) {
+    this.suppressionService = suppressionService;
+  }
+
   /**
    * Returns current initialization progress (used by the startup loader UI).
    */
@@ -965,6 +990,7 @@ export class WhatsAppManager {
         }
 
         this.updateAccountStatus(accountId, 'connected');
+        this.db.prepare('UPDATE accounts SET restricted_until = NULL WHERE id = ?').run(accountId);
 
         if (this.campaignScheduler) {
           void this.campaignScheduler.onAccountReady(accountId);
@@ -1103,8 +1129,10 @@ export class WhatsAppManager {
           return;
         }
 
+        this.recordAccountEvent(accountId, 'auth_failure', msg);
         await this.cleanupAccountResources(accountId, client);
         this.updateAccountStatus(accountId, 'disconnected');
+        this.campaignScheduler?.onAccountRestricted(accountId, 'logged_out', String(msg || 'Authentication failure'));
       });
 
       client.on('disconnected', async (reason) => {
@@ -1114,8 +1142,17 @@ export class WhatsAppManager {
           return;
         }
 
+        const kind = classifyDisconnectReason(reason);
+        console.log(`${pairingTag} Disconnect classified as: ${kind}`);
+
+        this.recordAccountEvent(accountId, kind === 'banned' || kind === 'restricted' ? kind : 'disconnected', reason);
         await this.cleanupAccountResources(accountId, client);
-        this.updateAccountStatus(accountId, 'disconnected');
+        this.updateAccountStatus(accountId, kind === 'banned' || kind === 'restricted' ? kind : 'disconnected');
+
+        // Network drops keep the account in rotation - campaigns skip it until it reconnects
+        if (kind !== 'network') {
+          this.campaignScheduler?.onAccountRestricted(accountId, kind, String(reason || kind));
+        }
       });
 
       client.on('message_create', async (message) => {
@@ -1147,6 +1184,53 @@ export class WhatsAppManager {
         await this.handleIncomingMessage(accountId, message);
       });
 
+      // Delivery/read receipts for messages this account sent
+      client.on('message_ack', (message, ack) => {
+        if (!this.isTrackedClient(accountId, client) || !this.isMessageFromMe(message)) {
+          return;
+        }
+
+        const waMessageId = message?.id?.id;
+        if (waMessageId && this.campaignScheduler) {
+          this.campaignScheduler.onMessageAck(accountId, waMessageId, ack);
+        }
+      });
+
+      // Reactions to messages in this account's chats (theirs and ours)
+      client.on('message_reaction', (reaction: any) => {
+        if (!this.isTrackedClient(accountId, client)) {
+          return;
+        }
+        this.handleReaction(accountId, reaction);
+      });
+
+      // Someone joined a group through its invite link - flows with a group join trigger greet them
+      client.on('group_join', async (notification: any) => {
+        if (!this.isTrackedClient(accountId, client) || notification?.type !== 'invite' || !this.flowEngine) {
+          return;
+        }
+
+        try {
+          const groupId = notification.id?.remote || notification.chatId;
+          const chat = await notification.getChat().catch(() => null);
+          for (const recipientId of notification.recipientIds || []) {
+            const contact = await this.resolveContactData(accountId, recipientId);
+            if (!contact.phone) continue;
+
+            this.flowEngine.triggerFlows({
+              type: 'group_join',
+              accountId,
+              phone: contact.phone,
+              name: contact.name,
+              groupId,
+              groupName: chat?.name || null,
+            });
+          }
+        } catch (error) {
+          console.error('❌ Error handling group join:', error);
+        }
+      });
+
       client.on('loading_screen', (percent) => {
         if (!this.isTrackedClient(accountId, client)) {
           return;
@@ -1184,7 +1268,11 @@ export class WhatsAppManager {
     this.updateAccountStatus(accountId, 'disconnected');
   }
 
-  async sendMessage(accountId: string, to: string, message: string, isWarmup: boolean = false): Promise<void> {
+  /**
+   * Sends a text message and returns WhatsApp's id for it (`msg.id.id`, the same id
+   * `message_ack` events and synced messages carry), or null if WhatsApp didn't return one.
+   */
+  async sendMessage(accountId: string, to: string, message: string, isWarmup: boolean = false, options: OutgoingMessageOptions = {}): Promise<string | null> {
     const client = this.clients.get(accountId);
     
     if (!client) {
@@ -1240,12 +1328,16 @@ export class WhatsAppManager {
     // Send message directly with error handling and retry logic
     const maxRetries = 5;
     let lastError: any = null;
+    let sentMessageId: string | null = null;
+    let sentWaMessageId: string | null = null;
     
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
         console.log(`📨 Sending to: ${chatIdToSend} (attempt ${attempt}/${maxRetries})`);
         // Send directly without getChatById - works for both new and existing contacts
-        await client.sendMessage(chatIdToSend, message);
+        const sentMessage = await client.sendMessage(chatIdToSend, message, this.getSendOptions(options));
+        sentMessageId = sentMessage?.id?.id || null;
+        sentWaMessageId = sentMessage?.id?._serialized || null;
         console.log('✅ Message sent successfully');
         lastError = null;
         break; // Success, exit retry loop
@@ -1301,12 +1393,14 @@ export class WhatsAppManager {
     this.chatManager.updateLastMessageAt(softwareChatId, timestamp);
     
     const stmt = this.db.prepare(`
-      INSERT INTO messages (id, account_id, chat_id, from_number, to_number, sender_name, message_text, is_from_me, is_warmup, is_read, software_chat_id, type, timestamp)
-      VALUES (?, ?, ?, ?, ?, ?, ?, 1, ?, 1, ?, 'text', ?)
+      INSERT INTO messages (id, account_id, chat_id, from_number, to_number, sender_name, message_text, is_from_me, is_warmup, is_read, software_chat_id, type, timestamp,
+        wa_message_id, quoted_wa_message_id, quoted_message_text, quoted_is_from_me, is_forwarded)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 1, ?, 1, ?, 'text', ?, ?, ?, ?, ?, ?)
     `);
     
     console.log('💾 Saving with chat_id:', chatIdToSend, 'to number:', toNumber, isWarmup ? '(WarmUp)' : '');
-    stmt.run(messageId, accountId, chatIdToSend, myNumber, toNumber, myName, message, isWarmup ? 1 : 0, softwareChatId, timestamp);
+    stmt.run(messageId, accountId, chatIdToSend, myNumber, toNumber, myName, message, isWarmup ? 1 : 0, softwareChatId, timestamp,
+      sentWaMessageId, ...this.getQuoteColumns(options));
     
     // Mark all previous incoming messages in this chat as handled (we replied = read)
     const markHandledStmt = this.db.prepare(`
@@ -1316,9 +1410,13 @@ export class WhatsAppManager {
     markHandledStmt.run(chatIdToSend, accountId);
     
     console.log('✅ Message saved to database');
+    return sentMessageId;
   }
 
-  async sendMedia(accountId: string, to: string, filePath: string, caption?: string): Promise<void> {
+  /**
+   * Sends a media file (with optional caption) and returns WhatsApp's id for it, like sendMessage.
+   */
+  async sendMedia(accountId: string, to: string, filePath: string, caption?: string, options: OutgoingMessageOptions = {}): Promise<string | null> {
     const client = this.clients.get(accountId);
     
     if (!client) {
@@ -1352,6 +1450,8 @@ export class WhatsAppManager {
     // Send media directly with error handling and retry logic
     const maxRetries = 5;
     let lastError: any = null;
+    let sentMessageId: string | null = null;
+    let sentWaMessageId: string | null = null;
     
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
@@ -1359,7 +1459,9 @@ export class WhatsAppManager {
         
         const media = MessageMedia.fromFilePath(filePath);
         // Send directly without getChatById - works for both new and existing contacts
-        await client.sendMessage(chatIdToSend, media, { caption: caption || '' });
+        const sentMessage = await client.sendMessage(chatIdToSend, media, { caption: caption || '', ...this.getSendOptions(options) });
+        sentMessageId = sentMessage?.id?.id || null;
+        sentWaMessageId = sentMessage?.id?._serialized || null;
         console.log('✅ Media sent successfully');
         lastError = null;
         break; // Success, exit retry loop
@@ -1441,13 +1543,118 @@ export class WhatsAppManager {
     this.chatManager.updateLastMessageAt(softwareChatId, timestamp);
     
     const stmt = this.db.prepare(`
-      INSERT INTO messages (id, account_id, chat_id, from_number, to_number, sender_name, message_text, message_type, media_filename, media_mimetype, is_from_me, is_read, software_chat_id, type, timestamp)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, 1, ?, ?, ?)
+      INSERT INTO messages (id, account_id, chat_id, from_number, to_number, sender_name, message_text, message_type, media_filename, media_mimetype, is_from_me, is_read, software_chat_id, type, timestamp,
+        wa_message_id, quoted_wa_message_id, quoted_message_text, quoted_is_from_me, is_forwarded)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, 1, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
     console.log('💾 Saving media with chat_id:', chatIdToSend, 'to number:', toNumber);
-    stmt.run(messageId, accountId, chatIdToSend, myNumber, toNumber, myName, caption || null, messageType, mediaFilename, mimetype, softwareChatId, messageType, timestamp);
+    stmt.run(messageId, accountId, chatIdToSend, myNumber, toNumber, myName, caption || null, messageType, mediaFilename, mimetype, softwareChatId, messageType, timestamp,
+      sentWaMessageId, ...this.getQuoteColumns(options));
     console.log('✅ Media saved to database');
+    return sentMessageId;
+  }
+
+  /**
+   * Quote-replies to a stored message (messages.id) from the account that has it -
+   * text, or a file with the text as its caption.
+   */
+  async replyToMessage(messageId: string, text: string, filePath?: string): Promise<string | null> {
+    const original = this.getStoredMessage(messageId);
+    const waMessageId = this.getWhatsAppMessageId(original);
+    if (!waMessageId) {
+      throw new Error('This message was sent before replies were supported and cannot be quoted');
+    }
+
+    const options: OutgoingMessageOptions = {
+      quoted: {
+        waMessageId,
+        text: original.message_text || (original.media_filename ? `[${original.message_type}]` : null),
+        isFromMe: Boolean(original.is_from_me),
+      },
+    };
+    return filePath
+      ? this.sendMedia(original.account_id, original.chat_id, filePath, text || undefined, options)
+      : this.sendMessage(original.account_id, original.chat_id, text, false, options);
+  }
+
+  /**
+   * Reacts to a stored message with an emoji; an empty emoji removes our reaction
+   */
+  async reactToMessage(messageId: string, emoji: string): Promise<void> {
+    const original = this.getStoredMessage(messageId);
+    const client = this.clients.get(original.account_id);
+    if (!client || !this.isConnected(original.account_id)) {
+      throw new Error('Account not connected');
+    }
+
+    const waMessage = await this.getWhatsAppMessage(client, original);
+    await waMessage.react(emoji);
+
+    const myId = (client as any).info?.wid?._serialized || 'me';
+    this.saveReaction(original.id, myId, emoji, true, new Date().toISOString());
+  }
+
+  /**
+   * Forwards a stored message to an Inbox chat (chats.id). Within the same account it is
+   * a real WhatsApp forward; to another account's chat the content is sent again from that account.
+   */
+  async forwardMessage(messageId: string, targetChatId: string): Promise<void> {
+    const original = this.getStoredMessage(messageId);
+    const target = this.db.prepare('SELECT account_id, phone_number FROM chats WHERE id = ?').get(targetChatId) as { account_id: string; phone_number: string } | undefined;
+    if (!target) {
+      throw new Error('Chat not found');
+    }
+
+    const to = `${target.phone_number}@c.us`;
+    const waMessageId = this.getWhatsAppMessageId(original);
+    const client = this.clients.get(target.account_id);
+
+    if (target.account_id !== original.account_id || !waMessageId || !client) {
+      const mediaPath = original.media_filename ? path.join(app.getPath('userData'), 'media', original.media_filename) : null;
+      if (mediaPath && fs.existsSync(mediaPath)) {
+        await this.sendMedia(target.account_id, to, mediaPath, original.message_text || undefined, { forwarded: true });
+      } else if (original.message_text) {
+        await this.sendMessage(target.account_id, to, original.message_text, false, { forwarded: true });
+      } else {
+        throw new Error('This message has nothing that can be forwarded');
+      }
+      return;
+    }
+
+    if (!this.isConnected(target.account_id)) {
+      throw new Error('Account not connected');
+    }
+
+    const waMessage = await this.getWhatsAppMessage(client, original);
+    const { chatIdToSend, resolvedPhone } = await this.normalizeSendTarget(target.account_id, to);
+    // The forward comes back through message_create - the cache keeps it from being saved twice
+    this.recentlySentMessages.set(`${target.account_id}:${original.message_text || ''}`, Date.now());
+    await waMessage.forward(chatIdToSend);
+
+    const timestamp = new Date().toISOString();
+    const softwareChatId = await this.chatManager.findOrCreateChat(resolvedPhone || target.phone_number, target.account_id, client, null);
+    this.chatManager.updateLastMessageAt(softwareChatId, timestamp);
+
+    this.db.prepare(`
+      INSERT INTO messages (id, account_id, chat_id, from_number, to_number, sender_name, message_text, message_type, media_filename, media_mimetype, is_from_me, is_read, software_chat_id, type, timestamp, is_forwarded)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, 1, ?, ?, ?, 1)
+    `).run(
+      uuidv4(),
+      target.account_id,
+      chatIdToSend,
+      (client as any).info?.wid?._serialized?.split('@')[0] || '',
+      resolvedPhone || target.phone_number,
+      (client as any).info?.pushname || null,
+      original.message_text,
+      original.message_type || 'text',
+      original.media_filename,
+      original.media_mimetype,
+      softwareChatId,
+      original.message_type || 'text',
+      timestamp
+    );
+    console.log(`↪️ Message ${messageId} forwarded to ${chatIdToSend}`);
   }
 
   async getQRCode(accountId: string): Promise<string> {
@@ -1468,9 +1675,9 @@ export class WhatsAppManager {
     console.log('✅ Name updated successfully');
   }
 
-  async sendMediaFromPath(accountId: string, to: string, filePath: string, caption?: string, isWarmup: boolean = false): Promise<void> {
+  async sendMediaFromPath(accountId: string, to: string, filePath: string, caption?: string, isWarmup: boolean = false): Promise<string | null> {
     // Simply call sendMedia - it already handles everything we need
-    await this.sendMedia(accountId, to, filePath, caption);
+    return this.sendMedia(accountId, to, filePath, caption);
     // Note: sendMedia doesn't save to DB, which is fine for campaigns
     // The campaign scheduler tracks sends in campaign_contacts table instead
   }
@@ -1813,6 +2020,9 @@ export class WhatsAppManager {
    * index a contact's chat under a `@lid` id instead of `@c.us`, and the `message_create`
    * handler in this file already resolves that correctly via `resolvePhoneNumber` before saving
    * `to_number` to the DB - so the DB is a more reliable source of truth than guessing a chat id.
+   *
+   * Resolves with the matched message's id (WhatsApp's `msg.id.id`, so its delivery receipts can
+   * be tracked), or null if no such message showed up before the timeout.
    */
   async waitForOutgoingMessage(
     accountId: string,
@@ -1820,27 +2030,28 @@ export class WhatsAppManager {
     afterTimestampMs: number,
     timeoutMs: number = 25000,
     pollIntervalMs: number = 2000
-  ): Promise<boolean> {
+  ): Promise<string | null> {
     const cleanNumber = this.extractDigits(phoneNumber);
     const afterIso = new Date(afterTimestampMs).toISOString();
     const deadline = Date.now() + timeoutMs;
 
     const stmt = this.db.prepare(`
-      SELECT 1 FROM messages
+      SELECT id FROM messages
       WHERE account_id = ? AND is_from_me = 1 AND to_number = ? AND timestamp >= ?
+      ORDER BY timestamp DESC
       LIMIT 1
     `);
 
     while (Date.now() < deadline) {
-      const row = stmt.get(accountId, cleanNumber, afterIso);
+      const row = stmt.get(accountId, cleanNumber, afterIso) as { id: string } | undefined;
       if (row) {
-        return true;
+        return row.id;
       }
 
       await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
     }
 
-    return false;
+    return null;
   }
 
   private mapAddParticipantResultCode(rawCode: number | null | undefined, isInviteV4Sent: boolean): CampaignContactResultCode {
@@ -2593,6 +2804,61 @@ export class WhatsAppManager {
     }
   }
 
+  /**
+   * Called by CampaignScheduler when a send error shows WhatsApp banned or restricted the account
+   * while its session stayed up. Restrictions are lifted after `restrictedHours`.
+   */
+  markAccountRestricted(accountId: string, kind: 'banned' | 'restricted', reason: string, restrictedHours: number = 24) {
+    this.recordAccountEvent(accountId, kind, reason);
+
+    if (kind === 'restricted') {
+      const until = new Date(Date.now() + restrictedHours * 60 * 60 * 1000).toISOString();
+      this.db.prepare('UPDATE accounts SET restricted_until = ? WHERE id = ?').run(until, accountId);
+    }
+    this.updateAccountStatus(accountId, kind);
+
+    this.campaignScheduler?.onAccountRestricted(accountId, kind, reason);
+  }
+
+  /**
+   * Whether campaigns should leave this account alone. An expired restriction is cleared here.
+   */
+  isAccountRestricted(accountId: string): boolean {
+    const account = this.db.prepare('SELECT status, restricted_until FROM accounts WHERE id = ?').get(accountId) as { status: string; restricted_until: string | null } | undefined;
+    if (!account) {
+      return false;
+    }
+
+    if (account.status === 'banned') {
+      return true;
+    }
+
+    if (account.status === 'restricted') {
+      if (account.restricted_until && new Date(account.restricted_until).getTime() <= Date.now()) {
+        this.db.prepare('UPDATE accounts SET restricted_until = NULL WHERE id = ?').run(accountId);
+        this.updateAccountStatus(accountId, this.isConnected(accountId) ? 'connected' : 'disconnected');
+        return false;
+      }
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Disconnects, auth failures, bans and restrictions feed the account health score (AccountHealthService)
+   */
+  private recordAccountEvent(accountId: string, type: 'disconnected' | 'auth_failure' | Exclude<AccountRestrictionKind, 'logged_out' | 'network'>, reason?: unknown) {
+    try {
+      this.db.prepare(`
+        INSERT INTO account_events (id, account_id, type, reason, created_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(uuidv4(), accountId, type, reason ? String(reason) : null, new Date().toISOString());
+    } catch (error) {
+      console.error('Failed to record account event:', error);
+    }
+  }
+
   private async handleIncomingMessage(accountId: string, msg: any) {
     try {
       // Skip group messages entirely - only process private chats
@@ -2608,8 +2874,8 @@ export class WhatsAppManager {
       const myNumber = (this.clients.get(accountId) as any)?.info?.wid?._serialized?.split('@')[0] || '';
       
       // Check if message already exists in DB (to avoid duplicates from messages we sent via the app)
-      const checkStmt = this.db.prepare('SELECT id FROM messages WHERE id = ?');
-      const existing = checkStmt.get(messageId);
+      const checkStmt = this.db.prepare('SELECT id FROM messages WHERE id = ? OR wa_message_id = ?');
+      const existing = checkStmt.get(messageId, msg.id?._serialized || messageId);
       if (existing) {
         console.log('📋 Message already in database, skipping:', messageId);
         return;
@@ -2742,6 +3008,23 @@ export class WhatsAppManager {
         }
       }
       
+      // A reply shows the message it quotes
+      let quoted: QuotedMessage | undefined;
+      if (msg.hasQuotedMsg) {
+        try {
+          const quotedMsg = await msg.getQuotedMessage();
+          if (quotedMsg?.id?._serialized) {
+            quoted = {
+              waMessageId: quotedMsg.id._serialized,
+              text: quotedMsg.body || (quotedMsg.hasMedia ? `[${quotedMsg.type}]` : null),
+              isFromMe: Boolean(quotedMsg.fromMe),
+            };
+          }
+        } catch (e) {
+          console.log('⚠️ Could not load quoted message:', e);
+        }
+      }
+
       const timestamp = new Date(msg.timestamp * 1000).toISOString();
       const isFromMeValue = isFromMe ? 1 : 0;
       const isRead = isFromMe ? 1 : 0; // Outgoing = read, incoming = unread
@@ -2756,6 +3039,9 @@ export class WhatsAppManager {
         isFromMe ? null : senderName
       );
       this.chatManager.updateLastMessageAt(softwareChatId, timestamp);
+      if (!isFromMe) {
+        this.chatManager.reopenOnIncomingMessage(softwareChatId);
+      }
       
       console.log('Database values:');
       console.log('  - messageId:', messageId);
@@ -2770,8 +3056,9 @@ export class WhatsAppManager {
       console.log('  - softwareChatId:', softwareChatId);
       
       const stmt = this.db.prepare(`
-        INSERT OR IGNORE INTO messages (id, account_id, chat_id, from_number, to_number, sender_name, message_text, message_type, media_filename, media_mimetype, is_from_me, is_read, software_chat_id, type, timestamp)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT OR IGNORE INTO messages (id, account_id, chat_id, from_number, to_number, sender_name, message_text, message_type, media_filename, media_mimetype, is_from_me, is_read, software_chat_id, type, timestamp,
+          wa_message_id, quoted_wa_message_id, quoted_message_text, quoted_is_from_me, is_forwarded)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
       stmt.run(
@@ -2789,15 +3076,29 @@ export class WhatsAppManager {
         isRead,
         softwareChatId,
         messageType,
-        timestamp
+        timestamp,
+        msg.id?._serialized || null,
+        ...this.getQuoteColumns({ quoted, forwarded: Boolean(msg.isForwarded) })
       );
 
       console.log('✅ Message saved to database successfully');
 
+      // Link replies to the campaign send that triggered them
+      let attributedCampaignId: string | null = null;
+      if (!isFromMe && this.replyAttribution) {
+        attributedCampaignId = this.replyAttribution.attributeReply(accountId, fromNumber, messageId, softwareChatId, timestamp)?.campaignId || null;
+      }
+
+      // STOP keywords put the sender on the suppression list - no flow should answer an opt-out
+      let optedOut = false;
+      if (!isFromMe && this.suppressionService) {
+        optedOut = this.suppressionService.checkIncomingMessage(accountId, fromNumber, msg.body || null, senderName);
+      }
+
       // Check if Flow should handle this message (only for incoming)
-      if (!isFromMe && this.flowEngine) {
+      if (!isFromMe && this.flowEngine && !optedOut) {
         console.log('🤖 Checking for active flows...');
-        const flowExecuted = await this.flowEngine.checkAndExecuteFlow(accountId, chatId, msg, softwareChatId);
+        const flowExecuted = await this.flowEngine.checkAndExecuteFlow(accountId, chatId, msg, softwareChatId, { campaignId: attributedCampaignId });
         
         if (flowExecuted) {
           console.log('✅ Flow executed - marking message as handled');
@@ -2821,7 +3122,12 @@ export class WhatsAppManager {
           is_from_me: isFromMeValue,
           is_read: isRead,
           type: messageType,
-          timestamp: timestamp
+          timestamp: timestamp,
+          wa_message_id: msg.id?._serialized || null,
+          quoted_wa_message_id: quoted?.waMessageId || null,
+          quoted_message_text: quoted?.text || null,
+          quoted_is_from_me: quoted ? (quoted.isFromMe ? 1 : 0) : null,
+          is_forwarded: msg.isForwarded ? 1 : 0
         });
         console.log('✅ Message sent to renderer');
       }
@@ -2829,4 +3135,88 @@ export class WhatsAppManager {
       console.error('❌ Error handling incoming message:', error);
     }
   }
+
+  private getSendOptions(options: OutgoingMessageOptions): Record<string, any> {
+    return options.quoted ? { quotedMessageId: options.quoted.waMessageId } : {};
+  }
+
+  // quoted_wa_message_id, quoted_message_text, quoted_is_from_me, is_forwarded
+  private getQuoteColumns(options: OutgoingMessageOptions): [string | null, string | null, number | null, number] {
+    return [
+      options.quoted?.waMessageId || null,
+      options.quoted?.text || null,
+      options.quoted ? (options.quoted.isFromMe ? 1 : 0) : null,
+      options.forwarded ? 1 : 0,
+    ];
+  }
+
+  private getStoredMessage(messageId: string): any {
+    const message = this.db.prepare('SELECT * FROM messages WHERE id = ?').get(messageId);
+    if (!message) {
+      throw new Error('Message not found');
+    }
+    return message;
+  }
+
+  /**
+   * WhatsApp's serialized id (fromMe_chat_id) for a stored message. Older rows don't have it
+   * saved, but synced messages use WhatsApp's own id as messages.id so it can be rebuilt;
+   * messages the app sent before then have a random id and can't be found again.
+   */
+  private getWhatsAppMessageId(message: any): string | null {
+    if (message.wa_message_id) {
+      return message.wa_message_id;
+    }
+    if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(message.id)) {
+      return null;
+    }
+    return `${message.is_from_me ? 'true' : 'false'}_${message.chat_id}_${message.id}`;
+  }
+
+  private async getWhatsAppMessage(client: Client, message: any): Promise<any> {
+    const waMessageId = this.getWhatsAppMessageId(message);
+    const waMessage = waMessageId ? await (client as any).getMessageById(waMessageId) : null;
+    if (!waMessage) {
+      throw new Error('Message not found in WhatsApp');
+    }
+    return waMessage;
+  }
+
+  private saveReaction(messageId: string, senderId: string, emoji: string, isFromMe: boolean, timestamp: string): void {
+    if (emoji) {
+      this.db.prepare(`
+        INSERT INTO message_reactions (message_id, sender_id, emoji, is_from_me, timestamp)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(message_id, sender_id) DO UPDATE SET emoji = excluded.emoji, timestamp = excluded.timestamp
+      `).run(messageId, senderId, emoji, isFromMe ? 1 : 0, timestamp);
+    } else {
+      this.db.prepare('DELETE FROM message_reactions WHERE message_id = ? AND sender_id = ?').run(messageId, senderId);
+    }
+  }
+
+  private handleReaction(accountId: string, reaction: any): void {
+    try {
+      const waMessageId = reaction?.msgId?._serialized;
+      if (!waMessageId) return;
+
+      const message = this.db.prepare(`
+        SELECT id, software_chat_id FROM messages
+        WHERE account_id = ? AND (wa_message_id = ? OR id = ?)
+        LIMIT 1
+      `).get(accountId, waMessageId, reaction.msgId.id) as { id: string; software_chat_id: string | null } | undefined;
+      if (!message) return;
+
+      const myId = (this.clients.get(accountId) as any)?.info?.wid?._serialized;
+      const senderId = reaction.senderId || 'unknown';
+      const timestamp = reaction.timestamp ? new Date(reaction.timestamp * 1000).toISOString() : new Date().toISOString();
+      this.saveReaction(message.id, senderId, reaction.reaction || '', senderId === myId || Boolean(reaction.id?.fromMe), timestamp);
+
+      const mainWindow = BrowserWindow.getAllWindows()[0];
+      if (mainWindow) {
+        mainWindow.webContents.send('message:reaction', { message_id: message.id, software_chat_id: message.software_chat_id });
+      }
+    } catch (error) {
+      console.error('❌ Error handling reaction:', error);
+    }
+  }
 }
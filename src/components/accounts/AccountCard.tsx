@@ -2,13 +2,13 @@ import { useState } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
-import { Wifi, WifiOff, Trash2, Globe, Smartphone, MoreVertical, QrCode, Hash, Cloud } from 'lucide-react';
+import { Wifi, WifiOff, Trash2, Globe, Smartphone, MoreVertical, QrCode, Hash, Cloud, HeartPulse, Gauge } from 'lucide-react';
 import { formatDistance } from 'date-fns';
 import { he, ar } from 'date-fns/locale';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { api } from '@/lib/api';
 import { toast } from '@/components/ui/use-toast';
-import type { Account } from '@/types';
+import type { Account, AccountQuotaBudget, AccountQuotaKey } from '@/types';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -19,6 +19,8 @@ import {
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import AccountHealthDialog, { HEALTH_LEVEL_STYLES, getHealthLevelText } from './AccountHealthDialog';
+import AccountQuotaDialog, { getQuotaLabel } from './AccountQuotaDialog';
 
 interface AccountCardProps {
   account: Account;
@@ -29,15 +31,26 @@ interface AccountCardProps {
   onSelect?: (selected: boolean) => void;
   selectionMode?: boolean;
   onUpdated?: () => void;
+  quotaBudget?: AccountQuotaBudget;
 }
 
-export default function AccountCard({ account, onDelete, onDisconnect, onReconnect, isSelected, onSelect, selectionMode, onUpdated }: AccountCardProps) {
+export default function AccountCard({ account, onDelete, onDisconnect, onReconnect, isSelected, onSelect, selectionMode, onUpdated, quotaBudget }: AccountCardProps) {
   const { t, language } = useLanguage();
   const isConnected = account.status === 'connected';
-  const canReconnect = account.status === 'disconnected' || account.status === 'qr';
+  const canReconnect = ['disconnected', 'qr', 'banned', 'restricted'].includes(account.status);
   const [showDeviceIdDialog, setShowDeviceIdDialog] = useState(false);
   const [deviceIdInput, setDeviceIdInput] = useState(account.duoplus_device_id || '');
   const [savingDeviceId, setSavingDeviceId] = useState(false);
+  const [showHealthDialog, setShowHealthDialog] = useState(false);
+  const [showQuotaDialog, setShowQuotaDialog] = useState(false);
+
+  // The tightest limited quota is what the account can still send
+  const limitedQuotas = quotaBudget
+    ? (Object.keys(quotaBudget.remaining) as AccountQuotaKey[]).filter(key => quotaBudget.remaining[key] !== null)
+    : [];
+  const tightestQuota = limitedQuotas.reduce<AccountQuotaKey | null>((tightest, key) =>
+    tightest === null || quotaBudget!.remaining[key]! < quotaBudget!.remaining[tightest]! ? key : tightest
+  , null);
 
   const saveDeviceId = async () => {
     setSavingDeviceId(true);
@@ -62,6 +75,10 @@ export default function AccountCard({ account, onDelete, onDisconnect, onReconne
         return 'bg-yellow-500/10 text-yellow-600 border-yellow-200';
       case 'qr':
         return 'bg-primary/10 text-primary border-primary/20';
+      case 'banned':
+        return 'bg-red-500/10 text-red-600 border-red-200';
+      case 'restricted':
+        return 'bg-orange-500/10 text-orange-600 border-orange-200';
       case 'disconnected':
       default:
         return 'bg-gray-500/10 text-gray-600 border-gray-200';
@@ -73,6 +90,8 @@ export default function AccountCard({ account, onDelete, onDisconnect, onReconne
       case 'connected': return t('accounts.connected');
       case 'connecting': return t('accounts.connecting');
       case 'qr': return language === 'he' ? 'סרוק QR' : 'Scan QR';
+      case 'banned': return language === 'he' ? 'חסום' : language === 'ar' ? 'محظور' : 'Banned';
+      case 'restricted': return language === 'he' ? 'מוגבל' : language === 'ar' ? 'مقيد' : 'Restricted';
       default: return t('accounts.disconnected');
     }
   };
@@ -178,6 +197,42 @@ export default function AccountCard({ account, onDelete, onDisconnect, onReconne
             </div>
 
             <div className="flex flex-col gap-2 pt-2 border-t">
+              <button
+                type="button"
+                onClick={() => setShowHealthDialog(true)}
+                className="flex items-center justify-between text-xs text-muted-foreground bg-muted/50 p-2 rounded-md hover:bg-muted transition-colors"
+              >
+                <span className="flex items-center">
+                  <HeartPulse className="h-3 w-3 mr-2 text-primary" />
+                  {language === 'he' ? 'בריאות החשבון' : language === 'ar' ? 'صحة الحساب' : 'Account health'}
+                </span>
+                {account.health_level && account.health_score != null ? (
+                  <Badge variant="outline" className={`px-2 py-0 text-xs ${HEALTH_LEVEL_STYLES[account.health_level]}`}>
+                    {account.health_score} • {getHealthLevelText(account.health_level, language)}
+                  </Badge>
+                ) : (
+                  <span>—</span>
+                )}
+              </button>
+
+              <button
+                type="button"
+                onClick={() => setShowQuotaDialog(true)}
+                className="flex items-center justify-between text-xs text-muted-foreground bg-muted/50 p-2 rounded-md hover:bg-muted transition-colors"
+              >
+                <span className="flex items-center">
+                  <Gauge className="h-3 w-3 mr-2 text-primary" />
+                  {language === 'he' ? 'יתרת שליחה' : language === 'ar' ? 'رصيد الإرسال' : 'Sending budget'}
+                </span>
+                {tightestQuota && quotaBudget ? (
+                  <span className={quotaBudget.remaining[tightestQuota] === 0 ? 'text-red-600 font-medium' : 'font-medium'}>
+                    {quotaBudget.remaining[tightestQuota]}/{quotaBudget.quotas[tightestQuota]} {getQuotaLabel(tightestQuota, language).toLowerCase()}
+                  </span>
+                ) : (
+                  <span>{language === 'he' ? 'ללא הגבלה' : language === 'ar' ? 'بلا حد' : 'No limits'}</span>
+                )}
+              </button>
+
               {account.proxy_host && (
                 <div className="flex items-center text-xs text-muted-foreground bg-muted/50 p-2 rounded-md">
                   <Globe className="h-3 w-3 mr-2 text-primary" />
@@ -206,6 +261,21 @@ export default function AccountCard({ account, onDelete, onDisconnect, onReconne
         </div>
       </CardContent>
 
+      <AccountHealthDialog
+        account={account}
+        open={showHealthDialog}
+        onOpenChange={setShowHealthDialog}
+        onLoaded={onUpdated}
+      />
+
+      <AccountQuotaDialog
+        account={account}
+        budget={quotaBudget}
+        open={showQuotaDialog}
+        onOpenChange={setShowQuotaDialog}
+        onSaved={onUpdated}
+      />
+
       <Dialog open={showDeviceIdDialog} onOpenChange={setShowDeviceIdDialog}>
         <DialogContent>
           <DialogHeader>
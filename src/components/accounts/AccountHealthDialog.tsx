@@ -0,0 +1,207 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { HeartPulse } from 'lucide-react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { api } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import type { Account, AccountHealth, AccountHealthFactorKey, AccountHealthLevel, AccountHealthSnapshot } from '@/types';
+
+interface AccountHealthDialogProps {
+  account: Account;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onLoaded?: () => void;
+}
+
+export const HEALTH_LEVEL_STYLES: Record<AccountHealthLevel, string> = {
+  healthy: 'bg-green-500/10 text-green-600 border-green-200',
+  warning: 'bg-amber-500/10 text-amber-600 border-amber-200',
+  critical: 'bg-red-500/10 text-red-600 border-red-200',
+};
+
+const HISTORY_BAR_STYLES: Record<AccountHealthLevel, string> = {
+  healthy: 'bg-green-500',
+  warning: 'bg-amber-500',
+  critical: 'bg-red-500',
+};
+
+export function getHealthLevelText(level: AccountHealthLevel, language: string) {
+  switch (level) {
+    case 'healthy':
+      return language === 'he' ? 'תקין' : language === 'ar' ? 'سليم' : 'Healthy';
+    case 'warning':
+      return language === 'he' ? 'מואט' : language === 'ar' ? 'مُبطأ' : 'Throttled';
+    case 'critical':
+      return language === 'he' ? 'בסיכון' : language === 'ar' ? 'في خطر' : 'At risk';
+  }
+}
+
+export default function AccountHealthDialog({ account, open, onOpenChange, onLoaded }: AccountHealthDialogProps) {
+  const { language } = useLanguage();
+  const [health, setHealth] = useState<AccountHealth | null>(null);
+  const [history, setHistory] = useState<AccountHealthSnapshot[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    loadHealth();
+  }, [open, account.id]);
+
+  const loadHealth = async () => {
+    setLoading(true);
+    try {
+      const result = await api.accounts.getHealth(account.id);
+      setHealth(result.health);
+      setHistory(result.history);
+      onLoaded?.();
+    } catch (error) {
+      console.error('Failed to load account health:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const factorText = (key: AccountHealthFactorKey, current: AccountHealth) => {
+    const { metrics } = current;
+    const percent = (value: number, total: number) => total > 0 ? Math.round((value / total) * 100) : 0;
+
+    switch (key) {
+      case 'failures':
+        return language === 'he'
+          ? `${percent(metrics.failures, metrics.attempts)}% מהשליחות נכשלו ב-7 הימים האחרונים`
+          : language === 'ar'
+          ? `فشل ${percent(metrics.failures, metrics.attempts)}% من الإرسالات خلال آخر 7 أيام`
+          : `${percent(metrics.failures, metrics.attempts)}% of sends failed in the last 7 days`;
+      case 'not_registered':
+        return language === 'he'
+          ? `${percent(metrics.notRegistered, metrics.attempts)}% מהמספרים לא רשומים בווטסאפ`
+          : language === 'ar'
+          ? `${percent(metrics.notRegistered, metrics.attempts)}% من الأرقام غير مسجلة في واتساب`
+          : `${percent(metrics.notRegistered, metrics.attempts)}% of numbers are not on WhatsApp`;
+      case 'disconnects':
+        return language === 'he'
+          ? `${metrics.disconnects} ניתוקים ו-${metrics.authFailures} כשלי אימות השבוע`
+          : language === 'ar'
+          ? `${metrics.disconnects} انقطاعات و${metrics.authFailures} حالات فشل مصادقة هذا الأسبوع`
+          : `${metrics.disconnects} disconnects and ${metrics.authFailures} auth failures this week`;
+      case 'restrictions':
+        return language === 'he'
+          ? `${metrics.restrictions} חסימות או הגבלות מווטסאפ השבוע`
+          : language === 'ar'
+          ? `${metrics.restrictions} حالات حظر أو تقييد من واتساب هذا الأسبوع`
+          : `${metrics.restrictions} bans or restrictions from WhatsApp this week`;
+      case 'low_reply_rate':
+        return language === 'he'
+          ? `שיעור מענה נמוך (${percent(metrics.replies, metrics.messagesSent)}%)`
+          : language === 'ar'
+          ? `معدل ردود منخفض (${percent(metrics.replies, metrics.messagesSent)}%)`
+          : `Low reply rate (${percent(metrics.replies, metrics.messagesSent)}%)`;
+      case 'new_account':
+        return language === 'he'
+          ? `חשבון חדש (${metrics.ageDays} ימים)`
+          : language === 'ar'
+          ? `حساب جديد (${metrics.ageDays} أيام)`
+          : `New account (${metrics.ageDays} days old)`;
+      case 'high_volume':
+        return language === 'he'
+          ? `נשלחו היום ${metrics.sentToday} הודעות, מעל ${metrics.dailyAllowance} המומלצות לגיל החשבון`
+          : language === 'ar'
+          ? `تم إرسال ${metrics.sentToday} رسالة اليوم، أكثر من ${metrics.dailyAllowance} الموصى بها لعمر الحساب`
+          : `${metrics.sentToday} messages sent today, above the ${metrics.dailyAllowance} recommended for the account's age`;
+    }
+  };
+
+  const effectText = (current: AccountHealth) => {
+    switch (current.level) {
+      case 'healthy':
+        return language === 'he' ? 'החשבון שולח בקצב הרגיל' : language === 'ar' ? 'الحساب يرسل بالوتيرة العادية' : 'The account sends at its normal rate';
+      case 'warning':
+        return language === 'he'
+          ? 'הקמפיינים מאטים את החשבון: השהייה כפולה וחצי ממכסת ההודעות היומית'
+          : language === 'ar'
+          ? 'الحملات تبطئ الحساب: تأخير مضاعف ونصف الحد اليومي للرسائل'
+          : 'Campaigns slow this account down: double delays and half the daily message limit';
+      case 'critical':
+        return language === 'he'
+          ? 'החשבון הוצא מקמפיינים עד שהציון ישתפר'
+          : language === 'ar'
+          ? 'تم إخراج الحساب من الحملات حتى تتحسن النتيجة'
+          : 'The account is pulled out of campaigns until its score recovers';
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HeartPulse className="h-5 w-5 text-primary" />
+            {language === 'he' ? 'בריאות החשבון' : language === 'ar' ? 'صحة الحساب' : 'Account Health'}
+          </DialogTitle>
+          <DialogDescription>
+            {account.name || account.phone_number}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && !health ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : health ? (
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-3xl font-bold">{health.score}</span>
+                <Badge variant="outline" className={cn('px-3 py-1', HEALTH_LEVEL_STYLES[health.level])}>
+                  {getHealthLevelText(health.level, language)}
+                </Badge>
+              </div>
+              <Progress value={health.score} />
+              <p className="text-sm text-muted-foreground">{effectText(health)}</p>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">
+                {language === 'he' ? 'מה משפיע על הציון' : language === 'ar' ? 'ما يؤثر على النتيجة' : 'What affects the score'}
+              </h4>
+              {health.factors.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {language === 'he' ? 'אין סימני סיכון' : language === 'ar' ? 'لا توجد علامات خطر' : 'No risk signals'}
+                </p>
+              ) : (
+                <div className="divide-y border rounded-md">
+                  {health.factors.map(factor => (
+                    <div key={factor.key} className="flex items-center justify-between gap-3 p-2 text-sm">
+                      <span>{factorText(factor.key, health)}</span>
+                      <span className="font-mono text-red-600 shrink-0">-{factor.penalty}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {history.length > 1 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">
+                  {language === 'he' ? 'היסטוריה (14 ימים)' : language === 'ar' ? 'السجل (14 يومًا)' : 'History (14 days)'}
+                </h4>
+                <div className="flex items-end gap-px h-16 border rounded-md p-1">
+                  {history.map((snapshot, index) => (
+                    <div
+                      key={index}
+                      className={cn('flex-1 rounded-sm min-h-[2px]', HISTORY_BAR_STYLES[snapshot.level])}
+                      style={{ height: `${Math.max(2, snapshot.score)}%` }}
+                      title={`${snapshot.score} • ${new Date(snapshot.created_at).toLocaleString(language)}`}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+}
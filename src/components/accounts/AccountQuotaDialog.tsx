@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Gauge } from 'lucide-react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { api } from '@/lib/api';
+import { toast } from '@/components/ui/use-toast';
+import type { Account, AccountQuotaBudget, AccountQuotaKey, AccountQuotas } from '@/types';
+
+interface AccountQuotaDialogProps {
+  account: Account;
+  budget?: AccountQuotaBudget;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+const QUOTA_KEYS: AccountQuotaKey[] = ['perHour', 'perDay', 'rolling24h', 'newChatsPerDay', 'existingChatsPerDay'];
+
+export function getQuotaLabel(key: AccountQuotaKey, language: string) {
+  switch (key) {
+    case 'perHour':
+      return language === 'he' ? 'לשעה' : language === 'ar' ? 'في الساعة' : 'Per hour';
+    case 'perDay':
+      return language === 'he' ? 'ליום' : language === 'ar' ? 'في اليوم' : 'Per day';
+    case 'rolling24h':
+      return language === 'he' ? 'ב-24 השעות האחרונות' : language === 'ar' ? 'خلال آخر 24 ساعة' : 'Rolling 24 hours';
+    case 'newChatsPerDay':
+      return language === 'he' ? "צ'אטים חדשים ליום" : language === 'ar' ? 'محادثات جديدة في اليوم' : 'New chats per day';
+    case 'existingChatsPerDay':
+      return language === 'he' ? "צ'אטים קיימים ליום" : language === 'ar' ? 'محادثات قائمة في اليوم' : 'Existing chats per day';
+  }
+}
+
+export default function AccountQuotaDialog({ account, budget, open, onOpenChange, onSaved }: AccountQuotaDialogProps) {
+  const { language } = useLanguage();
+  const [values, setValues] = useState<Record<AccountQuotaKey, string>>({
+    perHour: '',
+    perDay: '',
+    rolling24h: '',
+    newChatsPerDay: '',
+    existingChatsPerDay: '',
+  });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setValues({
+      perHour: account.quota_per_hour?.toString() ?? '',
+      perDay: account.quota_per_day?.toString() ?? '',
+      rolling24h: account.quota_rolling_24h?.toString() ?? '',
+      newChatsPerDay: account.quota_new_chats_per_day?.toString() ?? '',
+      existingChatsPerDay: account.quota_existing_chats_per_day?.toString() ?? '',
+    });
+  }, [open, account]);
+
+  const handleSave = async () => {
+    const quotas = {} as AccountQuotas;
+    for (const key of QUOTA_KEYS) {
+      const value = values[key].trim();
+      quotas[key] = value === '' ? null : Math.max(0, parseInt(value) || 0);
+    }
+
+    setSaving(true);
+    try {
+      await api.accounts.setQuotas(account.id, quotas);
+      toast.success(language === 'he' ? 'המכסות נשמרו' : language === 'ar' ? 'تم حفظ الحصص' : 'Quotas saved');
+      onOpenChange(false);
+      onSaved?.();
+    } catch (error) {
+      console.error('Failed to save account quotas:', error);
+      toast.error(language === 'he' ? 'שגיאה בשמירת המכסות' : language === 'ar' ? 'خطأ في حفظ الحصص' : 'Failed to save quotas');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Gauge className="h-5 w-5 text-primary" />
+            {language === 'he' ? 'מכסות שליחה' : language === 'ar' ? 'حصص الإرسال' : 'Sending Quotas'}
+          </DialogTitle>
+          <DialogDescription>
+            {language === 'he'
+              ? 'משותפות לכל הקמפיינים, קמפייני הקבוצות, הוספה לקבוצות וחימום של החשבון. השאר ריק ללא הגבלה.'
+              : language === 'ar'
+              ? 'مشتركة بين جميع حملات الحساب وحملات المجموعات والإضافة إلى المجموعات والتسخين. اتركه فارغًا بلا حد.'
+              : "Shared by all of the account's campaigns, group campaigns, group adds and warm-up. Leave empty for no limit."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {QUOTA_KEYS.map(key => (
+            <div key={key} className="grid grid-cols-[1fr_100px] items-center gap-3">
+              <div>
+                <Label htmlFor={`quota_${key}`}>{getQuotaLabel(key, language)}</Label>
+                {budget && (
+                  <p className="text-xs text-muted-foreground">
+                    {language === 'he' ? 'נוצלו' : language === 'ar' ? 'المستخدم' : 'Used'}: {budget.usage[key]}
+                  </p>
+                )}
+              </div>
+              <Input
+                id={`quota_${key}`}
+                type="number"
+                min={0}
+                value={values[key]}
+                onChange={(e) => setValues(prev => ({ ...prev, [key]: e.target.value }))}
+                placeholder="∞"
+              />
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {language === 'he' ? 'ביטול' : language === 'ar' ? 'إلغاء' : 'Cancel'}
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving
+              ? (language === 'he' ? 'שומר...' : language === 'ar' ? 'جاري الحفظ...' : 'Saving...')
+              : (language === 'he' ? 'שמור' : language === 'ar' ? 'حفظ' : 'Save')
+            }
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
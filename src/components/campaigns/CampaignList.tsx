@@ -2,7 +2,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { Play, Pause, Square, Trash2, Download, Edit } from 'lucide-react';
+import { Play, Pause, Square, Trash2, Download, Edit, Trophy } from 'lucide-react';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { toast } from '@/components/ui/use-toast';
 import type { Campaign, CampaignStats } from '@/types';
@@ -132,7 +132,7 @@ export default function CampaignList({
             <Progress value={progress} />
           </div>
 
-          <div className="grid grid-cols-3 gap-2 text-sm">
+          <div className={`grid ${isGroupAdder ? 'grid-cols-3' : 'grid-cols-6'} gap-2 text-sm`}>
             <div>
               <p className="text-muted-foreground">{isGroupAdder ? (language === 'he' ? 'נוספו' : language === 'ar' ? 'تمت إضافتهم' : 'Added') : (language === 'he' ? 'נשלחו' : 'Sent')}</p>
               <p className="font-semibold text-green-600">{stats.sent}</p>
@@ -145,8 +145,49 @@ export default function CampaignList({
               <p className="text-muted-foreground">{language === 'he' ? 'נכשלו' : language === 'ar' ? 'فشلت' : 'Failed'}</p>
               <p className="font-semibold text-red-600">{stats.failed}</p>
             </div>
+            {!isGroupAdder && (
+              <>
+                <div>
+                  <p className="text-muted-foreground">{language === 'he' ? 'נמסרו' : language === 'ar' ? 'تم التسليم' : 'Delivered'}</p>
+                  <p className="font-semibold text-sky-600">{stats.delivered ?? 0}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">{language === 'he' ? 'נקראו' : language === 'ar' ? 'تمت القراءة' : 'Read'}</p>
+                  <p className="font-semibold text-indigo-600">{stats.read ?? 0}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">{language === 'he' ? 'הגיבו' : language === 'ar' ? 'ردّوا' : 'Replied'}</p>
+                  <p className="font-semibold text-emerald-600">{stats.replied ?? 0}</p>
+                </div>
+              </>
+            )}
           </div>
 
+          {!isGroupAdder && stats.variants && stats.variants.length > 1 && (
+            <div className="rounded-lg border text-xs">
+              <div className="grid grid-cols-4 gap-2 px-3 py-2 border-b bg-muted/40 font-medium text-muted-foreground">
+                <span>
+                  {language === 'he' ? 'וריאציה' : language === 'ar' ? 'النسخة' : 'Variant'}
+                  {campaign.ab_auto_winner && ' (A/B)'}
+                </span>
+                <span>{language === 'he' ? 'נשלחו' : language === 'ar' ? 'أُرسلت' : 'Sent'}</span>
+                <span>{language === 'he' ? 'נכשלו' : language === 'ar' ? 'فشلت' : 'Failed'}</span>
+                <span>{language === 'he' ? 'הגיבו' : language === 'ar' ? 'ردّوا' : 'Replied'}</span>
+              </div>
+              {stats.variants.map(variant => (
+                <div key={variant.id} className="grid grid-cols-4 gap-2 px-3 py-1.5">
+                  <span className="flex items-center gap-1 font-medium">
+                    #{variant.variant_index + 1}
+                    {variant.isWinner && <Trophy className="h-3 w-3 text-amber-500" />}
+                  </span>
+                  <span className="text-green-600">{variant.sent}</span>
+                  <span className="text-red-600">{variant.failed}</span>
+                  <span className="text-emerald-600">{variant.replied} ({variant.replyRate}%)</span>
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="flex flex-col gap-2">
             <div className="flex gap-2">
               {canStartOrContinue ? (
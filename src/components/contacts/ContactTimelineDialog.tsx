@@ -0,0 +1,199 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import {
+  Send,
+  CheckCheck,
+  Eye,
+  MessageCircleReply,
+  XCircle,
+  UserPlus,
+  Link2,
+  UserX,
+  ArrowDownLeft,
+  ArrowUpRight,
+  Workflow,
+  Ban,
+  History
+} from 'lucide-react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { api } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import type { ContactTimeline, ContactTimelineEvent, ContactTimelineEventType } from '@/types';
+
+interface ContactTimelineDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  phoneNumber: string | null;
+  name?: string | null;
+}
+
+type TimelineFilter = 'all' | 'campaigns' | 'groups' | 'messages' | 'flows';
+
+const EVENT_STYLES: Record<ContactTimelineEventType, { icon: typeof Send; className: string; filter: TimelineFilter }> = {
+  campaign_sent: { icon: Send, className: 'bg-blue-100 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400', filter: 'campaigns' },
+  campaign_delivered: { icon: CheckCheck, className: 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300', filter: 'campaigns' },
+  campaign_read: { icon: Eye, className: 'bg-sky-100 text-sky-600 dark:bg-sky-900/30 dark:text-sky-400', filter: 'campaigns' },
+  campaign_replied: { icon: MessageCircleReply, className: 'bg-green-100 text-green-600 dark:bg-green-900/30 dark:text-green-400', filter: 'campaigns' },
+  campaign_failed: { icon: XCircle, className: 'bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400', filter: 'campaigns' },
+  group_added: { icon: UserPlus, className: 'bg-emerald-100 text-emerald-600 dark:bg-emerald-900/30 dark:text-emerald-400', filter: 'groups' },
+  group_invite_sent: { icon: Link2, className: 'bg-amber-100 text-amber-600 dark:bg-amber-900/30 dark:text-amber-400', filter: 'groups' },
+  group_add_failed: { icon: UserX, className: 'bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400', filter: 'groups' },
+  message_in: { icon: ArrowDownLeft, className: 'bg-primary/10 text-primary', filter: 'messages' },
+  message_out: { icon: ArrowUpRight, className: 'bg-muted text-muted-foreground', filter: 'messages' },
+  flow_execution: { icon: Workflow, className: 'bg-purple-100 text-purple-600 dark:bg-purple-900/30 dark:text-purple-400', filter: 'flows' },
+  blacklisted: { icon: Ban, className: 'bg-black text-white dark:bg-white dark:text-black', filter: 'all' },
+};
+
+export default function ContactTimelineDialog({ open, onOpenChange, phoneNumber, name }: ContactTimelineDialogProps) {
+  const { language } = useLanguage();
+  const [timeline, setTimeline] = useState<ContactTimeline | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [filter, setFilter] = useState<TimelineFilter>('all');
+
+  useEffect(() => {
+    if (open && phoneNumber) {
+      setFilter('all');
+      loadTimeline(phoneNumber);
+    }
+  }, [open, phoneNumber]);
+
+  const loadTimeline = async (phone: string) => {
+    setLoading(true);
+    try {
+      const data = await api.contacts.getTimeline(phone);
+      setTimeline(data);
+    } catch (error) {
+      console.error('Failed to load contact timeline:', error);
+      setTimeline(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const describeEvent = (event: ContactTimelineEvent): string => {
+    const campaign = event.campaignName ? `"${event.campaignName}"` : '';
+    const group = event.groupName || '';
+
+    switch (event.type) {
+      case 'campaign_sent':
+        return language === 'he' ? `הודעת קמפיין נשלחה ${campaign}` : language === 'ar' ? `تم إرسال رسالة الحملة ${campaign}` : `Campaign message sent ${campaign}`;
+      case 'campaign_delivered':
+        return language === 'he' ? `הודעת קמפיין נמסרה ${campaign}` : language === 'ar' ? `تم تسليم رسالة الحملة ${campaign}` : `Campaign message delivered ${campaign}`;
+      case 'campaign_read':
+        return language === 'he' ? `הודעת קמפיין נקראה ${campaign}` : language === 'ar' ? `تمت قراءة رسالة الحملة ${campaign}` : `Campaign message read ${campaign}`;
+      case 'campaign_replied':
+        return language === 'he' ? `הגיב לקמפיין ${campaign}` : language === 'ar' ? `رد على الحملة ${campaign}` : `Replied to campaign ${campaign}`;
+      case 'campaign_failed':
+        return language === 'he' ? `שליחת קמפיין נכשלה ${campaign}` : language === 'ar' ? `فشل إرسال الحملة ${campaign}` : `Campaign send failed ${campaign}`;
+      case 'group_added':
+        return language === 'he' ? `נוסף לקבוצה ${group}` : language === 'ar' ? `تمت إضافته إلى المجموعة ${group}` : `Added to group ${group}`;
+      case 'group_invite_sent':
+        return language === 'he' ? `נשלחה הזמנה לקבוצה ${group}` : language === 'ar' ? `تم إرسال دعوة إلى المجموعة ${group}` : `Group invite sent for ${group}`;
+      case 'group_add_failed':
+        return language === 'he' ? `הוספה לקבוצה נכשלה ${group}` : language === 'ar' ? `فشلت الإضافة إلى المجموعة ${group}` : `Failed to add to group ${group}`;
+      case 'message_in':
+        return language === 'he' ? 'הודעה נכנסת' : language === 'ar' ? 'رسالة واردة' : 'Incoming message';
+      case 'message_out':
+        return language === 'he' ? 'הודעה יוצאת' : language === 'ar' ? 'رسالة صادرة' : 'Outgoing message';
+      case 'flow_execution':
+        return language === 'he' ? `אוטומציה הופעלה: ${event.flowName || ''}` : language === 'ar' ? `تم تشغيل الأتمتة: ${event.flowName || ''}` : `Flow ran: ${event.flowName || ''}`;
+      case 'blacklisted':
+        return language === 'he' ? 'נוסף ל-BlackList' : language === 'ar' ? 'أضيف إلى القائمة السوداء' : 'Added to BlackList';
+    }
+  };
+
+  const filters: { value: TimelineFilter; label: string }[] = [
+    { value: 'all', label: language === 'he' ? 'הכל' : language === 'ar' ? 'الكل' : 'All' },
+    { value: 'campaigns', label: language === 'he' ? 'קמפיינים' : language === 'ar' ? 'الحملات' : 'Campaigns' },
+    { value: 'groups', label: language === 'he' ? 'קבוצות' : language === 'ar' ? 'المجموعات' : 'Groups' },
+    { value: 'messages', label: language === 'he' ? 'הודעות' : language === 'ar' ? 'الرسائل' : 'Messages' },
+    { value: 'flows', label: language === 'he' ? 'אוטומציות' : language === 'ar' ? 'الأتمتة' : 'Flows' },
+  ];
+
+  const events = (timeline?.events || []).filter(event =>
+    filter === 'all' || EVENT_STYLES[event.type].filter === filter
+  );
+
+  const displayName = name || timeline?.contact?.name || timeline?.phoneNumber || phoneNumber || '';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            {displayName}
+          </DialogTitle>
+          <DialogDescription dir="ltr" className="text-start">
+            {timeline?.phoneNumber || phoneNumber}
+            {timeline && !timeline.contact && (
+              <span className="ml-2 text-xs">
+                ({language === 'he' ? 'לא שמור באנשי הקשר' : language === 'ar' ? 'غير محفوظ في جهات الاتصال' : 'not saved in contacts'})
+              </span>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-1.5">
+          {filters.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setFilter(option.value)}
+              className={cn(
+                'text-xs px-3 py-1 rounded-full border transition-colors',
+                filter === option.value ? 'bg-primary text-primary-foreground border-primary' : 'bg-background hover:bg-accent'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto pr-1">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : events.length === 0 ? (
+            <div className="text-center p-8 text-muted-foreground">
+              <p className="text-sm">
+                {language === 'he' ? 'אין פעילות להצגה' : language === 'ar' ? 'لا يوجد نشاط لعرضه' : 'No activity to show'}
+              </p>
+            </div>
+          ) : (
+            <ol className="relative border-s border-border ms-4 space-y-4 py-2">
+              {events.map(event => {
+                const style = EVENT_STYLES[event.type];
+                const Icon = style.icon;
+                return (
+                  <li key={event.id} className="ms-6">
+                    <span className={cn('absolute -start-3.5 flex h-7 w-7 items-center justify-center rounded-full ring-4 ring-background', style.className)}>
+                      <Icon className="h-3.5 w-3.5" />
+                    </span>
+                    <div className="flex flex-wrap items-baseline justify-between gap-x-3">
+                      <p className="text-sm font-medium">{describeEvent(event)}</p>
+                      <time className="text-xs text-muted-foreground">
+                        {event.timestamp ? new Date(event.timestamp).toLocaleString(language) : '—'}
+                      </time>
+                    </div>
+                    {(event.accountName || event.status) && (
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        {[event.accountName, event.status].filter(Boolean).join(' • ')}
+                      </p>
+                    )}
+                    {event.text && (
+                      <p className="text-xs mt-1 p-2 rounded-md bg-muted/50 whitespace-pre-wrap break-words line-clamp-4">
+                        {event.text}
+                      </p>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
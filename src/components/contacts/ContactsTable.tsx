@@ -1,6 +1,6 @@
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Trash2, Tag, User, Phone } from 'lucide-react';
+import { Trash2, Tag, User, Phone, History } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
 import { useLanguage } from '@/contexts/LanguageContext';
 import type { Contact, CustomField } from '@/types';
@@ -22,6 +22,7 @@ interface ContactsTableProps {
   onToggleSelectAll?: () => void;
   onDelete: (id: string) => void;
   onManageTags: (contact: Contact) => void;
+  onShowTimeline?: (contact: Contact) => void;
 }
 
 export default function ContactsTable({ 
@@ -31,7 +32,8 @@ export default function ContactsTable({
   onToggleSelect, 
   onToggleSelectAll,
   onDelete, 
-  onManageTags 
+  onManageTags,
+  onShowTimeline
 }: ContactsTableProps) {
   const { t, language } = useLanguage();
   const totalColumns = 5 + customFields.length; // +1 for checkbox column
@@ -161,6 +163,17 @@ export default function ContactsTable({
                 ))}
                 <TableCell className={language === 'rtl' ? 'text-left' : 'text-right'}>
                   <div className={`flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity ${language === 'rtl' ? 'justify-start' : 'justify-end'}`}>
+                    {onShowTimeline && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0 hover:bg-primary/10 hover:text-primary"
+                        onClick={() => onShowTimeline(contact)}
+                        title={language === 'he' ? 'היסטוריית פעילות' : language === 'ar' ? 'سجل النشاط' : 'Activity history'}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                    )}
                     <Button
                       size="sm"
                       variant="ghost"
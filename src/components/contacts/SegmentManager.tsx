@@ -0,0 +1,445 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, Trash2, Pencil, Filter, Users } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
+import type { Campaign, ContactSegment, CustomField, SegmentRule, SegmentRules, Tag } from '@/types';
+
+interface SegmentManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tags: Tag[];
+  customFields: CustomField[];
+}
+
+const EMPTY_RULES: SegmentRules = { match: 'all', rules: [] };
+
+const selectClassName = 'h-9 px-2 rounded-md border border-input bg-background text-sm';
+
+function createRule(type: SegmentRule['type']): SegmentRule {
+  switch (type) {
+    case 'tags_include':
+    case 'tags_exclude':
+      return { type, tagIds: [] };
+    case 'custom_field':
+      return { type, field: '', operator: 'equals', value: '' };
+    case 'created_at':
+      return { type, from: '', to: '' };
+    case 'replied_within_days':
+      return { type, days: 30 };
+    case 'never_messaged':
+      return { type };
+    case 'campaign_outcome':
+      return { type, outcome: 'failed', campaignId: '' };
+  }
+}
+
+export default function SegmentManager({ open, onOpenChange, tags, customFields }: SegmentManagerProps) {
+  const { language } = useLanguage();
+  const [segments, setSegments] = useState<ContactSegment[]>([]);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [name, setName] = useState('');
+  const [rules, setRules] = useState<SegmentRules>(EMPTY_RULES);
+  const [previewCount, setPreviewCount] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const selectableTags = tags.filter(tag => tag.name !== 'BlackList');
+
+  useEffect(() => {
+    if (open) {
+      loadSegments();
+      loadCampaigns();
+    }
+  }, [open]);
+
+  // Live audience size while editing
+  useEffect(() => {
+    if (!showEditor) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        const preview = await window.electron.segments.preview(rules);
+        setPreviewCount(preview.count);
+      } catch (error) {
+        console.error('Failed to preview segment:', error);
+        setPreviewCount(null);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [rules, showEditor]);
+
+  const loadSegments = async () => {
+    try {
+      const data = await window.electron.segments.getAll();
+      setSegments(data);
+    } catch (error) {
+      console.error('Failed to load segments:', error);
+    }
+  };
+
+  const loadCampaigns = async () => {
+    try {
+      const data = await window.electron.campaigns.getAll();
+      setCampaigns(data.filter(campaign => (campaign.campaign_type || 'message') === 'message'));
+    } catch (error) {
+      console.error('Failed to load campaigns:', error);
+    }
+  };
+
+  const openEditor = (segment?: ContactSegment) => {
+    setEditingId(segment?.id || null);
+    setName(segment?.name || '');
+    setRules(segment?.rules || EMPTY_RULES);
+    setPreviewCount(null);
+    setShowEditor(true);
+  };
+
+  const updateRule = (index: number, rule: SegmentRule) => {
+    setRules(prev => ({ ...prev, rules: prev.rules.map((existing, i) => (i === index ? rule : existing)) }));
+  };
+
+  const removeRule = (index: number) => {
+    setRules(prev => ({ ...prev, rules: prev.rules.filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.warning(language === 'he' ? 'נא להזין שם לסגמנט' : language === 'ar' ? 'الرجاء إدخال اسم للشريحة' : 'Please enter a segment name');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editingId) {
+        await window.electron.segments.update(editingId, { name: name.trim(), rules });
+      } else {
+        await window.electron.segments.create({ name: name.trim(), rules });
+      }
+      setShowEditor(false);
+      loadSegments();
+      toast.success(language === 'he' ? 'הסגמנט נשמר' : language === 'ar' ? 'تم حفظ الشريحة' : 'Segment saved');
+    } catch (error) {
+      console.error('Failed to save segment:', error);
+      toast.error(language === 'he' ? 'שגיאה בשמירת הסגמנט' : language === 'ar' ? 'خطأ في حفظ الشريحة' : 'Failed to save segment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (segment: ContactSegment) => {
+    const confirmed = confirm(language === 'he'
+      ? `למחוק את הסגמנט "${segment.name}"? קמפיינים שמשתמשים בו ישמרו את אנשי הקשר הנוכחיים.`
+      : language === 'ar'
+      ? `حذف الشريحة "${segment.name}"؟ ستحتفظ الحملات التي تستخدمها بجهات الاتصال الحالية.`
+      : `Delete segment "${segment.name}"? Campaigns using it keep their current contacts.`);
+    if (!confirmed) return;
+
+    try {
+      await window.electron.segments.delete(segment.id);
+      loadSegments();
+      toast.success(language === 'he' ? 'הסגמנט נמחק' : language === 'ar' ? 'تم حذف الشريحة' : 'Segment deleted');
+    } catch (error) {
+      console.error('Failed to delete segment:', error);
+      toast.error(language === 'he' ? 'שגיאה במחיקה' : language === 'ar' ? 'خطأ في الحذف' : 'Failed to delete');
+    }
+  };
+
+  const ruleTypeLabels: Record<SegmentRule['type'], string> = {
+    tags_include: language === 'he' ? 'יש תגית' : language === 'ar' ? 'لديه وسم' : 'Has tag',
+    tags_exclude: language === 'he' ? 'אין תגית' : language === 'ar' ? 'ليس لديه وسم' : 'Does not have tag',
+    custom_field: language === 'he' ? 'שדה מותאם' : language === 'ar' ? 'حقل مخصص' : 'Custom field',
+    created_at: language === 'he' ? 'תאריך הוספה' : language === 'ar' ? 'تاريخ الإضافة' : 'Added between',
+    replied_within_days: language === 'he' ? 'הגיב בימים האחרונים' : language === 'ar' ? 'رد خلال الأيام الأخيرة' : 'Replied in last N days',
+    never_messaged: language === 'he' ? 'מעולם לא קיבל הודעה' : language === 'ar' ? 'لم يتلق رسالة أبداً' : 'Never messaged',
+    campaign_outcome: language === 'he' ? 'תוצאת קמפיין' : language === 'ar' ? 'نتيجة الحملة' : 'Campaign outcome',
+  };
+
+  const renderTagPicker = (rule: Extract<SegmentRule, { tagIds: string[] }>, index: number) => (
+    <div className="flex flex-wrap gap-1.5">
+      {selectableTags.map(tag => {
+        const selected = rule.tagIds.includes(tag.id);
+        return (
+          <button
+            key={tag.id}
+            type="button"
+            onClick={() => updateRule(index, {
+              ...rule,
+              tagIds: selected ? rule.tagIds.filter(id => id !== tag.id) : [...rule.tagIds, tag.id]
+            })}
+            className={`text-xs px-2 py-1 rounded-full border transition-colors ${selected ? 'bg-primary text-primary-foreground border-primary' : 'bg-background hover:bg-accent'}`}
+          >
+            {tag.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  const renderRuleFields = (rule: SegmentRule, index: number) => {
+    switch (rule.type) {
+      case 'tags_include':
+      case 'tags_exclude':
+        return renderTagPicker(rule, index);
+
+      case 'custom_field':
+        return (
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={rule.field}
+              onChange={(e) => updateRule(index, { ...rule, field: e.target.value })}
+              className={selectClassName}
+            >
+              <option value="">{language === 'he' ? 'בחר שדה' : language === 'ar' ? 'اختر حقلاً' : 'Select field'}</option>
+              {customFields.map(field => (
+                <option key={field.id} value={field.name}>{field.label}</option>
+              ))}
+            </select>
+            <select
+              value={rule.operator}
+              onChange={(e) => updateRule(index, { ...rule, operator: e.target.value as typeof rule.operator })}
+              className={selectClassName}
+            >
+              <option value="equals">=</option>
+              <option value="not_equals">≠</option>
+              <option value="contains">{language === 'he' ? 'מכיל' : language === 'ar' ? 'يحتوي' : 'contains'}</option>
+              <option value="not_contains">{language === 'he' ? 'לא מכיל' : language === 'ar' ? 'لا يحتوي' : 'does not contain'}</option>
+              <option value="is_empty">{language === 'he' ? 'ריק' : language === 'ar' ? 'فارغ' : 'is empty'}</option>
+              <option value="is_not_empty">{language === 'he' ? 'לא ריק' : language === 'ar' ? 'غير فارغ' : 'is not empty'}</option>
+              <option value="greater_than">&gt;</option>
+              <option value="less_than">&lt;</option>
+            </select>
+            {rule.operator !== 'is_empty' && rule.operator !== 'is_not_empty' && (
+              <Input
+                value={rule.value || ''}
+                onChange={(e) => updateRule(index, { ...rule, value: e.target.value })}
+                className="h-9 w-40"
+              />
+            )}
+          </div>
+        );
+
+      case 'created_at':
+        return (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Input
+              type="date"
+              value={rule.from || ''}
+              onChange={(e) => updateRule(index, { ...rule, from: e.target.value })}
+              className="h-9 w-40"
+            />
+            <span className="text-muted-foreground">–</span>
+            <Input
+              type="date"
+              value={rule.to || ''}
+              onChange={(e) => updateRule(index, { ...rule, to: e.target.value })}
+              className="h-9 w-40"
+            />
+          </div>
+        );
+
+      case 'replied_within_days':
+        return (
+          <div className="flex items-center gap-2 text-sm">
+            <Input
+              type="number"
+              min={1}
+              value={rule.days}
+              onChange={(e) => updateRule(index, { ...rule, days: parseInt(e.target.value) || 1 })}
+              className="h-9 w-24"
+            />
+            <span className="text-muted-foreground">{language === 'he' ? 'ימים' : language === 'ar' ? 'أيام' : 'days'}</span>
+          </div>
+        );
+
+      case 'never_messaged':
+        return (
+          <p className="text-xs text-muted-foreground">
+            {language === 'he'
+              ? 'לא נשלחה אליו הודעת קמפיין ולא הודעה מתיבת הדואר'
+              : language === 'ar'
+              ? 'لم تُرسل إليه رسالة حملة أو رسالة من صندوق الوارد'
+              : 'No campaign message and no Inbox message was ever sent to this contact'}
+          </p>
+        );
+
+      case 'campaign_outcome':
+        return (
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={rule.outcome}
+              onChange={(e) => updateRule(index, { ...rule, outcome: e.target.value as typeof rule.outcome })}
+              className={selectClassName}
+            >
+              <option value="sent">{language === 'he' ? 'נשלח' : language === 'ar' ? 'تم الإرسال' : 'Sent'}</option>
+              <option value="read">{language === 'he' ? 'נקרא' : language === 'ar' ? 'مقروءة' : 'Read'}</option>
+              <option value="replied">{language === 'he' ? 'הגיב' : language === 'ar' ? 'رد' : 'Replied'}</option>
+              <option value="failed">{language === 'he' ? 'נכשל' : language === 'ar' ? 'فشل' : 'Failed'}</option>
+              <option value="not_registered">{language === 'he' ? 'לא רשום בוואטסאפ' : language === 'ar' ? 'غير مسجل في واتساب' : 'Not on WhatsApp'}</option>
+            </select>
+            <select
+              value={rule.campaignId || ''}
+              onChange={(e) => updateRule(index, { ...rule, campaignId: e.target.value })}
+              className={selectClassName}
+            >
+              <option value="">{language === 'he' ? 'בכל קמפיין' : language === 'ar' ? 'في أي حملة' : 'In any campaign'}</option>
+              {campaigns.map(campaign => (
+                <option key={campaign.id} value={campaign.id}>{campaign.name}</option>
+              ))}
+            </select>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {language === 'he' ? 'סגמנטים' : language === 'ar' ? 'الشرائح' : 'Segments'}
+          </DialogTitle>
+          <DialogDescription>
+            {language === 'he'
+              ? 'קהלים שמורים לפי כללים. קמפיין שמשתמש בסגמנט מחשב את אנשי הקשר מחדש בזמן ההפעלה.'
+              : language === 'ar'
+              ? 'جماهير محفوظة حسب القواعد. الحملة التي تستخدم شريحة تحسب جهات الاتصال عند بدء التشغيل.'
+              : 'Saved rule-based audiences. Campaigns targeting a segment resolve its contacts when they start.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {showEditor ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>{language === 'he' ? 'שם הסגמנט' : language === 'ar' ? 'اسم الشريحة' : 'Segment name'}</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+
+            <div className="flex items-center gap-2 text-sm">
+              <span>{language === 'he' ? 'התאם' : language === 'ar' ? 'مطابقة' : 'Match'}</span>
+              <select
+                value={rules.match}
+                onChange={(e) => setRules({ ...rules, match: e.target.value as SegmentRules['match'] })}
+                className={selectClassName}
+              >
+                <option value="all">{language === 'he' ? 'את כל הכללים' : language === 'ar' ? 'كل القواعد' : 'all rules'}</option>
+                <option value="any">{language === 'he' ? 'לפחות כלל אחד' : language === 'ar' ? 'أي قاعدة' : 'any rule'}</option>
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              {rules.rules.map((rule, index) => (
+                <div key={index} className="p-3 border rounded-lg space-y-2 bg-muted/30">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">{ruleTypeLabels[rule.type]}</span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => removeRule(index)}
+                      className="h-7 text-destructive hover:text-destructive hover:bg-destructive/10"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {renderRuleFields(rule, index)}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <select
+                value=""
+                onChange={(e) => {
+                  if (!e.target.value) return;
+                  const type = e.target.value as SegmentRule['type'];
+                  setRules(prev => ({ ...prev, rules: [...prev.rules, createRule(type)] }));
+                }}
+                className={selectClassName}
+              >
+                <option value="">{language === 'he' ? '+ הוסף כלל' : language === 'ar' ? '+ إضافة قاعدة' : '+ Add rule'}</option>
+                {(Object.keys(ruleTypeLabels) as SegmentRule['type'][]).map(type => (
+                  <option key={type} value={type}>{ruleTypeLabels[type]}</option>
+                ))}
+              </select>
+              <div className="flex-1" />
+              <span className="text-sm text-muted-foreground flex items-center gap-1.5">
+                <Users className="h-4 w-4" />
+                {previewCount === null ? '…' : previewCount}{' '}
+                {language === 'he' ? 'אנשי קשר' : language === 'ar' ? 'جهة اتصال' : 'contacts'}
+              </span>
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={saving} className="flex-1">
+                {language === 'he' ? 'שמור סגמנט' : language === 'ar' ? 'حفظ الشريحة' : 'Save Segment'}
+              </Button>
+              <Button variant="outline" onClick={() => setShowEditor(false)}>
+                {language === 'he' ? 'ביטול' : language === 'ar' ? 'إلغاء' : 'Cancel'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label className="text-base font-medium">
+                {language === 'he' ? 'סגמנטים שמורים' : language === 'ar' ? 'الشرائح المحفوظة' : 'Saved Segments'}
+              </Label>
+              <Button size="sm" onClick={() => openEditor()} className="gap-2">
+                <Plus className="h-4 w-4" />
+                {language === 'he' ? 'סגמנט חדש' : language === 'ar' ? 'شريحة جديدة' : 'New Segment'}
+              </Button>
+            </div>
+
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {segments.length === 0 ? (
+                <div className="text-center p-8 text-muted-foreground">
+                  <p className="text-sm">
+                    {language === 'he' ? 'עדיין אין סגמנטים.' : language === 'ar' ? 'لا توجد شرائح حتى الآن.' : 'No segments yet.'}
+                  </p>
+                </div>
+              ) : (
+                segments.map(segment => (
+                  <div
+                    key={segment.id}
+                    className="flex items-center gap-3 p-3 border rounded-lg hover:bg-accent/50 transition-colors"
+                  >
+                    <Filter className="h-5 w-5 text-muted-foreground" />
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium truncate">{segment.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {segment.rules.rules.map(rule => ruleTypeLabels[rule.type]).join(segment.rules.match === 'any' ? ' / ' : ' + ') || (language === 'he' ? 'כל אנשי הקשר' : language === 'ar' ? 'كل جهات الاتصال' : 'All contacts')}
+                      </div>
+                    </div>
+                    <span className="text-xs bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 px-2 py-0.5 rounded">
+                      {segment.contact_count ?? 0}
+                    </span>
+                    <Button size="sm" variant="ghost" onClick={() => openEditor(segment)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDelete(segment)}
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <Button onClick={() => onOpenChange(false)} className="w-full">
+              {language === 'he' ? 'סגור' : language === 'ar' ? 'إغلاق' : 'Close'}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
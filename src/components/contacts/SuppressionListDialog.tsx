@@ -0,0 +1,235 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Ban, Plus, Trash2, Upload, Download, Search } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import type { Suppression, SuppressionSource } from '@/types';
+
+interface SuppressionListDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChanged?: () => void;
+}
+
+const SOURCE_STYLES: Record<SuppressionSource, string> = {
+  manual: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+  keyword: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  flow: 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400',
+  import: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+};
+
+export default function SuppressionListDialog({ open, onOpenChange, onChanged }: SuppressionListDialogProps) {
+  const { language } = useLanguage();
+  const [suppressions, setSuppressions] = useState<Suppression[]>([]);
+  const [search, setSearch] = useState('');
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const timeout = setTimeout(() => loadSuppressions(search), 250);
+    return () => clearTimeout(timeout);
+  }, [open, search]);
+
+  const loadSuppressions = async (term: string) => {
+    setLoading(true);
+    try {
+      const data = await window.electron.suppressions.getAll(term);
+      setSuppressions(data);
+    } catch (error) {
+      console.error('Failed to load suppression list:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refresh = () => {
+    loadSuppressions(search);
+    onChanged?.();
+  };
+
+  const sourceLabel = (source: SuppressionSource) => {
+    switch (source) {
+      case 'manual':
+        return language === 'he' ? 'ידני' : language === 'ar' ? 'يدوي' : 'Manual';
+      case 'keyword':
+        return language === 'he' ? 'מילת הסרה' : language === 'ar' ? 'كلمة إيقاف' : 'STOP keyword';
+      case 'flow':
+        return language === 'he' ? 'אוטומציה' : language === 'ar' ? 'أتمتة' : 'Flow';
+      case 'import':
+        return language === 'he' ? 'ייבוא' : language === 'ar' ? 'استيراد' : 'Import';
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!phoneNumber.trim()) return;
+
+    setBusy(true);
+    try {
+      await window.electron.suppressions.add(phoneNumber.trim(), reason.trim() || undefined);
+      setPhoneNumber('');
+      setReason('');
+      refresh();
+      toast.success(language === 'he' ? 'המספר נוסף לרשימת ההסרה' : language === 'ar' ? 'تمت إضافة الرقم إلى قائمة الحظر' : 'Number added to the suppression list');
+    } catch (error) {
+      console.error('Failed to add suppression:', error);
+      toast.error(language === 'he' ? 'מספר לא תקין' : language === 'ar' ? 'رقم غير صالح' : 'Invalid phone number');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async (suppression: Suppression) => {
+    const confirmed = confirm(language === 'he'
+      ? `להסיר את ${suppression.phone_number} מרשימת ההסרה? קמפיינים יוכלו לשלוח אליו שוב.`
+      : language === 'ar'
+      ? `إزالة ${suppression.phone_number} من قائمة الحظر؟ ستتمكن الحملات من مراسلته مرة أخرى.`
+      : `Remove ${suppression.phone_number} from the suppression list? Campaigns will be able to message it again.`);
+    if (!confirmed) return;
+
+    try {
+      await window.electron.suppressions.remove(suppression.id);
+      refresh();
+    } catch (error) {
+      console.error('Failed to remove suppression:', error);
+      toast.error(language === 'he' ? 'שגיאה בהסרה' : language === 'ar' ? 'خطأ في الإزالة' : 'Failed to remove');
+    }
+  };
+
+  const handleImport = async () => {
+    setBusy(true);
+    try {
+      const result = await window.electron.suppressions.import();
+      if (!result) return;
+      refresh();
+      toast.success(language === 'he'
+        ? `יובאו ${result.imported} מספרים (${result.skipped} דולגו)`
+        : language === 'ar'
+        ? `تم استيراد ${result.imported} رقمًا (تم تخطي ${result.skipped})`
+        : `Imported ${result.imported} numbers (${result.skipped} skipped)`);
+    } catch (error) {
+      console.error('Failed to import suppression list:', error);
+      toast.error(language === 'he' ? 'שגיאה בייבוא הקובץ' : language === 'ar' ? 'خطأ في استيراد الملف' : 'Failed to import file');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const filePath = await window.electron.suppressions.export();
+      if (filePath) {
+        toast.success(language === 'he' ? 'הרשימה יוצאה בהצלחה' : language === 'ar' ? 'تم تصدير القائمة بنجاح' : 'List exported successfully');
+      }
+    } catch (error) {
+      console.error('Failed to export suppression list:', error);
+      toast.error(language === 'he' ? 'שגיאה בייצוא' : language === 'ar' ? 'خطأ في التصدير' : 'Failed to export');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Ban className="h-5 w-5 text-red-600" />
+            {language === 'he' ? 'רשימת הסרה (BlackList)' : language === 'ar' ? 'قائمة الحظر (BlackList)' : 'Suppression List (BlackList)'}
+          </DialogTitle>
+          <DialogDescription>
+            {language === 'he'
+              ? 'מספרים ברשימה לא יקבלו הודעות קמפיין ולא יתווספו לקבוצות מאף חשבון'
+              : language === 'ar'
+              ? 'الأرقام في القائمة لن تتلقى رسائل الحملات ولن تتم إضافتها إلى المجموعات من أي حساب'
+              : 'Numbers on this list never get campaign messages or group adds, from any account'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          <Input
+            value={phoneNumber}
+            onChange={(e) => setPhoneNumber(e.target.value)}
+            placeholder={language === 'he' ? 'מספר טלפון או מזהה קבוצה' : language === 'ar' ? 'رقم الهاتف أو معرف المجموعة' : 'Phone number or group id'}
+            className="flex-1 min-w-[180px]"
+            dir="ltr"
+          />
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={language === 'he' ? 'סיבה (אופציונלי)' : language === 'ar' ? 'السبب (اختياري)' : 'Reason (optional)'}
+            className="flex-1 min-w-[180px]"
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          />
+          <Button onClick={handleAdd} disabled={busy || !phoneNumber.trim()} className="gap-1">
+            <Plus className="h-4 w-4" />
+            {language === 'he' ? 'הוסף' : language === 'ar' ? 'إضافة' : 'Add'}
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="relative flex-1 min-w-[180px]">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={language === 'he' ? 'חיפוש...' : language === 'ar' ? 'بحث...' : 'Search...'}
+              className="pl-8"
+            />
+          </div>
+          <Button variant="outline" onClick={handleImport} disabled={busy} className="gap-1">
+            <Upload className="h-4 w-4" />
+            {language === 'he' ? 'ייבוא' : language === 'ar' ? 'استيراد' : 'Import'}
+          </Button>
+          <Button variant="outline" onClick={handleExport} className="gap-1">
+            <Download className="h-4 w-4" />
+            {language === 'he' ? 'ייצוא' : language === 'ar' ? 'تصدير' : 'Export'}
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto border rounded-md">
+          {loading && suppressions.length === 0 ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : suppressions.length === 0 ? (
+            <div className="text-center p-8 text-muted-foreground text-sm">
+              {language === 'he' ? 'הרשימה ריקה' : language === 'ar' ? 'القائمة فارغة' : 'The list is empty'}
+            </div>
+          ) : (
+            <div className="divide-y">
+              {suppressions.map(suppression => (
+                <div key={suppression.id} className="flex items-center gap-3 p-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-mono text-sm" dir="ltr">{suppression.phone_number}</span>
+                      {suppression.name && <span className="text-sm text-muted-foreground">{suppression.name}</span>}
+                      <Badge variant="outline" className={cn('border-0 text-xs', SOURCE_STYLES[suppression.source] || SOURCE_STYLES.manual)}>
+                        {sourceLabel(suppression.source) || suppression.source}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-0.5 truncate">
+                      {[
+                        suppression.reason,
+                        suppression.account_name,
+                        suppression.created_at ? new Date(suppression.created_at).toLocaleString(language) : null
+                      ].filter(Boolean).join(' • ')}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => handleRemove(suppression)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
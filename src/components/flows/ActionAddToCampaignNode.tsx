@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { Handle, Position, useReactFlow } from 'reactflow';
+import { Select } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { Megaphone } from 'lucide-react';
+import type { Campaign } from '@/types';
+
+export default function ActionAddToCampaignNode({ id, data, isConnectable }: any) {
+  const { t } = useLanguage();
+  const { setNodes } = useReactFlow();
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+
+  useEffect(() => {
+    window.electron.campaigns.getAll()
+      .then((all) => setCampaigns(all.filter((campaign) => campaign.status !== 'completed' && campaign.status !== 'stopped')))
+      .catch((error) => console.error('Failed to load campaigns:', error));
+  }, []);
+
+  const updateData = (newData: any) => {
+    setNodes((nds) =>
+      nds.map((node) => {
+        if (node.id === id) {
+          return {
+            ...node,
+            data: { ...node.data, ...newData }
+          };
+        }
+        return node;
+      })
+    );
+  };
+
+  const handleInputInteraction = (e: React.MouseEvent | React.PointerEvent | React.TouchEvent) => {
+    e.stopPropagation();
+  };
+
+  return (
+    <Card className="w-[240px] border-0 shadow-md rounded-md overflow-hidden ring-1 ring-slate-200 dark:ring-slate-700 bg-white dark:bg-slate-900">
+      <div className="absolute top-0 left-0 w-full h-[2px] bg-orange-500" />
+      <Handle type="target" position={Position.Top} isConnectable={isConnectable} className="!bg-orange-500 !w-2 !h-2 !border !border-white" />
+
+      <CardHeader className="p-2 pb-1.5 bg-orange-50/50 dark:bg-orange-900/10 border-b border-orange-100 dark:border-orange-900/20">
+        <CardTitle className="text-xs font-semibold flex items-center gap-1.5 text-orange-700 dark:text-orange-300">
+          <Megaphone className="h-3 w-3" />
+          {t('flows.addToCampaign')}
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="p-2 space-y-1.5">
+        <div
+          className="nodrag nopan nowheel space-y-1.5"
+          onMouseDown={handleInputInteraction}
+          onPointerDown={handleInputInteraction}
+          onTouchStart={handleInputInteraction}
+        >
+          <Select
+            value={data.campaignId || ''}
+            onChange={(e) => updateData({ campaignId: e.target.value })}
+            className="text-xs !h-7 !py-0 bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-orange-500"
+          >
+            <option value="">{t('flows.selectCampaign')}</option>
+            {campaigns.map((campaign) => (
+              <option key={campaign.id} value={campaign.id}>{campaign.name}</option>
+            ))}
+          </Select>
+        </div>
+
+        <div className="pt-2 flex justify-center pb-1">
+          <Handle
+            type="source"
+            position={Position.Bottom}
+            isConnectable={isConnectable}
+            className="!bg-orange-500 !w-2 !h-2 !border !border-white"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { Handle, Position, useReactFlow } from 'reactflow';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { TextCursorInput } from 'lucide-react';
+import type { CustomField } from '@/types';
+
+export default function ActionCaptureReplyNode({ id, data, isConnectable }: any) {
+  const { t } = useLanguage();
+  const { setNodes } = useReactFlow();
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+
+  useEffect(() => {
+    window.electron.customFields.getAll()
+      .then(setCustomFields)
+      .catch((error) => console.error('Failed to load custom fields:', error));
+  }, []);
+
+  const updateData = (newData: any) => {
+    setNodes((nds) =>
+      nds.map((node) => {
+        if (node.id === id) {
+          return {
+            ...node,
+            data: { ...node.data, ...newData }
+          };
+        }
+        return node;
+      })
+    );
+  };
+
+  const handleInputInteraction = (e: React.MouseEvent | React.PointerEvent | React.TouchEvent) => {
+    e.stopPropagation();
+  };
+
+  const mode = data.mode || 'reply';
+  const target = data.target || 'variable';
+
+  return (
+    <Card className="w-[260px] border-0 shadow-md rounded-md overflow-hidden ring-1 ring-slate-200 dark:ring-slate-700 bg-white dark:bg-slate-900">
+      <div className="absolute top-0 left-0 w-full h-[2px] bg-indigo-500" />
+      <Handle type="target" position={Position.Top} isConnectable={isConnectable} className="!bg-indigo-500 !w-2 !h-2 !border !border-white" />
+
+      <CardHeader className="p-2 pb-1.5 bg-indigo-50/50 dark:bg-indigo-900/10 border-b border-indigo-100 dark:border-indigo-900/20">
+        <CardTitle className="text-xs font-semibold flex items-center gap-1.5 text-indigo-700 dark:text-indigo-300">
+          <TextCursorInput className="h-3 w-3" />
+          {t('flows.captureReply')}
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="p-2 space-y-1.5">
+        <div
+          className="nodrag nopan nowheel space-y-1.5"
+          onMouseDown={handleInputInteraction}
+          onPointerDown={handleInputInteraction}
+          onTouchStart={handleInputInteraction}
+        >
+          <div>
+            <Label className="text-[8px] uppercase text-muted-foreground font-semibold mb-0.5 block">{t('flows.captureWhat')}</Label>
+            <Select
+              value={mode}
+              onChange={(e) => updateData({ mode: e.target.value })}
+              className="text-xs !h-7 !py-0 bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-indigo-500"
+            >
+              <option value="reply">{t('flows.captureWholeReply')}</option>
+              <option value="regex">{t('flows.captureRegex')}</option>
+            </Select>
+          </div>
+
+          {mode === 'regex' && (
+            <Input
+              value={data.pattern || ''}
+              onChange={(e) => updateData({ pattern: e.target.value })}
+              placeholder="(\d+)"
+              dir="ltr"
+              className="text-xs h-7 font-mono bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-indigo-500"
+            />
+          )}
+
+          <div>
+            <Label className="text-[8px] uppercase text-muted-foreground font-semibold mb-0.5 block">{t('flows.captureSaveTo')}</Label>
+            <Select
+              value={target}
+              onChange={(e) => updateData({ target: e.target.value })}
+              className="text-xs !h-7 !py-0 bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-indigo-500"
+            >
+              <option value="variable">{t('flows.saveToVariable')}</option>
+              <option value="field">{t('flows.saveToContactField')}</option>
+            </Select>
+          </div>
+
+          {target === 'field' ? (
+            <Select
+              value={data.fieldName || ''}
+              onChange={(e) => updateData({ fieldName: e.target.value })}
+              className="text-xs !h-7 !py-0 bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-indigo-500"
+            >
+              <option value="">{t('flows.selectField')}</option>
+              {customFields.map((field) => (
+                <option key={field.id} value={field.name}>{field.label}</option>
+              ))}
+            </Select>
+          ) : (
+            <Input
+              value={data.variableName || ''}
+              onChange={(e) => updateData({ variableName: e.target.value })}
+              placeholder={t('flows.variableName')}
+              dir="ltr"
+              className="text-xs h-7 bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-indigo-500"
+            />
+          )}
+
+          {(target === 'field' ? data.fieldName : data.variableName) && (
+            <p className="text-[9px] text-muted-foreground" dir="ltr">
+              {`{{${((target === 'field' ? data.fieldName : data.variableName) as string).trim().replace(/\s+/g, '_')}}}`}
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-between items-center pt-2 relative">
+          <div className="flex flex-col items-center">
+            <span className="text-[8px] font-semibold uppercase text-green-600 dark:text-green-400 mb-0.5 bg-green-50 dark:bg-green-900/20 px-1 py-[1px] rounded-full">
+              {t('flows.captured')}
+            </span>
+            <Handle
+              type="source"
+              position={Position.Bottom}
+              id="yes"
+              style={{ left: '25%', bottom: '-6px' }}
+              isConnectable={isConnectable}
+              className="!bg-green-500 !w-2 !h-2 !border !border-white"
+            />
+          </div>
+
+          <div className="flex flex-col items-center">
+            <span className="text-[8px] font-semibold uppercase text-red-600 dark:text-red-400 mb-0.5 bg-red-50 dark:bg-red-900/20 px-1 py-[1px] rounded-full">
+              {t('flows.noMatch')}
+            </span>
+            <Handle
+              type="source"
+              position={Position.Bottom}
+              id="no"
+              style={{ left: '75%', bottom: '-6px' }}
+              isConnectable={isConnectable}
+              className="!bg-red-500 !w-2 !h-2 !border !border-white"
+            />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,73 @@
+import { Handle, Position, useReactFlow } from 'reactflow';
+import { Select } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { CheckCheck } from 'lucide-react';
+
+// Nodes saved before the open/pending/closed lifecycle
+const LEGACY_STATUSES: Record<string, string> = { handled: 'closed', unhandled: 'open' };
+
+export default function ActionSetChatStatusNode({ id, data, isConnectable }: any) {
+  const { t } = useLanguage();
+  const { setNodes } = useReactFlow();
+
+  const updateData = (newData: any) => {
+    setNodes((nds) =>
+      nds.map((node) => {
+        if (node.id === id) {
+          return {
+            ...node,
+            data: { ...node.data, ...newData }
+          };
+        }
+        return node;
+      })
+    );
+  };
+
+  const handleInputInteraction = (e: React.MouseEvent | React.PointerEvent | React.TouchEvent) => {
+    e.stopPropagation();
+  };
+
+  return (
+    <Card className="w-[200px] border-0 shadow-md rounded-md overflow-hidden ring-1 ring-slate-200 dark:ring-slate-700 bg-white dark:bg-slate-900">
+      <div className="absolute top-0 left-0 w-full h-[2px] bg-teal-500" />
+      <Handle type="target" position={Position.Top} isConnectable={isConnectable} className="!bg-teal-500 !w-2 !h-2 !border !border-white" />
+
+      <CardHeader className="p-2 pb-1.5 bg-teal-50/50 dark:bg-teal-900/10 border-b border-teal-100 dark:border-teal-900/20">
+        <CardTitle className="text-xs font-semibold flex items-center gap-1.5 text-teal-700 dark:text-teal-300">
+          <CheckCheck className="h-3 w-3" />
+          {t('flows.setChatStatus')}
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="p-2 space-y-1.5">
+        <div
+          className="nodrag nopan nowheel space-y-1.5"
+          onMouseDown={handleInputInteraction}
+          onPointerDown={handleInputInteraction}
+          onTouchStart={handleInputInteraction}
+        >
+          <Select
+            value={LEGACY_STATUSES[data.status] || data.status || 'closed'}
+            onChange={(e) => updateData({ status: e.target.value })}
+            className="text-xs !h-7 !py-0 bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-teal-500"
+          >
+            <option value="open">{t('inbox.statusOpen')}</option>
+            <option value="pending">{t('inbox.statusPending')}</option>
+            <option value="closed">{t('inbox.statusClosed')}</option>
+          </Select>
+        </div>
+
+        <div className="pt-2 flex justify-center pb-1">
+          <Handle
+            type="source"
+            position={Position.Bottom}
+            isConnectable={isConnectable}
+            className="!bg-teal-500 !w-2 !h-2 !border !border-white"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { Handle, Position, useReactFlow } from 'reactflow';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { PenLine } from 'lucide-react';
+import type { CustomField } from '@/types';
+
+export default function ActionSetCustomFieldNode({ id, data, isConnectable }: any) {
+  const { t } = useLanguage();
+  const { setNodes } = useReactFlow();
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+
+  useEffect(() => {
+    window.electron.customFields.getAll()
+      .then(setCustomFields)
+      .catch((error) => console.error('Failed to load custom fields:', error));
+  }, []);
+
+  const updateData = (newData: any) => {
+    setNodes((nds) =>
+      nds.map((node) => {
+        if (node.id === id) {
+          return {
+            ...node,
+            data: { ...node.data, ...newData }
+          };
+        }
+        return node;
+      })
+    );
+  };
+
+  const handleInputInteraction = (e: React.MouseEvent | React.PointerEvent | React.TouchEvent) => {
+    e.stopPropagation();
+  };
+
+  return (
+    <Card className="w-[240px] border-0 shadow-md rounded-md overflow-hidden ring-1 ring-slate-200 dark:ring-slate-700 bg-white dark:bg-slate-900">
+      <div className="absolute top-0 left-0 w-full h-[2px] bg-sky-500" />
+      <Handle type="target" position={Position.Top} isConnectable={isConnectable} className="!bg-sky-500 !w-2 !h-2 !border !border-white" />
+
+      <CardHeader className="p-2 pb-1.5 bg-sky-50/50 dark:bg-sky-900/10 border-b border-sky-100 dark:border-sky-900/20">
+        <CardTitle className="text-xs font-semibold flex items-center gap-1.5 text-sky-700 dark:text-sky-300">
+          <PenLine className="h-3 w-3" />
+          {t('flows.setCustomField')}
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="p-2 space-y-1.5">
+        <div
+          className="nodrag nopan nowheel space-y-1.5"
+          onMouseDown={handleInputInteraction}
+          onPointerDown={handleInputInteraction}
+          onTouchStart={handleInputInteraction}
+        >
+          <Select
+            value={data.fieldName || ''}
+            onChange={(e) => updateData({ fieldName: e.target.value })}
+            className="text-xs !h-7 !py-0 bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-sky-500"
+          >
+            <option value="">{t('flows.selectField')}</option>
+            {customFields.map((field) => (
+              <option key={field.id} value={field.name}>{field.label}</option>
+            ))}
+          </Select>
+          <Input
+            value={data.value || ''}
+            onChange={(e) => updateData({ value: e.target.value })}
+            placeholder={t('flows.fieldValuePlaceholder')}
+            className="text-xs h-7 bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-sky-500"
+          />
+        </div>
+
+        <div className="pt-2 flex justify-center pb-1">
+          <Handle
+            type="source"
+            position={Position.Bottom}
+            isConnectable={isConnectable}
+            className="!bg-sky-500 !w-2 !h-2 !border !border-white"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
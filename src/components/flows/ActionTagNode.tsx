@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { Handle, Position, useReactFlow } from 'reactflow';
+import { Select } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { Tag as TagIcon } from 'lucide-react';
+import type { Tag } from '@/types';
+
+export default function ActionTagNode({ id, data, isConnectable, type }: any) {
+  const { t } = useLanguage();
+  const { setNodes } = useReactFlow();
+  const [tags, setTags] = useState<Tag[]>([]);
+  const isRemove = type === 'actionRemoveTag';
+
+  useEffect(() => {
+    window.electron.tags.getAll()
+      .then(setTags)
+      .catch((error) => console.error('Failed to load tags:', error));
+  }, []);
+
+  const updateData = (newData: any) => {
+    setNodes((nds) =>
+      nds.map((node) => {
+        if (node.id === id) {
+          return {
+            ...node,
+            data: { ...node.data, ...newData }
+          };
+        }
+        return node;
+      })
+    );
+  };
+
+  const handleInputInteraction = (e: React.MouseEvent | React.PointerEvent | React.TouchEvent) => {
+    e.stopPropagation();
+  };
+
+  return (
+    <Card className="w-[220px] border-0 shadow-md rounded-md overflow-hidden ring-1 ring-slate-200 dark:ring-slate-700 bg-white dark:bg-slate-900">
+      <div className="absolute top-0 left-0 w-full h-[2px] bg-fuchsia-500" />
+      <Handle type="target" position={Position.Top} isConnectable={isConnectable} className="!bg-fuchsia-500 !w-2 !h-2 !border !border-white" />
+
+      <CardHeader className="p-2 pb-1.5 bg-fuchsia-50/50 dark:bg-fuchsia-900/10 border-b border-fuchsia-100 dark:border-fuchsia-900/20">
+        <CardTitle className="text-xs font-semibold flex items-center gap-1.5 text-fuchsia-700 dark:text-fuchsia-300">
+          <TagIcon className="h-3 w-3" />
+          {isRemove ? t('flows.removeTag') : t('flows.addTag')}
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="p-2 space-y-1.5">
+        <div
+          className="nodrag nopan nowheel space-y-1.5"
+          onMouseDown={handleInputInteraction}
+          onPointerDown={handleInputInteraction}
+          onTouchStart={handleInputInteraction}
+        >
+          <Select
+            value={data.tagId || ''}
+            onChange={(e) => updateData({ tagId: e.target.value })}
+            className="text-xs !h-7 !py-0 bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-fuchsia-500"
+          >
+            <option value="">{t('flows.selectTag')}</option>
+            {tags.map((tag) => (
+              <option key={tag.id} value={tag.id}>{tag.name}</option>
+            ))}
+          </Select>
+        </div>
+
+        <div className="pt-2 flex justify-center pb-1">
+          <Handle
+            type="source"
+            position={Position.Bottom}
+            isConnectable={isConnectable}
+            className="!bg-fuchsia-500 !w-2 !h-2 !border !border-white"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
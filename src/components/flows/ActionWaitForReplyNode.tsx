@@ -0,0 +1,104 @@
+import { Handle, Position, useReactFlow } from 'reactflow';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { Hourglass } from 'lucide-react';
+
+export default function ActionWaitForReplyNode({ id, data, isConnectable }: any) {
+  const { t } = useLanguage();
+  const { setNodes } = useReactFlow();
+
+  const updateData = (newData: any) => {
+    setNodes((nds) =>
+      nds.map((node) => {
+        if (node.id === id) {
+          return {
+            ...node,
+            data: { ...node.data, ...newData }
+          };
+        }
+        return node;
+      })
+    );
+  };
+
+  const handleInputInteraction = (e: React.MouseEvent | React.PointerEvent | React.TouchEvent) => {
+    e.stopPropagation();
+  };
+
+  return (
+    <Card className="w-[240px] border-0 shadow-md rounded-md overflow-hidden ring-1 ring-slate-200 dark:ring-slate-700 bg-white dark:bg-slate-900">
+      <div className="absolute top-0 left-0 w-full h-[2px] bg-violet-500" />
+      <Handle type="target" position={Position.Top} isConnectable={isConnectable} className="!bg-violet-500 !w-2 !h-2 !border !border-white" />
+
+      <CardHeader className="p-2 pb-1.5 bg-violet-50/50 dark:bg-violet-900/10 border-b border-violet-100 dark:border-violet-900/20">
+        <CardTitle className="text-xs font-semibold flex items-center gap-1.5 text-violet-700 dark:text-violet-300">
+          <Hourglass className="h-3 w-3" />
+          {t('flows.waitForReply')}
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="p-2 space-y-1.5">
+        <div
+          className="nodrag nopan nowheel"
+          onMouseDown={handleInputInteraction}
+          onPointerDown={handleInputInteraction}
+          onTouchStart={handleInputInteraction}
+        >
+          <Label className="text-[8px] uppercase text-muted-foreground font-semibold mb-0.5 block">{t('flows.waitTimeout')}</Label>
+          <div className="flex items-center gap-1.5">
+            <Input
+              type="number"
+              min={1}
+              value={data.timeout ?? ''}
+              onChange={(e) => updateData({ timeout: e.target.value })}
+              placeholder="24"
+              className="text-xs h-7 w-[60px] bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-violet-500"
+            />
+            <Select
+              value={data.unit || 'hours'}
+              onChange={(e) => updateData({ unit: e.target.value })}
+              className="text-xs !h-7 !py-0 w-[110px] bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-violet-500"
+            >
+              <option value="minutes">{t('flows.minutes')}</option>
+              <option value="hours">{t('flows.hours')}</option>
+              <option value="days">{t('flows.days')}</option>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex justify-between items-center pt-2 relative">
+          <div className="flex flex-col items-center">
+            <span className="text-[8px] font-semibold uppercase text-green-600 dark:text-green-400 mb-0.5 bg-green-50 dark:bg-green-900/20 px-1 py-[1px] rounded-full">
+              {t('flows.onReply')}
+            </span>
+            <Handle
+              type="source"
+              position={Position.Bottom}
+              id="reply"
+              style={{ left: '25%', bottom: '-6px' }}
+              isConnectable={isConnectable}
+              className="!bg-green-500 !w-2 !h-2 !border !border-white"
+            />
+          </div>
+
+          <div className="flex flex-col items-center">
+            <span className="text-[8px] font-semibold uppercase text-amber-600 dark:text-amber-400 mb-0.5 bg-amber-50 dark:bg-amber-900/20 px-1 py-[1px] rounded-full">
+              {t('flows.onTimeout')}
+            </span>
+            <Handle
+              type="source"
+              position={Position.Bottom}
+              id="timeout"
+              style={{ left: '75%', bottom: '-6px' }}
+              isConnectable={isConnectable}
+              className="!bg-amber-500 !w-2 !h-2 !border !border-white"
+            />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
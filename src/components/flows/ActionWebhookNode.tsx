@@ -1,14 +1,25 @@
+import { useState } from 'react';
 import { Handle, Position, useReactFlow } from 'reactflow';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useLanguage } from '@/contexts/LanguageContext';
-import { Webhook, Plus, X, Phone, User } from 'lucide-react';
+import { Webhook, Plus, X, Phone, User, Braces, ChevronDown, ChevronRight } from 'lucide-react';
+
+type KeyValueList = 'fields' | 'headers' | 'responseMappings';
+
+const EMPTY_ROWS: Record<KeyValueList, Record<string, string>> = {
+  fields: { key: '', value: '' },
+  headers: { key: '', value: '' },
+  responseMappings: { path: '', variable: '' },
+};
 
 export default function ActionWebhookNode({ id, data, isConnectable }: any) {
   const { t, language } = useLanguage();
   const { setNodes } = useReactFlow();
+  const [showAdvanced, setShowAdvanced] = useState(false);
   
   const updateData = (newData: any) => {
     setNodes((nds) =>
@@ -29,26 +40,62 @@ export default function ActionWebhookNode({ id, data, isConnectable }: any) {
   };
 
   const fields: { key: string; value: string }[] = data.fields || [];
+  const headers: { key: string; value: string }[] = data.headers || [];
+  const responseMappings: { path: string; variable: string }[] = data.responseMappings || [];
+  const bodyMode = data.bodyMode === 'raw' ? 'raw' : 'fields';
+  const authType = data.authType || 'none';
 
-  const addField = () => {
-    updateData({ fields: [...fields, { key: '', value: '' }] });
+  const addRow = (list: KeyValueList) => {
+    updateData({ [list]: [...(data[list] || []), { ...EMPTY_ROWS[list] }] });
   };
 
-  const removeField = (index: number) => {
-    updateData({ fields: fields.filter((_: any, i: number) => i !== index) });
+  const removeRow = (list: KeyValueList, index: number) => {
+    updateData({ [list]: (data[list] || []).filter((_: any, i: number) => i !== index) });
   };
 
-  const updateField = (index: number, prop: 'key' | 'value', val: string) => {
-    const updated = fields.map((f: any, i: number) => i === index ? { ...f, [prop]: val } : f);
-    updateData({ fields: updated });
+  const updateRow = (list: KeyValueList, index: number, prop: string, val: string) => {
+    const updated = (data[list] || []).map((row: any, i: number) => i === index ? { ...row, [prop]: val } : row);
+    updateData({ [list]: updated });
   };
 
-  const toggleBuiltIn = (field: 'sendPhone' | 'sendName') => {
+  const inputClassName = 'text-[10px] h-7 bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-rose-500';
+  const rowInputClassName = 'text-[9px] h-6 flex-1 bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-rose-500';
+  const labelClassName = 'text-[8px] uppercase text-muted-foreground font-semibold mb-0.5 block';
+  const selectClassName = 'w-full text-[10px] h-7 rounded-md border border-slate-200 bg-slate-50 dark:bg-slate-950 dark:border-slate-700 px-2 focus:ring-rose-500 focus:ring-1 outline-none';
+
+  const renderRowsHeader = (label: string, list: KeyValueList) => (
+    <div className="flex items-center justify-between mb-1">
+      <Label className="text-[8px] uppercase text-muted-foreground font-semibold">{label}</Label>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => addRow(list)}
+        className="h-5 w-5 p-0 text-rose-500 hover:text-rose-700 hover:bg-rose-50 dark:hover:bg-rose-900/20"
+      >
+        <Plus className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+
+  const renderRemoveButton = (list: KeyValueList, index: number) => (
+    <Button
+      type="button"
+      variant="ghost"
+      size="sm"
+      onClick={() => removeRow(list, index)}
+      className="h-5 w-5 p-0 text-red-500 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 flex-shrink-0"
+    >
+      <X className="h-2.5 w-2.5" />
+    </Button>
+  );
+
+  const toggleBuiltIn = (field: 'sendPhone' | 'sendName' | 'sendVariables') => {
     updateData({ [field]: !data[field] });
   };
 
   return (
-    <Card className="w-[280px] border-0 shadow-md rounded-md overflow-hidden ring-1 ring-slate-200 dark:ring-slate-700 bg-white dark:bg-slate-900">
+    <Card className="w-[300px] border-0 shadow-md rounded-md overflow-hidden ring-1 ring-slate-200 dark:ring-slate-700 bg-white dark:bg-slate-900">
       <div className="absolute top-0 left-0 w-full h-[2px] bg-rose-500" />
       <Handle type="target" position={Position.Top} isConnectable={isConnectable} className="!bg-rose-500 !w-2 !h-2 !border !border-white" />
       
@@ -93,98 +140,296 @@ export default function ActionWebhookNode({ id, data, isConnectable }: any) {
             </select>
           </div>
 
-          {/* Built-in fields */}
+          {/* Body: the auto/custom fields below, or a raw JSON template */}
           <div>
-            <Label className="text-[8px] uppercase text-muted-foreground font-semibold mb-1 block">
-              {language === 'he' ? 'שדות אוטומטיים' : language === 'ar' ? 'حقول تلقائية' : 'Auto Fields'}
-            </Label>
-            <div className="flex gap-1.5">
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={() => toggleBuiltIn('sendPhone')}
-                className={`h-6 text-[9px] px-2 ${
-                  data.sendPhone 
-                    ? 'border-rose-500 bg-rose-50 dark:bg-rose-900/20 text-rose-700 dark:text-rose-300' 
-                    : 'border-slate-200 text-muted-foreground'
-                }`}
-              >
-                <Phone className="h-2.5 w-2.5 mr-1" />
-                {language === 'he' ? 'טלפון' : language === 'ar' ? 'هاتف' : 'Phone'}
-              </Button>
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={() => toggleBuiltIn('sendName')}
-                className={`h-6 text-[9px] px-2 ${
-                  data.sendName 
-                    ? 'border-rose-500 bg-rose-50 dark:bg-rose-900/20 text-rose-700 dark:text-rose-300' 
-                    : 'border-slate-200 text-muted-foreground'
-                }`}
-              >
-                <User className="h-2.5 w-2.5 mr-1" />
-                {language === 'he' ? 'שם' : language === 'ar' ? 'اسم' : 'Name'}
-              </Button>
+            <Label className={labelClassName}>{t('flows.webhookBody')}</Label>
+            <div className="grid grid-cols-2 gap-1">
+              {(['fields', 'raw'] as const).map(mode => (
+                <Button
+                  key={mode}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateData({ bodyMode: mode })}
+                  className={`h-6 text-[9px] px-2 ${
+                    bodyMode === mode
+                      ? 'border-rose-500 bg-rose-50 dark:bg-rose-900/20 text-rose-700 dark:text-rose-300'
+                      : 'border-slate-200 text-muted-foreground'
+                  }`}
+                >
+                  {mode === 'raw' ? t('flows.webhookRawJson') : t('flows.webhookFields')}
+                </Button>
+              ))}
             </div>
           </div>
 
-          {/* Custom body text */}
+          {bodyMode === 'raw' && (
+            <div>
+              <Textarea
+                value={data.rawBody || ''}
+                onChange={(e) => updateData({ rawBody: e.target.value })}
+                placeholder={'{\n  "phone": "{{sender_phone}}",\n  "reply": "{{last_reply}}"\n}'}
+                rows={5}
+                dir="ltr"
+                className="text-[10px] font-mono leading-tight bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-rose-500 resize-none"
+              />
+              <p className="text-[9px] text-muted-foreground leading-tight mt-0.5">{t('flows.webhookRawJsonHint')}</p>
+            </div>
+          )}
+
+          {bodyMode === 'fields' && (
+            <>
+              {/* Built-in fields */}
+              <div>
+                <Label className="text-[8px] uppercase text-muted-foreground font-semibold mb-1 block">
+                  {language === 'he' ? 'שדות אוטומטיים' : language === 'ar' ? 'حقول تلقائية' : 'Auto Fields'}
+                </Label>
+                <div className="flex gap-1.5">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => toggleBuiltIn('sendPhone')}
+                    className={`h-6 text-[9px] px-2 ${
+                      data.sendPhone 
+                        ? 'border-rose-500 bg-rose-50 dark:bg-rose-900/20 text-rose-700 dark:text-rose-300' 
+                        : 'border-slate-200 text-muted-foreground'
+                    }`}
+                  >
+                    <Phone className="h-2.5 w-2.5 mr-1" />
+                    {language === 'he' ? 'טלפון' : language === 'ar' ? 'هاتف' : 'Phone'}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => toggleBuiltIn('sendName')}
+                    className={`h-6 text-[9px] px-2 ${
+                      data.sendName 
+                        ? 'border-rose-500 bg-rose-50 dark:bg-rose-900/20 text-rose-700 dark:text-rose-300' 
+                        : 'border-slate-200 text-muted-foreground'
+                    }`}
+                  >
+                    <User className="h-2.5 w-2.5 mr-1" />
+                    {language === 'he' ? 'שם' : language === 'ar' ? 'اسم' : 'Name'}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => toggleBuiltIn('sendVariables')}
+                    className={`h-6 text-[9px] px-2 ${
+                      data.sendVariables 
+                        ? 'border-rose-500 bg-rose-50 dark:bg-rose-900/20 text-rose-700 dark:text-rose-300' 
+                        : 'border-slate-200 text-muted-foreground'
+                    }`}
+                  >
+                    <Braces className="h-2.5 w-2.5 mr-1" />
+                    {language === 'he' ? 'משתנים' : language === 'ar' ? 'متغيرات' : 'Variables'}
+                  </Button>
+                </div>
+              </div>
+
+              {/* Custom body text */}
+              <div>
+                <Label className="text-[8px] uppercase text-muted-foreground font-semibold mb-0.5 block">
+                  {language === 'he' ? 'טקסט חופשי' : language === 'ar' ? 'نص حر' : 'Body Text'}
+                </Label>
+                <Input 
+                  value={data.bodyText || ''}
+                  onChange={(e) => updateData({ bodyText: e.target.value })}
+                  placeholder={language === 'he' ? 'טקסט לשליחה, אפשר {{משתנה}}...' : language === 'ar' ? 'نص للإرسال، يمكن {{متغير}}...' : 'Text to send, {{variables}} allowed...'}
+                  className="text-[10px] h-7 bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-rose-500"
+                />
+              </div>
+
+              {/* Custom fields */}
+              <div>
+                {renderRowsHeader(language === 'he' ? 'שדות מותאמים' : language === 'ar' ? 'حقول مخصصة' : 'Custom Fields', 'fields')}
+                {fields.map((field, index) => (
+                  <div key={index} className="flex gap-1 mb-1 items-center">
+                    <Input
+                      value={field.key}
+                      onChange={(e) => updateRow('fields', index, 'key', e.target.value)}
+                      placeholder="key"
+                      className={rowInputClassName}
+                    />
+                    <Input
+                      value={field.value}
+                      onChange={(e) => updateRow('fields', index, 'value', e.target.value)}
+                      placeholder="value"
+                      className={rowInputClassName}
+                    />
+                    {renderRemoveButton('fields', index)}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          {/* Headers */}
           <div>
-            <Label className="text-[8px] uppercase text-muted-foreground font-semibold mb-0.5 block">
-              {language === 'he' ? 'טקסט חופשי' : language === 'ar' ? 'نص حر' : 'Body Text'}
-            </Label>
-            <Input 
-              value={data.bodyText || ''}
-              onChange={(e) => updateData({ bodyText: e.target.value })}
-              placeholder={language === 'he' ? 'טקסט לשליחה...' : language === 'ar' ? 'نص للإرسال...' : 'Text to send...'}
-              className="text-[10px] h-7 bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-rose-500"
-            />
+            {renderRowsHeader(t('flows.webhookHeaders'), 'headers')}
+            {headers.map((header, index) => (
+              <div key={index} className="flex gap-1 mb-1 items-center">
+                <Input
+                  value={header.key}
+                  onChange={(e) => updateRow('headers', index, 'key', e.target.value)}
+                  placeholder="X-Api-Key"
+                  dir="ltr"
+                  className={rowInputClassName}
+                />
+                <Input
+                  value={header.value}
+                  onChange={(e) => updateRow('headers', index, 'value', e.target.value)}
+                  placeholder="value"
+                  dir="ltr"
+                  className={rowInputClassName}
+                />
+                {renderRemoveButton('headers', index)}
+              </div>
+            ))}
           </div>
 
-          {/* Custom fields */}
+          {/* Auth */}
           <div>
-            <div className="flex items-center justify-between mb-1">
-              <Label className="text-[8px] uppercase text-muted-foreground font-semibold">
-                {language === 'he' ? 'שדות מותאמים' : language === 'ar' ? 'حقول مخصصة' : 'Custom Fields'}
-              </Label>
-              <Button
-                type="button"
-                variant="ghost"
-                size="sm"
-                onClick={addField}
-                className="h-5 w-5 p-0 text-rose-500 hover:text-rose-700 hover:bg-rose-50 dark:hover:bg-rose-900/20"
-              >
-                <Plus className="h-3 w-3" />
-              </Button>
-            </div>
-            
-            {fields.map((field: any, index: number) => (
+            <Label className={labelClassName}>{t('flows.webhookAuth')}</Label>
+            <select value={authType} onChange={(e) => updateData({ authType: e.target.value })} className={selectClassName}>
+              <option value="none">{t('flows.webhookAuthNone')}</option>
+              <option value="bearer">Bearer token</option>
+              <option value="basic">Basic auth</option>
+            </select>
+            {authType === 'bearer' && (
+              <Input
+                type="password"
+                value={data.authToken || ''}
+                onChange={(e) => updateData({ authToken: e.target.value })}
+                placeholder="token"
+                dir="ltr"
+                className={`${inputClassName} mt-1`}
+              />
+            )}
+            {authType === 'basic' && (
+              <div className="grid grid-cols-2 gap-1 mt-1">
+                <Input
+                  value={data.authUsername || ''}
+                  onChange={(e) => updateData({ authUsername: e.target.value })}
+                  placeholder={t('flows.webhookUsername')}
+                  dir="ltr"
+                  className={inputClassName}
+                />
+                <Input
+                  type="password"
+                  value={data.authPassword || ''}
+                  onChange={(e) => updateData({ authPassword: e.target.value })}
+                  placeholder={t('flows.webhookPassword')}
+                  dir="ltr"
+                  className={inputClassName}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Response → flow variables */}
+          <div>
+            {renderRowsHeader(t('flows.webhookResponseMapping'), 'responseMappings')}
+            {responseMappings.map((mapping, index) => (
               <div key={index} className="flex gap-1 mb-1 items-center">
                 <Input
-                  value={field.key}
-                  onChange={(e) => updateField(index, 'key', e.target.value)}
-                  placeholder="key"
-                  className="text-[9px] h-6 flex-1 bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-rose-500"
+                  value={mapping.path}
+                  onChange={(e) => updateRow('responseMappings', index, 'path', e.target.value)}
+                  placeholder="data.order.status"
+                  dir="ltr"
+                  className={`${rowInputClassName} font-mono`}
                 />
+                <span className="text-[9px] text-muted-foreground">→</span>
                 <Input
-                  value={field.value}
-                  onChange={(e) => updateField(index, 'value', e.target.value)}
-                  placeholder="value"
-                  className="text-[9px] h-6 flex-1 bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-rose-500"
+                  value={mapping.variable}
+                  onChange={(e) => updateRow('responseMappings', index, 'variable', e.target.value)}
+                  placeholder="order_status"
+                  dir="ltr"
+                  className={rowInputClassName}
                 />
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => removeField(index)}
-                  className="h-5 w-5 p-0 text-red-500 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 flex-shrink-0"
-                >
-                  <X className="h-2.5 w-2.5" />
-                </Button>
+                {renderRemoveButton('responseMappings', index)}
               </div>
             ))}
+            {responseMappings.length > 0 && (
+              <p className="text-[9px] text-muted-foreground leading-tight">{t('flows.webhookResponseMappingHint')}</p>
+            )}
+          </div>
+
+          {/* Timeout, retries, signing */}
+          <div>
+            <button
+              type="button"
+              onClick={() => setShowAdvanced(!showAdvanced)}
+              className="flex items-center gap-1 text-[8px] uppercase text-muted-foreground font-semibold hover:text-foreground"
+            >
+              {showAdvanced ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+              {t('flows.webhookAdvanced')}
+            </button>
+            {showAdvanced && (
+              <div className="space-y-1.5 mt-1">
+                <div className="grid grid-cols-3 gap-1">
+                  <div>
+                    <Label className={labelClassName}>{t('flows.webhookTimeout')}</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={120}
+                      value={data.timeoutSeconds ?? 10}
+                      onChange={(e) => updateData({ timeoutSeconds: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <Label className={labelClassName}>{t('flows.webhookRetries')}</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={5}
+                      value={data.retries ?? 0}
+                      onChange={(e) => updateData({ retries: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <Label className={labelClassName}>{t('flows.webhookBackoff')}</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={60}
+                      value={data.backoffSeconds ?? 2}
+                      onChange={(e) => updateData({ backoffSeconds: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label className={labelClassName}>{t('flows.webhookHmacSecret')}</Label>
+                  <Input
+                    type="password"
+                    value={data.hmacSecret || ''}
+                    onChange={(e) => updateData({ hmacSecret: e.target.value })}
+                    dir="ltr"
+                    className={inputClassName}
+                  />
+                </div>
+                {data.hmacSecret && (
+                  <div>
+                    <Label className={labelClassName}>{t('flows.webhookSignatureHeader')}</Label>
+                    <Input
+                      value={data.hmacHeader || ''}
+                      onChange={(e) => updateData({ hmacHeader: e.target.value })}
+                      placeholder="X-Signature-256"
+                      dir="ltr"
+                      className={inputClassName}
+                    />
+                    <p className="text-[9px] text-muted-foreground leading-tight mt-0.5">{t('flows.webhookHmacHint')}</p>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </div>
         
@@ -0,0 +1,265 @@
+import { useEffect, useState } from 'react';
+import { Handle, Position, useReactFlow } from 'reactflow';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { Filter } from 'lucide-react';
+import type { CustomField, Tag } from '@/types';
+
+const MESSAGE_TYPES = ['text', 'image', 'video', 'voice', 'audio', 'document', 'sticker', 'location'];
+
+export default function ConditionRuleNode({ id, data, isConnectable }: any) {
+  const { t, language } = useLanguage();
+  const { setNodes } = useReactFlow();
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+
+  const rule = data.rule || 'regex';
+
+  useEffect(() => {
+    if (rule === 'tag' && tags.length === 0) {
+      window.electron.tags.getAll()
+        .then(setTags)
+        .catch((error) => console.error('Failed to load tags:', error));
+    }
+    if (rule === 'custom_field' && customFields.length === 0) {
+      window.electron.customFields.getAll()
+        .then(setCustomFields)
+        .catch((error) => console.error('Failed to load custom fields:', error));
+    }
+  }, [rule]);
+
+  const updateData = (newData: any) => {
+    setNodes((nds) =>
+      nds.map((node) => {
+        if (node.id === id) {
+          return {
+            ...node,
+            data: { ...node.data, ...newData }
+          };
+        }
+        return node;
+      })
+    );
+  };
+
+  const handleInputInteraction = (e: React.MouseEvent | React.PointerEvent | React.TouchEvent) => {
+    e.stopPropagation();
+  };
+
+  const weekdayLabel = (day: number) => {
+    const date = new Date(2024, 0, 7 + day); // 7 Jan 2024 was a Sunday
+    return date.toLocaleDateString(language, { weekday: 'narrow' });
+  };
+
+  const days: number[] = Array.isArray(data.days) ? data.days : [0, 1, 2, 3, 4, 5, 6];
+
+  const toggleDay = (day: number) => {
+    updateData({ days: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort() });
+  };
+
+  const inputClassName = 'text-xs h-7 bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-blue-500';
+  const selectClassName = 'text-xs !h-7 !py-0 bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-blue-500';
+
+  // Operator + value, shared by the custom field and flow variable rules
+  const comparison = (
+    <div className="grid grid-cols-[1fr_1fr] gap-1.5">
+      <Select value={data.operator || 'equals'} onChange={(e) => updateData({ operator: e.target.value })} className={selectClassName}>
+        <option value="equals">{t('flows.operator.equals')}</option>
+        <option value="not_equals">{t('flows.operator.not_equals')}</option>
+        <option value="contains">{t('flows.operator.contains')}</option>
+        <option value="greater_than">{t('flows.operator.greater_than')}</option>
+        <option value="less_than">{t('flows.operator.less_than')}</option>
+        <option value="is_empty">{t('flows.operator.is_empty')}</option>
+        <option value="is_not_empty">{t('flows.operator.is_not_empty')}</option>
+      </Select>
+      {data.operator !== 'is_empty' && data.operator !== 'is_not_empty' && (
+        <Input
+          value={data.value || ''}
+          onChange={(e) => updateData({ value: e.target.value })}
+          className={inputClassName}
+        />
+      )}
+    </div>
+  );
+
+  return (
+    <Card className="w-[260px] border-0 shadow-md rounded-md overflow-hidden ring-1 ring-slate-200 dark:ring-slate-700 bg-white dark:bg-slate-900">
+      <div className="absolute top-0 left-0 w-full h-[2px] bg-blue-500" />
+      <Handle type="target" position={Position.Top} isConnectable={isConnectable} className="!bg-blue-500 !w-2 !h-2 !border !border-white" />
+
+      <CardHeader className="p-2 pb-1.5 bg-blue-50/50 dark:bg-blue-900/10 border-b border-blue-100 dark:border-blue-900/20">
+        <CardTitle className="text-xs font-semibold flex items-center gap-1.5 text-blue-700 dark:text-blue-300">
+          <Filter className="h-3 w-3" />
+          {t('flows.conditionRule')}
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="p-2 space-y-1.5">
+        <div
+          className="nodrag nopan nowheel space-y-1.5"
+          onMouseDown={handleInputInteraction}
+          onPointerDown={handleInputInteraction}
+          onTouchStart={handleInputInteraction}
+        >
+          <Select value={rule} onChange={(e) => updateData({ rule: e.target.value })} className={selectClassName}>
+            <option value="regex">{t('flows.ruleRegex')}</option>
+            <option value="keywords">{t('flows.ruleKeywords')}</option>
+            <option value="message_type">{t('flows.ruleMessageType')}</option>
+            <option value="business_hours">{t('flows.ruleBusinessHours')}</option>
+            <option value="tag">{t('flows.ruleTag')}</option>
+            <option value="custom_field">{t('flows.ruleCustomField')}</option>
+            <option value="first_message">{t('flows.ruleFirstMessage')}</option>
+            <option value="variable">{t('flows.ruleVariable')}</option>
+          </Select>
+
+          {rule === 'regex' && (
+            <Input
+              value={data.pattern || ''}
+              onChange={(e) => updateData({ pattern: e.target.value })}
+              placeholder="^(yes|y|כן)$"
+              dir="ltr"
+              className={`${inputClassName} font-mono`}
+            />
+          )}
+
+          {rule === 'keywords' && (
+            <>
+              <Select value={data.match || 'any'} onChange={(e) => updateData({ match: e.target.value })} className={selectClassName}>
+                <option value="any">{t('flows.keywordsAny')}</option>
+                <option value="all">{t('flows.keywordsAll')}</option>
+              </Select>
+              <Textarea
+                value={data.keywords || ''}
+                onChange={(e) => updateData({ keywords: e.target.value })}
+                placeholder={t('flows.keywordsPlaceholder')}
+                rows={2}
+                className="text-[11px] leading-tight bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-blue-500 resize-none min-h-[3rem]"
+              />
+            </>
+          )}
+
+          {rule === 'message_type' && (
+            <Select value={data.messageType || 'text'} onChange={(e) => updateData({ messageType: e.target.value })} className={selectClassName}>
+              {MESSAGE_TYPES.map(type => (
+                <option key={type} value={type}>{t(`flows.messageType.${type}`)}</option>
+              ))}
+            </Select>
+          )}
+
+          {rule === 'business_hours' && (
+            <>
+              <div className="flex gap-0.5">
+                {[0, 1, 2, 3, 4, 5, 6].map(day => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleDay(day)}
+                    className={`flex-1 h-6 rounded text-[10px] font-medium transition-colors ${
+                      days.includes(day)
+                        ? 'bg-blue-500 text-white'
+                        : 'bg-slate-100 dark:bg-slate-800 text-muted-foreground'
+                    }`}
+                  >
+                    {weekdayLabel(day)}
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-1.5">
+                <Input type="time" value={data.start || '09:00'} onChange={(e) => updateData({ start: e.target.value })} className={inputClassName} />
+                <Input type="time" value={data.end || '17:00'} onChange={(e) => updateData({ end: e.target.value })} className={inputClassName} />
+              </div>
+              <div>
+                <Label className="text-[8px] uppercase text-muted-foreground font-semibold mb-0.5 block">{t('flows.timezone')}</Label>
+                <Input
+                  value={data.timezone || ''}
+                  onChange={(e) => updateData({ timezone: e.target.value })}
+                  placeholder={Intl.DateTimeFormat().resolvedOptions().timeZone}
+                  dir="ltr"
+                  className={inputClassName}
+                />
+              </div>
+            </>
+          )}
+
+          {rule === 'tag' && (
+            <div className="grid grid-cols-[90px_1fr] gap-1.5">
+              <Select value={data.tagMode || 'has'} onChange={(e) => updateData({ tagMode: e.target.value })} className={selectClassName}>
+                <option value="has">{t('flows.tagHas')}</option>
+                <option value="lacks">{t('flows.tagLacks')}</option>
+              </Select>
+              <Select value={data.tagId || ''} onChange={(e) => updateData({ tagId: e.target.value })} className={selectClassName}>
+                <option value="">{t('flows.selectTag')}</option>
+                {tags.map(tag => (
+                  <option key={tag.id} value={tag.id}>{tag.name}</option>
+                ))}
+              </Select>
+            </div>
+          )}
+
+          {rule === 'custom_field' && (
+            <>
+              <Select value={data.fieldName || ''} onChange={(e) => updateData({ fieldName: e.target.value })} className={selectClassName}>
+                <option value="">{t('flows.selectField')}</option>
+                {customFields.map(field => (
+                  <option key={field.id} value={field.name}>{field.label}</option>
+                ))}
+              </Select>
+              {comparison}
+            </>
+          )}
+
+          {rule === 'variable' && (
+            <>
+              <Input
+                value={data.variableName || ''}
+                onChange={(e) => updateData({ variableName: e.target.value })}
+                placeholder={t('flows.variableNamePlaceholder')}
+                dir="ltr"
+                className={inputClassName}
+              />
+              {comparison}
+            </>
+          )}
+
+          {rule === 'first_message' && (
+            <p className="text-[10px] text-muted-foreground">{t('flows.ruleFirstMessageHint')}</p>
+          )}
+        </div>
+
+        <div className="flex justify-between items-center pt-2 relative">
+          <div className="flex flex-col items-center">
+            <span className="text-[8px] font-semibold uppercase text-green-600 dark:text-green-400 mb-0.5 bg-green-50 dark:bg-green-900/20 px-1 py-[1px] rounded-full">
+              {t('flows.yes')}
+            </span>
+            <Handle
+              type="source"
+              position={Position.Bottom}
+              id="yes"
+              style={{ left: '25%', bottom: '-6px' }}
+              isConnectable={isConnectable}
+              className="!bg-green-500 !w-2 !h-2 !border !border-white"
+            />
+          </div>
+
+          <div className="flex flex-col items-center">
+            <span className="text-[8px] font-semibold uppercase text-red-600 dark:text-red-400 mb-0.5 bg-red-50 dark:bg-red-900/20 px-1 py-[1px] rounded-full">
+              {t('flows.no')}
+            </span>
+            <Handle
+              type="source"
+              position={Position.Bottom}
+              id="no"
+              style={{ left: '75%', bottom: '-6px' }}
+              isConnectable={isConnectable}
+              className="!bg-red-500 !w-2 !h-2 !border !border-white"
+            />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
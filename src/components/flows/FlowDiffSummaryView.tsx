@@ -0,0 +1,53 @@
+import { useLanguage } from '@/contexts/LanguageContext';
+import type { FlowDiffSummary } from '@/types';
+
+interface FlowDiffSummaryViewProps {
+  diff: FlowDiffSummary;
+}
+
+export function hasFlowChanges(diff: FlowDiffSummary) {
+  return diff.addedNodes.length > 0
+    || diff.removedNodes.length > 0
+    || diff.changedNodes.length > 0
+    || diff.movedNodes > 0
+    || diff.addedEdges > 0
+    || diff.removedEdges > 0;
+}
+
+export default function FlowDiffSummaryView({ diff }: FlowDiffSummaryViewProps) {
+  const { t } = useLanguage();
+
+  if (!hasFlowChanges(diff)) {
+    return <p className="text-xs text-muted-foreground">{t('flows.diffNoChanges')}</p>;
+  }
+
+  const groups = [
+    { label: t('flows.diffAddedNodes'), nodes: diff.addedNodes, className: 'text-green-600 dark:text-green-400', sign: '+' },
+    { label: t('flows.diffRemovedNodes'), nodes: diff.removedNodes, className: 'text-red-600 dark:text-red-400', sign: '−' },
+    { label: t('flows.diffChangedNodes'), nodes: diff.changedNodes, className: 'text-amber-600 dark:text-amber-400', sign: '~' },
+  ];
+
+  return (
+    <div className="space-y-1.5 text-xs">
+      {groups.filter(group => group.nodes.length > 0).map(group => (
+        <div key={group.label}>
+          <p className={`font-semibold ${group.className}`}>{group.label} ({group.nodes.length})</p>
+          <ul className="ml-3 text-muted-foreground" dir="ltr">
+            {group.nodes.map(node => (
+              <li key={node.id}>{group.sign} {node.type}</li>
+            ))}
+          </ul>
+        </div>
+      ))}
+      {(diff.addedEdges > 0 || diff.removedEdges > 0) && (
+        <p className="text-muted-foreground">
+          {t('flows.diffConnections')}: <span className="text-green-600 dark:text-green-400">+{diff.addedEdges}</span>{' '}
+          <span className="text-red-600 dark:text-red-400">−{diff.removedEdges}</span>
+        </p>
+      )}
+      {diff.movedNodes > 0 && (
+        <p className="text-muted-foreground">{t('flows.diffMovedNodes')}: {diff.movedNodes}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { History, RefreshCw, X } from 'lucide-react';
+import type { FlowExecution, FlowExecutionStatus, FlowExecutionStep } from '@/types';
+
+interface FlowExecutionHistoryProps {
+  flowId: string;
+  selectedExecutionId: string | null;
+  onSelect: (executionId: string | null, steps: FlowExecutionStep[]) => void;
+  onClose: () => void;
+}
+
+const STATUS_CLASSES: Record<FlowExecutionStatus, string> = {
+  running: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  waiting: 'bg-violet-100 text-violet-700 dark:bg-violet-900/30 dark:text-violet-300',
+  completed: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  cancelled: 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300',
+};
+
+const formatDetailValue = (value: any) =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+export default function FlowExecutionHistory({ flowId, selectedExecutionId, onSelect, onClose }: FlowExecutionHistoryProps) {
+  const { t, language } = useLanguage();
+  const [executions, setExecutions] = useState<FlowExecution[]>([]);
+  const [steps, setSteps] = useState<FlowExecutionStep[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadExecutions();
+  }, [flowId]);
+
+  const loadExecutions = async () => {
+    setLoading(true);
+    try {
+      setExecutions(await window.electron.flows.getExecutions(flowId));
+    } catch (error) {
+      console.error('Failed to load flow executions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSelect = async (execution: FlowExecution) => {
+    if (execution.id === selectedExecutionId) {
+      setSteps([]);
+      onSelect(null, []);
+      return;
+    }
+
+    try {
+      const data = await window.electron.flows.getExecutionSteps(execution.id);
+      setSteps(data);
+      onSelect(execution.id, data);
+    } catch (error) {
+      console.error('Failed to load execution steps:', error);
+    }
+  };
+
+  const formatTime = (value: string) => new Date(value).toLocaleString(language);
+
+  return (
+    <div className="w-80 bg-white dark:bg-slate-900 border-l flex flex-col overflow-hidden">
+      <div className="p-4 border-b flex items-center justify-between">
+        <h2 className="font-semibold text-sm flex items-center gap-2">
+          <History className="h-4 w-4 text-primary" />
+          {t('flows.executionHistory')}
+        </h2>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={loadExecutions} disabled={loading}>
+            <RefreshCw className={`h-3.5 w-3.5 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {executions.length === 0 && !loading && (
+          <p className="p-4 text-xs text-muted-foreground text-center">{t('flows.noExecutions')}</p>
+        )}
+
+        {executions.map(execution => {
+          const selected = execution.id === selectedExecutionId;
+          return (
+            <div key={execution.id} className="border-b">
+              <button
+                type="button"
+                onClick={() => handleSelect(execution)}
+                className={`w-full px-4 py-2.5 text-left transition-colors ${selected ? 'bg-primary/10' : 'hover:bg-accent'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs font-medium truncate" dir="ltr">{execution.chat_id.split('@')[0]}</span>
+                  <Badge className={`border-transparent text-[10px] px-2 py-0 ${STATUS_CLASSES[execution.status]}`}>
+                    {t(`flows.executionStatus.${execution.status}`)}
+                  </Badge>
+                </div>
+                <div className="flex items-center justify-between gap-2 mt-0.5 text-[10px] text-muted-foreground">
+                  <span className="truncate">{execution.account_name || execution.account_id}</span>
+                  <span>{execution.step_count} {t('flows.steps')}</span>
+                </div>
+                <p className="text-[10px] text-muted-foreground">{formatTime(execution.started_at)}</p>
+              </button>
+
+              {selected && (
+                <ol className="px-4 pb-3 space-y-1.5">
+                  {steps.map((step, index) => (
+                    <li
+                      key={step.id}
+                      className={`rounded-md border p-2 text-[10px] space-y-0.5 ${step.error ? 'border-red-300 bg-red-50 dark:border-red-900 dark:bg-red-900/20' : 'bg-slate-50 dark:bg-slate-950'}`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-semibold">{index + 1}. {step.node_type}</span>
+                        <span className="text-muted-foreground" dir="ltr">
+                          {step.duration_ms}ms → {step.branch || t('flows.flowEnded')}
+                        </span>
+                      </div>
+                      {step.input_text && (
+                        <p className="truncate text-muted-foreground">
+                          {t('flows.stepInput')}: {step.input_text}
+                        </p>
+                      )}
+                      {Object.entries(step.details).map(([key, value]) => (
+                        <p key={key} className="break-words" dir="auto">
+                          <span className="text-muted-foreground">{key}:</span> {formatDetailValue(value)}
+                        </p>
+                      ))}
+                      {step.error && (
+                        <p className="text-red-600 dark:text-red-400 break-words">
+                          {t('flows.stepError')}: {step.error}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {!selectedExecutionId && executions.length > 0 && (
+        <p className="p-3 border-t text-[10px] text-muted-foreground text-center">{t('flows.selectExecution')}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Rocket } from 'lucide-react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { toast } from '@/components/ui/use-toast';
+import FlowDiffSummaryView from '@/components/flows/FlowDiffSummaryView';
+import type { FlowDiffSummary } from '@/types';
+
+interface FlowPublishDialogProps {
+  flowId: string | null;
+  onOpenChange: (open: boolean) => void;
+  onPublished: (version: number) => void;
+}
+
+export default function FlowPublishDialog({ flowId, onOpenChange, onPublished }: FlowPublishDialogProps) {
+  const { t } = useLanguage();
+  const [diff, setDiff] = useState<FlowDiffSummary | null>(null);
+  const [note, setNote] = useState('');
+  const [publishing, setPublishing] = useState(false);
+
+  useEffect(() => {
+    if (!flowId) return;
+
+    setDiff(null);
+    setNote('');
+    window.electron.flows.getDiff(flowId)
+      .then(setDiff)
+      .catch((error) => console.error('Failed to load flow diff:', error));
+  }, [flowId]);
+
+  const handlePublish = async () => {
+    if (!flowId) return;
+
+    setPublishing(true);
+    try {
+      const version = await window.electron.flows.publish(flowId, note);
+      onOpenChange(false);
+      onPublished(version);
+    } catch (error) {
+      console.error('Failed to publish flow:', error);
+      toast.error(t('toast.error'));
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!flowId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Rocket className="h-5 w-5 text-primary" />
+            {t('flows.publish')}
+          </DialogTitle>
+          <DialogDescription>{t('flows.publishDescription')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="rounded-md border p-3 max-h-60 overflow-y-auto">
+            {diff ? <FlowDiffSummaryView diff={diff} /> : <p className="text-xs text-muted-foreground">...</p>}
+          </div>
+          <div>
+            <Label htmlFor="flow_version_note">{t('flows.versionNote')}</Label>
+            <Input
+              id="flow_version_note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={t('flows.versionNotePlaceholder')}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handlePublish} disabled={publishing} className="gap-2">
+            <Rocket className="h-4 w-4" />
+            {t('flows.publish')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
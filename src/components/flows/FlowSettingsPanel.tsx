@@ -0,0 +1,130 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { Settings2, X } from 'lucide-react';
+import type { FlowSettings } from '@/types';
+
+interface FlowSettingsPanelProps {
+  settings: FlowSettings;
+  onChange: (settings: FlowSettings) => void;
+  onClose: () => void;
+}
+
+const COOLDOWN_UNITS = [
+  { value: 'minutes', minutes: 1 },
+  { value: 'hours', minutes: 60 },
+  { value: 'days', minutes: 60 * 24 },
+] as const;
+
+// The largest unit the stored minutes divide into evenly, so 1440 shows as "1 day"
+function getCooldownUnit(minutes: number) {
+  return [...COOLDOWN_UNITS].reverse().find(unit => minutes > 0 && minutes % unit.minutes === 0) || COOLDOWN_UNITS[1];
+}
+
+export default function FlowSettingsPanel({ settings, onChange, onClose }: FlowSettingsPanelProps) {
+  const { t } = useLanguage();
+
+  const cooldownMinutes = settings.cooldown_minutes || 0;
+  const cooldownUnit = getCooldownUnit(cooldownMinutes);
+
+  const update = (changes: Partial<FlowSettings>) => onChange({ ...settings, ...changes });
+
+  const toCount = (value: string) => Math.max(0, Math.floor(Number(value) || 0));
+
+  return (
+    <div className="w-80 bg-white dark:bg-slate-900 border-l flex flex-col overflow-hidden">
+      <div className="p-4 border-b flex items-center justify-between">
+        <h2 className="font-semibold text-sm flex items-center gap-2">
+          <Settings2 className="h-4 w-4 text-primary" />
+          {t('flows.settings')}
+        </h2>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-5">
+        <p className="text-[11px] text-muted-foreground">{t('flows.settingsDescription')}</p>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="flow_priority">{t('flows.priority')}</Label>
+          <Input
+            id="flow_priority"
+            type="number"
+            value={settings.priority ?? 0}
+            onChange={(e) => update({ priority: Math.floor(Number(e.target.value) || 0) })}
+            className="h-8"
+          />
+          <p className="text-[11px] text-muted-foreground">{t('flows.priorityHint')}</p>
+        </div>
+
+        <div className="flex items-start justify-between gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="flow_stop_other_flows">{t('flows.stopOtherFlows')}</Label>
+            <p className="text-[11px] text-muted-foreground">{t('flows.stopOtherFlowsHint')}</p>
+          </div>
+          <Switch
+            id="flow_stop_other_flows"
+            checked={settings.stop_other_flows !== false}
+            onCheckedChange={(checked) => update({ stop_other_flows: checked })}
+          />
+        </div>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="flow_cooldown">{t('flows.cooldown')}</Label>
+          <div className="flex gap-2">
+            <Input
+              id="flow_cooldown"
+              type="number"
+              min={0}
+              value={cooldownMinutes / cooldownUnit.minutes}
+              onChange={(e) => update({ cooldown_minutes: toCount(e.target.value) * cooldownUnit.minutes })}
+              className="h-8 flex-1"
+            />
+            <Select
+              value={cooldownUnit.value}
+              onChange={(e) => {
+                const unit = COOLDOWN_UNITS.find(option => option.value === e.target.value) || COOLDOWN_UNITS[1];
+                update({ cooldown_minutes: (cooldownMinutes / cooldownUnit.minutes) * unit.minutes });
+              }}
+              className="h-8 w-28 text-sm"
+            >
+              {COOLDOWN_UNITS.map(unit => (
+                <option key={unit.value} value={unit.value}>{t(`flows.${unit.value}`)}</option>
+              ))}
+            </Select>
+          </div>
+          <p className="text-[11px] text-muted-foreground">{t('flows.cooldownHint')}</p>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="flow_max_executions">{t('flows.maxExecutionsPerContact')}</Label>
+          <Input
+            id="flow_max_executions"
+            type="number"
+            min={0}
+            value={settings.max_executions_per_contact ?? 0}
+            onChange={(e) => update({ max_executions_per_contact: toCount(e.target.value) })}
+            className="h-8"
+          />
+          <p className="text-[11px] text-muted-foreground">{t('flows.maxExecutionsPerContactHint')}</p>
+        </div>
+
+        <div className="flex items-start justify-between gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="flow_skip_human_handled">{t('flows.skipHumanHandled')}</Label>
+            <p className="text-[11px] text-muted-foreground">{t('flows.skipHumanHandledHint')}</p>
+          </div>
+          <Switch
+            id="flow_skip_human_handled"
+            checked={!!settings.skip_human_handled}
+            onCheckedChange={(checked) => update({ skip_human_handled: checked })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
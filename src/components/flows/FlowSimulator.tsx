@@ -0,0 +1,242 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Edge, Node } from 'reactflow';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { FlaskConical, Play, RotateCcw, X } from 'lucide-react';
+import type { FlowSimulationAction, FlowSimulationResult, Tag } from '@/types';
+
+interface FlowSimulatorProps {
+  nodes: Node[];
+  edges: Edge[];
+  accountId?: string;
+  onPathChange: (nodeIds: string[] | null) => void;
+  onClose: () => void;
+}
+
+interface TranscriptEntry {
+  kind: 'in' | 'out' | 'event' | 'error';
+  text: string;
+}
+
+export default function FlowSimulator({ nodes, edges, accountId, onPathChange, onClose }: FlowSimulatorProps) {
+  const { t } = useLanguage();
+  const [phone, setPhone] = useState('972500000000');
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [message, setMessage] = useState('');
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [waiting, setWaiting] = useState<{ nodeId: string; variables: Record<string, string> } | null>(null);
+  const [running, setRunning] = useState(false);
+  const transcriptEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    window.electron.tags.getAll()
+      .then(setTags)
+      .catch((error) => console.error('Failed to load tags:', error));
+  }, []);
+
+  useEffect(() => {
+    transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [transcript]);
+
+  const tagName = (tagId: string) => tags.find(tag => tag.id === tagId)?.name || tagId;
+
+  const describeAction = (action: FlowSimulationAction): TranscriptEntry => {
+    const { details } = action;
+    switch (action.type) {
+      case 'send':
+        return { kind: 'out', text: [details.text, details.mediaPath && `📎 ${String(details.mediaPath).split(/[\\/]/).pop()}`].filter(Boolean).join('\n') };
+      case 'forward':
+        return { kind: 'event', text: `${t('flows.simForward')} ${details.to}: ${details.text}` };
+      case 'webhook':
+        return { kind: 'event', text: `${t('flows.simWebhook')} ${details.method} ${details.url}\n${JSON.stringify(details.body)}` };
+      case 'delay':
+        return { kind: 'event', text: `${t('flows.simDelay')} ${details.seconds}s` };
+      case 'typing':
+        return { kind: 'event', text: `${t('flows.simTyping')} ${details.min}-${details.max}s` };
+      case 'tag':
+        return { kind: 'event', text: `${details.tagged ? t('flows.simTagAdded') : t('flows.simTagRemoved')}: ${tagName(details.tagId)}` };
+      case 'field':
+        return { kind: 'event', text: `${t('flows.simFieldSet')}: ${details.field} = ${details.value}` };
+      case 'chat_status':
+        return { kind: 'event', text: `${t('flows.simChatStatus')}: ${details.status === 'open' ? t('inbox.statusOpen') : details.status === 'pending' ? t('inbox.statusPending') : t('inbox.statusClosed')}` };
+      case 'campaign':
+        return { kind: 'event', text: t('flows.simCampaign') };
+      case 'blacklist':
+        return { kind: 'event', text: t('flows.simBlacklist') };
+    }
+  };
+
+  const handleSend = async () => {
+    if (!message.trim() || running) return;
+
+    const entries: TranscriptEntry[] = [{ kind: 'in', text: message }];
+    setRunning(true);
+    try {
+      const result: FlowSimulationResult = await window.electron.flows.simulate({
+        nodes: nodes.map(node => ({ id: node.id, type: node.type, data: node.data })),
+        edges: edges.map(edge => ({ source: edge.source, target: edge.target, label: typeof edge.label === 'string' ? edge.label : null })),
+        message,
+        phone,
+        name,
+        tagIds,
+        accountId,
+        resume: waiting || undefined,
+      });
+
+      if (!result.started) {
+        entries.push({ kind: 'event', text: t('flows.simNotStarted') });
+      }
+      entries.push(...result.actions.map(describeAction));
+      for (const step of result.steps) {
+        if (step.error) {
+          entries.push({ kind: 'error', text: `${step.node_type}: ${step.error}` });
+        }
+      }
+
+      // Tags changed by the run carry over to the next message, like they would on the real contact
+      const taggedActions = result.actions.filter(action => action.type === 'tag');
+      if (taggedActions.length > 0) {
+        setTagIds(prev => taggedActions.reduce(
+          (ids, action) => (action.details.tagged
+            ? Array.from(new Set([...ids, action.details.tagId]))
+            : ids.filter(tagId => tagId !== action.details.tagId)),
+          prev
+        ));
+      }
+
+      if (result.waitingNodeId) {
+        entries.push({ kind: 'event', text: t('flows.simWaiting') });
+        setWaiting({ nodeId: result.waitingNodeId, variables: result.variables });
+      } else {
+        if (result.started) {
+          entries.push({ kind: 'event', text: t('flows.simEnded') });
+        }
+        setWaiting(null);
+      }
+
+      onPathChange(result.steps.length > 0 ? result.steps.map(step => step.node_id) : null);
+      setMessage('');
+    } catch (error) {
+      console.error('Failed to simulate flow:', error);
+      entries.push({ kind: 'error', text: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setTranscript(prev => [...prev, ...entries]);
+      setRunning(false);
+    }
+  };
+
+  const handleReset = () => {
+    setTranscript([]);
+    setWaiting(null);
+    onPathChange(null);
+  };
+
+  const toggleTag = (tagId: string) => {
+    setTagIds(prev => (prev.includes(tagId) ? prev.filter(id => id !== tagId) : [...prev, tagId]));
+  };
+
+  return (
+    <div className="w-80 bg-white dark:bg-slate-900 border-l flex flex-col overflow-hidden">
+      <div className="p-4 border-b flex items-center justify-between">
+        <div>
+          <h2 className="font-semibold text-sm flex items-center gap-2">
+            <FlaskConical className="h-4 w-4 text-primary" />
+            {t('flows.simulator')}
+          </h2>
+          <p className="text-[10px] text-muted-foreground mt-0.5">{t('flows.simulatorDescription')}</p>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={handleReset} title={t('flows.simReset')}>
+            <RotateCcw className="h-3.5 w-3.5" />
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="p-3 border-b space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label className="text-[10px] text-muted-foreground">{t('flows.simPhone')}</Label>
+            <Input value={phone} onChange={(e) => setPhone(e.target.value)} dir="ltr" className="h-7 text-xs" />
+          </div>
+          <div>
+            <Label className="text-[10px] text-muted-foreground">{t('flows.simName')}</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} className="h-7 text-xs" />
+          </div>
+        </div>
+        {tags.length > 0 && (
+          <div>
+            <Label className="text-[10px] text-muted-foreground">{t('flows.simTags')}</Label>
+            <div className="flex flex-wrap gap-1 mt-0.5">
+              {tags.map(tag => (
+                <button
+                  key={tag.id}
+                  type="button"
+                  onClick={() => toggleTag(tag.id)}
+                  className={`px-2 py-0.5 rounded-full text-[10px] font-medium border transition-colors ${
+                    tagIds.includes(tag.id) ? 'text-white border-transparent' : 'bg-background hover:bg-accent'
+                  }`}
+                  style={tagIds.includes(tag.id) ? { backgroundColor: tag.color } : undefined}
+                >
+                  {tag.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2 bg-slate-50 dark:bg-slate-950">
+        {transcript.map((entry, index) => {
+          if (entry.kind === 'in' || entry.kind === 'out') {
+            return (
+              <div key={index} className={`flex ${entry.kind === 'in' ? 'justify-start' : 'justify-end'}`}>
+                <div
+                  className={`max-w-[85%] rounded-lg px-2.5 py-1.5 text-xs whitespace-pre-wrap break-words shadow-sm ${
+                    entry.kind === 'in' ? 'bg-white dark:bg-slate-800' : 'bg-green-100 dark:bg-green-900/40'
+                  }`}
+                  dir="auto"
+                >
+                  {entry.text}
+                </div>
+              </div>
+            );
+          }
+          return (
+            <p
+              key={index}
+              className={`text-[10px] text-center whitespace-pre-wrap break-words ${
+                entry.kind === 'error' ? 'text-red-600 dark:text-red-400' : 'text-muted-foreground'
+              }`}
+              dir="auto"
+            >
+              {entry.text}
+            </p>
+          );
+        })}
+        <div ref={transcriptEndRef} />
+      </div>
+
+      <div className="p-3 border-t flex items-center gap-2">
+        <Input
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSend();
+          }}
+          placeholder={waiting ? t('flows.simReplyPlaceholder') : t('flows.simMessagePlaceholder')}
+          className="h-8 text-xs"
+        />
+        <Button size="sm" className="h-8 w-8 p-0" onClick={handleSend} disabled={running || !message.trim()}>
+          <Play className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { toast } from '@/components/ui/use-toast';
+import { GitBranch, Undo2, Trash2, X } from 'lucide-react';
+import FlowDiffSummaryView from '@/components/flows/FlowDiffSummaryView';
+import type { FlowDiffSummary, FlowVersion } from '@/types';
+
+interface FlowVersionsPanelProps {
+  flowId: string;
+  hasDraft: boolean;
+  // The live graph or the draft changed - the editor reloads the canvas
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+export default function FlowVersionsPanel({ flowId, hasDraft, onChanged, onClose }: FlowVersionsPanelProps) {
+  const { t, language } = useLanguage();
+  const [versions, setVersions] = useState<FlowVersion[]>([]);
+  const [restoreVersionId, setRestoreVersionId] = useState<string | null>(null);
+  const [restoreDiff, setRestoreDiff] = useState<FlowDiffSummary | null>(null);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    loadVersions();
+  }, [flowId]);
+
+  const loadVersions = async () => {
+    try {
+      setVersions(await window.electron.flows.getVersions(flowId));
+    } catch (error) {
+      console.error('Failed to load flow versions:', error);
+    }
+  };
+
+  const handleShowRestore = async (versionId: string) => {
+    if (restoreVersionId === versionId) {
+      setRestoreVersionId(null);
+      return;
+    }
+
+    setRestoreVersionId(versionId);
+    setRestoreDiff(null);
+    try {
+      setRestoreDiff(await window.electron.flows.getDiff(flowId, versionId));
+    } catch (error) {
+      console.error('Failed to load flow diff:', error);
+    }
+  };
+
+  const handleRestore = async (versionId: string) => {
+    if (hasDraft && !confirm(t('flows.restoreDiscardsDraft'))) return;
+
+    setWorking(true);
+    try {
+      const version = await window.electron.flows.rollback(flowId, versionId);
+      toast.success(`${t('flows.publishedAs')} v${version}`);
+      setRestoreVersionId(null);
+      await loadVersions();
+      onChanged();
+    } catch (error) {
+      console.error('Failed to roll back flow:', error);
+      toast.error(t('toast.error'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDiscardDraft = async () => {
+    if (!confirm(t('flows.discardDraftConfirm'))) return;
+
+    try {
+      await window.electron.flows.discardDraft(flowId);
+      toast.success(t('toast.success'));
+      onChanged();
+    } catch (error) {
+      console.error('Failed to discard flow draft:', error);
+      toast.error(t('toast.error'));
+    }
+  };
+
+  return (
+    <div className="w-80 bg-white dark:bg-slate-900 border-l flex flex-col overflow-hidden">
+      <div className="p-4 border-b flex items-center justify-between">
+        <h2 className="font-semibold text-sm flex items-center gap-2">
+          <GitBranch className="h-4 w-4 text-primary" />
+          {t('flows.versions')}
+        </h2>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      {hasDraft && (
+        <div className="p-3 border-b bg-amber-50 dark:bg-amber-900/10 flex items-center justify-between gap-2">
+          <p className="text-[11px] text-amber-700 dark:text-amber-300">{t('flows.unpublishedChanges')}</p>
+          <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs text-red-600" onClick={handleDiscardDraft}>
+            <Trash2 className="h-3 w-3" />
+            {t('flows.discardDraft')}
+          </Button>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto">
+        {versions.length === 0 && (
+          <p className="p-4 text-xs text-muted-foreground text-center">{t('flows.noVersions')}</p>
+        )}
+
+        {versions.map(version => (
+          <div key={version.id} className="border-b px-4 py-2.5 space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-semibold">v{version.version}</span>
+              {version.is_published ? (
+                <Badge className="border-transparent text-[10px] px-2 py-0 bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300">
+                  {t('flows.live')}
+                </Badge>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 gap-1 text-xs"
+                  onClick={() => handleShowRestore(version.id)}
+                >
+                  <Undo2 className="h-3 w-3" />
+                  {t('flows.restore')}
+                </Button>
+              )}
+            </div>
+            {version.note && <p className="text-xs" dir="auto">{version.note}</p>}
+            <p className="text-[10px] text-muted-foreground">
+              {new Date(version.created_at).toLocaleString(language)} · {version.node_count} {t('flows.nodesCount')}
+            </p>
+
+            {restoreVersionId === version.id && (
+              <div className="rounded-md border p-2 mt-1 space-y-2 bg-slate-50 dark:bg-slate-950">
+                {restoreDiff ? <FlowDiffSummaryView diff={restoreDiff} /> : <p className="text-xs text-muted-foreground">...</p>}
+                <Button size="sm" className="w-full h-7 text-xs" disabled={working} onClick={() => handleRestore(version.id)}>
+                  {t('flows.restoreConfirm')} v{version.version}
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+import { useEffect, useState } from 'react';
+import { Handle, Position, useReactFlow } from 'reactflow';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { toast } from '@/components/ui/use-toast';
+import { CalendarClock, Copy, Reply, Sparkles, Tag as TagIcon, UserPlus, Webhook } from 'lucide-react';
+import type { Account, Campaign, ContactSegment, Tag, WhatsAppGroupSummary } from '@/types';
+
+const TRIGGERS: Record<string, { titleKey: string; icon: any }> = {
+  triggerCampaignReply: { titleKey: 'flows.triggerCampaignReply', icon: Reply },
+  triggerFirstMessage: { titleKey: 'flows.triggerFirstMessage', icon: Sparkles },
+  triggerTagAdded: { titleKey: 'flows.triggerTagAdded', icon: TagIcon },
+  triggerSchedule: { titleKey: 'flows.triggerSchedule', icon: CalendarClock },
+  triggerGroupJoin: { titleKey: 'flows.triggerGroupJoin', icon: UserPlus },
+  triggerWebhook: { titleKey: 'flows.triggerWebhook', icon: Webhook },
+};
+
+// A trigger starts the flow, so it only has an output
+export default function TriggerNode({ id, data, isConnectable, type }: any) {
+  const { t, language } = useLanguage();
+  const { setNodes } = useReactFlow();
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [segments, setSegments] = useState<ContactSegment[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [groups, setGroups] = useState<WhatsAppGroupSummary[]>([]);
+  const [webhookBaseUrl, setWebhookBaseUrl] = useState<string | null>(null);
+
+  const trigger = TRIGGERS[type] || TRIGGERS.triggerFirstMessage;
+  const Icon = trigger.icon;
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        if (type === 'triggerCampaignReply') {
+          setCampaigns(await window.electron.campaigns.getAll());
+        } else if (type === 'triggerTagAdded') {
+          setTags(await window.electron.tags.getAll());
+        } else if (type === 'triggerSchedule') {
+          setSegments(await window.electron.segments.getAll());
+        } else if (type === 'triggerGroupJoin') {
+          setAccounts((await window.electron.accounts.getAll()).filter(account => account.status === 'connected'));
+        } else if (type === 'triggerWebhook') {
+          setWebhookBaseUrl(await window.electron.flows.getWebhookBaseUrl());
+        }
+      } catch (error) {
+        console.error('Failed to load trigger options:', error);
+      }
+    };
+    load();
+  }, [type]);
+
+  useEffect(() => {
+    if (type === 'triggerWebhook' && !data.token) {
+      updateData({ token: crypto.randomUUID().replace(/-/g, '') });
+    }
+  }, [type, data.token]);
+
+  useEffect(() => {
+    if (type !== 'triggerGroupJoin' || !data.accountId) {
+      setGroups([]);
+      return;
+    }
+    window.electron.groups.getGroups(data.accountId)
+      .then(setGroups)
+      .catch((error) => console.error('Failed to load groups:', error));
+  }, [type, data.accountId]);
+
+  const updateData = (newData: any) => {
+    setNodes((nds) =>
+      nds.map((node) => {
+        if (node.id === id) {
+          return {
+            ...node,
+            data: { ...node.data, ...newData }
+          };
+        }
+        return node;
+      })
+    );
+  };
+
+  const handleInputInteraction = (e: React.MouseEvent | React.PointerEvent | React.TouchEvent) => {
+    e.stopPropagation();
+  };
+
+  const weekdayLabel = (day: number) => {
+    const date = new Date(2024, 0, 7 + day); // 7 Jan 2024 was a Sunday
+    return date.toLocaleDateString(language, { weekday: 'narrow' });
+  };
+
+  const days: number[] = Array.isArray(data.days) ? data.days : [0, 1, 2, 3, 4, 5, 6];
+
+  const toggleDay = (day: number) => {
+    updateData({ days: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort() });
+  };
+
+  const webhookUrl = `${webhookBaseUrl || 'http://127.0.0.1:3789/flows/'}${data.token || ''}`;
+
+  const copyWebhookUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(webhookUrl);
+      toast.success(t('flows.webhookUrlCopied'));
+    } catch (error) {
+      console.error('Failed to copy webhook URL:', error);
+    }
+  };
+
+  const inputClassName = 'text-xs h-7 bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-yellow-500';
+  const selectClassName = 'text-xs !h-7 !py-0 bg-slate-50 dark:bg-slate-950 border-slate-200 focus-visible:ring-yellow-500';
+  const labelClassName = 'text-[8px] uppercase text-muted-foreground font-semibold mb-0.5 block';
+
+  return (
+    <Card className="w-[250px] border-0 shadow-md rounded-md overflow-hidden ring-1 ring-yellow-300 dark:ring-yellow-800 bg-white dark:bg-slate-900">
+      <div className="absolute top-0 left-0 w-full h-[2px] bg-yellow-500" />
+
+      <CardHeader className="p-2 pb-1.5 bg-yellow-50/50 dark:bg-yellow-900/10 border-b border-yellow-100 dark:border-yellow-900/20">
+        <CardTitle className="text-xs font-semibold flex items-center gap-1.5 text-yellow-700 dark:text-yellow-300">
+          <Icon className="h-3 w-3" />
+          {t(trigger.titleKey)}
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="p-2 space-y-1.5">
+        <div
+          className="nodrag nopan nowheel space-y-1.5"
+          onMouseDown={handleInputInteraction}
+          onPointerDown={handleInputInteraction}
+          onTouchStart={handleInputInteraction}
+        >
+          {type === 'triggerCampaignReply' && (
+            <Select value={data.campaignId || ''} onChange={(e) => updateData({ campaignId: e.target.value })} className={selectClassName}>
+              <option value="">{t('flows.anyCampaign')}</option>
+              {campaigns.map((campaign) => (
+                <option key={campaign.id} value={campaign.id}>{campaign.name}</option>
+              ))}
+            </Select>
+          )}
+
+          {type === 'triggerFirstMessage' && (
+            <p className="text-[10px] text-muted-foreground leading-tight">{t('flows.triggerFirstMessageHint')}</p>
+          )}
+
+          {type === 'triggerTagAdded' && (
+            <Select value={data.tagId || ''} onChange={(e) => updateData({ tagId: e.target.value })} className={selectClassName}>
+              <option value="">{t('flows.selectTag')}</option>
+              {tags.map((tag) => (
+                <option key={tag.id} value={tag.id}>{tag.name}</option>
+              ))}
+            </Select>
+          )}
+
+          {type === 'triggerSchedule' && (
+            <>
+              <Select value={data.segmentId || ''} onChange={(e) => updateData({ segmentId: e.target.value })} className={selectClassName}>
+                <option value="">{t('flows.selectSegment')}</option>
+                {segments.map((segment) => (
+                  <option key={segment.id} value={segment.id}>{segment.name}</option>
+                ))}
+              </Select>
+              <div className="flex gap-0.5">
+                {[0, 1, 2, 3, 4, 5, 6].map(day => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleDay(day)}
+                    className={`flex-1 h-6 rounded text-[10px] font-medium transition-colors ${
+                      days.includes(day)
+                        ? 'bg-yellow-500 text-white'
+                        : 'bg-slate-100 dark:bg-slate-800 text-muted-foreground'
+                    }`}
+                  >
+                    {weekdayLabel(day)}
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-1.5">
+                <div>
+                  <Label className={labelClassName}>{t('flows.scheduleTime')}</Label>
+                  <Input type="time" value={data.time || '09:00'} onChange={(e) => updateData({ time: e.target.value })} className={inputClassName} />
+                </div>
+                <div>
+                  <Label className={labelClassName}>{t('flows.timezone')}</Label>
+                  <Input
+                    value={data.timezone || ''}
+                    onChange={(e) => updateData({ timezone: e.target.value })}
+                    placeholder={Intl.DateTimeFormat().resolvedOptions().timeZone}
+                    dir="ltr"
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <p className="text-[9px] text-muted-foreground leading-tight">{t('flows.triggerScheduleHint')}</p>
+            </>
+          )}
+
+          {type === 'triggerGroupJoin' && (
+            <>
+              <Select
+                value={data.accountId || ''}
+                onChange={(e) => updateData({ accountId: e.target.value, groupId: '', groupName: '' })}
+                className={selectClassName}
+              >
+                <option value="">{t('flows.selectAccountForGroups')}</option>
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>{account.name || account.phone_number}</option>
+                ))}
+              </Select>
+              <Select
+                value={data.groupId || ''}
+                onChange={(e) => updateData({
+                  groupId: e.target.value,
+                  groupName: groups.find(group => group.id === e.target.value)?.name || '',
+                })}
+                className={selectClassName}
+              >
+                <option value="">{t('flows.anyGroup')}</option>
+                {data.groupId && !groups.some(group => group.id === data.groupId) && (
+                  <option value={data.groupId}>{data.groupName || data.groupId}</option>
+                )}
+                {groups.map((group) => (
+                  <option key={group.id} value={group.id}>{group.name}</option>
+                ))}
+              </Select>
+            </>
+          )}
+
+          {type === 'triggerWebhook' && (
+            <>
+              <div className="flex items-center gap-1">
+                <Input value={webhookUrl} readOnly dir="ltr" className={`${inputClassName} font-mono text-[10px]`} />
+                <Button variant="outline" size="sm" className="h-7 w-7 p-0 shrink-0" onClick={copyWebhookUrl} title={t('flows.copyWebhookUrl')}>
+                  <Copy className="h-3 w-3" />
+                </Button>
+              </div>
+              <p className="text-[9px] text-muted-foreground leading-tight">{t('flows.triggerWebhookHint')}</p>
+              <pre className="text-[9px] bg-slate-50 dark:bg-slate-950 rounded p-1 font-mono" dir="ltr">{'{ "phone": "972501234567", "name": "Dana" }'}</pre>
+            </>
+          )}
+        </div>
+
+        <div className="pt-2 flex justify-center pb-1">
+          <Handle
+            type="source"
+            position={Position.Bottom}
+            isConnectable={isConnectable}
+            className="!bg-yellow-500 !w-2 !h-2 !border !border-white"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,7 @@
 import { formatDistance } from 'date-fns';
 import { he, ar } from 'date-fns/locale';
 import { Badge } from '@/components/ui/badge';
-import { CheckCheck } from 'lucide-react';
+import { AlarmClock, CheckCheck, Hourglass, Pin, StickyNote, UserCheck } from 'lucide-react';
 import { useLanguage } from '@/contexts/LanguageContext';
 import type { Chat } from '@/types';
 import { cn } from '@/lib/utils';
@@ -104,17 +104,22 @@ export default function ChatList({ chats, selectedChatId, onSelectChat }: ChatLi
                       {displayName && displayNumber && (
                         <span className="text-[10px] text-muted-foreground truncate">{displayNumber}</span>
                       )}
+                      {chat.assigned_to && (
+                        <span className="text-[10px] text-primary truncate flex items-center gap-1">
+                          <UserCheck className="h-2.5 w-2.5 shrink-0" />
+                          {chat.assigned_to}
+                        </span>
+                      )}
                     </div>
                   </div>
                   <div className="flex flex-col items-end gap-1 flex-shrink-0">
-                    {chat.last_message && (
-                      <span className="text-[10px] text-muted-foreground whitespace-nowrap">
-                        {formatDistance(new Date(chat.last_message.timestamp), new Date(), { 
-                          addSuffix: true,
-                          locale: language === 'he' ? he : language === 'ar' ? ar : undefined
-                        })}
-                      </span>
-                    )}
+                    <span className="text-[10px] text-muted-foreground whitespace-nowrap flex items-center gap-1">
+                      {chat.is_pinned && <Pin className="h-2.5 w-2.5" />}
+                      {chat.last_message && formatDistance(new Date(chat.last_message.timestamp), new Date(), { 
+                        addSuffix: true,
+                        locale: language === 'he' ? he : language === 'ar' ? ar : undefined
+                      })}
+                    </span>
                   </div>
                 </div>
                 
@@ -129,9 +134,20 @@ export default function ChatList({ chats, selectedChatId, onSelectChat }: ChatLi
                           {chat.unread_count}
                         </Badge>
                       )}
-                      {chat.status === 'handled' && (
-                        <CheckCheck className="h-3 w-3 text-green-500" />
-                      )}
+                      <div className="flex items-center gap-1">
+                        {!!chat.notes_count && (
+                          <StickyNote className="h-3 w-3 text-amber-500" />
+                        )}
+                        {chat.status === 'pending' && (
+                          <Hourglass className="h-3 w-3 text-orange-500" />
+                        )}
+                        {chat.status === 'snoozed' && (
+                          <AlarmClock className="h-3 w-3 text-blue-500" />
+                        )}
+                        {chat.status === 'closed' && (
+                          <CheckCheck className="h-3 w-3 text-green-500" />
+                        )}
+                      </div>
                     </div>
                   </div>
                 )}
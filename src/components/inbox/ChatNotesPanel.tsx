@@ -0,0 +1,152 @@
+import { useEffect, useRef, useState } from 'react';
+import { Lock, Send, StickyNote, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/components/ui/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
+import type { ChatNote } from '@/types';
+
+interface ChatNotesPanelProps {
+  chatId: string;
+  agents: string[];
+  defaultAuthor?: string | null;
+  onNotesChanged: (count: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Internal notes on a chat - for the team only, never sent to WhatsApp
+ */
+export default function ChatNotesPanel({ chatId, agents, defaultAuthor, onNotesChanged, onClose }: ChatNotesPanelProps) {
+  const { t, language } = useLanguage();
+  const [notes, setNotes] = useState<ChatNote[]>([]);
+  const [text, setText] = useState('');
+  const [author, setAuthor] = useState(defaultAuthor || '');
+  const [saving, setSaving] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setAuthor(defaultAuthor || '');
+  }, [chatId, defaultAuthor]);
+
+  useEffect(() => {
+    window.electron.messages.getChatNotes(chatId)
+      .then(setNotes)
+      .catch((error) => console.error('Failed to load chat notes:', error));
+  }, [chatId]);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [notes.length]);
+
+  const addNote = async () => {
+    if (!text.trim() || saving) return;
+
+    setSaving(true);
+    try {
+      const note = await window.electron.messages.addChatNote(chatId, text, author || null);
+      const updated = [...notes, note];
+      setNotes(updated);
+      onNotesChanged(updated.length);
+      setText('');
+    } catch (error) {
+      console.error('Failed to add chat note:', error);
+      toast.error(t('toast.error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteNote = async (noteId: string) => {
+    try {
+      await window.electron.messages.deleteChatNote(noteId);
+      const updated = notes.filter(note => note.id !== noteId);
+      setNotes(updated);
+      onNotesChanged(updated.length);
+    } catch (error) {
+      console.error('Failed to delete chat note:', error);
+      toast.error(t('toast.error'));
+    }
+  };
+
+  const formatTime = (timestamp: string) =>
+    new Date(timestamp).toLocaleString(language === 'he' ? 'he-IL' : language === 'ar' ? 'ar-SA' : 'en-US', {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  return (
+    <div className="w-72 border-s border-primary/10 flex flex-col bg-amber-50/40 dark:bg-amber-950/10">
+      <div className="p-3 border-b border-primary/10 flex items-center justify-between">
+        <h3 className="text-sm font-semibold flex items-center gap-2">
+          <StickyNote className="h-4 w-4 text-amber-500" />
+          {t('inbox.notes')}
+        </h3>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose} title={t('common.close')}>
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      <p className="px-3 py-2 text-[11px] text-muted-foreground flex items-center gap-1.5">
+        <Lock className="h-3 w-3 shrink-0" />
+        {t('inbox.notesPrivateHint')}
+      </p>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto px-3 space-y-2 scrollbar-thin scrollbar-thumb-muted">
+        {notes.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">{t('inbox.noNotes')}</p>
+        ) : (
+          notes.map(note => (
+            <div key={note.id} className="group rounded-lg border border-amber-200 dark:border-amber-900/60 bg-amber-50 dark:bg-amber-950/30 p-2">
+              <div className="flex items-center justify-between gap-2 text-[11px] text-muted-foreground">
+                <span className="truncate font-medium">{note.author || t('inbox.unknownAuthor')}</span>
+                <span className="shrink-0">{formatTime(note.created_at)}</span>
+                <button
+                  type="button"
+                  onClick={() => deleteNote(note.id)}
+                  className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-red-600 transition-opacity"
+                  title={t('common.delete')}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </div>
+              <p className="text-sm whitespace-pre-wrap mt-1" dir="auto">{note.note}</p>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="p-3 border-t border-primary/10 space-y-2">
+        {agents.length > 0 && (
+          <Select value={author} onChange={(e) => setAuthor(e.target.value)} className="h-8 text-xs">
+            <option value="">{t('inbox.unknownAuthor')}</option>
+            {agents.map(agent => (
+              <option key={agent} value={agent}>{agent}</option>
+            ))}
+          </Select>
+        )}
+        <div className="flex items-end gap-2">
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                addNote();
+              }
+            }}
+            placeholder={t('inbox.addNotePlaceholder')}
+            className="min-h-[60px] text-sm resize-none"
+            dir="auto"
+          />
+          <Button size="icon" className="h-9 w-9 shrink-0" onClick={addNote} disabled={!text.trim() || saving} title={t('inbox.addNote')}>
+            <Send className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { AlarmClock, Check, Pin, PinOff, StickyNote, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import type { Chat, ChatStatus } from '@/types';
+import { LATER_TIME_PRESETS } from '@/components/inbox/laterTimes';
+
+interface ChatTeamBarProps {
+  chat: Chat;
+  agents: string[];
+  showNotes: boolean;
+  onStatusChange: (status: ChatStatus, snoozedUntil?: string) => void;
+  onAssign: (agent: string | null) => void;
+  onAddAgent: (agent: string) => void;
+  onTogglePin: () => void;
+  onToggleNotes: () => void;
+}
+
+const CHAT_STATUS_STYLES: Record<ChatStatus, string> = {
+  open: 'text-sky-700 bg-sky-50 border-sky-200 dark:bg-sky-950/30 dark:text-sky-200',
+  pending: 'text-orange-700 bg-orange-50 border-orange-200 dark:bg-orange-950/30 dark:text-orange-200',
+  snoozed: 'text-blue-700 bg-blue-50 border-blue-200 dark:bg-blue-950/30 dark:text-blue-200',
+  closed: 'text-green-700 bg-green-50 border-green-200 dark:bg-green-950/30 dark:text-green-200',
+};
+
+const ADD_AGENT_OPTION = '__add_agent__';
+
+/**
+ * The team's controls for the open chat - status, snooze, assignee, pin and the notes toggle
+ */
+export default function ChatTeamBar({
+  chat,
+  agents,
+  showNotes,
+  onStatusChange,
+  onAssign,
+  onAddAgent,
+  onTogglePin,
+  onToggleNotes,
+}: ChatTeamBarProps) {
+  const { t, language } = useLanguage();
+  const [addingAgent, setAddingAgent] = useState(false);
+  const [newAgent, setNewAgent] = useState('');
+  const [customSnooze, setCustomSnooze] = useState<string | null>(null);
+
+  const formatTime = (timestamp: string) =>
+    new Date(timestamp).toLocaleString(language === 'he' ? 'he-IL' : language === 'ar' ? 'ar-SA' : 'en-US', {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const submitAgent = () => {
+    const name = newAgent.trim();
+    if (name) {
+      onAddAgent(name);
+      onAssign(name);
+    }
+    setNewAgent('');
+    setAddingAgent(false);
+  };
+
+  const submitCustomSnooze = () => {
+    if (!customSnooze) return;
+    const time = new Date(customSnooze);
+    if (Number.isNaN(time.getTime()) || time.getTime() <= Date.now()) return;
+    onStatusChange('snoozed', time.toISOString());
+    setCustomSnooze(null);
+  };
+
+  // The assignee may have been removed from the team list - keep it selectable
+  const agentOptions = chat.assigned_to && !agents.includes(chat.assigned_to)
+    ? [chat.assigned_to, ...agents]
+    : agents;
+
+  return (
+    <div className="px-6 py-2 border-b border-primary/10 flex flex-wrap items-center gap-2 bg-card">
+      <Select
+        value={chat.status}
+        onChange={(e) => onStatusChange(e.target.value as ChatStatus)}
+        className={cn('h-8 w-32 text-xs font-medium', CHAT_STATUS_STYLES[chat.status])}
+      >
+        <option value="open">{t('inbox.statusOpen')}</option>
+        <option value="pending">{t('inbox.statusPending')}</option>
+        {chat.status === 'snoozed' && <option value="snoozed">{t('inbox.statusSnoozed')}</option>}
+        <option value="closed">{t('inbox.statusClosed')}</option>
+      </Select>
+
+      {customSnooze !== null ? (
+        <div className="flex items-center gap-1">
+          <Input
+            type="datetime-local"
+            autoFocus
+            value={customSnooze}
+            onChange={(e) => setCustomSnooze(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && submitCustomSnooze()}
+            className="h-8 w-52 text-xs"
+          />
+          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={submitCustomSnooze} title={t('inbox.snooze')}>
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setCustomSnooze(null)} title={t('common.cancel')}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" variant="outline" className="h-8 gap-1.5 text-xs">
+              <AlarmClock className="h-3.5 w-3.5" />
+              {chat.status === 'snoozed' && chat.snoozed_until
+                ? t('inbox.snoozedUntil').replace('{time}', formatTime(chat.snoozed_until))
+                : t('inbox.snooze')}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {LATER_TIME_PRESETS.map(preset => (
+              <DropdownMenuItem key={preset.key} onClick={() => onStatusChange('snoozed', preset.getTime().toISOString())}>
+                {t(preset.key)}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuItem onClick={() => setCustomSnooze('')}>
+              {t('inbox.snoozeCustom')}
+            </DropdownMenuItem>
+            {chat.status === 'snoozed' && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => onStatusChange('open')}>
+                  {t('inbox.unsnooze')}
+                </DropdownMenuItem>
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      {addingAgent ? (
+        <div className="flex items-center gap-1">
+          <Input
+            autoFocus
+            value={newAgent}
+            placeholder={t('inbox.agentName')}
+            onChange={(e) => setNewAgent(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submitAgent();
+              if (e.key === 'Escape') setAddingAgent(false);
+            }}
+            className="h-8 w-40 text-xs"
+          />
+          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={submitAgent} title={t('inbox.addAgent')}>
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setAddingAgent(false)} title={t('common.cancel')}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <Select
+          value={chat.assigned_to || ''}
+          onChange={(e) => {
+            if (e.target.value === ADD_AGENT_OPTION) {
+              setAddingAgent(true);
+            } else {
+              onAssign(e.target.value || null);
+            }
+          }}
+          className="h-8 w-40 text-xs"
+          title={t('inbox.assignTo')}
+        >
+          <option value="">{t('inbox.unassigned')}</option>
+          {agentOptions.map(agent => (
+            <option key={agent} value={agent}>{agent}</option>
+          ))}
+          <option value={ADD_AGENT_OPTION}>{t('inbox.addAgent')}</option>
+        </Select>
+      )}
+
+      <div className="flex items-center gap-1 ms-auto">
+        <Button
+          size="sm"
+          variant={chat.is_pinned ? 'secondary' : 'ghost'}
+          className="h-8 gap-1.5 text-xs"
+          onClick={onTogglePin}
+        >
+          {chat.is_pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+          {chat.is_pinned ? t('inbox.unpin') : t('inbox.pin')}
+        </Button>
+        <Button
+          size="sm"
+          variant={showNotes ? 'secondary' : 'ghost'}
+          className="h-8 gap-1.5 text-xs"
+          onClick={onToggleNotes}
+        >
+          <StickyNote className="h-3.5 w-3.5" />
+          {t('inbox.notes')}
+          {!!chat.notes_count && <span className="text-muted-foreground">({chat.notes_count})</span>}
+        </Button>
+      </div>
+    </div>
+  );
+}
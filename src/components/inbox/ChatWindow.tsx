@@ -4,11 +4,45 @@ import { he, ar } from 'date-fns/locale';
 import { useLanguage } from '@/contexts/LanguageContext';
 import type { Message } from '@/types';
 import { cn } from '@/lib/utils';
-import { FileText, Image as ImageIcon, Download, Check, Loader2 } from 'lucide-react';
+import { FileText, Image as ImageIcon, Download, Check, Loader2, CornerUpLeft, SmilePlus, Forward } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 interface ChatWindowProps {
   messages: Message[];
+  // A message opened from the search results - scrolled to and highlighted, with the searched words marked
+  highlightMessageId?: string | null;
+  highlightQuery?: string;
+  // Who a quoted message is from when it isn't ours
+  contactName?: string;
+  // Message actions, shown on hover - left out, the action is hidden
+  onReply?: (message: Message) => void;
+  onReact?: (message: Message, emoji: string) => void; // an empty emoji takes our reaction back
+  onForward?: (message: Message) => void;
+}
+
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+// Messages sent from the app before WhatsApp ids were stored can't be quoted or reacted to
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const canQuote = (message: Message) => Boolean(message.wa_message_id) || !UUID_PATTERN.test(message.id);
+
+// Searched words inside a message's text; search matches word prefixes, so does this
+function HighlightedText({ text, query }: { text: string; query?: string }) {
+  const terms = (query || '').split(/\s+/).filter(Boolean).map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (terms.length === 0) {
+    return <>{text}</>;
+  }
+
+  const pattern = new RegExp(`(${terms.join('|')})`, 'giu');
+  return (
+    <>
+      {text.split(pattern).map((part, index) => index % 2 === 1 ? (
+        <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm">{part}</mark>
+      ) : (
+        part
+      ))}
+    </>
+  );
 }
 
 // Component to display message media
@@ -126,15 +160,68 @@ function MessageMedia({ message }: { message: Message }) {
   );
 }
 
-export default function ChatWindow({ messages }: ChatWindowProps) {
-  const { language } = useLanguage();
+export default function ChatWindow({ messages, highlightMessageId, highlightQuery, contactName, onReply, onReact, onForward }: ChatWindowProps) {
+  const { t, language } = useLanguage();
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const highlightedMessageRef = useRef<HTMLDivElement>(null);
+  // The message whose quick-reaction bar is open
+  const [reactingMessageId, setReactingMessageId] = useState<string | null>(null);
+  // The quoted message jumped to from a reply - flashed for a moment
+  const [jumpedMessageId, setJumpedMessageId] = useState<string | null>(null);
 
   useEffect(() => {
+    if (!jumpedMessageId) return;
+    const timeout = setTimeout(() => setJumpedMessageId(null), 1500);
+    return () => clearTimeout(timeout);
+  }, [jumpedMessageId]);
+
+  const jumpToQuoted = (quotedWaMessageId: string) => {
+    const quoted = messages.find(m => m.wa_message_id === quotedWaMessageId || quotedWaMessageId.endsWith(`_${m.id}`));
+    if (!quoted) return;
+    document.getElementById(`message-${quoted.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setJumpedMessageId(quoted.id);
+  };
+
+  const react = (message: Message, emoji: string) => {
+    setReactingMessageId(null);
+    // Picking our current reaction again takes it back
+    const current = message.reactions?.find(reaction => reaction.from_me)?.emoji;
+    onReact?.(message, current === emoji ? '' : emoji);
+  };
+
+  useEffect(() => {
+    if (highlightMessageId && highlightedMessageRef.current) {
+      highlightedMessageRef.current.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      return;
+    }
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, highlightMessageId]);
+
+  const renderQuote = (message: Message) => {
+    if (!message.quoted_wa_message_id && !message.quoted_message_text) return null;
+
+    return (
+      <button
+        type="button"
+        onClick={() => message.quoted_wa_message_id && jumpToQuoted(message.quoted_wa_message_id)}
+        className={cn(
+          'w-full text-start mb-1 rounded-md bg-black/5 dark:bg-white/10 border-s-4 px-2 py-1',
+          message.quoted_is_from_me ? 'border-primary' : 'border-purple-500'
+        )}
+      >
+        <span className={cn('block text-[11px] font-semibold', message.quoted_is_from_me ? 'text-primary' : 'text-purple-600 dark:text-purple-300')}>
+          {message.quoted_is_from_me ? t('inbox.you') : contactName}
+        </span>
+        <span className="block text-xs opacity-80 line-clamp-2 whitespace-pre-wrap" dir="auto">
+          {message.quoted_message_text || '…'}
+        </span>
+      </button>
+    );
+  };
 
   const renderMessageContent = (message: Message) => {
+    const isHighlighted = message.id === highlightMessageId;
+
     // Handle media messages (images, videos, and documents)
     if (message.message_type === 'image' || message.message_type === 'video' || message.message_type === 'document') {
       return (
@@ -144,7 +231,12 @@ export default function ChatWindow({ messages }: ChatWindowProps) {
           
           {/* Caption if exists */}
           {message.message_text && message.message_text.trim() && (
-            <p className="whitespace-pre-wrap leading-relaxed text-sm">{message.message_text}</p>
+            <p className="whitespace-pre-wrap leading-relaxed text-sm">
+              {isHighlighted ? <HighlightedText text={message.message_text} query={highlightQuery} /> : message.message_text}
+            </p>
+          )}
+          {isHighlighted && !message.message_text?.trim() && message.media_filename && (
+            <p className="text-xs opacity-70"><HighlightedText text={message.media_filename} query={highlightQuery} /></p>
           )}
         </div>
       );
@@ -159,7 +251,11 @@ export default function ChatWindow({ messages }: ChatWindowProps) {
       );
     }
     
-    return <p className="whitespace-pre-wrap leading-relaxed text-[14px]">{message.message_text}</p>;
+    return (
+      <p className="whitespace-pre-wrap leading-relaxed text-[14px]">
+        {isHighlighted ? <HighlightedText text={message.message_text} query={highlightQuery} /> : message.message_text}
+      </p>
+    );
   };
 
   return (
@@ -223,15 +319,63 @@ export default function ChatWindow({ messages }: ChatWindowProps) {
                 )}
               >
                 <div className={cn(
-                  "flex flex-col max-w-[65%] min-w-[100px]",
+                  "flex flex-col max-w-[65%] min-w-[100px] relative group/message",
                   isMe ? "items-end" : "items-start"
                 )}>
+                  {(onReply || onReact || onForward) && (
+                    <div className={cn(
+                      'absolute top-1 flex items-center gap-0.5 opacity-0 group-hover/message:opacity-100 transition-opacity z-10',
+                      isMe ? 'end-full me-2' : 'start-full ms-2',
+                      reactingMessageId === message.id && 'opacity-100'
+                    )}>
+                      {reactingMessageId === message.id ? (
+                        <div className="flex items-center gap-0.5 rounded-full bg-white dark:bg-[#233138] shadow-md border border-border px-1.5 py-0.5">
+                          {QUICK_REACTIONS.map(emoji => (
+                            <button
+                              key={emoji}
+                              type="button"
+                              onClick={() => react(message, emoji)}
+                              className={cn(
+                                'h-7 w-7 rounded-full text-base hover:bg-muted transition-colors',
+                                message.reactions?.some(reaction => reaction.from_me && reaction.emoji === emoji) && 'bg-primary/15'
+                              )}
+                            >
+                              {emoji}
+                            </button>
+                          ))}
+                        </div>
+                      ) : (
+                        <>
+                          {onReply && canQuote(message) && (
+                            <Button size="icon" variant="secondary" className="h-7 w-7 rounded-full shadow-sm" onClick={() => onReply(message)} title={t('inbox.reply')}>
+                              <CornerUpLeft className="h-3.5 w-3.5" />
+                            </Button>
+                          )}
+                          {onReact && canQuote(message) && (
+                            <Button size="icon" variant="secondary" className="h-7 w-7 rounded-full shadow-sm" onClick={() => setReactingMessageId(message.id)} title={t('inbox.react')}>
+                              <SmilePlus className="h-3.5 w-3.5" />
+                            </Button>
+                          )}
+                          {onForward && (
+                            <Button size="icon" variant="secondary" className="h-7 w-7 rounded-full shadow-sm" onClick={() => onForward(message)} title={t('inbox.forward')}>
+                              <Forward className="h-3.5 w-3.5" />
+                            </Button>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  )}
                   <div
+                    id={`message-${message.id}`}
+                    ref={message.id === highlightMessageId ? highlightedMessageRef : undefined}
+                    onMouseLeave={() => reactingMessageId === message.id && setReactingMessageId(null)}
                     className={cn(
-                      'px-3 py-2 rounded-lg shadow-md text-sm relative group',
+                      'px-3 py-2 rounded-lg shadow-md text-sm relative group transition-shadow',
                       isMe
                         ? 'bg-[#d9fdd3] dark:bg-[#005c4b] text-gray-900 dark:text-gray-100'
-                        : 'bg-white dark:bg-[#202c33] text-gray-900 dark:text-gray-100'
+                        : 'bg-white dark:bg-[#202c33] text-gray-900 dark:text-gray-100',
+                      message.id === highlightMessageId && 'ring-2 ring-yellow-400 ring-offset-2 ring-offset-transparent',
+                      message.id === jumpedMessageId && 'ring-2 ring-primary ring-offset-2 ring-offset-transparent'
                     )}
                     style={{
                       borderTopRightRadius: isMe ? '2px' : '8px',
@@ -248,6 +392,15 @@ export default function ChatWindow({ messages }: ChatWindowProps) {
                       }}
                     />
                     
+                    {message.is_forwarded && (
+                      <p className="flex items-center gap-1 text-[11px] italic text-gray-500 dark:text-gray-400 mb-0.5">
+                        <Forward className="h-3 w-3" />
+                        {t('inbox.forwarded')}
+                      </p>
+                    )}
+
+                    {renderQuote(message)}
+
                     <div dir={language === 'he' || language === 'ar' ? 'rtl' : 'ltr'}>
                       {renderMessageContent(message)}
                     </div>
@@ -266,6 +419,26 @@ export default function ChatWindow({ messages }: ChatWindowProps) {
                       )}
                     </div>
                   </div>
+
+                  {message.reactions && message.reactions.length > 0 && (
+                    <div className="flex flex-wrap gap-1 -mt-1.5 px-2 z-[1]">
+                      {message.reactions.map(reaction => (
+                        <button
+                          key={reaction.emoji}
+                          type="button"
+                          disabled={!onReact}
+                          onClick={() => react(message, reaction.emoji)}
+                          className={cn(
+                            'flex items-center gap-0.5 rounded-full border px-1.5 py-0.5 text-xs shadow-sm bg-white dark:bg-[#233138]',
+                            reaction.from_me ? 'border-primary/50' : 'border-border'
+                          )}
+                        >
+                          <span>{reaction.emoji}</span>
+                          {reaction.count > 1 && <span className="text-[10px] text-muted-foreground">{reaction.count}</span>}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Forward, Loader2 } from 'lucide-react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { toast } from '@/components/ui/use-toast';
+import { cn } from '@/lib/utils';
+import type { Account, Chat, Message } from '@/types';
+
+interface ForwardMessageDialogProps {
+  message: Message | null;
+  accounts: Account[];
+  onOpenChange: (open: boolean) => void;
+  onForwarded: (targetChatId: string) => void;
+}
+
+/**
+ * Picks an Inbox chat, on any account, to forward a message to
+ */
+export default function ForwardMessageDialog({ message, accounts, onOpenChange, onForwarded }: ForwardMessageDialogProps) {
+  const { t } = useLanguage();
+  const [chats, setChats] = useState<Chat[]>([]);
+  const [search, setSearch] = useState('');
+  const [targetChatId, setTargetChatId] = useState<string | null>(null);
+  const [forwarding, setForwarding] = useState(false);
+
+  useEffect(() => {
+    if (!message) return;
+
+    setSearch('');
+    setTargetChatId(null);
+    window.electron.messages.getChats()
+      .then(setChats)
+      .catch((error) => console.error('Failed to load chats:', error));
+  }, [message?.id]);
+
+  const accountName = (accountId: string) => {
+    const account = accounts.find(a => a.id === accountId);
+    return account ? account.name || account.phone_number : '';
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleChats = query
+    ? chats.filter(chat => chat.name?.toLowerCase().includes(query) || chat.phone_number.includes(query))
+    : chats;
+
+  const handleForward = async () => {
+    if (!message || !targetChatId) return;
+
+    setForwarding(true);
+    try {
+      await window.electron.messages.forward(message.id, targetChatId);
+      onOpenChange(false);
+      onForwarded(targetChatId);
+    } catch (error) {
+      console.error('Failed to forward message:', error);
+      toast.error(t('toast.error'));
+    } finally {
+      setForwarding(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!message} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Forward className="h-5 w-5 text-primary" />
+            {t('inbox.forwardTo')}
+          </DialogTitle>
+          <DialogDescription className="line-clamp-2" dir="auto">
+            {message?.message_text || message?.media_filename || ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Input
+            autoFocus
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t('inbox.searchChats')}
+          />
+          <div className="rounded-md border max-h-72 overflow-y-auto divide-y divide-border/50">
+            {visibleChats.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">{t('inbox.noChats')}</p>
+            ) : (
+              visibleChats.map(chat => (
+                <button
+                  key={chat.id}
+                  type="button"
+                  onClick={() => setTargetChatId(chat.id)}
+                  className={cn(
+                    'w-full text-start px-3 py-2 transition-colors hover:bg-primary/5',
+                    targetChatId === chat.id && 'bg-primary/10'
+                  )}
+                >
+                  <p className="text-sm font-medium truncate">{chat.name || chat.phone_number}</p>
+                  <p className="text-[11px] text-muted-foreground truncate">
+                    {chat.name ? `${chat.phone_number} · ` : ''}{accountName(chat.account_id)}
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+          {targetChatId && message && chats.find(chat => chat.id === targetChatId)?.account_id !== message.account_id && (
+            <p className="text-xs text-muted-foreground">{t('inbox.forwardOtherAccountHint')}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleForward} disabled={!targetChatId || forwarding} className="gap-2">
+            {forwarding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Forward className="h-4 w-4" />}
+            {t('inbox.forward')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
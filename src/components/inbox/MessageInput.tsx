@@ -1,28 +1,48 @@
 import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { Send, Smile, Image, FileText, X, Paperclip, Video, File } from 'lucide-react';
+import { Send, Smile, Image, FileText, X, Paperclip, Video, File, Zap, CalendarClock, CornerUpLeft } from 'lucide-react';
 import { useLanguage } from '@/contexts/LanguageContext';
 import EmojiPicker, { EmojiClickData } from 'emoji-picker-react';
+import QuickReplyPicker, { filterQuickReplies } from '@/components/inbox/QuickReplyPicker';
+import { LATER_TIME_PRESETS, toDateTimeLocalValue } from '@/components/inbox/laterTimes';
+import type { Message, MessageTemplate } from '@/types';
 
 interface MessageInputProps {
   onSend: (message: string) => void;
   onSendFile?: (file: File, type: 'image' | 'document' | 'video', caption?: string) => void;
+  // Quick replies - "/" opens a picker of message templates, rendered for this chat (chats.id)
+  chatId?: string;
+  onSendTemplate?: (template: MessageTemplate, text: string) => void;
+  // Send later - queues what is in the box (text, a file or a quick reply) for scheduledAt
+  onSchedule?: (scheduledAt: string, message: string, attachment: { file?: File; template?: MessageTemplate }) => void;
+  // The message being replied to - whatever is sent next quotes it
+  replyTo?: Message | null;
+  replyToName?: string;
+  onCancelReply?: () => void;
   disabled?: boolean;
 }
 
-export default function MessageInput({ onSend, onSendFile, disabled }: MessageInputProps) {
+export default function MessageInput({ onSend, onSendFile, chatId, onSendTemplate, onSchedule, replyTo, replyToName, onCancelReply, disabled }: MessageInputProps) {
   const { t, language } = useLanguage();
   const [message, setMessage] = useState('');
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [activeQuickReply, setActiveQuickReply] = useState(0);
+  // A quick reply inserted for editing - sent with its media and counted when the message goes out
+  const [pendingTemplate, setPendingTemplate] = useState<MessageTemplate | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [fileType, setFileType] = useState<'image' | 'document' | 'video' | null>(null);
   const [showMediaMenu, setShowMediaMenu] = useState(false);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [scheduleTime, setScheduleTime] = useState('');
   const imageInputRef = useRef<HTMLInputElement>(null);
   const videoInputRef = useRef<HTMLInputElement>(null);
   const documentInputRef = useRef<HTMLInputElement>(null);
   const emojiPickerRef = useRef<HTMLDivElement>(null);
   const mediaMenuRef = useRef<HTMLDivElement>(null);
+  const scheduleMenuRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -32,21 +52,80 @@ export default function MessageInput({ onSend, onSendFile, disabled }: MessageIn
       if (mediaMenuRef.current && !mediaMenuRef.current.contains(event.target as Node)) {
         setShowMediaMenu(false);
       }
+      if (scheduleMenuRef.current && !scheduleMenuRef.current.contains(event.target as Node)) {
+        setShowSchedule(false);
+      }
     };
 
-    if (showEmojiPicker || showMediaMenu) {
+    if (showEmojiPicker || showMediaMenu || showSchedule) {
       document.addEventListener('mousedown', handleClickOutside);
     }
 
     return () => {
       document.removeEventListener('mousedown', handleClickOutside);
     };
-  }, [showEmojiPicker, showMediaMenu]);
+  }, [showEmojiPicker, showMediaMenu, showSchedule]);
+
+  useEffect(() => {
+    if (replyTo) {
+      textareaRef.current?.focus();
+    }
+  }, [replyTo?.id]);
+
+  const quickReplyQuery = onSendTemplate && !selectedFile && !pendingTemplate && message.startsWith('/')
+    ? message.slice(1)
+    : null;
+  const quickReplies = quickReplyQuery !== null ? filterQuickReplies(templates, quickReplyQuery) : [];
+
+  const showQuickReplies = quickReplyQuery !== null;
+
+  // Reloaded each time the picker opens, so new templates and the usage order are current
+  useEffect(() => {
+    if (!showQuickReplies) return;
+    window.electron.templates.getAll()
+      .then(setTemplates)
+      .catch((error) => console.error('Failed to load quick replies:', error));
+  }, [showQuickReplies]);
+
+  useEffect(() => {
+    setActiveQuickReply(0);
+  }, [quickReplyQuery]);
+
+  const renderQuickReply = async (template: MessageTemplate) => {
+    if (!chatId) return template.message;
+    try {
+      return (await window.electron.templates.renderForChat(template.id, chatId)) ?? template.message;
+    } catch (error) {
+      console.error('Failed to render quick reply:', error);
+      return template.message;
+    }
+  };
+
+  const sendQuickReply = async (template: MessageTemplate) => {
+    if (!onSendTemplate) return;
+    setMessage('');
+    onSendTemplate(template, await renderQuickReply(template));
+  };
+
+  const insertQuickReply = async (template: MessageTemplate) => {
+    setPendingTemplate(template);
+    setMessage(await renderQuickReply(template));
+    textareaRef.current?.focus();
+  };
+
+  const openQuickReplies = () => {
+    setMessage('/');
+    textareaRef.current?.focus();
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (selectedFile && fileType && onSendFile) {
+    if (pendingTemplate && onSendTemplate) {
+      onSendTemplate(pendingTemplate, message.trim());
+      setPendingTemplate(null);
+      setMessage('');
+    } else if (selectedFile && fileType && onSendFile) {
       onSendFile(selectedFile, fileType, message.trim() || undefined);
       setSelectedFile(null);
       setFileType(null);
@@ -57,7 +136,65 @@ export default function MessageInput({ onSend, onSendFile, disabled }: MessageIn
     }
   };
 
+  const hasContent = Boolean(message.trim() || selectedFile || pendingTemplate?.media_path);
+
+  const scheduleAt = (time: Date) => {
+    if (!onSchedule || !hasContent || Number.isNaN(time.getTime())) return;
+
+    onSchedule(time.toISOString(), message.trim(), {
+      file: selectedFile || undefined,
+      template: pendingTemplate || undefined,
+    });
+    setShowSchedule(false);
+    setScheduleTime('');
+    setPendingTemplate(null);
+    clearSelectedFile();
+    setMessage('');
+  };
+
+  const openSchedule = () => {
+    // Suggest an hour from now, rounded to the next quarter
+    const suggestion = new Date(Date.now() + 60 * 60 * 1000);
+    suggestion.setMinutes(Math.ceil(suggestion.getMinutes() / 15) * 15, 0, 0);
+    setScheduleTime(toDateTimeLocalValue(suggestion));
+    setShowSchedule(!showSchedule);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Enter sends the highlighted quick reply as is, Tab puts it in the box to edit first
+    if (showQuickReplies) {
+      const template = quickReplies[activeQuickReply];
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        if (quickReplies.length > 0) {
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          setActiveQuickReply(index => (index + step + quickReplies.length) % quickReplies.length);
+        }
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMessage('');
+        return;
+      }
+      if (template && e.key === 'Tab') {
+        e.preventDefault();
+        insertQuickReply(template);
+        return;
+      }
+      if (template && e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault();
+        sendQuickReply(template);
+        return;
+      }
+    }
+
+    if (e.key === 'Escape' && replyTo) {
+      e.preventDefault();
+      onCancelReply?.();
+      return;
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSubmit(e);
@@ -103,9 +240,9 @@ export default function MessageInput({ onSend, onSendFile, disabled }: MessageIn
     if (documentInputRef.current) documentInputRef.current.value = '';
   };
 
-  const placeholder = selectedFile 
+  const placeholder = selectedFile || pendingTemplate?.media_path
     ? (language === 'he' ? 'הוסף כיתוב (אופציונלי)...' : language === 'ar' ? 'أضف تعليقاً (اختياري)...' : 'Add a caption (optional)...')
-    : t('inbox.typeMessage');
+    : onSendTemplate ? t('inbox.typeMessageOrSlash') : t('inbox.typeMessage');
 
   return (
     <form onSubmit={handleSubmit} className="border-t border-primary/10 p-3 bg-primary/5 relative">
@@ -121,6 +258,64 @@ export default function MessageInput({ onSend, onSendFile, disabled }: MessageIn
         </div>
       )}
 
+      {showQuickReplies && (
+        <QuickReplyPicker
+          templates={quickReplies}
+          activeIndex={activeQuickReply}
+          onHover={setActiveQuickReply}
+          onSelect={sendQuickReply}
+        />
+      )}
+
+      {replyTo && (
+        <div className="mb-2 px-3 py-2 bg-white dark:bg-[#2a3942] rounded-lg flex items-center justify-between gap-2 shadow-sm border-s-4 border-primary">
+          <div className="flex items-start gap-2 min-w-0">
+            <CornerUpLeft className="h-4 w-4 text-primary shrink-0 mt-0.5" />
+            <div className="min-w-0">
+              <p className="text-xs font-semibold text-primary">
+                {t('inbox.replyingTo').replace('{name}', replyTo.is_from_me ? t('inbox.you') : replyToName || '')}
+              </p>
+              <p className="text-sm text-muted-foreground truncate" dir="auto">
+                {replyTo.message_text || replyTo.media_filename || ''}
+              </p>
+            </div>
+          </div>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7 shrink-0"
+            onClick={onCancelReply}
+            title={t('common.cancel')}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {pendingTemplate && (
+        <div className="mb-2 px-3 py-2 bg-white dark:bg-[#2a3942] rounded-lg flex items-center justify-between shadow-sm">
+          <div className="flex items-center gap-2 min-w-0">
+            <Zap className="h-4 w-4 text-primary shrink-0" />
+            <span className="text-sm font-medium truncate">{pendingTemplate.name}</span>
+            {pendingTemplate.media_path && (
+              <span className="text-xs text-muted-foreground truncate">
+                · {pendingTemplate.media_path.split(/[\\/]/).pop()}
+              </span>
+            )}
+          </div>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7"
+            onClick={() => setPendingTemplate(null)}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
       {selectedFile && (
         <div className="mb-2 p-3 bg-white dark:bg-[#2a3942] rounded-lg flex items-center justify-between shadow-sm">
           <div className="flex items-center gap-3">
@@ -170,6 +365,20 @@ export default function MessageInput({ onSend, onSendFile, disabled }: MessageIn
           >
             <Smile className="h-5 w-5" />
           </Button>
+
+          {onSendTemplate && (
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              className="h-10 w-10 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 hover:bg-transparent"
+              onClick={openQuickReplies}
+              disabled={disabled}
+              title={t('inbox.quickReplies')}
+            >
+              <Zap className="h-5 w-5" />
+            </Button>
+          )}
           
           <input
             ref={imageInputRef}
@@ -251,6 +460,7 @@ export default function MessageInput({ onSend, onSendFile, disabled }: MessageIn
         </div>
         
         <Textarea
+          ref={textareaRef}
           value={message}
           onChange={(e) => setMessage(e.target.value)}
           onKeyDown={handleKeyDown}
@@ -260,10 +470,60 @@ export default function MessageInput({ onSend, onSendFile, disabled }: MessageIn
           dir={language === 'he' || language === 'ar' ? 'rtl' : 'ltr'}
         />
         
+        {onSchedule && (
+          <div className="relative" ref={scheduleMenuRef}>
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              className="h-10 w-10 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 hover:bg-transparent"
+              onClick={openSchedule}
+              disabled={disabled || !hasContent}
+              title={t('inbox.sendLater')}
+            >
+              <CalendarClock className="h-5 w-5" />
+            </Button>
+
+            {showSchedule && (
+              <div className="absolute bottom-12 end-0 bg-white dark:bg-[#2a3942] rounded-lg shadow-lg border border-border p-2 z-50 w-64 space-y-1">
+                <p className="px-2 pb-1 text-xs font-medium text-muted-foreground">{t('inbox.sendLater')}</p>
+                {LATER_TIME_PRESETS.map(preset => (
+                  <button
+                    key={preset.key}
+                    type="button"
+                    className="w-full px-3 py-2 text-sm text-start hover:bg-primary/5 rounded transition-colors"
+                    onClick={() => scheduleAt(preset.getTime())}
+                  >
+                    {t(preset.key)}
+                  </button>
+                ))}
+                <div className="flex items-center gap-1 pt-1 border-t">
+                  <input
+                    type="datetime-local"
+                    value={scheduleTime}
+                    min={toDateTimeLocalValue(new Date())}
+                    onChange={(e) => setScheduleTime(e.target.value)}
+                    className="flex-1 min-w-0 h-8 rounded border border-input bg-background px-2 text-xs"
+                  />
+                  <Button
+                    type="button"
+                    size="sm"
+                    className="h-8 text-xs"
+                    disabled={!scheduleTime || new Date(scheduleTime).getTime() <= Date.now()}
+                    onClick={() => scheduleAt(new Date(scheduleTime))}
+                  >
+                    {t('inbox.schedule')}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
         <Button 
           type="submit" 
           size="icon" 
-          disabled={disabled || (!message.trim() && !selectedFile)}
+          disabled={disabled || !hasContent}
           className="h-10 w-10 rounded-full bg-primary hover:bg-primary/90 shadow-md shrink-0"
         >
           <Send className="h-4 w-4 text-white" />
@@ -0,0 +1,172 @@
+import { useEffect, useRef, useState } from 'react';
+import { ArrowDownLeft, ArrowUpRight, Loader2, Paperclip, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import type { Account, MessageSearchChatGroup, MessageSearchDirection, MessageSearchHit, MessageSearchResult } from '@/types';
+
+interface MessageSearchPanelProps {
+  accounts: Account[];
+  selectedMessageId: string | null;
+  onOpenMessage: (group: MessageSearchChatGroup, hit: MessageSearchHit, query: string) => void;
+  onClose: () => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export default function MessageSearchPanel({ accounts, selectedMessageId, onOpenMessage, onClose }: MessageSearchPanelProps) {
+  const { t, language } = useLanguage();
+  const [query, setQuery] = useState('');
+  const [accountId, setAccountId] = useState('all');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [direction, setDirection] = useState<MessageSearchDirection>('all');
+  const [result, setResult] = useState<MessageSearchResult | null>(null);
+  const [searching, setSearching] = useState(false);
+  const searchIdRef = useRef(0);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResult(null);
+      return;
+    }
+
+    const searchId = ++searchIdRef.current;
+    const timeout = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const data = await window.electron.messages.search(query, {
+          accountId: accountId === 'all' ? undefined : accountId,
+          // The date inputs are local days; messages are stored with UTC timestamps
+          dateFrom: dateFrom ? new Date(`${dateFrom}T00:00:00`).toISOString() : undefined,
+          dateTo: dateTo ? new Date(`${dateTo}T23:59:59.999`).toISOString() : undefined,
+          direction,
+        });
+        // A slower, older search must not overwrite a newer one
+        if (searchId === searchIdRef.current) {
+          setResult(data);
+        }
+      } catch (error) {
+        console.error('Failed to search messages:', error);
+      } finally {
+        if (searchId === searchIdRef.current) {
+          setSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [query, accountId, dateFrom, dateTo, direction]);
+
+  const formatTime = (timestamp: string) =>
+    new Date(timestamp).toLocaleString(language === 'he' ? 'he-IL' : language === 'ar' ? 'ar-SA' : 'en-US', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 space-y-2 border-b border-primary/10">
+        <div className="flex gap-2">
+          <Input
+            autoFocus
+            placeholder={t('inbox.searchMessages')}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="h-9 bg-muted/50 border-none focus-visible:ring-1"
+          />
+          <Button variant="ghost" size="icon" className="h-9 w-9 shrink-0" onClick={onClose} title={t('common.close')}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex gap-2">
+          <Select value={accountId} onChange={(e) => setAccountId(e.target.value)} className="h-8 text-xs">
+            <option value="all">{t('inbox.allAccounts')}</option>
+            {accounts.map(account => (
+              <option key={account.id} value={account.id}>{account.name || account.phone_number}</option>
+            ))}
+          </Select>
+          <Select value={direction} onChange={(e) => setDirection(e.target.value as MessageSearchDirection)} className="h-8 text-xs">
+            <option value="all">{t('inbox.searchAllDirections')}</option>
+            <option value="incoming">{t('inbox.searchIncoming')}</option>
+            <option value="outgoing">{t('inbox.searchOutgoing')}</option>
+          </Select>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className="h-8 text-xs" title={t('inbox.searchFrom')} />
+          <span className="text-xs text-muted-foreground">–</span>
+          <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} className="h-8 text-xs" title={t('inbox.searchTo')} />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-thin scrollbar-thumb-muted">
+        {searching && !result && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {!query.trim() && (
+          <p className="py-12 px-4 text-center text-sm text-muted-foreground">{t('inbox.searchMessagesHint')}</p>
+        )}
+
+        {result && result.groups.length === 0 && (
+          <p className="py-12 px-4 text-center text-sm text-muted-foreground">{t('inbox.noSearchResults')}</p>
+        )}
+
+        {result && result.groups.length > 0 && (
+          <div className="divide-y divide-border/50">
+            {result.groups.map(group => (
+              <div key={group.chat_id} className="py-2">
+                <div className="px-4 pb-1 flex items-center justify-between gap-2">
+                  <span className="text-sm font-semibold truncate">{group.name || group.phone_number}</span>
+                  <span className="text-[11px] text-muted-foreground shrink-0">
+                    {group.total_hits} {t('inbox.searchMatches')}
+                  </span>
+                </div>
+
+                {group.hits.map(hit => (
+                  <button
+                    key={hit.message_id}
+                    type="button"
+                    onClick={() => onOpenMessage(group, hit, query)}
+                    className={cn(
+                      'w-full text-start px-4 py-1.5 transition-colors hover:bg-primary/5',
+                      selectedMessageId === hit.message_id && 'bg-primary/10'
+                    )}
+                  >
+                    <div className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+                      {hit.is_from_me ? <ArrowUpRight className="h-3 w-3" /> : <ArrowDownLeft className="h-3 w-3" />}
+                      {hit.media_filename && <Paperclip className="h-3 w-3" />}
+                      {formatTime(hit.timestamp)}
+                    </div>
+                    <p className="text-sm line-clamp-2" dir="auto">
+                      {hit.snippet.map((part, index) => part.match ? (
+                        <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm px-0.5">{part.text}</mark>
+                      ) : (
+                        <span key={index}>{part.text}</span>
+                      ))}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {result && result.total_hits > 0 && (
+        <div className="p-2 text-center border-t border-primary/10 bg-primary/5 text-xs text-muted-foreground">
+          {result.total_hits}{result.truncated ? '+' : ''} {t('inbox.searchMatches')} · {result.groups.length} {t('inbox.chats')}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { FileText, Image, Video, Zap } from 'lucide-react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { cn } from '@/lib/utils';
+import type { MessageTemplate } from '@/types';
+
+interface QuickReplyPickerProps {
+  templates: MessageTemplate[];
+  activeIndex: number;
+  onHover: (index: number) => void;
+  onSelect: (template: MessageTemplate) => void;
+}
+
+// Most used first, then by name - the reply an agent sends all day stays at the top
+export function filterQuickReplies(templates: MessageTemplate[], query: string, limit = 8) {
+  const search = query.trim().toLowerCase();
+  return templates
+    .filter(template => !search
+      || template.name.toLowerCase().includes(search)
+      || template.message.toLowerCase().includes(search))
+    .sort((a, b) => (b.usage_count || 0) - (a.usage_count || 0) || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
+
+export default function QuickReplyPicker({ templates, activeIndex, onHover, onSelect }: QuickReplyPickerProps) {
+  const { t } = useLanguage();
+
+  const getMediaIcon = (mediaType?: string) => {
+    switch (mediaType) {
+      case 'image':
+        return <Image className="h-3.5 w-3.5 text-blue-600 shrink-0" />;
+      case 'video':
+        return <Video className="h-3.5 w-3.5 text-purple-600 shrink-0" />;
+      case 'document':
+        return <FileText className="h-3.5 w-3.5 text-green-600 shrink-0" />;
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="absolute bottom-full left-3 right-3 mb-2 bg-white dark:bg-[#2a3942] rounded-lg shadow-lg border border-border z-50 overflow-hidden">
+      <div className="px-3 py-1.5 border-b text-[11px] text-muted-foreground flex items-center gap-1.5">
+        <Zap className="h-3 w-3 text-primary" />
+        {t('inbox.quickReplies')}
+        <span className="ml-auto">{t('inbox.quickRepliesHint')}</span>
+      </div>
+
+      {templates.length === 0 ? (
+        <p className="px-3 py-3 text-sm text-muted-foreground">{t('inbox.noQuickReplies')}</p>
+      ) : (
+        <div className="max-h-72 overflow-y-auto py-1">
+          {templates.map((template, index) => (
+            <button
+              key={template.id}
+              type="button"
+              // mousedown, not click - the textarea keeps focus
+              onMouseDown={(e) => {
+                e.preventDefault();
+                onSelect(template);
+              }}
+              onMouseEnter={() => onHover(index)}
+              className={cn(
+                'w-full text-start px-3 py-2 flex flex-col gap-0.5 transition-colors',
+                index === activeIndex ? 'bg-primary/10' : 'hover:bg-primary/5'
+              )}
+            >
+              <span className="flex items-center gap-1.5 text-sm font-medium">
+                {template.name}
+                {getMediaIcon(template.media_type)}
+                {!!template.usage_count && (
+                  <span className="ml-auto text-[10px] text-muted-foreground font-normal">
+                    {t('inbox.quickReplyUsed').replace('{count}', String(template.usage_count))}
+                  </span>
+                )}
+              </span>
+              <span className="text-xs text-muted-foreground line-clamp-1" dir="auto">{template.message}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
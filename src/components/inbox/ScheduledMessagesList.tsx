@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { AlertCircle, CalendarClock, Check, ChevronDown, ChevronUp, Loader2, Paperclip, Pencil, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { toDateTimeLocalValue } from '@/components/inbox/laterTimes';
+import type { ScheduledMessage, UpdateScheduledMessageInput } from '@/types';
+
+interface ScheduledMessagesListProps {
+  messages: ScheduledMessage[];
+  onUpdate: (id: string, changes: UpdateScheduledMessageInput) => Promise<void>;
+  onCancel: (id: string) => void;
+}
+
+/**
+ * The open chat's messages waiting to be sent, above the message box
+ */
+export default function ScheduledMessagesList({ messages, onUpdate, onCancel }: ScheduledMessagesListProps) {
+  const { t, language } = useLanguage();
+  const [expanded, setExpanded] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [editTime, setEditTime] = useState('');
+
+  if (messages.length === 0) return null;
+
+  const formatTime = (timestamp: string) =>
+    new Date(timestamp).toLocaleString(language === 'he' ? 'he-IL' : language === 'ar' ? 'ar-SA' : 'en-US', {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const startEditing = (scheduled: ScheduledMessage) => {
+    setEditingId(scheduled.id);
+    setEditText(scheduled.message_text || '');
+    // A failed message is re-sent right away unless the agent picks a new time
+    setEditTime(scheduled.status === 'failed' ? '' : toDateTimeLocalValue(new Date(scheduled.scheduled_at)));
+  };
+
+  const saveEdit = async (scheduled: ScheduledMessage) => {
+    const changes: UpdateScheduledMessageInput = { message: editText };
+    if (editTime) {
+      changes.scheduledAt = new Date(editTime).toISOString();
+    }
+    await onUpdate(scheduled.id, changes);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="border-t border-primary/10 bg-blue-50/60 dark:bg-blue-950/20">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-4 py-1.5 flex items-center gap-2 text-xs font-medium text-blue-800 dark:text-blue-200"
+      >
+        <CalendarClock className="h-3.5 w-3.5" />
+        {t('inbox.scheduledCount').replace('{count}', String(messages.length))}
+        {expanded ? <ChevronDown className="h-3.5 w-3.5 ms-auto" /> : <ChevronUp className="h-3.5 w-3.5 ms-auto" />}
+      </button>
+
+      {expanded && (
+        <div className="max-h-48 overflow-y-auto px-4 pb-2 space-y-1.5">
+          {messages.map(scheduled => {
+            const fileName = scheduled.media_path?.split(/[\\/]/).pop()?.replace(/^[0-9a-f-]{36}_/, '');
+
+            if (editingId === scheduled.id) {
+              return (
+                <div key={scheduled.id} className="rounded-lg bg-white dark:bg-[#2a3942] p-2 space-y-1.5 shadow-sm">
+                  <Textarea
+                    value={editText}
+                    onChange={(e) => setEditText(e.target.value)}
+                    placeholder={fileName ? t('inbox.captionOptional') : undefined}
+                    className="min-h-[60px] text-sm resize-none"
+                    dir="auto"
+                  />
+                  <div className="flex items-center gap-1.5">
+                    <input
+                      type="datetime-local"
+                      value={editTime}
+                      min={toDateTimeLocalValue(new Date())}
+                      onChange={(e) => setEditTime(e.target.value)}
+                      className="h-8 rounded border border-input bg-background px-2 text-xs"
+                    />
+                    <Button
+                      size="sm"
+                      className="h-8 gap-1 text-xs ms-auto"
+                      disabled={(!editText.trim() && !fileName) || (!!editTime && new Date(editTime).getTime() <= Date.now())}
+                      onClick={() => saveEdit(scheduled)}
+                    >
+                      <Check className="h-3.5 w-3.5" />
+                      {t('common.save')}
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditingId(null)} title={t('common.cancel')}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            }
+
+            return (
+              <div key={scheduled.id} className="group rounded-lg bg-white dark:bg-[#2a3942] px-3 py-1.5 flex items-start gap-2 shadow-sm">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+                    {scheduled.status === 'sending' ? (
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                    ) : scheduled.status === 'failed' ? (
+                      <AlertCircle className="h-3 w-3 text-red-500" />
+                    ) : (
+                      <CalendarClock className="h-3 w-3" />
+                    )}
+                    {scheduled.status === 'failed'
+                      ? <span className="text-red-600" title={scheduled.error || undefined}>{t('inbox.scheduledFailed')}</span>
+                      : formatTime(scheduled.scheduled_at)}
+                    {fileName && (
+                      <span className="flex items-center gap-0.5 truncate">
+                        · <Paperclip className="h-3 w-3 shrink-0" /> {fileName}
+                      </span>
+                    )}
+                  </div>
+                  {scheduled.message_text && (
+                    <p className="text-sm line-clamp-2 whitespace-pre-wrap" dir="auto">{scheduled.message_text}</p>
+                  )}
+                </div>
+
+                {scheduled.status !== 'sending' && (
+                  <div className="flex items-center gap-0.5 shrink-0 opacity-60 group-hover:opacity-100 transition-opacity">
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => startEditing(scheduled)} title={t('common.edit')}>
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7 text-red-600 hover:text-red-700"
+                      onClick={() => onCancel(scheduled.id)}
+                      title={t('inbox.cancelScheduled')}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+// Quick picks for "later" in the Inbox - snoozing a chat and scheduling a message.
+// Counted from now, in local time.
+export const LATER_TIME_PRESETS = [
+  { key: 'inbox.inOneHour', getTime: () => new Date(Date.now() + 60 * 60 * 1000) },
+  { key: 'inbox.inThreeHours', getTime: () => new Date(Date.now() + 3 * 60 * 60 * 1000) },
+  { key: 'inbox.tomorrowMorning', getTime: () => atNineInDays(1) },
+  { key: 'inbox.nextWeekMorning', getTime: () => atNineInDays(7) },
+];
+
+function atNineInDays(days: number) {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  date.setHours(9, 0, 0, 0);
+  return date;
+}
+
+// The value a datetime-local input expects - local time, no seconds or zone
+export function toDateTimeLocalValue(date: Date) {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
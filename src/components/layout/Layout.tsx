@@ -1,14 +1,42 @@
+import { useEffect, useRef } from 'react';
 import { Outlet } from 'react-router-dom';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { onAccountAlert } from '@/lib/api';
+import { toast } from '@/components/ui/use-toast';
+import type { AccountAlert } from '@/types';
 import Sidebar from './Sidebar';
 
 export default function Layout() {
-  const { dir } = useLanguage();
-  
+  const { dir, language } = useLanguage();
+  const languageRef = useRef(language);
+  languageRef.current = language;
+
+  // Bans/logouts can happen on any page - surface them wherever the user is.
+  // Subscribed once: the preload listeners can't always be removed, so re-subscribing would duplicate toasts
+  useEffect(() => {
+    const cleanup = onAccountAlert((alert: AccountAlert) => {
+      const language = languageRef.current;
+      const title = alert.kind === 'banned'
+        ? (language === 'he' ? `החשבון ${alert.accountName} נחסם` : language === 'ar' ? `تم حظر الحساب ${alert.accountName}` : `Account ${alert.accountName} was banned`)
+        : alert.kind === 'restricted'
+        ? (language === 'he' ? `החשבון ${alert.accountName} הוגבל זמנית` : language === 'ar' ? `تم تقييد الحساب ${alert.accountName} مؤقتًا` : `Account ${alert.accountName} is temporarily restricted`)
+        : (language === 'he' ? `החשבון ${alert.accountName} נותק מווטסאפ` : language === 'ar' ? `تم تسجيل خروج الحساب ${alert.accountName}` : `Account ${alert.accountName} was logged out`);
+
+      const description = alert.campaigns.map(campaign => campaign.paused
+        ? (language === 'he' ? `"${campaign.name}" הושהה - לא נותרו חשבונות` : language === 'ar' ? `تم إيقاف "${campaign.name}" مؤقتًا - لم تتبق حسابات` : `"${campaign.name}" paused - no accounts left`)
+        : (language === 'he' ? `"${campaign.name}": ${campaign.redistributed} אנשי קשר הועברו לחשבונות האחרים` : language === 'ar' ? `"${campaign.name}": تم نقل ${campaign.redistributed} جهة اتصال إلى الحسابات الأخرى` : `"${campaign.name}": ${campaign.redistributed} contacts moved to the other accounts`)
+      ).join('\n');
+
+      toast.error(title, description || undefined);
+    });
+
+    return cleanup;
+  }, []);
+
   return (
     <div className="flex h-screen overflow-hidden" dir={dir}>
       <Sidebar />
-      
+
       <div className="flex flex-1 flex-col overflow-hidden">
         <main className="flex-1 overflow-y-auto bg-background p-6">
           <Outlet />
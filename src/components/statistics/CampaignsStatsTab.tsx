@@ -1,8 +1,9 @@
 import { useEffect, useState, useCallback } from 'react';
 import { api } from '@/lib/api';
+import { Trophy } from 'lucide-react';
 import { toast } from '@/components/ui/use-toast';
 import { useLanguage } from '@/contexts/LanguageContext';
-import type { Account, StatsListItem, StatsResult } from '@/types';
+import type { Account, MessageAck, StatsListItem, StatsResult } from '@/types';
 import StatsFilters from './StatsFilters';
 import StatsSummaryCards from './StatsSummaryCards';
 import StatsDailyChart from './StatsDailyChart';
@@ -18,6 +19,15 @@ function getDefaultRange() {
   };
 }
 
+const ACK_STYLES: Record<number, string> = {
+  [-1]: 'text-red-600',
+  0: 'text-muted-foreground',
+  1: 'text-muted-foreground',
+  2: 'text-sky-600',
+  3: 'text-indigo-600 font-medium',
+  4: 'text-indigo-600 font-medium',
+};
+
 const EMPTY_RESULT: StatsResult = { summary: { total: 0, sent: 0, failed: 0, successRate: 0 }, daily: [], rows: [] };
 
 export default function CampaignsStatsTab() {
@@ -71,6 +81,39 @@ export default function CampaignsStatsTab() {
     }
   };
 
+  const ackLabels: Record<MessageAck, string> = {
+    [-1]: language === 'he' ? 'שגיאה' : language === 'ar' ? 'خطأ' : 'Error',
+    0: language === 'he' ? 'ממתין' : language === 'ar' ? 'قيد الانتظار' : 'Pending',
+    1: language === 'he' ? 'נשלח לשרת' : language === 'ar' ? 'أُرسل للخادم' : 'Sent to server',
+    2: language === 'he' ? 'נמסר' : language === 'ar' ? 'تم التسليم' : 'Delivered',
+    3: language === 'he' ? 'נקרא' : language === 'ar' ? 'تمت القراءة' : 'Read',
+    4: language === 'he' ? 'הושמע' : language === 'ar' ? 'تم التشغيل' : 'Played',
+  };
+
+  const breakdownColumns = (nameLabel: string): StatsTableColumn[] => [
+    { key: 'label', label: nameLabel },
+    { key: 'sent', label: language === 'he' ? 'נשלחו' : language === 'ar' ? 'أُرسلت' : 'Sent' },
+    { key: 'delivered', label: language === 'he' ? 'נמסרו' : language === 'ar' ? 'تم التسليم' : 'Delivered', render: (r) => `${r.delivered} (${r.deliveryRate}%)` },
+    { key: 'read', label: language === 'he' ? 'נקראו' : language === 'ar' ? 'تمت القراءة' : 'Read', render: (r) => `${r.read} (${r.readRate}%)` },
+  ];
+
+  const variantColumns: StatsTableColumn[] = [
+    {
+      key: 'label',
+      label: language === 'he' ? 'וריאציה' : language === 'ar' ? 'النسخة' : 'Variant',
+      render: (r) => (
+        <span className="flex items-center gap-1">
+          {r.label}
+          {r.isWinner && <Trophy className="h-3.5 w-3.5 text-amber-500 flex-shrink-0" />}
+        </span>
+      ),
+    },
+    { key: 'sent', label: language === 'he' ? 'נשלחו' : language === 'ar' ? 'أُرسلت' : 'Sent' },
+    { key: 'replied', label: language === 'he' ? 'הגיבו' : language === 'ar' ? 'ردّوا' : 'Replied', render: (r) => `${r.replied} (${r.replyRate}%)` },
+    { key: 'delivered', label: language === 'he' ? 'נמסרו' : language === 'ar' ? 'تم التسليم' : 'Delivered', render: (r) => `${r.delivered} (${r.deliveryRate}%)` },
+    { key: 'read', label: language === 'he' ? 'נקראו' : language === 'ar' ? 'تمت القراءة' : 'Read', render: (r) => `${r.read} (${r.readRate}%)` },
+  ];
+
   const columns: StatsTableColumn[] = [
     { key: 'campaign_name', label: language === 'he' ? 'קמפיין' : language === 'ar' ? 'الحملة' : 'Campaign' },
     { key: 'phone_number', label: language === 'he' ? 'מספר טלפון' : language === 'ar' ? 'رقم الهاتف' : 'Phone Number' },
@@ -84,6 +127,20 @@ export default function CampaignsStatsTab() {
         </span>
       ),
     },
+    {
+      key: 'ack',
+      label: language === 'he' ? 'מסירה' : language === 'ar' ? 'التسليم' : 'Delivery',
+      render: (r) => r.ack === null || r.ack === undefined ? '-' : (
+        <span className={ACK_STYLES[r.ack] || ''}>{ackLabels[r.ack as MessageAck] ?? r.ack}</span>
+      ),
+    },
+    {
+      key: 'replied_at',
+      label: language === 'he' ? 'תגובה' : language === 'ar' ? 'الرد' : 'Reply',
+      render: (r) => r.replied_at
+        ? <span className="text-emerald-600 font-medium">{new Date(r.replied_at).toLocaleString()}</span>
+        : '-',
+    },
     {
       key: 'sent_at',
       label: language === 'he' ? 'תאריך ושעה' : language === 'ar' ? 'التاريخ والوقت' : 'Date & Time',
@@ -117,6 +174,26 @@ export default function CampaignsStatsTab() {
         <>
           <StatsSummaryCards summary={result.summary} />
           <StatsDailyChart data={result.daily} />
+          {(result.byAccount?.length || result.byVariant?.length) ? (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold">
+                  {language === 'he' ? 'מסירה לפי חשבון' : language === 'ar' ? 'التسليم حسب الحساب' : 'Delivery by Account'}
+                </h3>
+                <StatsTable
+                  columns={breakdownColumns(language === 'he' ? 'חשבון' : language === 'ar' ? 'الحساب' : 'Account')}
+                  rows={result.byAccount || []}
+                  pageSize={10}
+                />
+              </div>
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold">
+                  {language === 'he' ? 'תוצאות לפי וריאציית הודעה' : language === 'ar' ? 'النتائج حسب نسخة الرسالة' : 'Results by Message Variant'}
+                </h3>
+                <StatsTable columns={variantColumns} rows={result.byVariant || []} pageSize={10} />
+              </div>
+            </div>
+          ) : null}
           <StatsTable columns={columns} rows={result.rows} />
         </>
       )}
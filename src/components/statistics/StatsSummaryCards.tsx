@@ -1,7 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useLanguage } from '@/contexts/LanguageContext';
 import type { StatsSummary } from '@/types';
-import { CheckCircle2, XCircle, Percent, Layers } from 'lucide-react';
+import { CheckCircle2, XCircle, Percent, Layers, CheckCheck, Eye, MessageCircleReply, Clock } from 'lucide-react';
 
 interface StatsSummaryCardsProps {
   summary: StatsSummary;
@@ -15,6 +15,11 @@ export default function StatsSummaryCards({ summary }: StatsSummaryCardsProps) {
     sent: language === 'he' ? 'נשלחו בהצלחה' : language === 'ar' ? 'أُرسلت بنجاح' : 'Sent',
     failed: language === 'he' ? 'נכשלו' : language === 'ar' ? 'فشلت' : 'Failed',
     successRate: language === 'he' ? 'אחוז הצלחה' : language === 'ar' ? 'معدل النجاح' : 'Success Rate',
+    delivered: language === 'he' ? 'נמסרו' : language === 'ar' ? 'تم التسليم' : 'Delivered',
+    read: language === 'he' ? 'נקראו' : language === 'ar' ? 'تمت القراءة' : 'Read',
+    replied: language === 'he' ? 'הגיבו' : language === 'ar' ? 'ردّوا' : 'Replied',
+    avgReply: language === 'he' ? 'זמן תגובה ממוצע' : language === 'ar' ? 'متوسط وقت الرد' : 'Avg. Reply Time',
+    minutes: language === 'he' ? 'דק׳' : language === 'ar' ? 'د' : 'min',
   };
 
   const cards = [
@@ -24,6 +29,20 @@ export default function StatsSummaryCards({ summary }: StatsSummaryCardsProps) {
     { label: labels.successRate, value: `${summary.successRate}%`, icon: Percent, color: 'text-purple-500' },
   ];
 
+  if (summary.deliveryRate !== undefined && summary.readRate !== undefined) {
+    cards.push(
+      { label: labels.delivered, value: `${summary.delivered ?? 0} (${summary.deliveryRate}%)`, icon: CheckCheck, color: 'text-sky-500' },
+      { label: labels.read, value: `${summary.read ?? 0} (${summary.readRate}%)`, icon: Eye, color: 'text-indigo-500' },
+    );
+  }
+
+  if (summary.replyRate !== undefined) {
+    cards.push(
+      { label: labels.replied, value: `${summary.replied ?? 0} (${summary.replyRate}%)`, icon: MessageCircleReply, color: 'text-emerald-500' },
+      { label: labels.avgReply, value: `${summary.avgReplyMinutes ?? 0} ${labels.minutes}`, icon: Clock, color: 'text-teal-500' },
+    );
+  }
+
   return (
     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
       {cards.map((card) => (
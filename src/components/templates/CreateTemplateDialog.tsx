@@ -4,9 +4,10 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { Upload, X, Smile, Image as ImageIcon, Video, FileText } from 'lucide-react';
+import { Upload, X, Smile, Image as ImageIcon, Video, FileText, AlertTriangle, Info } from 'lucide-react';
 import { toast } from '@/components/ui/use-toast';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { renderTemplate, buildContactVariables, SAMPLE_PREVIEW_CONTACT } from '@/lib/template';
 import type { MessageTemplate } from '@/types';
 
 interface CreateTemplateDialogProps {
@@ -25,6 +26,7 @@ export default function CreateTemplateDialog({ open, onOpenChange, template, onS
   const [mediaPreview, setMediaPreview] = useState<string>('');
   const [mediaType, setMediaType] = useState<'image' | 'video' | 'document' | null>(null);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
+  const [customFieldNames, setCustomFieldNames] = useState<string[]>([]);
   const emojiPickerRef = useRef<HTMLDivElement>(null);
 
   const popularEmojis = [
@@ -52,6 +54,18 @@ export default function CreateTemplateDialog({ open, onOpenChange, template, onS
     }
   }, [open, template]);
 
+  useEffect(() => {
+    if (!open) return;
+    window.electron.customFields.getAll()
+      .then(fields => setCustomFieldNames(fields.map(field => field.name)))
+      .catch((error) => console.error('Failed to load custom fields:', error));
+  }, [open]);
+
+  // Rendered the way it will be sent - the Inbox renders quick replies for the chat's contact
+  const preview = renderTemplate(message, buildContactVariables(SAMPLE_PREVIEW_CONTACT), {
+    knownVariables: customFieldNames,
+  });
+
   const handleMediaUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -210,6 +224,36 @@ export default function CreateTemplateDialog({ open, onOpenChange, template, onS
             </div>
           </div>
 
+          {preview.unknownVariables.length > 0 && (
+            <div className="flex items-start gap-2 p-3 rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 text-xs text-amber-700 dark:text-amber-400">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              <div className="space-y-1">
+                <p className="font-medium">
+                  {language === 'he' ? 'משתנים לא מוכרים - הם יישלחו כפי שהם:' : language === 'ar' ? 'متغيرات غير معروفة - سيتم إرسالها كما هي:' : 'Unknown variables - they will be sent as-is:'}
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {preview.unknownVariables.map(variable => (
+                    <code key={variable} className="px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/40 font-mono">{`{{${variable}}}`}</code>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {message.trim() && (
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">
+                {language === 'he' ? `תצוגה מקדימה (${SAMPLE_PREVIEW_CONTACT.name})` : language === 'ar' ? `معاينة (${SAMPLE_PREVIEW_CONTACT.name})` : `Preview (${SAMPLE_PREVIEW_CONTACT.name})`}
+              </Label>
+              <p className="p-3 rounded-lg border bg-muted/20 text-sm whitespace-pre-wrap" dir="auto">{preview.text}</p>
+            </div>
+          )}
+
+          <p className="text-[11px] text-muted-foreground flex items-center gap-1.5">
+            <Info className="h-3.5 w-3.5 shrink-0" />
+            <span dir="ltr">{'{Hi|Hello} {{name|friend}} · {{#if city}}…{{/if}} · {{date}} {{time}} {{date+1:DD/MM}}'}</span>
+          </p>
+
           {mediaPreview && (
             <div className="flex items-center gap-4 p-4 border rounded-lg bg-muted/20">
               {mediaType === 'image' && (
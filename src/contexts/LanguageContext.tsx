@@ -79,7 +79,7 @@ const translations = {
     'toast.tagDeleted': 'Tag deleted successfully',
     'toast.messageSent': 'Message sent successfully',
     'toast.fileSent': 'File sent successfully',
-    'toast.markedAsHandled': 'Marked as handled',
+    'toast.markedAsHandled': 'Chat closed',
     
     // Common
     'common.cancel': 'Cancel',
@@ -275,15 +275,72 @@ const translations = {
     // Inbox Page
     'inbox.title': 'Inbox',
     'inbox.searchChats': 'Search chats...',
-    'inbox.allStatus': 'All Status',
+    'inbox.searchMessages': 'Search messages',
+    'inbox.searchMessagesHint': 'Search the text and file names of every message',
+    'inbox.noSearchResults': 'No messages found',
+    'inbox.searchMatches': 'matches',
+    'inbox.searchAllDirections': 'Sent & received',
+    'inbox.searchIncoming': 'Received',
+    'inbox.searchOutgoing': 'Sent',
+    'inbox.searchFrom': 'From date',
+    'inbox.searchTo': 'To date',
+    'inbox.statusOpen': 'Open',
+    'inbox.statusPending': 'Pending',
+    'inbox.statusSnoozed': 'Snoozed',
+    'inbox.statusClosed': 'Closed',
+    'inbox.statusUpdated': 'Chat status updated',
+    'inbox.allAssignees': 'All agents',
+    'inbox.unassigned': 'Unassigned',
+    'inbox.assignTo': 'Assign to',
+    'inbox.addAgent': '+ Add agent…',
+    'inbox.agentName': 'Agent name',
+    'inbox.snooze': 'Snooze',
+    'inbox.snoozedUntil': 'Snoozed until {time}',
+    'inbox.inOneHour': 'In 1 hour',
+    'inbox.inThreeHours': 'In 3 hours',
+    'inbox.tomorrowMorning': 'Tomorrow at 9:00',
+    'inbox.nextWeekMorning': 'Next week at 9:00',
+    'inbox.snoozeCustom': 'Pick a time…',
+    'inbox.unsnooze': 'Wake up now',
+    'inbox.pin': 'Pin',
+    'inbox.unpin': 'Unpin',
+    'inbox.notes': 'Notes',
+    'inbox.notesPrivateHint': 'Internal notes are only seen by your team - they are never sent to the contact',
+    'inbox.noNotes': 'No notes yet',
+    'inbox.addNote': 'Add note',
+    'inbox.addNotePlaceholder': 'Write an internal note...',
+    'inbox.unknownAuthor': 'Team',
+    'inbox.sendLater': 'Send later',
+    'inbox.schedule': 'Schedule',
+    'inbox.scheduledCount': '{count} scheduled',
+    'inbox.scheduledFailed': 'Failed to send - edit to retry',
+    'inbox.cancelScheduled': 'Cancel scheduled message',
+    'inbox.messageScheduled': 'Message scheduled',
+    'inbox.scheduledCancelled': 'Scheduled message cancelled',
+    'inbox.captionOptional': 'Caption (optional)',
+    'inbox.reply': 'Reply',
+    'inbox.react': 'React',
+    'inbox.forward': 'Forward',
+    'inbox.forwarded': 'Forwarded',
+    'inbox.forwardTo': 'Forward to...',
+    'inbox.forwardOtherAccountHint': 'This chat is on another account - the message is sent again from that account.',
+    'inbox.messageForwarded': 'Message forwarded',
+    'inbox.replyingTo': 'Replying to {name}',
+    'inbox.you': 'You',
+    'inbox.allStatus': 'All (not snoozed)',
     'inbox.unhandled': 'Unhandled',
     'inbox.handled': 'Handled',
     'inbox.allAccounts': 'All Accounts',
     'inbox.chats': 'chats',
     'inbox.selectChat': 'Select a chat to start messaging',
     'inbox.manageConversations': 'Manage all your WhatsApp conversations in one place',
-    'inbox.markHandled': 'Mark Handled',
+    'inbox.markHandled': 'Close Chat',
     'inbox.typeMessage': 'Type a message...',
+    'inbox.typeMessageOrSlash': 'Type a message, or / for quick replies...',
+    'inbox.quickReplies': 'Quick replies',
+    'inbox.quickRepliesHint': 'Enter to send · Tab to edit',
+    'inbox.noQuickReplies': 'No matching templates',
+    'inbox.quickReplyUsed': '{count}×',
     'inbox.sendMessage': 'Send message',
     'inbox.attachFile': 'Attach file',
     'inbox.noChats': 'No chats found',
@@ -393,6 +450,7 @@ const translations = {
     'templates.useTemplate': 'Use Template',
     'templates.loadTemplate': 'Load Template',
     'templates.selectTemplate': 'Select a Template',
+    'templates.usageCount': 'Sent {count} times as a quick reply',
     
     // Automation Flows
     flows: 'Automation Flows',
@@ -417,6 +475,187 @@ const translations = {
     'flows.ifLastMessageOlderThan': 'If Last Message Older Than',
     'flows.hours': 'hours',
     'flows.minutes': 'minutes',
+    'flows.days': 'days',
+    'flows.waitForReply': 'Wait for Reply',
+    'flows.waitForReplyDescription': "Pause until the contact's next message",
+    'flows.waitTimeout': 'Timeout after',
+    'flows.onReply': 'Reply',
+    'flows.onTimeout': 'Timeout',
+    'flows.captureReply': 'Capture Answer',
+    'flows.captureReplyDescription': 'Save the reply into a variable or contact field',
+    'flows.captureWhat': 'Capture',
+    'flows.captureWholeReply': 'Whole reply',
+    'flows.captureRegex': 'Regex match',
+    'flows.captureSaveTo': 'Save to',
+    'flows.saveToVariable': 'Flow variable',
+    'flows.saveToContactField': 'Contact field',
+    'flows.variableName': 'Variable name',
+    'flows.selectField': 'Select field',
+    'flows.captured': 'Captured',
+    'flows.noMatch': 'No match',
+    'flows.conditionRule': 'Condition',
+    'flows.conditionRuleDescription': 'Regex, keywords, message type, hours, tags, fields',
+    'flows.ruleRegex': 'Message matches regex',
+    'flows.ruleKeywords': 'Message has keywords',
+    'flows.ruleMessageType': 'Message type is',
+    'flows.ruleBusinessHours': 'Within business hours',
+    'flows.ruleTag': 'Contact tag',
+    'flows.ruleCustomField': 'Custom field',
+    'flows.ruleFirstMessage': 'First message from this number',
+    'flows.ruleFirstMessageHint': 'YES when this number never messaged any account before',
+    'flows.keywordsAny': 'Any of',
+    'flows.keywordsAll': 'All of',
+    'flows.keywordsPlaceholder': 'price, cost, how much',
+    'flows.messageType.text': 'Text',
+    'flows.messageType.image': 'Image',
+    'flows.messageType.video': 'Video',
+    'flows.messageType.voice': 'Voice note',
+    'flows.messageType.audio': 'Audio file',
+    'flows.messageType.document': 'Document',
+    'flows.messageType.sticker': 'Sticker',
+    'flows.messageType.location': 'Location',
+    'flows.timezone': 'Timezone',
+    'flows.tagHas': 'Has',
+    'flows.tagLacks': 'Lacks',
+    'flows.selectTag': 'Select tag',
+    'flows.operator.equals': 'Equals',
+    'flows.operator.not_equals': 'Not equals',
+    'flows.operator.contains': 'Contains',
+    'flows.operator.greater_than': 'Greater than',
+    'flows.operator.less_than': 'Less than',
+    'flows.operator.is_empty': 'Is empty',
+    'flows.operator.is_not_empty': 'Is not empty',
+    'flows.crmActions': 'CRM',
+    'flows.addTag': 'Add Tag',
+    'flows.addTagDescription': 'Tag the contact',
+    'flows.removeTag': 'Remove Tag',
+    'flows.removeTagDescription': 'Remove a tag from the contact',
+    'flows.setCustomField': 'Set Custom Field',
+    'flows.setCustomFieldDescription': "Write a value into the contact's field",
+    'flows.fieldValuePlaceholder': 'Value, {{variables}} allowed',
+    'flows.setChatStatus': 'Set Chat Status',
+    'flows.setChatStatusDescription': 'Mark the chat handled or unhandled',
+    'flows.addToCampaign': 'Add to Campaign',
+    'flows.addToCampaignDescription': 'Add the contact to a campaign',
+    'flows.selectCampaign': 'Select campaign',
+    'flows.executionHistory': 'Execution History',
+    'flows.history': 'History',
+    'flows.noExecutions': 'This flow has not run yet',
+    'flows.selectExecution': 'Select an execution to highlight its path on the canvas',
+    'flows.steps': 'steps',
+    'flows.stepInput': 'Input',
+    'flows.stepError': 'Error',
+    'flows.flowEnded': 'end',
+    'flows.executionStatus.running': 'Running',
+    'flows.executionStatus.waiting': 'Waiting',
+    'flows.executionStatus.completed': 'Completed',
+    'flows.executionStatus.failed': 'Failed',
+    'flows.executionStatus.cancelled': 'Cancelled',
+    'flows.simulator': 'Simulator',
+    'flows.simulatorDescription': 'Test the flow without sending anything',
+    'flows.simPhone': 'Sender phone',
+    'flows.simName': 'Sender name',
+    'flows.simTags': 'Contact tags',
+    'flows.simMessagePlaceholder': 'Type a message from the contact...',
+    'flows.simReplyPlaceholder': "Type the contact's reply...",
+    'flows.simReset': 'Reset',
+    'flows.simNotStarted': 'The flow did not start - its start condition was not met',
+    'flows.simWaiting': 'Waiting for a reply - your next message continues the flow',
+    'flows.simEnded': 'Flow ended',
+    'flows.simForward': 'Forward to',
+    'flows.simWebhook': 'Webhook (not sent)',
+    'flows.simDelay': 'Delay skipped:',
+    'flows.simTyping': 'Typing skipped:',
+    'flows.simTagAdded': 'Tag added',
+    'flows.simTagRemoved': 'Tag removed',
+    'flows.simFieldSet': 'Field set',
+    'flows.simChatStatus': 'Chat status',
+    'flows.simCampaign': 'Added to the campaign',
+    'flows.simBlacklist': 'Added to the BlackList',
+    'flows.saveDraft': 'Save Draft',
+    'flows.draftSaved': 'Draft saved - publish it to make it live',
+    'flows.publish': 'Publish',
+    'flows.publishDescription': 'Publishing replaces what the flow runs for incoming messages. Changes compared to the live version:',
+    'flows.publishedAs': 'Published as',
+    'flows.versionNote': 'Version note',
+    'flows.versionNotePlaceholder': 'What changed? (optional)',
+    'flows.versions': 'Versions',
+    'flows.noVersions': 'No published versions yet',
+    'flows.live': 'Live',
+    'flows.draft': 'Draft',
+    'flows.notPublished': 'Not published',
+    'flows.unpublishedChanges': 'Unpublished changes',
+    'flows.discardDraft': 'Discard draft',
+    'flows.discardDraftConfirm': 'Discard the unpublished changes and go back to the live version?',
+    'flows.restore': 'Restore',
+    'flows.restoreConfirm': 'Restore',
+    'flows.restoreDiscardsDraft': 'Restoring publishes that version and discards the unpublished draft. Continue?',
+    'flows.nodesCount': 'nodes',
+    'flows.diffNoChanges': 'No changes',
+    'flows.diffAddedNodes': 'Added nodes',
+    'flows.diffRemovedNodes': 'Removed nodes',
+    'flows.diffChangedNodes': 'Changed nodes',
+    'flows.diffMovedNodes': 'Moved nodes',
+    'flows.diffConnections': 'Connections',
+    'flows.import': 'Import',
+    'flows.imported': 'Flow imported - review it and enable it when ready',
+    'flows.importFailed': 'Could not import the file - is it a flow export?',
+    'flows.export': 'Export',
+    'flows.triggers': 'Triggers',
+    'flows.triggerCampaignReply': 'Replied to campaign',
+    'flows.triggerCampaignReplyDescription': 'Contact replied to a campaign message',
+    'flows.anyCampaign': 'Any campaign',
+    'flows.triggerFirstMessage': 'First message',
+    'flows.triggerFirstMessageDescription': 'A new contact writes for the first time',
+    'flows.triggerFirstMessageHint': 'Runs when the first message ever from this number arrives.',
+    'flows.triggerTagAdded': 'Tag added',
+    'flows.triggerTagAddedDescription': 'A tag is added to a contact',
+    'flows.triggerSchedule': 'Scheduled',
+    'flows.triggerScheduleDescription': 'Runs on a segment at a set time',
+    'flows.triggerScheduleHint': 'Runs once per contact on each selected day, from this time (missed runs catch up within an hour).',
+    'flows.selectSegment': 'Select segment',
+    'flows.scheduleTime': 'Time',
+    'flows.triggerGroupJoin': 'Joined group',
+    'flows.triggerGroupJoinDescription': 'Someone joined a group via invite link',
+    'flows.selectAccountForGroups': 'Account (to list groups)',
+    'flows.anyGroup': 'Any group',
+    'flows.triggerWebhook': 'Incoming webhook',
+    'flows.triggerWebhookDescription': 'Another tool calls a local URL',
+    'flows.triggerWebhookHint': 'POST JSON to this URL from this computer. phone is required; every field becomes a variable.',
+    'flows.copyWebhookUrl': 'Copy URL',
+    'flows.webhookUrlCopied': 'Webhook URL copied',
+    'flows.webhookBody': 'Body',
+    'flows.webhookFields': 'Fields',
+    'flows.webhookRawJson': 'Raw JSON',
+    'flows.webhookRawJsonHint': '{{variables}} are filled in and escaped for JSON.',
+    'flows.webhookHeaders': 'Headers',
+    'flows.webhookAuth': 'Authentication',
+    'flows.webhookAuthNone': 'None',
+    'flows.webhookUsername': 'Username',
+    'flows.webhookPassword': 'Password',
+    'flows.webhookResponseMapping': 'Response → variables',
+    'flows.webhookResponseMappingHint': 'JSON path (data.items[0].id) → variable name, usable as {{name}} in later nodes. {{webhook_status}} holds the HTTP status.',
+    'flows.webhookAdvanced': 'Timeout, retries & signing',
+    'flows.webhookTimeout': 'Timeout (s)',
+    'flows.webhookRetries': 'Retries',
+    'flows.webhookBackoff': 'Backoff (s)',
+    'flows.webhookHmacSecret': 'HMAC secret',
+    'flows.webhookSignatureHeader': 'Signature header',
+    'flows.webhookHmacHint': 'Sent as sha256=<HMAC-SHA256 of the body, hex>.',
+    'flows.ruleVariable': 'Flow variable',
+    'flows.variableNamePlaceholder': 'Variable name, e.g. order_status',
+    'flows.settings': 'Settings',
+    'flows.settingsDescription': 'When several flows match the same message, these rules decide which ones run. They apply as soon as you save.',
+    'flows.priority': 'Priority',
+    'flows.priorityHint': 'Flows with a higher number are checked first.',
+    'flows.stopOtherFlows': 'Stop other flows when this one matches',
+    'flows.stopOtherFlowsHint': "Lower-priority flows don't start for the same message or event.",
+    'flows.cooldown': 'Cooldown per chat',
+    'flows.cooldownHint': "Don't run again in the same chat within this time. 0 = no cooldown.",
+    'flows.maxExecutionsPerContact': 'Max runs per contact',
+    'flows.maxExecutionsPerContactHint': '0 = unlimited.',
+    'flows.skipHumanHandled': 'Skip chats handled by a human',
+    'flows.skipHumanHandledHint': "Don't run in chats someone replied to from the Inbox in the last 24 hours, unless the chat was marked unhandled again.",
     'flows.sendMessage': 'Send Message',
     'flows.autoReply': 'Automatic Reply',
     'flows.forwardMessage': 'Forward to Number',
@@ -514,7 +753,7 @@ const translations = {
     'toast.tagDeleted': 'התג נמחק בהצלחה',
     'toast.messageSent': 'ההודעה נשלחה בהצלחה',
     'toast.fileSent': 'הקובץ נשלח בהצלחה',
-    'toast.markedAsHandled': 'סומן כטופל',
+    'toast.markedAsHandled': 'השיחה נסגרה',
     
     // Common
     'common.cancel': 'ביטול',
@@ -710,15 +949,72 @@ const translations = {
     // Inbox Page
     'inbox.title': 'תיבת דואר',
     'inbox.searchChats': 'חפש שיחות...',
-    'inbox.allStatus': 'כל הסטטוסים',
+    'inbox.searchMessages': 'חיפוש בהודעות',
+    'inbox.searchMessagesHint': 'חיפוש בטקסט ובשמות הקבצים של כל ההודעות',
+    'inbox.noSearchResults': 'לא נמצאו הודעות',
+    'inbox.searchMatches': 'תוצאות',
+    'inbox.searchAllDirections': 'נשלחו והתקבלו',
+    'inbox.searchIncoming': 'התקבלו',
+    'inbox.searchOutgoing': 'נשלחו',
+    'inbox.searchFrom': 'מתאריך',
+    'inbox.searchTo': 'עד תאריך',
+    'inbox.statusOpen': 'פתוח',
+    'inbox.statusPending': 'ממתין ללקוח',
+    'inbox.statusSnoozed': 'מושהה',
+    'inbox.statusClosed': 'סגור',
+    'inbox.statusUpdated': 'סטטוס השיחה עודכן',
+    'inbox.allAssignees': 'כל הנציגים',
+    'inbox.unassigned': 'לא משויך',
+    'inbox.assignTo': 'שייך לנציג',
+    'inbox.addAgent': '+ הוסף נציג…',
+    'inbox.agentName': 'שם הנציג',
+    'inbox.snooze': 'השהה',
+    'inbox.snoozedUntil': 'מושהה עד {time}',
+    'inbox.inOneHour': 'בעוד שעה',
+    'inbox.inThreeHours': 'בעוד 3 שעות',
+    'inbox.tomorrowMorning': 'מחר ב-9:00',
+    'inbox.nextWeekMorning': 'בשבוע הבא ב-9:00',
+    'inbox.snoozeCustom': 'בחר זמן…',
+    'inbox.unsnooze': 'החזר עכשיו',
+    'inbox.pin': 'נעץ',
+    'inbox.unpin': 'בטל נעיצה',
+    'inbox.notes': 'הערות',
+    'inbox.notesPrivateHint': 'הערות פנימיות גלויות רק לצוות - הן לעולם לא נשלחות לאיש הקשר',
+    'inbox.noNotes': 'אין הערות עדיין',
+    'inbox.addNote': 'הוסף הערה',
+    'inbox.addNotePlaceholder': 'כתוב הערה פנימית...',
+    'inbox.unknownAuthor': 'צוות',
+    'inbox.sendLater': 'שלח מאוחר יותר',
+    'inbox.schedule': 'תזמן',
+    'inbox.scheduledCount': '{count} מתוזמנות',
+    'inbox.scheduledFailed': 'השליחה נכשלה - ערוך כדי לנסות שוב',
+    'inbox.cancelScheduled': 'בטל הודעה מתוזמנת',
+    'inbox.messageScheduled': 'ההודעה תוזמנה',
+    'inbox.scheduledCancelled': 'ההודעה המתוזמנת בוטלה',
+    'inbox.captionOptional': 'כיתוב (אופציונלי)',
+    'inbox.reply': 'השב',
+    'inbox.react': "הגב באימוג'י",
+    'inbox.forward': 'העבר',
+    'inbox.forwarded': 'הועברה',
+    'inbox.forwardTo': 'העבר אל...',
+    'inbox.forwardOtherAccountHint': 'השיחה הזו שייכת לחשבון אחר - ההודעה תישלח מחדש מהחשבון הזה.',
+    'inbox.messageForwarded': 'ההודעה הועברה',
+    'inbox.replyingTo': 'תגובה ל{name}',
+    'inbox.you': 'את/ה',
+    'inbox.allStatus': 'הכל (ללא מושהים)',
     'inbox.unhandled': 'לא טופל',
     'inbox.handled': 'טופל',
     'inbox.allAccounts': 'כל החשבונות',
     'inbox.chats': 'שיחות',
     'inbox.selectChat': 'בחר שיחה כדי להתחיל לשלוח הודעות',
     'inbox.manageConversations': 'נהל את כל שיחות הווטסאפ שלך במקום אחד',
-    'inbox.markHandled': 'סמן כטופל',
+    'inbox.markHandled': 'סגור שיחה',
     'inbox.typeMessage': 'הקלד הודעה...',
+    'inbox.typeMessageOrSlash': 'הקלד הודעה, או / לתשובות מהירות...',
+    'inbox.quickReplies': 'תשובות מהירות',
+    'inbox.quickRepliesHint': 'Enter לשליחה · Tab לעריכה',
+    'inbox.noQuickReplies': 'אין תבניות מתאימות',
+    'inbox.quickReplyUsed': '{count}×',
     'inbox.sendMessage': 'שלח הודעה',
     'inbox.attachFile': 'צרף קובץ',
     'inbox.noChats': 'לא נמצאו שיחות',
@@ -828,6 +1124,7 @@ const translations = {
     'templates.useTemplate': 'השתמש בתבנית',
     'templates.loadTemplate': 'טען תבנית',
     'templates.selectTemplate': 'בחר תבנית',
+    'templates.usageCount': 'נשלחה {count} פעמים כתשובה מהירה',
     
     // Automation Flows
     flows: 'זרימות אוטומציה',
@@ -852,6 +1149,187 @@ const translations = {
     'flows.ifLastMessageOlderThan': 'אם ההודעה האחרונה ישנה מ-',
     'flows.hours': 'שעות',
     'flows.minutes': 'דקות',
+    'flows.days': 'ימים',
+    'flows.waitForReply': 'המתן לתשובה',
+    'flows.waitForReplyDescription': 'עצור עד ההודעה הבאה של איש הקשר',
+    'flows.waitTimeout': 'פג זמן אחרי',
+    'flows.onReply': 'תשובה',
+    'flows.onTimeout': 'פג זמן',
+    'flows.captureReply': 'שמירת תשובה',
+    'flows.captureReplyDescription': 'שמור את התשובה במשתנה או בשדה של איש הקשר',
+    'flows.captureWhat': 'מה לשמור',
+    'flows.captureWholeReply': 'כל התשובה',
+    'flows.captureRegex': 'התאמת Regex',
+    'flows.captureSaveTo': 'שמור אל',
+    'flows.saveToVariable': 'משתנה בזרימה',
+    'flows.saveToContactField': 'שדה של איש הקשר',
+    'flows.variableName': 'שם המשתנה',
+    'flows.selectField': 'בחר שדה',
+    'flows.captured': 'נשמר',
+    'flows.noMatch': 'אין התאמה',
+    'flows.conditionRule': 'תנאי',
+    'flows.conditionRuleDescription': 'Regex, מילות מפתח, סוג הודעה, שעות, תגיות, שדות',
+    'flows.ruleRegex': 'ההודעה תואמת Regex',
+    'flows.ruleKeywords': 'ההודעה מכילה מילות מפתח',
+    'flows.ruleMessageType': 'סוג ההודעה הוא',
+    'flows.ruleBusinessHours': 'בתוך שעות הפעילות',
+    'flows.ruleTag': 'תגית של איש הקשר',
+    'flows.ruleCustomField': 'שדה מותאם',
+    'flows.ruleFirstMessage': 'הודעה ראשונה מהמספר',
+    'flows.ruleFirstMessageHint': 'כן כשהמספר מעולם לא שלח הודעה לאף חשבון',
+    'flows.keywordsAny': 'אחת מ-',
+    'flows.keywordsAll': 'כל ה-',
+    'flows.keywordsPlaceholder': 'מחיר, עלות, כמה עולה',
+    'flows.messageType.text': 'טקסט',
+    'flows.messageType.image': 'תמונה',
+    'flows.messageType.video': 'וידאו',
+    'flows.messageType.voice': 'הודעה קולית',
+    'flows.messageType.audio': 'קובץ שמע',
+    'flows.messageType.document': 'מסמך',
+    'flows.messageType.sticker': 'סטיקר',
+    'flows.messageType.location': 'מיקום',
+    'flows.timezone': 'אזור זמן',
+    'flows.tagHas': 'יש',
+    'flows.tagLacks': 'אין',
+    'flows.selectTag': 'בחר תגית',
+    'flows.operator.equals': 'שווה',
+    'flows.operator.not_equals': 'לא שווה',
+    'flows.operator.contains': 'מכיל',
+    'flows.operator.greater_than': 'גדול מ-',
+    'flows.operator.less_than': 'קטן מ-',
+    'flows.operator.is_empty': 'ריק',
+    'flows.operator.is_not_empty': 'לא ריק',
+    'flows.crmActions': 'CRM',
+    'flows.addTag': 'הוסף תגית',
+    'flows.addTagDescription': 'תייג את איש הקשר',
+    'flows.removeTag': 'הסר תגית',
+    'flows.removeTagDescription': 'הסר תגית מאיש הקשר',
+    'flows.setCustomField': 'עדכן שדה מותאם',
+    'flows.setCustomFieldDescription': 'כתוב ערך בשדה של איש הקשר',
+    'flows.fieldValuePlaceholder': 'ערך, אפשר {{משתנים}}',
+    'flows.setChatStatus': "סטטוס צ'אט",
+    'flows.setChatStatusDescription': "סמן את הצ'אט כמטופל או לא מטופל",
+    'flows.addToCampaign': 'הוסף לקמפיין',
+    'flows.addToCampaignDescription': 'הוסף את איש הקשר לקמפיין',
+    'flows.selectCampaign': 'בחר קמפיין',
+    'flows.executionHistory': 'היסטוריית הרצות',
+    'flows.history': 'היסטוריה',
+    'flows.noExecutions': 'הזרימה עדיין לא רצה',
+    'flows.selectExecution': 'בחר הרצה כדי לסמן את המסלול שלה על הקנבס',
+    'flows.steps': 'צעדים',
+    'flows.stepInput': 'קלט',
+    'flows.stepError': 'שגיאה',
+    'flows.flowEnded': 'סוף',
+    'flows.executionStatus.running': 'רצה',
+    'flows.executionStatus.waiting': 'ממתינה',
+    'flows.executionStatus.completed': 'הושלמה',
+    'flows.executionStatus.failed': 'נכשלה',
+    'flows.executionStatus.cancelled': 'בוטלה',
+    'flows.simulator': 'סימולטור',
+    'flows.simulatorDescription': 'בדוק את הזרימה בלי לשלוח דבר',
+    'flows.simPhone': 'טלפון השולח',
+    'flows.simName': 'שם השולח',
+    'flows.simTags': 'תגיות איש הקשר',
+    'flows.simMessagePlaceholder': 'הקלד הודעה מאיש הקשר...',
+    'flows.simReplyPlaceholder': 'הקלד את התשובה של איש הקשר...',
+    'flows.simReset': 'איפוס',
+    'flows.simNotStarted': 'הזרימה לא התחילה - תנאי ההתחלה לא התקיים',
+    'flows.simWaiting': 'ממתין לתשובה - ההודעה הבאה שלך תמשיך את הזרימה',
+    'flows.simEnded': 'הזרימה הסתיימה',
+    'flows.simForward': 'העברה אל',
+    'flows.simWebhook': 'Webhook (לא נשלח)',
+    'flows.simDelay': 'השהייה דולגה:',
+    'flows.simTyping': 'הקלדה דולגה:',
+    'flows.simTagAdded': 'תגית נוספה',
+    'flows.simTagRemoved': 'תגית הוסרה',
+    'flows.simFieldSet': 'שדה עודכן',
+    'flows.simChatStatus': "סטטוס הצ'אט",
+    'flows.simCampaign': 'נוסף לקמפיין',
+    'flows.simBlacklist': 'נוסף לרשימה השחורה',
+    'flows.saveDraft': 'שמור טיוטה',
+    'flows.draftSaved': 'הטיוטה נשמרה - פרסם אותה כדי שתיכנס לפעולה',
+    'flows.publish': 'פרסם',
+    'flows.publishDescription': 'הפרסום מחליף את מה שהזרימה מריצה על הודעות נכנסות. השינויים לעומת הגרסה הפעילה:',
+    'flows.publishedAs': 'פורסם כגרסה',
+    'flows.versionNote': 'הערת גרסה',
+    'flows.versionNotePlaceholder': 'מה השתנה? (אופציונלי)',
+    'flows.versions': 'גרסאות',
+    'flows.noVersions': 'עדיין אין גרסאות שפורסמו',
+    'flows.live': 'פעילה',
+    'flows.draft': 'טיוטה',
+    'flows.notPublished': 'לא פורסם',
+    'flows.unpublishedChanges': 'שינויים שלא פורסמו',
+    'flows.discardDraft': 'מחק טיוטה',
+    'flows.discardDraftConfirm': 'למחוק את השינויים שלא פורסמו ולחזור לגרסה הפעילה?',
+    'flows.restore': 'שחזר',
+    'flows.restoreConfirm': 'שחזר',
+    'flows.restoreDiscardsDraft': 'השחזור מפרסם את הגרסה הזו ומוחק את הטיוטה שלא פורסמה. להמשיך?',
+    'flows.nodesCount': 'צמתים',
+    'flows.diffNoChanges': 'אין שינויים',
+    'flows.diffAddedNodes': 'צמתים שנוספו',
+    'flows.diffRemovedNodes': 'צמתים שהוסרו',
+    'flows.diffChangedNodes': 'צמתים ששונו',
+    'flows.diffMovedNodes': 'צמתים שהוזזו',
+    'flows.diffConnections': 'חיבורים',
+    'flows.import': 'ייבוא',
+    'flows.imported': 'הזרימה יובאה - בדוק אותה והפעל כשהיא מוכנה',
+    'flows.importFailed': 'לא ניתן לייבא את הקובץ - האם זה קובץ ייצוא של זרימה?',
+    'flows.export': 'ייצוא',
+    'flows.triggers': 'טריגרים',
+    'flows.triggerCampaignReply': 'תשובה לקמפיין',
+    'flows.triggerCampaignReplyDescription': 'איש קשר ענה להודעת קמפיין',
+    'flows.anyCampaign': 'כל קמפיין',
+    'flows.triggerFirstMessage': 'הודעה ראשונה',
+    'flows.triggerFirstMessageDescription': 'איש קשר חדש כותב בפעם הראשונה',
+    'flows.triggerFirstMessageHint': 'רץ כשמגיעה ההודעה הראשונה אי פעם מהמספר הזה.',
+    'flows.triggerTagAdded': 'תגית נוספה',
+    'flows.triggerTagAddedDescription': 'תגית נוספה לאיש קשר',
+    'flows.triggerSchedule': 'מתוזמן',
+    'flows.triggerScheduleDescription': 'רץ על סגמנט בשעה קבועה',
+    'flows.triggerScheduleHint': 'רץ פעם אחת לכל איש קשר בכל יום שנבחר, מהשעה הזו (ריצה שפוספסה מושלמת תוך שעה).',
+    'flows.selectSegment': 'בחר סגמנט',
+    'flows.scheduleTime': 'שעה',
+    'flows.triggerGroupJoin': 'הצטרף לקבוצה',
+    'flows.triggerGroupJoinDescription': 'מישהו הצטרף לקבוצה דרך קישור הזמנה',
+    'flows.selectAccountForGroups': 'חשבון (להצגת קבוצות)',
+    'flows.anyGroup': 'כל קבוצה',
+    'flows.triggerWebhook': 'Webhook נכנס',
+    'flows.triggerWebhookDescription': 'כלי אחר קורא לכתובת מקומית',
+    'flows.triggerWebhookHint': 'שלח POST עם JSON לכתובת הזו מהמחשב הזה. phone חובה; כל שדה הופך למשתנה.',
+    'flows.copyWebhookUrl': 'העתק כתובת',
+    'flows.webhookUrlCopied': 'כתובת ה-Webhook הועתקה',
+    'flows.webhookBody': 'גוף הבקשה',
+    'flows.webhookFields': 'שדות',
+    'flows.webhookRawJson': 'JSON חופשי',
+    'flows.webhookRawJsonHint': '{{משתנים}} ממולאים ומוגנים עבור JSON.',
+    'flows.webhookHeaders': 'כותרות (Headers)',
+    'flows.webhookAuth': 'אימות',
+    'flows.webhookAuthNone': 'ללא',
+    'flows.webhookUsername': 'שם משתמש',
+    'flows.webhookPassword': 'סיסמה',
+    'flows.webhookResponseMapping': 'תשובה ← משתנים',
+    'flows.webhookResponseMappingHint': 'נתיב JSON ‏(data.items[0].id) ← שם משתנה, לשימוש כ-{{name}} בצמתים הבאים. {{webhook_status}} מכיל את סטטוס ה-HTTP.',
+    'flows.webhookAdvanced': 'זמן קצוב, ניסיונות חוזרים וחתימה',
+    'flows.webhookTimeout': 'זמן קצוב (ש׳)',
+    'flows.webhookRetries': 'ניסיונות חוזרים',
+    'flows.webhookBackoff': 'המתנה (ש׳)',
+    'flows.webhookHmacSecret': 'סוד HMAC',
+    'flows.webhookSignatureHeader': 'כותרת החתימה',
+    'flows.webhookHmacHint': 'נשלח כ-sha256=<HMAC-SHA256 של הגוף, hex>.',
+    'flows.ruleVariable': 'משתנה בזרימה',
+    'flows.variableNamePlaceholder': 'שם המשתנה, למשל order_status',
+    'flows.settings': 'הגדרות',
+    'flows.settingsDescription': 'כשכמה זרימות מתאימות לאותה הודעה, הכללים האלה קובעים אילו מהן ירוצו. הם חלים מיד עם השמירה.',
+    'flows.priority': 'עדיפות',
+    'flows.priorityHint': 'זרימות עם מספר גבוה יותר נבדקות קודם.',
+    'flows.stopOtherFlows': 'עצור זרימות אחרות כשזרימה זו מתאימה',
+    'flows.stopOtherFlowsHint': 'זרימות בעדיפות נמוכה יותר לא יופעלו עבור אותה הודעה או אירוע.',
+    'flows.cooldown': "זמן צינון לצ'אט",
+    'flows.cooldownHint': "לא לרוץ שוב באותו צ'אט בתוך הזמן הזה. 0 = ללא צינון.",
+    'flows.maxExecutionsPerContact': 'מקסימום הפעלות לאיש קשר',
+    'flows.maxExecutionsPerContactHint': '0 = ללא הגבלה.',
+    'flows.skipHumanHandled': "דלג על צ'אטים שנציג מטפל בהם",
+    'flows.skipHumanHandledHint': "לא לרוץ בצ'אטים שמישהו ענה בהם מתיבת הדואר ב-24 השעות האחרונות, אלא אם הצ'אט סומן שוב כלא מטופל.",
     'flows.sendMessage': 'שלח הודעה',
     'flows.autoReply': 'הודעה אוטומטית',
     'flows.forwardMessage': 'שלח למספר אחר',
@@ -949,7 +1427,7 @@ const translations = {
     'toast.tagDeleted': 'تم حذف العلامة بنجاح',
     'toast.messageSent': 'تم إرسال الرسالة بنجاح',
     'toast.fileSent': 'تم إرسال الملف بنجاح',
-    'toast.markedAsHandled': 'تم وضع علامة كمعالج',
+    'toast.markedAsHandled': 'تم إغلاق المحادثة',
     
     // Common
     'common.cancel': 'إلغاء',
@@ -1145,15 +1623,72 @@ const translations = {
     // Inbox Page
     'inbox.title': 'صندوق الوارد',
     'inbox.searchChats': 'البحث في المحادثات...',
-    'inbox.allStatus': 'جميع الحالات',
+    'inbox.searchMessages': 'البحث في الرسائل',
+    'inbox.searchMessagesHint': 'ابحث في نصوص وأسماء ملفات جميع الرسائل',
+    'inbox.noSearchResults': 'لم يتم العثور على رسائل',
+    'inbox.searchMatches': 'نتائج',
+    'inbox.searchAllDirections': 'المرسلة والمستلمة',
+    'inbox.searchIncoming': 'المستلمة',
+    'inbox.searchOutgoing': 'المرسلة',
+    'inbox.searchFrom': 'من تاريخ',
+    'inbox.searchTo': 'إلى تاريخ',
+    'inbox.statusOpen': 'مفتوحة',
+    'inbox.statusPending': 'بانتظار العميل',
+    'inbox.statusSnoozed': 'مؤجلة',
+    'inbox.statusClosed': 'مغلقة',
+    'inbox.statusUpdated': 'تم تحديث حالة المحادثة',
+    'inbox.allAssignees': 'كل الموظفين',
+    'inbox.unassigned': 'غير مسندة',
+    'inbox.assignTo': 'إسناد إلى',
+    'inbox.addAgent': '+ إضافة موظف…',
+    'inbox.agentName': 'اسم الموظف',
+    'inbox.snooze': 'تأجيل',
+    'inbox.snoozedUntil': 'مؤجلة حتى {time}',
+    'inbox.inOneHour': 'بعد ساعة',
+    'inbox.inThreeHours': 'بعد 3 ساعات',
+    'inbox.tomorrowMorning': 'غداً الساعة 9:00',
+    'inbox.nextWeekMorning': 'الأسبوع القادم الساعة 9:00',
+    'inbox.snoozeCustom': 'اختر وقتاً…',
+    'inbox.unsnooze': 'إعادة الآن',
+    'inbox.pin': 'تثبيت',
+    'inbox.unpin': 'إلغاء التثبيت',
+    'inbox.notes': 'ملاحظات',
+    'inbox.notesPrivateHint': 'الملاحظات الداخلية يراها فريقك فقط - ولا تُرسل أبداً إلى جهة الاتصال',
+    'inbox.noNotes': 'لا توجد ملاحظات بعد',
+    'inbox.addNote': 'إضافة ملاحظة',
+    'inbox.addNotePlaceholder': 'اكتب ملاحظة داخلية...',
+    'inbox.unknownAuthor': 'الفريق',
+    'inbox.sendLater': 'إرسال لاحقاً',
+    'inbox.schedule': 'جدولة',
+    'inbox.scheduledCount': '{count} مجدولة',
+    'inbox.scheduledFailed': 'فشل الإرسال - عدّل لإعادة المحاولة',
+    'inbox.cancelScheduled': 'إلغاء الرسالة المجدولة',
+    'inbox.messageScheduled': 'تمت جدولة الرسالة',
+    'inbox.scheduledCancelled': 'تم إلغاء الرسالة المجدولة',
+    'inbox.captionOptional': 'تعليق (اختياري)',
+    'inbox.reply': 'رد',
+    'inbox.react': 'تفاعل',
+    'inbox.forward': 'إعادة توجيه',
+    'inbox.forwarded': 'تمت إعادة توجيهها',
+    'inbox.forwardTo': 'إعادة توجيه إلى...',
+    'inbox.forwardOtherAccountHint': 'هذه المحادثة على حساب آخر - سيتم إرسال الرسالة مجدداً من ذلك الحساب.',
+    'inbox.messageForwarded': 'تمت إعادة توجيه الرسالة',
+    'inbox.replyingTo': 'الرد على {name}',
+    'inbox.you': 'أنت',
+    'inbox.allStatus': 'الكل (بدون المؤجلة)',
     'inbox.unhandled': 'غير معالج',
     'inbox.handled': 'معالج',
     'inbox.allAccounts': 'جميع الحسابات',
     'inbox.chats': 'محادثات',
     'inbox.selectChat': 'حدد محادثة لبدء المراسلة',
     'inbox.manageConversations': 'إدارة جميع محادثات واتساب الخاصة بك في مكان واحد',
-    'inbox.markHandled': 'وضع علامة معالج',
+    'inbox.markHandled': 'إغلاق المحادثة',
     'inbox.typeMessage': 'اكتب رسالة...',
+    'inbox.typeMessageOrSlash': 'اكتب رسالة، أو / للردود السريعة...',
+    'inbox.quickReplies': 'الردود السريعة',
+    'inbox.quickRepliesHint': 'Enter للإرسال · Tab للتعديل',
+    'inbox.noQuickReplies': 'لا توجد قوالب مطابقة',
+    'inbox.quickReplyUsed': '{count}×',
     'inbox.sendMessage': 'إرسال رسالة',
     'inbox.attachFile': 'إرفاق ملف',
     'inbox.noChats': 'لم يتم العثور على محادثات',
@@ -1263,6 +1798,7 @@ const translations = {
     'templates.useTemplate': 'استخدام القالب',
     'templates.loadTemplate': 'تحميل القالب',
     'templates.selectTemplate': 'اختر قالب',
+    'templates.usageCount': 'أُرسل {count} مرة كرد سريع',
     
     // Automation Flows
     flows: 'تدفقات الأتمتة',
@@ -1287,6 +1823,187 @@ const translations = {
     'flows.ifLastMessageOlderThan': 'إذا كانت آخر رسالة أقدم من',
     'flows.hours': 'ساعات',
     'flows.minutes': 'دقائق',
+    'flows.days': 'أيام',
+    'flows.waitForReply': 'انتظار الرد',
+    'flows.waitForReplyDescription': 'توقف حتى الرسالة التالية من جهة الاتصال',
+    'flows.waitTimeout': 'انتهاء المهلة بعد',
+    'flows.onReply': 'رد',
+    'flows.onTimeout': 'انتهت المهلة',
+    'flows.captureReply': 'حفظ الإجابة',
+    'flows.captureReplyDescription': 'احفظ الرد في متغير أو في حقل جهة الاتصال',
+    'flows.captureWhat': 'ما يتم حفظه',
+    'flows.captureWholeReply': 'الرد كاملاً',
+    'flows.captureRegex': 'مطابقة Regex',
+    'flows.captureSaveTo': 'حفظ في',
+    'flows.saveToVariable': 'متغير في التدفق',
+    'flows.saveToContactField': 'حقل جهة الاتصال',
+    'flows.variableName': 'اسم المتغير',
+    'flows.selectField': 'اختر حقلاً',
+    'flows.captured': 'تم الحفظ',
+    'flows.noMatch': 'لا يوجد تطابق',
+    'flows.conditionRule': 'شرط',
+    'flows.conditionRuleDescription': 'Regex، كلمات مفتاحية، نوع الرسالة، الساعات، الوسوم، الحقول',
+    'flows.ruleRegex': 'الرسالة تطابق Regex',
+    'flows.ruleKeywords': 'الرسالة تحتوي كلمات مفتاحية',
+    'flows.ruleMessageType': 'نوع الرسالة هو',
+    'flows.ruleBusinessHours': 'ضمن ساعات العمل',
+    'flows.ruleTag': 'وسم جهة الاتصال',
+    'flows.ruleCustomField': 'حقل مخصص',
+    'flows.ruleFirstMessage': 'أول رسالة من هذا الرقم',
+    'flows.ruleFirstMessageHint': 'نعم عندما لم يراسل هذا الرقم أي حساب من قبل',
+    'flows.keywordsAny': 'أي من',
+    'flows.keywordsAll': 'كل',
+    'flows.keywordsPlaceholder': 'سعر، تكلفة، كم',
+    'flows.messageType.text': 'نص',
+    'flows.messageType.image': 'صورة',
+    'flows.messageType.video': 'فيديو',
+    'flows.messageType.voice': 'رسالة صوتية',
+    'flows.messageType.audio': 'ملف صوتي',
+    'flows.messageType.document': 'مستند',
+    'flows.messageType.sticker': 'ملصق',
+    'flows.messageType.location': 'موقع',
+    'flows.timezone': 'المنطقة الزمنية',
+    'flows.tagHas': 'لديه',
+    'flows.tagLacks': 'ليس لديه',
+    'flows.selectTag': 'اختر وسمًا',
+    'flows.operator.equals': 'يساوي',
+    'flows.operator.not_equals': 'لا يساوي',
+    'flows.operator.contains': 'يحتوي',
+    'flows.operator.greater_than': 'أكبر من',
+    'flows.operator.less_than': 'أصغر من',
+    'flows.operator.is_empty': 'فارغ',
+    'flows.operator.is_not_empty': 'غير فارغ',
+    'flows.crmActions': 'CRM',
+    'flows.addTag': 'إضافة وسم',
+    'flows.addTagDescription': 'وسم جهة الاتصال',
+    'flows.removeTag': 'إزالة وسم',
+    'flows.removeTagDescription': 'إزالة وسم من جهة الاتصال',
+    'flows.setCustomField': 'تعيين حقل مخصص',
+    'flows.setCustomFieldDescription': 'كتابة قيمة في حقل جهة الاتصال',
+    'flows.fieldValuePlaceholder': 'القيمة، يمكن {{متغيرات}}',
+    'flows.setChatStatus': 'حالة المحادثة',
+    'flows.setChatStatusDescription': 'تعليم المحادثة كمعالجة أو غير معالجة',
+    'flows.addToCampaign': 'إضافة إلى حملة',
+    'flows.addToCampaignDescription': 'إضافة جهة الاتصال إلى حملة',
+    'flows.selectCampaign': 'اختر حملة',
+    'flows.executionHistory': 'سجل التشغيل',
+    'flows.history': 'السجل',
+    'flows.noExecutions': 'لم يتم تشغيل هذا التدفق بعد',
+    'flows.selectExecution': 'اختر تشغيلًا لتمييز مساره على اللوحة',
+    'flows.steps': 'خطوات',
+    'flows.stepInput': 'المدخل',
+    'flows.stepError': 'خطأ',
+    'flows.flowEnded': 'النهاية',
+    'flows.executionStatus.running': 'قيد التشغيل',
+    'flows.executionStatus.waiting': 'في الانتظار',
+    'flows.executionStatus.completed': 'مكتمل',
+    'flows.executionStatus.failed': 'فشل',
+    'flows.executionStatus.cancelled': 'ملغى',
+    'flows.simulator': 'المحاكي',
+    'flows.simulatorDescription': 'اختبر التدفق دون إرسال أي شيء',
+    'flows.simPhone': 'هاتف المرسل',
+    'flows.simName': 'اسم المرسل',
+    'flows.simTags': 'وسوم جهة الاتصال',
+    'flows.simMessagePlaceholder': 'اكتب رسالة من جهة الاتصال...',
+    'flows.simReplyPlaceholder': 'اكتب رد جهة الاتصال...',
+    'flows.simReset': 'إعادة تعيين',
+    'flows.simNotStarted': 'لم يبدأ التدفق - لم يتحقق شرط البدء',
+    'flows.simWaiting': 'في انتظار الرد - رسالتك التالية تكمل التدفق',
+    'flows.simEnded': 'انتهى التدفق',
+    'flows.simForward': 'إعادة توجيه إلى',
+    'flows.simWebhook': 'Webhook (لم يُرسل)',
+    'flows.simDelay': 'تم تخطي التأخير:',
+    'flows.simTyping': 'تم تخطي الكتابة:',
+    'flows.simTagAdded': 'تمت إضافة وسم',
+    'flows.simTagRemoved': 'تمت إزالة وسم',
+    'flows.simFieldSet': 'تم تعيين الحقل',
+    'flows.simChatStatus': 'حالة المحادثة',
+    'flows.simCampaign': 'تمت الإضافة إلى الحملة',
+    'flows.simBlacklist': 'تمت الإضافة إلى القائمة السوداء',
+    'flows.saveDraft': 'حفظ المسودة',
+    'flows.draftSaved': 'تم حفظ المسودة - انشرها لتصبح فعالة',
+    'flows.publish': 'نشر',
+    'flows.publishDescription': 'النشر يستبدل ما يشغله التدفق على الرسائل الواردة. التغييرات مقارنة بالإصدار الفعال:',
+    'flows.publishedAs': 'تم النشر كإصدار',
+    'flows.versionNote': 'ملاحظة الإصدار',
+    'flows.versionNotePlaceholder': 'ما الذي تغير؟ (اختياري)',
+    'flows.versions': 'الإصدارات',
+    'flows.noVersions': 'لا توجد إصدارات منشورة بعد',
+    'flows.live': 'فعال',
+    'flows.draft': 'مسودة',
+    'flows.notPublished': 'غير منشور',
+    'flows.unpublishedChanges': 'تغييرات غير منشورة',
+    'flows.discardDraft': 'حذف المسودة',
+    'flows.discardDraftConfirm': 'حذف التغييرات غير المنشورة والعودة إلى الإصدار الفعال؟',
+    'flows.restore': 'استعادة',
+    'flows.restoreConfirm': 'استعادة',
+    'flows.restoreDiscardsDraft': 'الاستعادة تنشر هذا الإصدار وتحذف المسودة غير المنشورة. هل تريد المتابعة؟',
+    'flows.nodesCount': 'عقد',
+    'flows.diffNoChanges': 'لا توجد تغييرات',
+    'flows.diffAddedNodes': 'عقد مضافة',
+    'flows.diffRemovedNodes': 'عقد محذوفة',
+    'flows.diffChangedNodes': 'عقد معدلة',
+    'flows.diffMovedNodes': 'عقد منقولة',
+    'flows.diffConnections': 'الاتصالات',
+    'flows.import': 'استيراد',
+    'flows.imported': 'تم استيراد التدفق - راجعه وفعّله عندما يكون جاهزًا',
+    'flows.importFailed': 'تعذر استيراد الملف - هل هو ملف تصدير تدفق؟',
+    'flows.export': 'تصدير',
+    'flows.triggers': 'المشغلات',
+    'flows.triggerCampaignReply': 'رد على حملة',
+    'flows.triggerCampaignReplyDescription': 'رد جهة اتصال على رسالة حملة',
+    'flows.anyCampaign': 'أي حملة',
+    'flows.triggerFirstMessage': 'الرسالة الأولى',
+    'flows.triggerFirstMessageDescription': 'جهة اتصال جديدة تكتب لأول مرة',
+    'flows.triggerFirstMessageHint': 'يعمل عند وصول أول رسالة على الإطلاق من هذا الرقم.',
+    'flows.triggerTagAdded': 'تمت إضافة وسم',
+    'flows.triggerTagAddedDescription': 'تمت إضافة وسم إلى جهة اتصال',
+    'flows.triggerSchedule': 'مجدول',
+    'flows.triggerScheduleDescription': 'يعمل على شريحة في وقت محدد',
+    'flows.triggerScheduleHint': 'يعمل مرة واحدة لكل جهة اتصال في كل يوم محدد، من هذا الوقت (يتم استكمال التشغيل الفائت خلال ساعة).',
+    'flows.selectSegment': 'اختر شريحة',
+    'flows.scheduleTime': 'الوقت',
+    'flows.triggerGroupJoin': 'انضم إلى مجموعة',
+    'flows.triggerGroupJoinDescription': 'انضم شخص إلى مجموعة عبر رابط دعوة',
+    'flows.selectAccountForGroups': 'الحساب (لعرض المجموعات)',
+    'flows.anyGroup': 'أي مجموعة',
+    'flows.triggerWebhook': 'Webhook وارد',
+    'flows.triggerWebhookDescription': 'أداة أخرى تستدعي عنوانًا محليًا',
+    'flows.triggerWebhookHint': 'أرسل POST بصيغة JSON إلى هذا العنوان من هذا الكمبيوتر. phone مطلوب؛ كل حقل يصبح متغيرًا.',
+    'flows.copyWebhookUrl': 'نسخ العنوان',
+    'flows.webhookUrlCopied': 'تم نسخ عنوان الـ Webhook',
+    'flows.webhookBody': 'نص الطلب',
+    'flows.webhookFields': 'حقول',
+    'flows.webhookRawJson': 'JSON حر',
+    'flows.webhookRawJsonHint': 'يتم ملء {{المتغيرات}} وتهريبها لـ JSON.',
+    'flows.webhookHeaders': 'الترويسات (Headers)',
+    'flows.webhookAuth': 'المصادقة',
+    'flows.webhookAuthNone': 'بدون',
+    'flows.webhookUsername': 'اسم المستخدم',
+    'flows.webhookPassword': 'كلمة المرور',
+    'flows.webhookResponseMapping': 'الاستجابة ← متغيرات',
+    'flows.webhookResponseMappingHint': 'مسار JSON ‏(data.items[0].id) ← اسم متغير، يُستخدم كـ {{name}} في العقد التالية. {{webhook_status}} يحتوي على حالة HTTP.',
+    'flows.webhookAdvanced': 'المهلة وإعادة المحاولة والتوقيع',
+    'flows.webhookTimeout': 'المهلة (ث)',
+    'flows.webhookRetries': 'إعادة المحاولة',
+    'flows.webhookBackoff': 'الانتظار (ث)',
+    'flows.webhookHmacSecret': 'سر HMAC',
+    'flows.webhookSignatureHeader': 'ترويسة التوقيع',
+    'flows.webhookHmacHint': 'يُرسل كـ sha256=<HMAC-SHA256 للنص، hex>.',
+    'flows.ruleVariable': 'متغير في التدفق',
+    'flows.variableNamePlaceholder': 'اسم المتغير، مثل order_status',
+    'flows.settings': 'الإعدادات',
+    'flows.settingsDescription': 'عندما تتطابق عدة تدفقات مع نفس الرسالة، تحدد هذه القواعد أيها يعمل. تسري فور الحفظ.',
+    'flows.priority': 'الأولوية',
+    'flows.priorityHint': 'يتم فحص التدفقات ذات الرقم الأعلى أولاً.',
+    'flows.stopOtherFlows': 'إيقاف التدفقات الأخرى عند تطابق هذا التدفق',
+    'flows.stopOtherFlowsHint': 'لن تبدأ التدفقات ذات الأولوية الأقل لنفس الرسالة أو الحدث.',
+    'flows.cooldown': 'فترة التهدئة لكل محادثة',
+    'flows.cooldownHint': 'لا تعمل مرة أخرى في نفس المحادثة خلال هذه المدة. 0 = بدون تهدئة.',
+    'flows.maxExecutionsPerContact': 'الحد الأقصى للتشغيل لكل جهة اتصال',
+    'flows.maxExecutionsPerContactHint': '0 = بلا حدود.',
+    'flows.skipHumanHandled': 'تخطي المحادثات التي يتولاها شخص',
+    'flows.skipHumanHandledHint': 'لا تعمل في المحادثات التي رد عليها أحد من صندوق الوارد خلال آخر 24 ساعة، إلا إذا تم تمييز المحادثة كغير معالجة مجدداً.',
     'flows.sendMessage': 'إرسال رسالة',
     'flows.autoReply': 'رد تلقائي',
     'flows.forwardMessage': 'إرسال إلى رقم آخر',
@@ -1,3 +1,5 @@
+import type { AccountAlert } from '../types';
+
 // Helper to access the Electron API with type safety
 // Check if electron API is available
 if (!window.electron) {
@@ -19,6 +21,20 @@ export function onNewMessage(callback: (message: any) => void) {
   return () => api.removeListener?.('message:new', callback);
 }
 
+// Someone reacted to a message (or took a reaction back)
+export function onMessageReaction(callback: (reaction: { message_id: string; software_chat_id: string | null }) => void) {
+  if (!api.on) return () => {};
+  api.on('message:reaction', callback);
+  return () => api.removeListener?.('message:reaction', callback);
+}
+
+// A scheduled message was sent or failed - the callback gets its chat (chats.id)
+export function onScheduledMessageUpdate(callback: (chatId: string) => void) {
+  if (!api.on) return () => {};
+  api.on('scheduled-message:updated', callback);
+  return () => api.removeListener?.('scheduled-message:updated', callback);
+}
+
 export function onCampaignProgress(callback: (campaignId: string, progress: any) => void) {
   if (!api.on) return () => {};
   api.on('campaign:progress', callback);
@@ -36,3 +52,9 @@ export function onPairingCode(callback: (accountId: string, code: string) => voi
   api.on('account:pairing', callback);
   return () => api.removeListener?.('account:pairing', callback);
 }
+
+export function onAccountAlert(callback: (alert: AccountAlert) => void) {
+  if (!api.on) return () => {};
+  api.on('account:alert', callback);
+  return () => api.removeListener?.('account:alert', callback);
+}
@@ -0,0 +1,392 @@
+/**
+ * Message template engine shared by the campaign scheduler, the flow engine,
+ * message templates and the renderer preview.
+ *
+ * Supported syntax:
+ *   {{name}}                     variable (case-insensitive)
+ *   {{name|friend}}              variable with a fallback when empty/missing
+ *   {{name}}                     without a fallback, an empty name shows {{display_name}}
+ *   {Hi|Hello|Hey}               spintax, may be nested: {Hi|{Hello|Hey} there}
+ *   {{#if city}}...{{/if}}       conditional block, optional {{else}}
+ *   {{#if city == Tel Aviv}}     comparison (== / !=), case-insensitive
+ *   {{date}} {{time}}            current date/time
+ *   {{date+3:DD/MM}}             date helpers with day offset and format
+ *
+ * Single braces without a top-level "|" are kept as-is, so emoticons and most
+ * plain text pass through. A "|" inside braces is spintax, JSON included -
+ * structured text such as JSON bodies, headers and URLs is rendered with
+ * `variablesOnly`, which substitutes variables and nothing else.
+ */
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'var'; name: string; fallback?: string; raw: string }
+  | { type: 'if'; name: string; operator?: '==' | '!='; value?: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'spin'; options: TemplateNode[][] };
+
+export type TemplateVariables = Record<string, string | number | null | undefined>;
+
+export interface TemplateRenderOptions {
+  /** Reference time for date/time helpers (defaults to now) */
+  now?: Date;
+  /** Random source for spintax (defaults to Math.random) */
+  random?: () => number;
+  /** Variables that are valid even when missing from `variables` (e.g. custom fields of other contacts) */
+  knownVariables?: string[];
+  /** Substitute {{variables}} only - spintax and {{#if}} blocks are kept as-is */
+  variablesOnly?: boolean;
+}
+
+export interface TemplateRenderResult {
+  text: string;
+  /** Variables referenced by the template that are neither provided nor known */
+  unknownVariables: string[];
+}
+
+// A variable that is empty and has no fallback of its own shows the value of another one -
+// {{name}} has always shown the phone number for contacts without a name
+const IMPLICIT_FALLBACKS: Record<string, string> = { name: 'display_name' };
+
+const HELPER_PATTERN = /^(date|time)([+-]\d+)?(?::(.+))?$/i;
+const DEFAULT_DATE_FORMAT = 'DD/MM/YYYY';
+const DEFAULT_TIME_FORMAT = 'HH:mm';
+
+class TemplateParser {
+  private pos = 0;
+  // Spintax attempts are memoized by start position - a "{" that failed to parse
+  // once will fail again, and retrying it would make unbalanced input exponential.
+  private spinCache = new Map<number, { node: TemplateNode; end: number } | null>();
+
+  constructor(private readonly source: string, private readonly variablesOnly = false) {}
+
+  parse(): TemplateNode[] {
+    return this.parseSequence('root');
+  }
+
+  /**
+   * Parse nodes until a terminator of the given context is reached.
+   * The terminator itself is not consumed.
+   */
+  private parseSequence(context: 'root' | 'if' | 'spin'): TemplateNode[] {
+    const nodes: TemplateNode[] = [];
+    let text = '';
+
+    const flushText = () => {
+      if (text) {
+        nodes.push({ type: 'text', value: text });
+        text = '';
+      }
+    };
+
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+
+      if (this.source.startsWith('{{', this.pos)) {
+        const close = this.source.indexOf('}}', this.pos + 2);
+        if (close === -1) {
+          text += '{{';
+          this.pos += 2;
+          continue;
+        }
+
+        const inner = this.source.slice(this.pos + 2, close).trim();
+
+        if (inner === 'else' || inner === '/if') {
+          if (context === 'if') {
+            flushText();
+            return nodes;
+          }
+          // Stray block tag - keep it literally
+          text += this.source.slice(this.pos, close + 2);
+          this.pos = close + 2;
+          continue;
+        }
+
+        const raw = this.source.slice(this.pos, close + 2);
+        this.pos = close + 2;
+
+        if (this.variablesOnly && /^#if\s+/i.test(inner)) {
+          text += raw;
+          continue;
+        }
+
+        flushText();
+        if (/^#if\s+/i.test(inner)) {
+          nodes.push(this.parseIf(inner.replace(/^#if\s+/i, '')));
+        } else {
+          nodes.push(this.parseVariable(inner, raw));
+        }
+        continue;
+      }
+
+      if (context === 'spin' && (char === '|' || char === '}')) {
+        flushText();
+        return nodes;
+      }
+
+      if (char === '{' && !this.variablesOnly) {
+        const spin = this.parseSpin();
+        if (spin) {
+          flushText();
+          nodes.push(spin);
+          continue;
+        }
+      }
+
+      text += char;
+      this.pos++;
+    }
+
+    flushText();
+    return nodes;
+  }
+
+  private parseIf(condition: string): TemplateNode {
+    const match = condition.match(/^([^=!]+?)\s*(==|!=)\s*(.*)$/);
+    const name = (match ? match[1] : condition).trim();
+    const operator = match ? (match[2] as '==' | '!=') : undefined;
+    const value = match ? match[3].trim().replace(/^["']|["']$/g, '') : undefined;
+
+    const then = this.parseSequence('if');
+    let otherwise: TemplateNode[] = [];
+
+    if (this.consumeTag('else')) {
+      otherwise = this.parseSequence('if');
+    }
+    // Unterminated blocks simply run to the end of the template
+    this.consumeTag('/if');
+
+    return { type: 'if', name, operator, value, then, otherwise };
+  }
+
+  private parseVariable(inner: string, raw: string): TemplateNode {
+    const separator = inner.indexOf('|');
+    if (separator === -1) {
+      return { type: 'var', name: inner, raw };
+    }
+    return {
+      type: 'var',
+      name: inner.slice(0, separator).trim(),
+      fallback: inner.slice(separator + 1),
+      raw,
+    };
+  }
+
+  /**
+   * Try to parse a spintax group at the current position. Returns null (and
+   * leaves the position untouched) when the braces are unclosed or have no
+   * top-level "|".
+   */
+  private parseSpin(): TemplateNode | null {
+    const start = this.pos;
+    const cached = this.spinCache.get(start);
+    if (cached !== undefined) {
+      if (cached) this.pos = cached.end;
+      return cached ? cached.node : null;
+    }
+
+    this.pos++;
+    const options: TemplateNode[][] = [];
+    let result: { node: TemplateNode; end: number } | null = null;
+
+    while (this.pos < this.source.length) {
+      options.push(this.parseSequence('spin'));
+      const terminator = this.source[this.pos];
+      this.pos++;
+      if (terminator === '}') {
+        if (options.length > 1) {
+          result = { node: { type: 'spin', options }, end: this.pos };
+        }
+        break;
+      }
+    }
+
+    this.spinCache.set(start, result);
+    this.pos = result ? result.end : start;
+    return result ? result.node : null;
+  }
+
+  private consumeTag(tag: string): boolean {
+    const match = this.source.slice(this.pos).match(/^\{\{\s*([^}]*?)\s*\}\}/);
+    if (match && match[1] === tag) {
+      this.pos += match[0].length;
+      return true;
+    }
+    return false;
+  }
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+export function formatTemplateDate(date: Date, format: string): string {
+  return format.replace(/YYYY|YY|MM|M|DD|D|HH|H|mm|ss/g, (token) => {
+    switch (token) {
+      case 'YYYY': return date.getFullYear().toString();
+      case 'YY': return date.getFullYear().toString().slice(-2);
+      case 'MM': return pad(date.getMonth() + 1);
+      case 'M': return (date.getMonth() + 1).toString();
+      case 'DD': return pad(date.getDate());
+      case 'D': return date.getDate().toString();
+      case 'HH': return pad(date.getHours());
+      case 'H': return date.getHours().toString();
+      case 'mm': return pad(date.getMinutes());
+      case 'ss': return pad(date.getSeconds());
+      default: return token;
+    }
+  });
+}
+
+function renderHelper(name: string, now: Date): string | undefined {
+  const match = name.match(HELPER_PATTERN);
+  if (!match) return undefined;
+
+  const [, helper, offset, format] = match;
+  const date = new Date(now.getTime());
+  if (offset) {
+    date.setDate(date.getDate() + parseInt(offset, 10));
+  }
+
+  const isTime = helper.toLowerCase() === 'time';
+  return formatTemplateDate(date, format || (isTime ? DEFAULT_TIME_FORMAT : DEFAULT_DATE_FORMAT));
+}
+
+function isHelper(name: string): boolean {
+  return HELPER_PATTERN.test(name);
+}
+
+function normalizeVariables(variables: TemplateVariables): Map<string, string> {
+  const normalized = new Map<string, string>();
+  Object.entries(variables || {}).forEach(([key, value]) => {
+    if (value === null || value === undefined) return;
+    normalized.set(key.trim().toLowerCase(), String(value));
+  });
+  return normalized;
+}
+
+function collectVariableNames(nodes: TemplateNode[], names: Set<string>): void {
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'var':
+        names.add(node.name);
+        break;
+      case 'if':
+        names.add(node.name);
+        collectVariableNames(node.then, names);
+        collectVariableNames(node.otherwise, names);
+        break;
+      case 'spin':
+        node.options.forEach(option => collectVariableNames(option, names));
+        break;
+    }
+  }
+}
+
+/**
+ * Render a template against a set of variables.
+ * Unknown variables without a fallback are left untouched ({{x}}) so they are
+ * easy to spot, and are reported in `unknownVariables`.
+ */
+export function renderTemplate(
+  template: string,
+  variables: TemplateVariables,
+  options: TemplateRenderOptions = {}
+): TemplateRenderResult {
+  const nodes = new TemplateParser(template || '', options.variablesOnly).parse();
+  const values = normalizeVariables(variables);
+  const known = new Set((options.knownVariables || []).map(name => name.trim().toLowerCase()));
+  const now = options.now || new Date();
+  const random = options.random || Math.random;
+
+  const lookup = (name: string): string | undefined => {
+    const helperValue = renderHelper(name, now);
+    if (helperValue !== undefined) return helperValue;
+    return values.get(name.toLowerCase());
+  };
+
+  const isKnown = (name: string) =>
+    isHelper(name) || values.has(name.toLowerCase()) || known.has(name.toLowerCase());
+
+  const render = (list: TemplateNode[]): string => list.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'var': {
+        const value = lookup(node.name);
+        if (value !== undefined && value.trim() !== '') return value;
+        if (node.fallback !== undefined) return node.fallback;
+        const implicit = IMPLICIT_FALLBACKS[node.name.toLowerCase()];
+        const implicitValue = implicit ? lookup(implicit) : undefined;
+        if (implicitValue !== undefined && implicitValue.trim() !== '') return implicitValue;
+        return isKnown(node.name) ? '' : node.raw;
+      }
+      case 'if': {
+        const value = (lookup(node.name) || '').trim();
+        let matches: boolean;
+        if (node.operator) {
+          const equal = value.toLowerCase() === (node.value || '').toLowerCase();
+          matches = node.operator === '==' ? equal : !equal;
+        } else {
+          matches = value !== '' && value !== '0' && value.toLowerCase() !== 'false';
+        }
+        return render(matches ? node.then : node.otherwise);
+      }
+      case 'spin': {
+        const index = Math.min(node.options.length - 1, Math.floor(random() * node.options.length));
+        return render(node.options[index]);
+      }
+    }
+  }).join('');
+
+  const names = new Set<string>();
+  collectVariableNames(nodes, names);
+  const unknownVariables = Array.from(names).filter(name => name && !isKnown(name));
+
+  return { text: render(nodes), unknownVariables };
+}
+
+// Used for live previews when there are no contacts to sample from
+export const SAMPLE_PREVIEW_CONTACT = { name: 'John Doe', phone_number: '972501234567', custom_fields: {} };
+
+/**
+ * Build the standard variable set for a contact row: name, first_name, phone,
+ * display_name and every custom field (custom_fields may be the raw JSON column or an object).
+ * name stays empty for a contact without one so {{name|friend}} falls back, while
+ * a plain {{name}} still shows display_name - the name or, failing that, the phone number.
+ */
+export function buildContactVariables(contact: {
+  name?: string | null;
+  phone_number?: string | null;
+  custom_fields?: string | Record<string, any> | null;
+} | null | undefined, phoneFallback = ''): Record<string, string> {
+  const phone = contact?.phone_number || phoneFallback;
+  const name = (contact?.name || '').trim();
+
+  const variables: Record<string, string> = {};
+
+  let customFields: Record<string, any> = {};
+  if (typeof contact?.custom_fields === 'string') {
+    try {
+      customFields = JSON.parse(contact.custom_fields) || {};
+    } catch {
+      customFields = {};
+    }
+  } else if (contact?.custom_fields && typeof contact.custom_fields === 'object') {
+    customFields = contact.custom_fields;
+  }
+
+  Object.entries(customFields).forEach(([key, value]) => {
+    if (value !== null && value !== undefined) {
+      variables[key] = String(value);
+    }
+  });
+
+  // Built-in variables win over custom fields with the same name
+  variables.name = name;
+  variables.first_name = name ? name.split(/\s+/)[0] : '';
+  variables.phone = phone;
+  variables.display_name = name || phone;
+
+  return variables;
+}
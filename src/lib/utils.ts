@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { renderTemplate } from "./template"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -25,12 +26,5 @@ export function replaceVariables(
   template: string,
   variables: Record<string, string>
 ): string {
-  let result = template;
-  
-  Object.entries(variables).forEach(([key, value]) => {
-    const regex = new RegExp(`{{${key}}}`, 'g');
-    result = result.replace(regex, value);
-  });
-  
-  return result;
+  return renderTemplate(template, variables).text;
 }
@@ -10,11 +10,12 @@ import AccountCard from '@/components/accounts/AccountCard';
 import AddAccountDialog from '@/components/accounts/AddAccountDialog';
 import QRCodeDisplay from '@/components/accounts/QRCodeDisplay';
 import { api, onAccountStatusChange, onQRCode, onPairingCode } from '@/lib/api';
-import type { Account } from '@/types';
+import type { Account, AccountQuotaBudget } from '@/types';
 
 export default function Accounts() {
   const { t, language } = useLanguage();
   const [accounts, setAccounts] = useState<Account[]>([]);
+  const [quotaBudgets, setQuotaBudgets] = useState<Record<string, AccountQuotaBudget>>({});
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [loading, setLoading] = useState(true);
   const [selectionMode, setSelectionMode] = useState(false);
@@ -76,10 +77,17 @@ export default function Accounts() {
     };
   }, [reconnectAccountId, language]);
 
+  // Remaining budgets change with every send from any campaign/warm-up
+  useEffect(() => {
+    const interval = setInterval(loadQuotaBudgets, 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
   const loadAccounts = async () => {
     try {
       const data = await api.accounts.getAll();
       setAccounts(data);
+      loadQuotaBudgets();
     } catch (error) {
       console.error('Failed to load accounts:', error);
     } finally {
@@ -87,6 +95,15 @@ export default function Accounts() {
     }
   };
 
+  const loadQuotaBudgets = async () => {
+    try {
+      const budgets: AccountQuotaBudget[] = await api.accounts.getQuotaBudgets();
+      setQuotaBudgets(Object.fromEntries(budgets.map(budget => [budget.accountId, budget])));
+    } catch (error) {
+      console.error('Failed to load account quota budgets:', error);
+    }
+  };
+
   const handleDeleteClick = (accountId: string) => {
     setDeleteDialog({ open: true, accountId });
   };
@@ -450,6 +467,7 @@ export default function Accounts() {
               isSelected={selectedAccountIds.has(account.id)}
               onSelect={(selected) => toggleAccountSelection(account.id, selected)}
               onUpdated={loadAccounts}
+              quotaBudget={quotaBudgets[account.id]}
             />
           ))}
         </div>
@@ -158,7 +158,7 @@ export default function Campaigns() {
             <CampaignList
               key={campaign.id}
               campaign={campaign}
-              stats={campaignStats.get(campaign.id) || { total: 0, sent: 0, pending: 0, failed: 0 }}
+              stats={campaignStats.get(campaign.id) || { total: 0, sent: 0, pending: 0, failed: 0, delivered: 0, read: 0, replied: 0 }}
               onStart={() => handleStart(campaign.id)}
               onPause={() => handlePause(campaign.id)}
               onStop={() => handleStop(campaign.id)}
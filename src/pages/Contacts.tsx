@@ -1,5 +1,5 @@
 import { useEffect, useState, useRef, useCallback } from 'react';
-import { Plus, Upload, Download, FileDown, Search, Filter, Tags, Users, UserPlus, Settings, Trash2, X, CheckSquare, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight } from 'lucide-react';
+import { Plus, Upload, Download, FileDown, Search, Filter, Tags, Users, UserPlus, Settings, Trash2, X, CheckSquare, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, ListFilter } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select } from '@/components/ui/select';
@@ -11,6 +11,9 @@ import ImportContacts from '@/components/contacts/ImportContacts';
 import AddContactDialog from '@/components/contacts/AddContactDialog';
 import TagManager from '@/components/contacts/TagManager';
 import CustomFieldsManager from '@/components/contacts/CustomFieldsManager';
+import SegmentManager from '@/components/contacts/SegmentManager';
+import ContactTimelineDialog from '@/components/contacts/ContactTimelineDialog';
+import SuppressionListDialog from '@/components/contacts/SuppressionListDialog';
 import BulkTagManager from '@/components/contacts/BulkTagManager';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { api } from '@/lib/api';
@@ -27,6 +30,9 @@ export default function Contacts() {
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [showTagManager, setShowTagManager] = useState(false);
   const [showCustomFieldsManager, setShowCustomFieldsManager] = useState(false);
+  const [showSegmentManager, setShowSegmentManager] = useState(false);
+  const [showSuppressionList, setShowSuppressionList] = useState(false);
+  const [timelineContact, setTimelineContact] = useState<Contact | null>(null);
   const [selectedContact, setSelectedContact] = useState<Contact | null>(null);
   const [loading, setLoading] = useState(true);
   const [customFields, setCustomFields] = useState<CustomField[]>([]);
@@ -369,6 +375,10 @@ export default function Contacts() {
           </p>
         </div>
         <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setShowSegmentManager(true)} className="shadow-sm">
+            <ListFilter className="h-4 w-4 mr-2" />
+            {language === 'he' ? 'סגמנטים' : language === 'ar' ? 'الشرائح' : 'Segments'}
+          </Button>
           <Button variant="outline" onClick={() => setShowCustomFieldsManager(true)} className="shadow-sm">
             <Settings className="h-4 w-4 mr-2" />
             {language === 'he' ? 'שדות מותאמים' : language === 'ar' ? 'حقول مخصصة' : 'Custom Fields'}
@@ -418,7 +428,7 @@ export default function Contacts() {
             </div>
           </CardContent>
         </Card>
-        <Card className="border-l-4 border-l-red-500 shadow-sm">
+        <Card className="border-l-4 border-l-red-500 shadow-sm cursor-pointer hover:bg-muted/50 transition-colors" onClick={() => setShowSuppressionList(true)}>
           <CardContent className="p-4 flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-muted-foreground">BlackList</p>
@@ -553,6 +563,7 @@ export default function Contacts() {
             onToggleSelectAll={toggleSelectAll}
             onDelete={handleDeleteClick}
             onManageTags={handleManageTags}
+            onShowTimeline={setTimelineContact}
           />
         </CardContent>
         
@@ -680,6 +691,31 @@ export default function Contacts() {
         }}
       />
 
+      <ContactTimelineDialog
+        open={!!timelineContact}
+        onOpenChange={(open) => {
+          if (!open) setTimelineContact(null);
+        }}
+        phoneNumber={timelineContact?.phone_number || null}
+        name={timelineContact?.name}
+      />
+
+      <SegmentManager
+        open={showSegmentManager}
+        onOpenChange={setShowSegmentManager}
+        tags={tags}
+        customFields={customFields}
+      />
+
+      <SuppressionListDialog
+        open={showSuppressionList}
+        onOpenChange={setShowSuppressionList}
+        onChanged={() => {
+          loadBlacklistCount();
+          loadContacts();
+        }}
+      />
+
       {/* Bulk Delete Confirmation */}
       <ConfirmDialog
         open={bulkDeleteDialog}
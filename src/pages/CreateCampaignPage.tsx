@@ -25,7 +25,9 @@ import {
   Bold,
   Italic,
   Strikethrough,
-  Code
+  Code,
+  AlertTriangle,
+  Shuffle
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -39,8 +41,18 @@ import { Switch } from '@/components/ui/switch';
 import { toast } from '@/components/ui/use-toast';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { api } from '@/lib/api';
-import type { Account, Tag } from '@/types';
+import type { Account, Contact, ContactSegment, Tag } from '@/types';
 import { cn } from '@/lib/utils';
+import { renderTemplate, buildContactVariables, SAMPLE_PREVIEW_CONTACT } from '@/lib/template';
+
+// Deterministic random source so spintax doesn't reshuffle on every keystroke
+function createSeededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 9301 + 49297) % 233280;
+    return state / 233280;
+  };
+}
 
 export default function CreateCampaignPage() {
   const { t, language } = useLanguage();
@@ -61,6 +73,11 @@ export default function CreateCampaignPage() {
   const emojiPickerRef = useRef<HTMLDivElement>(null);
   const [showTemplateSelector, setShowTemplateSelector] = useState(false);
   const [templates, setTemplates] = useState<any[]>([]);
+  const [segments, setSegments] = useState<ContactSegment[]>([]);
+  const [previewContacts, setPreviewContacts] = useState<Contact[]>([]);
+  const [previewContactId, setPreviewContactId] = useState<string>('');
+  const [customFieldNames, setCustomFieldNames] = useState<string[]>([]);
+  const [previewSeed, setPreviewSeed] = useState(1);
   const messageTextareaRef = useRef<HTMLTextAreaElement>(null);
   const [existingContactsCount, setExistingContactsCount] = useState(0);
 
@@ -173,7 +190,11 @@ export default function CreateCampaignPage() {
     enable_breaks: false,
     skip_recent_contacts: false,
     skip_recent_days: 7,
-    send_mode: 'web' as 'web' | 'cloud_phone'
+    send_mode: 'web' as 'web' | 'cloud_phone',
+    ab_auto_winner: false,
+    ab_sample_size: 50,
+    ab_evaluation_hours: 4,
+    segment_id: ''
   });
 
   // Extra message variants (besides formData.message which is variant #1).
@@ -201,6 +222,8 @@ export default function CreateCampaignPage() {
     loadAccounts();
     loadTags();
     loadTemplates();
+    loadSegments();
+    loadPreviewData();
     
     if (isEditMode && campaignId) {
       loadCampaignData(campaignId);
@@ -242,7 +265,11 @@ export default function CreateCampaignPage() {
         enable_breaks: !!(campaign.messages_before_break && campaign.break_duration),
         skip_recent_contacts: campaign.skip_recent_contacts || false,
         skip_recent_days: campaign.skip_recent_days || 7,
-        send_mode: campaign.send_mode === 'cloud_phone' ? 'cloud_phone' : 'web'
+        send_mode: campaign.send_mode === 'cloud_phone' ? 'cloud_phone' : 'web',
+        ab_auto_winner: campaign.ab_auto_winner || false,
+        ab_sample_size: campaign.ab_sample_size || 50,
+        ab_evaluation_hours: campaign.ab_evaluation_hours ?? 4,
+        segment_id: campaign.segment_id || ''
       });
 
       // Load extra message variants (variant #1 is formData.message above)
@@ -282,6 +309,54 @@ export default function CreateCampaignPage() {
     }
   };
 
+  const loadSegments = async () => {
+    try {
+      const data = await api.segments.getAll();
+      setSegments(data);
+    } catch (error) {
+      console.error('Failed to load segments:', error);
+    }
+  };
+
+  const loadPreviewData = async () => {
+    try {
+      const [contacts, fields] = await Promise.all([
+        api.contacts.getAll(),
+        window.electron.customFields.getAll(),
+      ]);
+      setPreviewContacts(contacts);
+      setCustomFieldNames(fields.map((field: any) => field.name));
+    } catch (error) {
+      console.error('Failed to load preview data:', error);
+    }
+  };
+
+  // Sample contacts for the live preview - prefer contacts from the selected tags
+  const previewCandidates = (() => {
+    const tagged = previewContacts.filter(contact =>
+      contact.tags?.some(tag => selectedTags.includes(tag.id))
+    );
+    return (tagged.length > 0 ? tagged : previewContacts).slice(0, 100);
+  })();
+  const previewContact = previewCandidates.find(contact => contact.id === previewContactId)
+    || previewCandidates[0]
+    || SAMPLE_PREVIEW_CONTACT;
+  const previewVariables = {
+    custom1: '',
+    custom2: '',
+    ...buildContactVariables(previewContact),
+  };
+  const previewMessage = renderTemplate(formData.message, previewVariables, {
+    knownVariables: customFieldNames,
+    random: createSeededRandom(previewSeed),
+  });
+  // Unknown variables across the main message and every variant
+  const unknownTemplateVariables = Array.from(new Set(
+    [formData.message, ...messageVariants].flatMap(text =>
+      renderTemplate(text, previewVariables, { knownVariables: customFieldNames }).unknownVariables
+    )
+  ));
+
   // Close emoji picker when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -445,11 +520,21 @@ export default function CreateCampaignPage() {
       return;
     }
     
-    if (!isEditMode && selectedTags.length === 0) {
+    if (!isEditMode && !formData.segment_id && selectedTags.length === 0) {
       toast.warning(t('createCampaign.validation.tagRequired'));
       return;
     }
 
+    if (unknownTemplateVariables.length > 0) {
+      const variablesList = unknownTemplateVariables.map(name => `{{${name}}}`).join(', ');
+      const confirmed = confirm(language === 'he'
+        ? `ההודעה מכילה משתנים לא מוכרים: ${variablesList}\nהם יישלחו כפי שהם. להמשיך?`
+        : language === 'ar'
+        ? `تحتوي الرسالة على متغيرات غير معروفة: ${variablesList}\nسيتم إرسالها كما هي. هل تريد المتابعة؟`
+        : `The message contains unknown variables: ${variablesList}\nThey will be sent as-is. Continue?`);
+      if (!confirmed) return;
+    }
+
     setLoading(true);
     try {
       let campaignData: any = { ...formData };
@@ -473,6 +558,12 @@ export default function CreateCampaignPage() {
 
       // Extra message variants (variant #1 is campaignData.message above)
       campaignData.message_variants = messageVariants.filter(variant => variant.trim().length > 0);
+
+      // A/B auto-winner only makes sense with at least one extra variant
+      campaignData.ab_auto_winner = formData.ab_auto_winner && campaignData.message_variants.length > 0 ? 1 : 0;
+
+      // Segment audiences are resolved by the scheduler when the campaign starts
+      campaignData.segment_id = formData.segment_id || null;
       
       // Remove enable_scheduling and enable_breaks from data (not DB fields)
       delete campaignData.enable_scheduling;
@@ -509,7 +600,7 @@ export default function CreateCampaignPage() {
         await api.campaigns.setAccounts(campaignId, selectedAccounts);
         
         // Add new contacts (keep existing + add new from selected tags)
-        if (selectedTags.length > 0) {
+        if (!formData.segment_id && selectedTags.length > 0) {
           const allContacts = await api.contacts.getAll();
           const filteredContacts = allContacts.filter(contact => 
             contact.tags?.some(tag => selectedTags.includes(tag.id))
@@ -530,17 +621,19 @@ export default function CreateCampaignPage() {
         const campaign = await api.campaigns.create(campaignData);
         await api.campaigns.addAccounts(campaign.id, selectedAccounts);
 
-        const allContacts = await api.contacts.getAll();
-        const filteredContacts = allContacts.filter(contact => 
-          contact.tags?.some(tag => selectedTags.includes(tag.id))
-        );
-        const uniqueContacts = buildUniqueCampaignContacts(filteredContacts);
-        
-        if (uniqueContacts.length > 0) {
-          await api.campaigns.addContacts(
-            campaign.id,
-            uniqueContacts
+        if (!formData.segment_id) {
+          const allContacts = await api.contacts.getAll();
+          const filteredContacts = allContacts.filter(contact => 
+            contact.tags?.some(tag => selectedTags.includes(tag.id))
           );
+          const uniqueContacts = buildUniqueCampaignContacts(filteredContacts);
+          
+          if (uniqueContacts.length > 0) {
+            await api.campaigns.addContacts(
+              campaign.id,
+              uniqueContacts
+            );
+          }
         }
 
         toast.success(t('createCampaign.toast.success'));
@@ -646,7 +739,7 @@ export default function CreateCampaignPage() {
 
                   {/* Message Text */}
                   <p className="text-[13px] text-gray-800 dark:text-gray-100 whitespace-pre-wrap leading-relaxed" dir={language === 'he' || language === 'ar' ? 'rtl' : 'ltr'}>
-                    {formData.message || t('createCampaign.whatsappPreview.defaultMessage')}
+                    {previewMessage.text || t('createCampaign.whatsappPreview.defaultMessage')}
                   </p>
                   
                   {/* Timestamp & Ticks */}
@@ -1019,6 +1112,25 @@ export default function CreateCampaignPage() {
                             )}
                         </div>
                     </div>
+                    {unknownTemplateVariables.length > 0 && (
+                        <div className="flex items-start gap-2 p-3 rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 text-xs text-amber-700 dark:text-amber-400">
+                            <AlertTriangle className="h-4 w-4 shrink-0" />
+                            <div className="space-y-1">
+                                <p className="font-medium">
+                                    {language === 'he' ? 'משתנים לא מוכרים - הם יישלחו כפי שהם:' : language === 'ar' ? 'متغيرات غير معروفة - سيتم إرسالها كما هي:' : 'Unknown variables - they will be sent as-is:'}
+                                </p>
+                                <div className="flex flex-wrap gap-1">
+                                    {unknownTemplateVariables.map(name => (
+                                        <code key={name} className="px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/40 font-mono">{`{{${name}}}`}</code>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+                    )}
+                    <p className="text-[11px] text-muted-foreground flex items-center gap-1.5">
+                        <Info className="h-3.5 w-3.5 shrink-0" />
+                        <span dir="ltr">{'{Hi|Hello} {{name|friend}} · {{#if city}}…{{/if}} · {{date}} {{time}} {{date+1:DD/MM}}'}</span>
+                    </p>
                     {formData.send_mode === 'cloud_phone' && (
                         <p className="text-xs text-muted-foreground flex items-center gap-1.5">
                             <Info className="h-3.5 w-3.5" />
@@ -1087,6 +1199,70 @@ export default function CreateCampaignPage() {
                           </Button>
                         </div>
                       ))}
+
+                      {messageVariants.length > 0 && (
+                        <div className="space-y-3 rounded-xl border border-amber-200 dark:border-amber-900/40 bg-amber-50/50 dark:bg-amber-950/10 p-4">
+                          <div className="flex items-center gap-3">
+                            <Switch
+                              id="ab_auto_winner"
+                              checked={formData.ab_auto_winner}
+                              onCheckedChange={checked => setFormData({...formData, ab_auto_winner: checked})}
+                              className="data-[state=checked]:bg-amber-500"
+                            />
+                            <Label htmlFor="ab_auto_winner" className="cursor-pointer font-medium text-sm">
+                              {language === 'he'
+                                ? 'בדיקת A/B - מעבר אוטומטי לגרסה המנצחת'
+                                : language === 'ar'
+                                ? 'اختبار A/B - التبديل تلقائيًا إلى النسخة الفائزة'
+                                : 'A/B test - switch to the winning variant automatically'
+                              }
+                            </Label>
+                          </div>
+
+                          {formData.ab_auto_winner && (
+                            <div className="space-y-2 animate-in fade-in slide-in-from-top-2">
+                              <Label className="text-xs text-muted-foreground">
+                                {language === 'he'
+                                  ? 'גודל מדגם לכל גרסה'
+                                  : language === 'ar'
+                                  ? 'حجم العينة لكل نسخة'
+                                  : 'Sample size per variant'
+                                }
+                              </Label>
+                              <Input
+                                type="number"
+                                min={1}
+                                value={formData.ab_sample_size}
+                                onChange={e => setFormData({...formData, ab_sample_size: Math.max(1, +e.target.value || 1)})}
+                                className="h-10 max-w-[140px] text-center font-mono"
+                              />
+                              <Label className="text-xs text-muted-foreground">
+                                {language === 'he'
+                                  ? 'שעות המתנה לתגובות לפני בחירת המנצחת'
+                                  : language === 'ar'
+                                  ? 'ساعات انتظار الردود قبل اختيار الفائزة'
+                                  : 'Hours to wait for replies before picking the winner'
+                                }
+                              </Label>
+                              <Input
+                                type="number"
+                                min={0}
+                                value={formData.ab_evaluation_hours}
+                                onChange={e => setFormData({...formData, ab_evaluation_hours: Math.max(0, +e.target.value || 0)})}
+                                className="h-10 max-w-[140px] text-center font-mono"
+                              />
+                              <p className="text-xs text-muted-foreground">
+                                {language === 'he'
+                                  ? `כל גרסה תישלח ל-${formData.ab_sample_size} אנשי קשר. אחרי ${formData.ab_evaluation_hours} שעות כל השאר יקבלו את הגרסה עם אחוז התגובות הגבוה ביותר - עד אז שאר אנשי הקשר ממתינים`
+                                  : language === 'ar'
+                                  ? `ستُرسل كل نسخة إلى ${formData.ab_sample_size} جهة اتصال. بعد ${formData.ab_evaluation_hours} ساعات يتلقى الباقون النسخة ذات أعلى معدل ردود - وحتى ذلك الحين تنتظر بقية جهات الاتصال`
+                                  : `Each variant goes to ${formData.ab_sample_size} contacts. ${formData.ab_evaluation_hours} hours later everyone else gets the variant with the highest reply rate - the rest of the audience waits until then`
+                                }
+                              </p>
+                            </div>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -1210,6 +1386,36 @@ export default function CreateCampaignPage() {
                           <Upload className="h-4 w-4 text-primary" />
                           {t('createCampaign.step2.targetAudience')}
                         </Label>
+                        {segments.length > 0 && (
+                            <div className="space-y-2">
+                                <Label className="text-xs text-muted-foreground">
+                                    {language === 'he' ? 'סגמנט שמור (במקום תגיות)' : language === 'ar' ? 'شريحة محفوظة (بدلاً من الوسوم)' : 'Saved segment (instead of tags)'}
+                                </Label>
+                                <select
+                                    value={formData.segment_id}
+                                    onChange={(e) => setFormData({ ...formData, segment_id: e.target.value })}
+                                    className="w-full h-10 px-3 rounded-md border border-input bg-background text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                                >
+                                    <option value="">{language === 'he' ? 'ללא - בחר לפי תגיות' : language === 'ar' ? 'بدون - اختر حسب الوسوم' : 'None - select by tags'}</option>
+                                    {segments.map(segment => (
+                                        <option key={segment.id} value={segment.id}>
+                                            {segment.name} ({segment.contact_count ?? 0})
+                                        </option>
+                                    ))}
+                                </select>
+                                {formData.segment_id && (
+                                    <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                                        <Info className="h-3.5 w-3.5 shrink-0" />
+                                        {language === 'he'
+                                          ? 'אנשי הקשר ייקבעו לפי כללי הסגמנט ברגע שהקמפיין יתחיל.'
+                                          : language === 'ar'
+                                          ? 'سيتم تحديد جهات الاتصال وفق قواعد الشريحة عند بدء الحملة.'
+                                          : 'Contacts are resolved from the segment rules when the campaign starts.'}
+                                    </p>
+                                )}
+                            </div>
+                        )}
+                        {!formData.segment_id && (
                         <div className="flex flex-wrap gap-3 bg-background/50 p-4 rounded-xl border border-border/50 min-h-[100px]">
                             {tags.length === 0 ? (
                                 <div className="w-full flex flex-col items-center justify-center py-4 text-muted-foreground">
@@ -1234,6 +1440,7 @@ export default function CreateCampaignPage() {
                                 ))
                             )}
                         </div>
+                        )}
                    </div>
                 </CardContent>
               </Card>
@@ -1573,6 +1780,38 @@ export default function CreateCampaignPage() {
                     <Badge variant="outline" className="bg-background/50 backdrop-blur border-primary/20 text-primary">{t('createCampaign.preview.whatsappWeb')}</Badge>
                 </div>
                 
+                {/* Sample contact used to render the preview */}
+                <div className="flex items-center gap-2 px-2">
+                    <Label className="text-xs text-muted-foreground whitespace-nowrap">
+                        {language === 'he' ? 'תצוגה עבור' : language === 'ar' ? 'معاينة لـ' : 'Preview as'}
+                    </Label>
+                    <select
+                        value={previewCandidates.some(contact => contact.id === previewContactId) ? previewContactId : (previewCandidates[0]?.id || '')}
+                        onChange={(e) => setPreviewContactId(e.target.value)}
+                        disabled={previewCandidates.length === 0}
+                        className="flex-1 min-w-0 h-8 px-2 rounded-md border border-input bg-background text-xs ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                    >
+                        {previewCandidates.length === 0 && (
+                            <option value="">{SAMPLE_PREVIEW_CONTACT.name}</option>
+                        )}
+                        {previewCandidates.map(contact => (
+                            <option key={contact.id} value={contact.id}>
+                                {contact.name ? `${contact.name} (${contact.phone_number})` : contact.phone_number}
+                            </option>
+                        ))}
+                    </select>
+                    <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        className="h-8 w-8 shrink-0"
+                        title={language === 'he' ? 'ערבב ספינטקס' : language === 'ar' ? 'خلط التنويعات' : 'Shuffle spintax'}
+                        onClick={() => setPreviewSeed(seed => seed + 1)}
+                    >
+                        <Shuffle className="h-3.5 w-3.5" />
+                    </Button>
+                </div>
+
                 <div className="flex justify-center transform hover:scale-[1.02] transition-transform duration-500">
                     <WhatsAppPreview />
                 </div>
@@ -3,7 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Power, PowerOff, Edit, Trash2, Workflow } from 'lucide-react';
+import { Plus, Power, PowerOff, Edit, Trash2, Workflow, Upload, Download } from 'lucide-react';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { toast } from '@/components/ui/use-toast';
 import type { Flow, Account } from '@/types';
@@ -65,6 +65,30 @@ export default function FlowBuilder() {
     }
   };
 
+  const handleImport = async () => {
+    try {
+      const flowId = await window.electron.flows.importFromFile();
+      if (!flowId) return;
+      toast.success(t('flows.imported'));
+      navigate(`/flows/${flowId}`);
+    } catch (error) {
+      console.error('Failed to import flow:', error);
+      toast.error(t('flows.importFailed'));
+    }
+  };
+
+  const handleExport = async (flowId: string) => {
+    try {
+      const filePath = await window.electron.flows.exportToFile(flowId);
+      if (filePath) {
+        toast.success(t('toast.success'));
+      }
+    } catch (error) {
+      console.error('Failed to export flow:', error);
+      toast.error(t('toast.error'));
+    }
+  };
+
   const handleCreateNew = () => {
     navigate('/flows/new');
   };
@@ -90,10 +114,16 @@ export default function FlowBuilder() {
           <h1 className="text-3xl font-bold">{t('flows.title')}</h1>
           <p className="text-muted-foreground mt-1">{t('flows.subtitle')}</p>
         </div>
-        <Button onClick={handleCreateNew}>
-          <Plus className="h-4 w-4 mr-2" />
-          {t('flows.createNew')}
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={handleImport}>
+            <Upload className="h-4 w-4 mr-2" />
+            {t('flows.import')}
+          </Button>
+          <Button onClick={handleCreateNew}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t('flows.createNew')}
+          </Button>
+        </div>
       </div>
 
       {loading ? (
@@ -123,6 +153,17 @@ export default function FlowBuilder() {
                       <Badge variant={flow.is_active ? 'default' : 'secondary'} className="ml-2">
                         {flow.is_active ? t('flows.activeFlow') : t('flows.inactiveFlow')}
                       </Badge>
+                      {flow.published_version ? (
+                        <Badge variant="outline" className="text-[10px]">v{flow.published_version}</Badge>
+                      ) : null}
+                      {(flow.has_draft || !flow.published_version) && (
+                        <Badge variant="outline" className="text-[10px] border-amber-300 text-amber-700 dark:text-amber-300">
+                          {flow.published_version ? t('flows.draft') : t('flows.notPublished')}
+                        </Badge>
+                      )}
+                      {!!flow.priority && (
+                        <Badge variant="outline" className="text-[10px]">{t('flows.priority')}: {flow.priority}</Badge>
+                      )}
                     </CardTitle>
                     {flow.description && (
                       <CardDescription className="mt-1">{flow.description}</CardDescription>
@@ -165,6 +206,14 @@ export default function FlowBuilder() {
                       </>
                     )}
                   </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleExport(flow.id)}
+                    title={t('flows.export')}
+                  >
+                    <Download className="h-3 w-3" />
+                  </Button>
                   <Button
                     size="sm"
                     variant="ghost"
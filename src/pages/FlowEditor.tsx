@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import ReactFlow, {
   Background,
@@ -17,15 +17,16 @@ import 'reactflow/dist/style.css';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
-import { Save, ArrowLeft, Copy, Trash2, Search, Equal, MessageSquare, Clock, Shuffle, MessageCircle, Check, Webhook, Send, Ban } from 'lucide-react';
+import { Save, ArrowLeft, Copy, Trash2, Search, Equal, MessageSquare, Clock, Shuffle, MessageCircle, Check, Webhook, Send, Ban, Hourglass, TextCursorInput, Filter, Tag, Tags, PenLine, CheckCheck, Megaphone, History, FlaskConical, GitBranch, Rocket, Settings2, Reply, Sparkles, CalendarClock, UserPlus } from 'lucide-react';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { toast } from '@/components/ui/use-toast';
-import type { Account } from '@/types';
+import type { Account, FlowExecutionStep, FlowSettings } from '@/types';
 
 // Custom nodes
 import ConditionContainsNode from '@/components/flows/ConditionContainsNode';
 import ConditionEqualsNode from '@/components/flows/ConditionEqualsNode';
 import ConditionLastMessageAgeNode from '@/components/flows/ConditionLastMessageAgeNode';
+import ConditionRuleNode from '@/components/flows/ConditionRuleNode';
 import ActionSendNode from '@/components/flows/ActionSendNode';
 import ActionAutoReplyNode from '@/components/flows/ActionAutoReplyNode';
 import ActionDelayNode from '@/components/flows/ActionDelayNode';
@@ -33,11 +34,30 @@ import ActionTypingNode from '@/components/flows/ActionTypingNode';
 import ActionForwardMessageNode from '@/components/flows/ActionForwardMessageNode';
 import ActionWebhookNode from '@/components/flows/ActionWebhookNode';
 import ActionBlacklistNode from '@/components/flows/ActionBlacklistNode';
+import ActionWaitForReplyNode from '@/components/flows/ActionWaitForReplyNode';
+import ActionCaptureReplyNode from '@/components/flows/ActionCaptureReplyNode';
+import ActionTagNode from '@/components/flows/ActionTagNode';
+import ActionSetCustomFieldNode from '@/components/flows/ActionSetCustomFieldNode';
+import ActionSetChatStatusNode from '@/components/flows/ActionSetChatStatusNode';
+import ActionAddToCampaignNode from '@/components/flows/ActionAddToCampaignNode';
+import TriggerNode from '@/components/flows/TriggerNode';
+import FlowExecutionHistory from '@/components/flows/FlowExecutionHistory';
+import FlowSimulator from '@/components/flows/FlowSimulator';
+import FlowVersionsPanel from '@/components/flows/FlowVersionsPanel';
+import FlowPublishDialog from '@/components/flows/FlowPublishDialog';
+import FlowSettingsPanel from '@/components/flows/FlowSettingsPanel';
 
 const nodeTypes = {
+  triggerCampaignReply: TriggerNode,
+  triggerFirstMessage: TriggerNode,
+  triggerTagAdded: TriggerNode,
+  triggerSchedule: TriggerNode,
+  triggerGroupJoin: TriggerNode,
+  triggerWebhook: TriggerNode,
   conditionContains: ConditionContainsNode,
   conditionEquals: ConditionEqualsNode,
   conditionLastMessageAge: ConditionLastMessageAgeNode,
+  conditionRule: ConditionRuleNode,
   actionSend: ActionSendNode,
   actionAutoReply: ActionAutoReplyNode,
   actionDelay: ActionDelayNode,
@@ -46,6 +66,21 @@ const nodeTypes = {
   actionForwardMessage: ActionForwardMessageNode,
   actionWebhook: ActionWebhookNode,
   actionBlacklist: ActionBlacklistNode,
+  actionWaitForReply: ActionWaitForReplyNode,
+  actionCaptureReply: ActionCaptureReplyNode,
+  actionAddTag: ActionTagNode,
+  actionRemoveTag: ActionTagNode,
+  actionSetCustomField: ActionSetCustomFieldNode,
+  actionSetChatStatus: ActionSetChatStatusNode,
+  actionAddToCampaign: ActionAddToCampaignNode,
+};
+
+// Edge colors by the source handle they leave from (saved as the edge label)
+const getEdgeColor = (label: string) => {
+  if (label === 'yes' || label === 'reply') return '#22c55e';
+  if (label === 'no') return '#ef4444';
+  if (label === 'timeout') return '#f59e0b';
+  return '#6366f1';
 };
 
 let nodeIdCounter = 0;
@@ -60,10 +95,57 @@ export default function FlowEditor() {
   const [flowDescription, setFlowDescription] = useState('');
   const [selectedAccounts, setSelectedAccounts] = useState<string[]>([]);
   const [accounts, setAccounts] = useState<Account[]>([]);
+  const [flowSettings, setFlowSettings] = useState<FlowSettings>({ priority: 0, stop_other_flows: true, cooldown_minutes: 0, max_executions_per_contact: 0, skip_human_handled: false });
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
   const [reactFlowInstance, setReactFlowInstance] = useState<any>(null);
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; nodeId: string } | null>(null);
+  const [publishedVersion, setPublishedVersion] = useState<number | null>(null);
+  const [hasDraft, setHasDraft] = useState(false);
+  const [publishFlowId, setPublishFlowId] = useState<string | null>(null);
+  const [sidePanel, setSidePanel] = useState<'history' | 'simulator' | 'versions' | 'settings' | null>(null);
+  const [tracedExecutionId, setTracedExecutionId] = useState<string | null>(null);
+  // Node ids in the order they ran - from a selected execution or the last simulator run
+  const [tracedPath, setTracedPath] = useState<string[] | null>(null);
+
+  // The traced path only changes what the canvas shows, never the saved flow
+  const displayNodes = useMemo(() => {
+    if (!tracedPath) return nodes;
+    const tracedNodeIds = new Set(tracedPath);
+    return nodes.map(node => ({
+      ...node,
+      className: tracedNodeIds.has(node.id) ? 'rounded-md ring-4 ring-amber-400/70' : 'opacity-40',
+    }));
+  }, [nodes, tracedPath]);
+
+  const displayEdges = useMemo(() => {
+    if (!tracedPath) return edges;
+    const tracedEdges = new Set<string>();
+    for (let i = 1; i < tracedPath.length; i++) {
+      tracedEdges.add(`${tracedPath[i - 1]}->${tracedPath[i]}`);
+    }
+    return edges.map(edge => {
+      const traced = tracedEdges.has(`${edge.source}->${edge.target}`);
+      return {
+        ...edge,
+        animated: traced,
+        style: traced
+          ? { ...edge.style, strokeWidth: 4, stroke: '#f59e0b' }
+          : { ...edge.style, opacity: 0.25 },
+      };
+    });
+  }, [edges, tracedPath]);
+
+  const handleSelectExecution = (executionId: string | null, steps: FlowExecutionStep[]) => {
+    setTracedExecutionId(executionId);
+    setTracedPath(executionId ? steps.map(step => step.node_id) : null);
+  };
+
+  const toggleSidePanel = (panel: 'history' | 'simulator' | 'versions' | 'settings') => {
+    setSidePanel(current => (current === panel ? null : panel));
+    setTracedExecutionId(null);
+    setTracedPath(null);
+  };
 
   useEffect(() => {
     loadAccounts();
@@ -97,6 +179,15 @@ export default function FlowEditor() {
         setFlowName(data.flow.name);
         setFlowDescription(data.flow.description || '');
         setSelectedAccounts(data.flow.account_ids);
+        setFlowSettings({
+          priority: data.flow.priority ?? 0,
+          stop_other_flows: data.flow.stop_other_flows !== false,
+          cooldown_minutes: data.flow.cooldown_minutes ?? 0,
+          max_executions_per_contact: data.flow.max_executions_per_contact ?? 0,
+          skip_human_handled: !!data.flow.skip_human_handled,
+        });
+        setPublishedVersion(data.flow.published_version ?? null);
+        setHasDraft(!!data.flow.has_draft);
         setNodes(data.nodes);
         setEdges(data.edges);
       }
@@ -108,7 +199,7 @@ export default function FlowEditor() {
 
   const onConnect = useCallback(
     (params: Connection | Edge) => {
-      // שמור את sourceHandle כ-label כדי לדעת אם זה yes/no
+      // שמור את sourceHandle כ-label כדי לדעת אם זה yes/no (או reply/timeout בצומת המתנה)
       const label = (params as any).sourceHandle || 'next';
       
       const newEdge = {
@@ -117,12 +208,12 @@ export default function FlowEditor() {
         animated: true,
         label,
         style: { 
-          stroke: label === 'yes' ? '#22c55e' : label === 'no' ? '#ef4444' : '#6366f1', 
+          stroke: getEdgeColor(label), 
           strokeWidth: 2.5 
         },
         markerEnd: {
           type: MarkerType.ArrowClosed,
-          color: label === 'yes' ? '#22c55e' : label === 'no' ? '#ef4444' : '#6366f1',
+          color: getEdgeColor(label),
         },
       };
       setEdges((eds) => addEdge(newEdge, eds));
@@ -190,7 +281,10 @@ export default function FlowEditor() {
         x: nodeToDuplicate.position.x + 50,
         y: nodeToDuplicate.position.y + 50
       },
-      data: { ...nodeToDuplicate.data }
+      // A webhook URL belongs to one trigger - the copy gets its own token
+      data: nodeToDuplicate.type === 'triggerWebhook'
+        ? { ...nodeToDuplicate.data, token: undefined }
+        : { ...nodeToDuplicate.data }
     };
     
     setNodes((nds) => nds.concat(newNode));
@@ -209,38 +303,46 @@ export default function FlowEditor() {
     setContextMenu(null);
   };
 
-  const handleSave = async () => {
+  // Saves the canvas as the flow's draft (creating the flow first if it is new) and returns its id
+  const saveDraft = async (): Promise<string | null> => {
     if (!flowName.trim()) {
       toast.error(language === 'he' ? 'נא להזין שם לזרימה' : language === 'ar' ? 'الرجاء إدخال اسم للتدفق' : 'Please enter a flow name');
-      return;
+      return null;
     }
 
     if (selectedAccounts.length === 0) {
       toast.error(language === 'he' ? 'נא לבחור לפחות חשבון אחד' : language === 'ar' ? 'الرجاء اختيار حساب واحد على الأقل' : 'Please select at least one account');
-      return;
+      return null;
     }
 
-    try {
-      let flowId = id;
-      
-      if (!flowId || flowId === 'new') {
-        flowId = await window.electron.flows.create({
-          name: flowName,
-          description: flowDescription,
-          account_ids: selectedAccounts,
-          is_active: true
-        });
-      }
-      
-      await window.electron.flows.save(flowId, {
-        name: flowName.trim(),
-        description: flowDescription.trim(),
+    let flowId = id;
+    
+    if (!flowId || flowId === 'new') {
+      flowId = await window.electron.flows.create({
+        name: flowName,
+        description: flowDescription,
         account_ids: selectedAccounts,
-        nodes,
-        edges,
+        is_active: true,
+        ...flowSettings
       });
-      
-      toast.success(t('toast.success'));
+    }
+    
+    await window.electron.flows.save(flowId, {
+      name: flowName.trim(),
+      description: flowDescription.trim(),
+      account_ids: selectedAccounts,
+      ...flowSettings,
+      nodes,
+      edges,
+    });
+
+    return flowId;
+  };
+
+  const handleSave = async () => {
+    try {
+      if (!(await saveDraft())) return;
+      toast.success(t('flows.draftSaved'));
       navigate('/flows');
     } catch (error) {
       console.error('Failed to save flow:', error);
@@ -248,6 +350,25 @@ export default function FlowEditor() {
     }
   };
 
+  const handlePublishClick = async () => {
+    try {
+      const flowId = await saveDraft();
+      if (!flowId) return;
+      if (flowId !== id) {
+        navigate(`/flows/${flowId}`, { replace: true });
+      }
+      setPublishFlowId(flowId);
+    } catch (error) {
+      console.error('Failed to save flow:', error);
+      toast.error(t('toast.error'));
+    }
+  };
+
+  const handlePublished = (version: number) => {
+    toast.success(`${t('flows.publishedAs')} v${version}`);
+    navigate('/flows');
+  };
+
   const PaletteItem = ({ type, label, icon: Icon, gradientFrom, gradientTo, description }: any) => (
     <Card
       draggable
@@ -318,9 +439,70 @@ export default function FlowEditor() {
               </div>
             )}
             
-            <Button onClick={handleSave} className="gap-2">
+            {id && id !== 'new' && (
+              <span
+                className={`text-xs font-medium px-2.5 py-1 rounded-full ${
+                  hasDraft || publishedVersion === null
+                    ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300'
+                    : 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300'
+                }`}
+              >
+                {publishedVersion === null
+                  ? t('flows.notPublished')
+                  : hasDraft
+                  ? `v${publishedVersion} · ${t('flows.unpublishedChanges')}`
+                  : `v${publishedVersion} · ${t('flows.live')}`}
+              </span>
+            )}
+
+            <Button
+              variant={sidePanel === 'settings' ? 'secondary' : 'outline'}
+              onClick={() => toggleSidePanel('settings')}
+              className="gap-2"
+            >
+              <Settings2 className="h-4 w-4" />
+              {t('flows.settings')}
+            </Button>
+
+            <Button
+              variant={sidePanel === 'simulator' ? 'secondary' : 'outline'}
+              onClick={() => toggleSidePanel('simulator')}
+              className="gap-2"
+            >
+              <FlaskConical className="h-4 w-4" />
+              {t('flows.simulator')}
+            </Button>
+
+            {id && id !== 'new' && (
+              <Button
+                variant={sidePanel === 'history' ? 'secondary' : 'outline'}
+                onClick={() => toggleSidePanel('history')}
+                className="gap-2"
+              >
+                <History className="h-4 w-4" />
+                {t('flows.history')}
+              </Button>
+            )}
+
+            {id && id !== 'new' && (
+              <Button
+                variant={sidePanel === 'versions' ? 'secondary' : 'outline'}
+                onClick={() => toggleSidePanel('versions')}
+                className="gap-2"
+              >
+                <GitBranch className="h-4 w-4" />
+                {t('flows.versions')}
+              </Button>
+            )}
+
+            <Button variant="outline" onClick={handleSave} className="gap-2">
               <Save className="h-4 w-4" />
-              {t('flows.saveFlow')}
+              {t('flows.saveDraft')}
+            </Button>
+
+            <Button onClick={handlePublishClick} className="gap-2">
+              <Rocket className="h-4 w-4" />
+              {t('flows.publish')}
             </Button>
           </div>
         </div>
@@ -387,6 +569,69 @@ export default function FlowEditor() {
           </div>
           
           <div className="flex-1 overflow-y-auto p-3 space-y-4">
+            {/* Triggers Section */}
+            <div className="space-y-2">
+              <div className="flex items-center gap-1.5 mb-2">
+                <div className="h-1 w-1 rounded-full bg-yellow-500" />
+                <span className="text-[10px] font-bold uppercase tracking-wider text-yellow-600 dark:text-yellow-400">{t('flows.triggers')}</span>
+                <div className="h-[1px] flex-1 bg-gradient-to-r from-yellow-200 to-transparent dark:from-yellow-900" />
+              </div>
+
+              <PaletteItem
+                type="triggerCampaignReply"
+                label={t('flows.triggerCampaignReply')}
+                icon={Reply}
+                gradientFrom="#eab308"
+                gradientTo="#f59e0b"
+                description={t('flows.triggerCampaignReplyDescription')}
+              />
+
+              <PaletteItem
+                type="triggerFirstMessage"
+                label={t('flows.triggerFirstMessage')}
+                icon={Sparkles}
+                gradientFrom="#ca8a04"
+                gradientTo="#eab308"
+                description={t('flows.triggerFirstMessageDescription')}
+              />
+
+              <PaletteItem
+                type="triggerTagAdded"
+                label={t('flows.triggerTagAdded')}
+                icon={Tag}
+                gradientFrom="#eab308"
+                gradientTo="#d946ef"
+                description={t('flows.triggerTagAddedDescription')}
+              />
+
+              <PaletteItem
+                type="triggerSchedule"
+                label={t('flows.triggerSchedule')}
+                icon={CalendarClock}
+                gradientFrom="#f59e0b"
+                gradientTo="#eab308"
+                description={t('flows.triggerScheduleDescription')}
+              />
+
+              <PaletteItem
+                type="triggerGroupJoin"
+                label={t('flows.triggerGroupJoin')}
+                icon={UserPlus}
+                gradientFrom="#eab308"
+                gradientTo="#22c55e"
+                description={t('flows.triggerGroupJoinDescription')}
+              />
+
+              <PaletteItem
+                type="triggerWebhook"
+                label={t('flows.triggerWebhook')}
+                icon={Webhook}
+                gradientFrom="#eab308"
+                gradientTo="#e11d48"
+                description={t('flows.triggerWebhookDescription')}
+              />
+            </div>
+
             {/* Conditions Section */}
             <div className="space-y-2">
               <div className="flex items-center gap-1.5 mb-2">
@@ -421,6 +666,15 @@ export default function FlowEditor() {
                 gradientTo="#2563eb"
                 description={language === 'he' ? 'בדוק אם ההודעה האחרונה בצאט ישנה מיותר מ-X שעות' : language === 'ar' ? 'تحقق مما إذا كانت آخر رسالة في المحادثة أقدم من X ساعات' : 'Check if the last message in the chat is older than X hours'}
               />
+
+              <PaletteItem 
+                type="conditionRule" 
+                label={t('flows.conditionRule')} 
+                icon={Filter} 
+                gradientFrom="#1d4ed8"
+                gradientTo="#3b82f6"
+                description={t('flows.conditionRuleDescription')}
+              />
             </div>
 
             {/* Actions Section */}
@@ -484,6 +738,24 @@ export default function FlowEditor() {
                 gradientTo="#c084fc"
                 description={language === 'he' ? 'סימולציית הקלדה' : language === 'ar' ? 'محاكاة الكتابة' : 'Simulate typing'}
               />
+
+              <PaletteItem 
+                type="actionWaitForReply" 
+                label={t('flows.waitForReply')} 
+                icon={Hourglass} 
+                gradientFrom="#8b5cf6"
+                gradientTo="#6366f1"
+                description={t('flows.waitForReplyDescription')}
+              />
+
+              <PaletteItem 
+                type="actionCaptureReply" 
+                label={t('flows.captureReply')} 
+                icon={TextCursorInput} 
+                gradientFrom="#6366f1"
+                gradientTo="#818cf8"
+                description={t('flows.captureReplyDescription')}
+              />
               
               <PaletteItem 
                 type="actionWebhook" 
@@ -503,6 +775,60 @@ export default function FlowEditor() {
                 description={t('flows.blacklistDescription')}
               />
             </div>
+
+            {/* CRM Section */}
+            <div className="space-y-2">
+              <div className="flex items-center gap-1.5 mb-2">
+                <div className="h-1 w-1 rounded-full bg-fuchsia-500" />
+                <span className="text-[10px] font-bold uppercase tracking-wider text-fuchsia-600 dark:text-fuchsia-400">{t('flows.crmActions')}</span>
+                <div className="h-[1px] flex-1 bg-gradient-to-r from-fuchsia-200 to-transparent dark:from-fuchsia-900" />
+              </div>
+
+              <PaletteItem 
+                type="actionAddTag" 
+                label={t('flows.addTag')} 
+                icon={Tag} 
+                gradientFrom="#d946ef"
+                gradientTo="#e879f9"
+                description={t('flows.addTagDescription')}
+              />
+
+              <PaletteItem 
+                type="actionRemoveTag" 
+                label={t('flows.removeTag')} 
+                icon={Tags} 
+                gradientFrom="#c026d3"
+                gradientTo="#d946ef"
+                description={t('flows.removeTagDescription')}
+              />
+
+              <PaletteItem 
+                type="actionSetCustomField" 
+                label={t('flows.setCustomField')} 
+                icon={PenLine} 
+                gradientFrom="#0ea5e9"
+                gradientTo="#38bdf8"
+                description={t('flows.setCustomFieldDescription')}
+              />
+
+              <PaletteItem 
+                type="actionSetChatStatus" 
+                label={t('flows.setChatStatus')} 
+                icon={CheckCheck} 
+                gradientFrom="#14b8a6"
+                gradientTo="#2dd4bf"
+                description={t('flows.setChatStatusDescription')}
+              />
+
+              <PaletteItem 
+                type="actionAddToCampaign" 
+                label={t('flows.addToCampaign')} 
+                icon={Megaphone} 
+                gradientFrom="#f97316"
+                gradientTo="#fb923c"
+                description={t('flows.addToCampaignDescription')}
+              />
+            </div>
           </div>
 
           {/* Help Box */}
@@ -516,8 +842,8 @@ export default function FlowEditor() {
         {/* Flow Canvas */}
         <div ref={reactFlowWrapper} className="flex-1 relative bg-slate-50 dark:bg-slate-950">
           <ReactFlow
-            nodes={nodes}
-            edges={edges}
+            nodes={displayNodes}
+            edges={displayEdges}
             onNodesChange={onNodesChange}
             onEdgesChange={onEdgesChange}
             onConnect={onConnect}
@@ -539,14 +865,21 @@ export default function FlowEditor() {
             <MiniMap 
               className="bg-white dark:bg-slate-900 border shadow-xl rounded-xl overflow-hidden !m-4" 
               nodeColor={(n) => {
+                if (n.type?.startsWith('trigger')) return '#eab308';
                 if (n.type?.includes('condition')) return '#3b82f6';
                 if (n.type?.includes('Send')) return '#22c55e';
+                if (n.type?.includes('WaitForReply')) return '#8b5cf6';
+                if (n.type?.includes('CaptureReply')) return '#6366f1';
                 if (n.type?.includes('Reply')) return '#10b981';
                 if (n.type?.includes('Forward')) return '#06b6d4';
                 if (n.type?.includes('Delay')) return '#f59e0b';
                 if (n.type?.includes('Typing')) return '#a855f7';
                 if (n.type?.includes('Webhook')) return '#e11d48';
                 if (n.type?.includes('Blacklist')) return '#dc2626';
+                if (n.type?.includes('Tag')) return '#d946ef';
+                if (n.type?.includes('CustomField')) return '#0ea5e9';
+                if (n.type?.includes('ChatStatus')) return '#14b8a6';
+                if (n.type?.includes('Campaign')) return '#f97316';
                 return '#6366f1';
               }}
               maskColor="rgb(248, 250, 252, 0.8)"
@@ -585,7 +918,49 @@ export default function FlowEditor() {
             </>
           )}
         </div>
+
+        {sidePanel === 'history' && id && id !== 'new' && (
+          <FlowExecutionHistory
+            flowId={id}
+            selectedExecutionId={tracedExecutionId}
+            onSelect={handleSelectExecution}
+            onClose={() => toggleSidePanel('history')}
+          />
+        )}
+
+        {sidePanel === 'versions' && id && id !== 'new' && (
+          <FlowVersionsPanel
+            flowId={id}
+            hasDraft={hasDraft}
+            onChanged={() => loadFlow(id)}
+            onClose={() => toggleSidePanel('versions')}
+          />
+        )}
+
+        {sidePanel === 'settings' && (
+          <FlowSettingsPanel
+            settings={flowSettings}
+            onChange={setFlowSettings}
+            onClose={() => toggleSidePanel('settings')}
+          />
+        )}
+
+        {sidePanel === 'simulator' && (
+          <FlowSimulator
+            nodes={nodes}
+            edges={edges}
+            accountId={selectedAccounts[0]}
+            onPathChange={setTracedPath}
+            onClose={() => toggleSidePanel('simulator')}
+          />
+        )}
       </div>
+
+      <FlowPublishDialog
+        flowId={publishFlowId}
+        onOpenChange={(open) => !open && setPublishFlowId(null)}
+        onPublished={handlePublished}
+      />
     </div>
   );
 }
@@ -2,16 +2,24 @@ import { useEffect, useState, useRef } from 'react';
 import { Select } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { Check, MessageSquare, Ban, CheckCheck, XCircle } from 'lucide-react';
+import { Check, MessageSquare, Ban, CheckCheck, XCircle, History, TextSearch } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import ChatList from '@/components/inbox/ChatList';
 import ChatWindow from '@/components/inbox/ChatWindow';
 import MessageInput from '@/components/inbox/MessageInput';
+import MessageSearchPanel from '@/components/inbox/MessageSearchPanel';
+import ChatTeamBar from '@/components/inbox/ChatTeamBar';
+import ChatNotesPanel from '@/components/inbox/ChatNotesPanel';
+import ScheduledMessagesList from '@/components/inbox/ScheduledMessagesList';
+import ForwardMessageDialog from '@/components/inbox/ForwardMessageDialog';
+import ContactTimelineDialog from '@/components/contacts/ContactTimelineDialog';
 import { toast } from '@/components/ui/use-toast';
-import { api, onNewMessage } from '@/lib/api';
-import type { Chat, Message, Account } from '@/types';
+import { api, onMessageReaction, onNewMessage, onScheduledMessageUpdate } from '@/lib/api';
+import type { Chat, ChatStatus, Message, Account, MessageSearchChatGroup, MessageSearchHit, MessageTemplate, ScheduledMessage, StatsListItem, UpdateScheduledMessageInput } from '@/types';
 import { useLanguage } from '@/contexts/LanguageContext';
 
+const UNASSIGNED_FILTER = '__unassigned__';
+
 export default function Inbox() {
   const { t, dir, language } = useLanguage();
   const [accounts, setAccounts] = useState<Account[]>([]);
@@ -22,11 +30,28 @@ export default function Inbox() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
-  const [statusFilter, setStatusFilter] = useState<'all' | 'handled' | 'unhandled'>('all');
+  // 'all' leaves out snoozed chats until they wake up
+  const [statusFilter, setStatusFilter] = useState<'all' | ChatStatus>('all');
+  const [assigneeFilter, setAssigneeFilter] = useState<string>('all');
+  const [agents, setAgents] = useState<string[]>([]);
+  const [showNotes, setShowNotes] = useState(false);
+  // The open chat's messages waiting to be sent
+  const [scheduledMessages, setScheduledMessages] = useState<ScheduledMessage[]>([]);
+  // The message the next one sent quotes, and the one being forwarded
+  const [replyTo, setReplyTo] = useState<Message | null>(null);
+  const [forwardingMessage, setForwardingMessage] = useState<Message | null>(null);
+  const [campaigns, setCampaigns] = useState<StatsListItem[]>([]);
+  const [campaignFilter, setCampaignFilter] = useState<string>('all');
   const [isContactInBlacklist, setIsContactInBlacklist] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [showMessageSearch, setShowMessageSearch] = useState(false);
+  // The search hit opened in the chat window
+  const [highlightedMessage, setHighlightedMessage] = useState<{ id: string; query: string } | null>(null);
 
   useEffect(() => {
     loadAccounts();
+    api.stats.getCampaignsList('message').then(setCampaigns).catch(() => {});
+    api.messages.getAgents().then(setAgents).catch(() => {});
 
     // Listen for new messages
     const cleanup = onNewMessage((message) => {
@@ -45,7 +70,28 @@ export default function Inbox() {
     if (selectedAccountId) {
       loadChats(searchQuery);
     }
-  }, [selectedAccountId]);
+  }, [selectedAccountId, campaignFilter]);
+
+  // A scheduled message went out (or failed) - refresh the open chat
+  useEffect(() => {
+    if (!selectedChat) return;
+    return onScheduledMessageUpdate((chatId) => {
+      if (chatId === selectedChat.id) {
+        loadScheduledMessages(selectedChat.id);
+        loadMessages(selectedChat);
+      }
+    });
+  }, [selectedChat?.id]);
+
+  // Someone reacted to a message in the open chat
+  useEffect(() => {
+    if (!selectedChat) return;
+    return onMessageReaction((reaction) => {
+      if (reaction.software_chat_id === selectedChat.id) {
+        loadMessages(selectedChat);
+      }
+    });
+  }, [selectedChat?.id]);
 
   // Debounce search - search server-side after 400ms
   useEffect(() => {
@@ -65,7 +111,20 @@ export default function Inbox() {
 
   useEffect(() => {
     filterChats();
-  }, [chats, statusFilter]);
+  }, [chats, statusFilter, assigneeFilter]);
+
+  // Reload when the next snoozed chat wakes up - the main process reopens it on read
+  useEffect(() => {
+    const wakeUps = chats
+      .filter(chat => chat.status === 'snoozed' && chat.snoozed_until)
+      .map(chat => new Date(chat.snoozed_until!).getTime());
+    if (wakeUps.length === 0) return;
+
+    // setTimeout can't wait longer than ~24.8 days
+    const delay = Math.min(Math.max(Math.min(...wakeUps) - Date.now(), 0) + 1000, 2 ** 31 - 1);
+    const timeout = setTimeout(() => loadChats(searchQuery), delay);
+    return () => clearTimeout(timeout);
+  }, [chats]);
 
   const loadAccounts = async () => {
     try {
@@ -86,8 +145,11 @@ export default function Inbox() {
   const loadChats = async (search?: string) => {
     try {
       const accountId = selectedAccountId === 'all' ? undefined : selectedAccountId;
-      const data = await api.messages.getChats(accountId, search || undefined);
+      const campaignId = campaignFilter === 'all' ? undefined : campaignFilter;
+      const data: Chat[] = await api.messages.getChats(accountId, search || undefined, campaignId);
       setChats(data);
+      // Keep the open chat's status and assignee in step - an incoming message reopens it
+      setSelectedChat(prev => prev ? { ...prev, ...data.find(chat => chat.id === prev.id) } : prev);
     } catch (error) {
       console.error('Failed to load chats:', error);
     }
@@ -96,11 +158,17 @@ export default function Inbox() {
   const filterChats = () => {
     let filtered = chats;
 
-    // Filter by status (client-side, fast)
-    if (statusFilter === 'handled') {
-      filtered = filtered.filter(chat => chat.status === 'handled');
-    } else if (statusFilter === 'unhandled') {
-      filtered = filtered.filter(chat => chat.status === 'unhandled');
+    // Filter by status and assignee (client-side, fast)
+    if (statusFilter === 'all') {
+      filtered = filtered.filter(chat => chat.status !== 'snoozed');
+    } else {
+      filtered = filtered.filter(chat => chat.status === statusFilter);
+    }
+
+    if (assigneeFilter === UNASSIGNED_FILTER) {
+      filtered = filtered.filter(chat => !chat.assigned_to);
+    } else if (assigneeFilter !== 'all') {
+      filtered = filtered.filter(chat => chat.assigned_to === assigneeFilter);
     }
 
     // Search is now done server-side, no need to filter here
@@ -117,9 +185,21 @@ export default function Inbox() {
     }
   };
 
-  const handleSelectChat = async (chat: Chat) => {
+  const loadScheduledMessages = async (chatId: string) => {
+    try {
+      setScheduledMessages(await api.scheduledMessages.getByChat(chatId));
+    } catch (error) {
+      console.error('Failed to load scheduled messages:', error);
+    }
+  };
+
+  const handleSelectChat = async (chat: Chat, highlight: { id: string; query: string } | null = null) => {
+    setHighlightedMessage(highlight);
     setSelectedChat(chat);
+    setScheduledMessages([]);
+    setReplyTo(null);
     loadMessages(chat);
+    loadScheduledMessages(chat.id);
     checkIfInBlacklist(chat);
     
     // Mark chat as read (clear unread count) when opening
@@ -140,6 +220,22 @@ export default function Inbox() {
     }
   };
 
+  // The chat may be hidden by the list's filters - fall back to the unfiltered list
+  const handleOpenSearchResult = async (group: MessageSearchChatGroup, hit: MessageSearchHit, query: string) => {
+    try {
+      let chat = chats.find(c => c.id === group.chat_id);
+      if (!chat) {
+        const allChats: Chat[] = await api.messages.getChats();
+        chat = allChats.find(c => c.id === group.chat_id);
+      }
+      if (!chat) return;
+
+      handleSelectChat(chat, { id: hit.message_id, query });
+    } catch (error) {
+      console.error('Failed to open search result:', error);
+    }
+  };
+
   const checkIfInBlacklist = async (chat: Chat) => {
     try {
       const phoneNumber = chat.phone_number || '';
@@ -159,7 +255,12 @@ export default function Inbox() {
       const targetId = selectedChat.last_message?.chat_id || `${selectedChat.phone_number}@c.us`;
       
       console.log('Sending to chat_id:', targetId);
-      await api.messages.send(selectedChat.account_id, targetId, message);
+      if (replyTo) {
+        await api.messages.reply(replyTo.id, message);
+        setReplyTo(null);
+      } else {
+        await api.messages.send(selectedChat.account_id, targetId, message);
+      }
       
       // Reload messages to show the sent message
       setTimeout(() => loadMessages(selectedChat), 500);
@@ -184,7 +285,12 @@ export default function Inbox() {
       const targetId = selectedChat.last_message?.chat_id || `${selectedChat.phone_number}@c.us`;
       console.log('Sending file to chat_id:', targetId, 'type:', type, 'with caption:', caption);
       
-      await api.messages.sendMedia(selectedChat.account_id, targetId, tempFilePath, caption);
+      if (replyTo) {
+        await api.messages.reply(replyTo.id, caption || '', tempFilePath);
+        setReplyTo(null);
+      } else {
+        await api.messages.sendMedia(selectedChat.account_id, targetId, tempFilePath, caption);
+      }
       
       // Clean up temp file
       setTimeout(async () => {
@@ -200,17 +306,170 @@ export default function Inbox() {
     }
   };
 
-  const handleMarkAsHandled = async () => {
+  // Quick reply - a template with media goes out as that file, its text as the caption
+  const handleSendTemplate = async (template: MessageTemplate, text: string) => {
+    if (!selectedChat || !canReplyInSelectedChat) return;
+
+    try {
+      const targetId = selectedChat.last_message?.chat_id || `${selectedChat.phone_number}@c.us`;
+
+      if (replyTo && (template.media_path || text.trim())) {
+        await api.messages.reply(replyTo.id, text, template.media_path || undefined);
+        setReplyTo(null);
+      } else if (template.media_path) {
+        await api.messages.sendMedia(selectedChat.account_id, targetId, template.media_path, text || undefined);
+      } else if (text.trim()) {
+        await api.messages.send(selectedChat.account_id, targetId, text);
+      } else {
+        return;
+      }
+
+      await api.templates.markUsed(template.id);
+      setTimeout(() => loadMessages(selectedChat), 500);
+    } catch (error) {
+      console.error('Failed to send quick reply:', error);
+      toast.error(t('toast.error'));
+    }
+  };
+
+  // Send later - a file is saved to a temp file first; the main process keeps its own copy
+  const handleScheduleMessage = async (scheduledAt: string, message: string, attachment: { file?: File; template?: MessageTemplate }) => {
     if (!selectedChat) return;
 
+    let tempFilePath: string | null = null;
     try {
-      const newStatus = selectedChat.status === 'handled' ? 'unhandled' : 'handled';
-      await api.messages.markChatStatus(selectedChat.id, newStatus);
-      setSelectedChat({ ...selectedChat, status: newStatus });
-      loadChats();
-      toast.success(t('toast.markedAsHandled'));
+      const targetId = selectedChat.last_message?.chat_id || `${selectedChat.phone_number}@c.us`;
+      let mediaPath = attachment.template?.media_path || undefined;
+      if (attachment.file) {
+        const buffer = new Uint8Array(await attachment.file.arrayBuffer());
+        tempFilePath = await api.messages.saveTempFile(attachment.file.name, buffer as any);
+        mediaPath = tempFilePath || undefined;
+      }
+
+      await api.scheduledMessages.create({
+        chatId: selectedChat.id,
+        accountId: selectedChat.account_id,
+        to: targetId,
+        message,
+        mediaPath,
+        scheduledAt,
+      });
+      if (attachment.template) {
+        await api.templates.markUsed(attachment.template.id);
+      }
+
+      loadScheduledMessages(selectedChat.id);
+      toast.success(t('inbox.messageScheduled'));
+    } catch (error) {
+      console.error('Failed to schedule message:', error);
+      toast.error(t('toast.error'));
+    } finally {
+      if (tempFilePath) {
+        api.messages.deleteTempFile(tempFilePath);
+      }
+    }
+  };
+
+  const handleUpdateScheduledMessage = async (id: string, changes: UpdateScheduledMessageInput) => {
+    if (!selectedChat) return;
+
+    try {
+      await api.scheduledMessages.update(id, changes);
+      loadScheduledMessages(selectedChat.id);
+    } catch (error) {
+      console.error('Failed to update scheduled message:', error);
+      toast.error(t('toast.error'));
+    }
+  };
+
+  const handleCancelScheduledMessage = async (id: string) => {
+    if (!selectedChat) return;
+
+    try {
+      await api.scheduledMessages.cancel(id);
+      setScheduledMessages(prev => prev.filter(scheduled => scheduled.id !== id));
+      toast.success(t('inbox.scheduledCancelled'));
+    } catch (error) {
+      console.error('Failed to cancel scheduled message:', error);
+      toast.error(t('toast.error'));
+      loadScheduledMessages(selectedChat.id);
+    }
+  };
+
+  const handleReact = async (message: Message, emoji: string) => {
+    if (!selectedChat) return;
+
+    try {
+      await api.messages.react(message.id, emoji);
+      loadMessages(selectedChat);
+    } catch (error) {
+      console.error('Failed to react to message:', error);
+      toast.error(t('toast.error'));
+    }
+  };
+
+  const handleForwarded = (targetChatId: string) => {
+    toast.success(t('inbox.messageForwarded'));
+    loadChats(searchQuery);
+    if (selectedChat && targetChatId === selectedChat.id) {
+      setTimeout(() => loadMessages(selectedChat), 500);
+    }
+  };
+
+  // Applies a change to the open chat and its row in the list
+  const updateSelectedChat = (changes: Partial<Chat>) => {
+    if (!selectedChat) return;
+    setSelectedChat({ ...selectedChat, ...changes });
+    setChats(prev => prev.map(c => c.id === selectedChat.id ? { ...c, ...changes } : c));
+  };
+
+  const handleStatusChange = async (status: ChatStatus, snoozedUntil?: string) => {
+    if (!selectedChat) return;
+
+    try {
+      await api.messages.markChatStatus(selectedChat.id, status, snoozedUntil);
+      updateSelectedChat({ status, snoozed_until: status === 'snoozed' ? snoozedUntil : null });
+      toast.success(status === 'closed' ? t('toast.markedAsHandled') : t('inbox.statusUpdated'));
+    } catch (error) {
+      console.error('Failed to change chat status:', error);
+      toast.error(t('toast.error'));
+    }
+  };
+
+  const handleMarkAsHandled = () => handleStatusChange(selectedChat?.status === 'closed' ? 'open' : 'closed');
+
+  const handleAssign = async (agent: string | null) => {
+    if (!selectedChat) return;
+
+    try {
+      await api.messages.assignChat(selectedChat.id, agent);
+      updateSelectedChat({ assigned_to: agent });
+    } catch (error) {
+      console.error('Failed to assign chat:', error);
+      toast.error(t('toast.error'));
+    }
+  };
+
+  const handleAddAgent = async (agent: string) => {
+    try {
+      setAgents(await api.messages.saveAgents([...agents, agent]));
+    } catch (error) {
+      console.error('Failed to save agents:', error);
+      toast.error(t('toast.error'));
+    }
+  };
+
+  const handleTogglePin = async () => {
+    if (!selectedChat) return;
+
+    try {
+      const pinned = !selectedChat.is_pinned;
+      await api.messages.setChatPinned(selectedChat.id, pinned);
+      updateSelectedChat({ is_pinned: pinned });
+      // Pinned chats sort first
+      loadChats(searchQuery);
     } catch (error) {
-      console.error('Failed to mark as handled:', error);
+      console.error('Failed to pin chat:', error);
       toast.error(t('toast.error'));
     }
   };
@@ -222,15 +481,15 @@ export default function Inbox() {
       
       // Update selected chat if exists
       if (selectedChat) {
-        setSelectedChat({ ...selectedChat, status: 'handled' });
+        setSelectedChat({ ...selectedChat, status: 'closed', snoozed_until: null });
       }
       
       loadChats();
       
       toast.success(
         language === 'he' 
-          ? `${count} צ'אטים סומנו כטופל`
-          : `${count} chats marked as handled`
+          ? `${count} צ'אטים נסגרו`
+          : `${count} chats closed`
       );
     } catch (error) {
       console.error('Failed to mark all as handled:', error);
@@ -245,15 +504,15 @@ export default function Inbox() {
       
       // Update selected chat if exists
       if (selectedChat) {
-        setSelectedChat({ ...selectedChat, status: 'unhandled' });
+        setSelectedChat({ ...selectedChat, status: 'open', snoozed_until: null });
       }
       
       loadChats();
       
       toast.success(
         language === 'he' 
-          ? `${count} צ'אטים סומנו כלא טופל`
-          : `${count} chats marked as unhandled`
+          ? `${count} צ'אטים נפתחו מחדש`
+          : `${count} chats reopened`
       );
     } catch (error) {
       console.error('Failed to mark all as unhandled:', error);
@@ -359,12 +618,23 @@ export default function Inbox() {
             )}
             
             <div className="space-y-2">
-              <Input
-                placeholder={t('inbox.searchChats')}
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="h-9 bg-muted/50 border-none focus-visible:ring-1"
-              />
+              <div className="flex gap-2">
+                <Input
+                  placeholder={t('inbox.searchChats')}
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="h-9 bg-muted/50 border-none focus-visible:ring-1"
+                />
+                <Button
+                  variant={showMessageSearch ? 'secondary' : 'ghost'}
+                  size="icon"
+                  className="h-9 w-9 shrink-0"
+                  onClick={() => setShowMessageSearch(!showMessageSearch)}
+                  title={t('inbox.searchMessages')}
+                >
+                  <TextSearch className="h-4 w-4" />
+                </Button>
+              </div>
               
               <div className="flex gap-2">
                 <Select
@@ -372,8 +642,10 @@ export default function Inbox() {
                   onChange={(e) => setStatusFilter(e.target.value as any)}
                 >
                   <option value="all">{t('inbox.allStatus')}</option>
-                  <option value="unhandled">{t('inbox.unhandled')}</option>
-                  <option value="handled">{t('inbox.handled')}</option>
+                  <option value="open">{t('inbox.statusOpen')}</option>
+                  <option value="pending">{t('inbox.statusPending')}</option>
+                  <option value="snoozed">{t('inbox.statusSnoozed')}</option>
+                  <option value="closed">{t('inbox.statusClosed')}</option>
                 </Select>
                 
                 <Select
@@ -388,6 +660,33 @@ export default function Inbox() {
                   ))}
                 </Select>
               </div>
+
+              <Select
+                value={assigneeFilter}
+                onChange={(e) => setAssigneeFilter(e.target.value)}
+              >
+                <option value="all">{t('inbox.allAssignees')}</option>
+                <option value={UNASSIGNED_FILTER}>{t('inbox.unassigned')}</option>
+                {agents.map(agent => (
+                  <option key={agent} value={agent}>{agent}</option>
+                ))}
+              </Select>
+
+              {campaigns.length > 0 && (
+                <Select
+                  value={campaignFilter}
+                  onChange={(e) => setCampaignFilter(e.target.value)}
+                >
+                  <option value="all">
+                    {language === 'he' ? 'כל הצ׳אטים' : language === 'ar' ? 'كل المحادثات' : 'All chats'}
+                  </option>
+                  {campaigns.map(campaign => (
+                    <option key={campaign.id} value={campaign.id}>
+                      {language === 'he' ? `הגיבו לקמפיין: ${campaign.name}` : language === 'ar' ? `ردّوا على الحملة: ${campaign.name}` : `Replied to: ${campaign.name}`}
+                    </option>
+                  ))}
+                </Select>
+              )}
               
               {/* Bulk Actions */}
               <div className="flex gap-2 pt-2">
@@ -397,7 +696,7 @@ export default function Inbox() {
                   onClick={handleMarkAllAsHandled}
                   className="flex-1 text-green-600 hover:text-green-700 hover:bg-green-50 border-green-200 text-xs"
                 >
-                  {language === 'he' ? 'סמן הכל כטופל' : 'Mark All Handled'}
+                  {language === 'he' ? 'סגור הכל' : 'Close All'}
                 </Button>
                 <Button 
                   variant="outline" 
@@ -405,23 +704,36 @@ export default function Inbox() {
                   onClick={handleMarkAllAsUnhandled}
                   className="flex-1 text-orange-600 hover:text-orange-700 hover:bg-orange-50 border-orange-200 text-xs"
                 >
-                  {language === 'he' ? 'סמן הכל כלא טופל' : 'Mark All Unhandled'}
+                  {language === 'he' ? 'פתח הכל מחדש' : 'Reopen All'}
                 </Button>
               </div>
             </div>
           </div>
           
-          <div className="flex-1 overflow-hidden">
-            <ChatList
-              chats={filteredChats}
-              selectedChatId={selectedChat?.id || null}
-              onSelectChat={handleSelectChat}
-            />
-          </div>
-          
-          <div className="p-2 text-center border-t border-primary/10 bg-primary/5 text-xs text-muted-foreground">
-            {filteredChats.length} {t('inbox.chats')}
-          </div>
+          {showMessageSearch ? (
+            <div className="flex-1 overflow-hidden">
+              <MessageSearchPanel
+                accounts={accounts}
+                selectedMessageId={highlightedMessage?.id || null}
+                onOpenMessage={handleOpenSearchResult}
+                onClose={() => setShowMessageSearch(false)}
+              />
+            </div>
+          ) : (
+            <>
+              <div className="flex-1 overflow-hidden">
+                <ChatList
+                  chats={filteredChats}
+                  selectedChatId={selectedChat?.id || null}
+                  onSelectChat={(chat) => handleSelectChat(chat)}
+                />
+              </div>
+              
+              <div className="p-2 text-center border-t border-primary/10 bg-primary/5 text-xs text-muted-foreground">
+                {filteredChats.length} {t('inbox.chats')}
+              </div>
+            </>
+          )}
         </div>
 
         {/* Separator in RTL */}
@@ -471,6 +783,16 @@ export default function Inbox() {
                     {selectedChatAccount?.name || selectedChatAccount?.phone_number || 'Account'}
                     {selectedChatAccount ? ` • ${selectedChatAccount.status}` : ''}
                   </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setShowTimeline(true)}
+                    className="gap-2"
+                    title={language === 'he' ? 'היסטוריית פעילות' : language === 'ar' ? 'سجل النشاط' : 'Activity history'}
+                  >
+                    <History className="h-4 w-4" />
+                    {language === 'he' ? 'היסטוריה' : language === 'ar' ? 'السجل' : 'History'}
+                  </Button>
                   <Button 
                     size="sm" 
                     onClick={handleAddToBlacklist} 
@@ -493,27 +815,87 @@ export default function Inbox() {
                     onClick={handleMarkAsHandled} 
                     variant="outline" 
                     className={`gap-2 ${
-                      selectedChat.status === 'handled'
+                      selectedChat.status === 'closed'
                         ? 'bg-green-100 text-green-700 border-green-300'
                         : 'text-green-600 hover:text-green-700 hover:bg-green-50 border-green-200'
                     }`}
                   >
                     <Check className="h-4 w-4" />
-                    {selectedChat.status === 'handled'
-                      ? (language === 'he' ? 'טופל ✓' : 'Handled ✓')
+                    {selectedChat.status === 'closed'
+                      ? `${t('inbox.statusClosed')} ✓`
                       : t('inbox.markHandled')
                     }
                   </Button>
                 </div>
               </div>
               
-              <ChatWindow messages={messages} />
-              {!canReplyInSelectedChat && (
-                <div className="border-t border-primary/10 px-4 py-2 text-xs text-amber-800 bg-amber-50 dark:bg-amber-950/30 dark:text-amber-100">
-                  {offlineReplyMessage}
+              <ChatTeamBar
+                chat={selectedChat}
+                agents={agents}
+                showNotes={showNotes}
+                onStatusChange={handleStatusChange}
+                onAssign={handleAssign}
+                onAddAgent={handleAddAgent}
+                onTogglePin={handleTogglePin}
+                onToggleNotes={() => setShowNotes(!showNotes)}
+              />
+
+              <div className="flex-1 flex min-h-0">
+                <div className="flex-1 flex flex-col min-w-0">
+                  <ChatWindow
+                    messages={messages}
+                    highlightMessageId={highlightedMessage?.id}
+                    highlightQuery={highlightedMessage?.query}
+                    contactName={selectedChat.name || selectedChat.phone_number}
+                    onReply={canReplyInSelectedChat ? setReplyTo : undefined}
+                    onReact={canReplyInSelectedChat ? handleReact : undefined}
+                    onForward={setForwardingMessage}
+                  />
+                  {!canReplyInSelectedChat && (
+                    <div className="border-t border-primary/10 px-4 py-2 text-xs text-amber-800 bg-amber-50 dark:bg-amber-950/30 dark:text-amber-100">
+                      {offlineReplyMessage}
+                    </div>
+                  )}
+                  <ScheduledMessagesList
+                    messages={scheduledMessages}
+                    onUpdate={handleUpdateScheduledMessage}
+                    onCancel={handleCancelScheduledMessage}
+                  />
+                  <MessageInput
+                    onSend={handleSendMessage}
+                    onSendFile={handleSendFile}
+                    chatId={selectedChat.id}
+                    onSendTemplate={handleSendTemplate}
+                    onSchedule={handleScheduleMessage}
+                    replyTo={replyTo}
+                    replyToName={selectedChat.name || selectedChat.phone_number}
+                    onCancelReply={() => setReplyTo(null)}
+                    disabled={!canReplyInSelectedChat}
+                  />
                 </div>
-              )}
-              <MessageInput onSend={handleSendMessage} onSendFile={handleSendFile} disabled={!canReplyInSelectedChat} />
+
+                {showNotes && (
+                  <ChatNotesPanel
+                    chatId={selectedChat.id}
+                    agents={agents}
+                    defaultAuthor={selectedChat.assigned_to}
+                    onNotesChanged={(count) => updateSelectedChat({ notes_count: count })}
+                    onClose={() => setShowNotes(false)}
+                  />
+                )}
+              </div>
+              <ContactTimelineDialog
+                open={showTimeline}
+                onOpenChange={setShowTimeline}
+                phoneNumber={selectedChat.phone_number}
+                name={selectedChat.name}
+              />
+              <ForwardMessageDialog
+                message={forwardingMessage}
+                accounts={accounts}
+                onOpenChange={(open) => !open && setForwardingMessage(null)}
+                onForwarded={handleForwarded}
+              />
             </>
           ) : (
             <div 
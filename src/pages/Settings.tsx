@@ -1,16 +1,17 @@
 import { useEffect, useState } from 'react';
-import { User, Mail, Calendar, Key, Languages, Shield, Info, CreditCard, Monitor, Globe, Download, RefreshCw, CheckCircle, Smartphone, Save } from 'lucide-react';
+import { User, Mail, Calendar, Key, Languages, Shield, Info, CreditCard, Monitor, Globe, Download, RefreshCw, CheckCircle, Smartphone, Save, MessageCircleReply, Ban } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { api } from '@/lib/api';
-import type { LicenseInfo, DuoPlusSettings } from '@/types';
+import type { LicenseInfo, DuoPlusSettings, ReplyAttributionSettings, SuppressionKeywordSettings } from '@/types';
 
 export default function Settings() {
   const { language, setLanguage, t, dir } = useLanguage();
@@ -26,11 +27,19 @@ export default function Settings() {
   const [newVersion, setNewVersion] = useState<string>('');
   const [duoplusSettings, setDuoplusSettings] = useState<DuoPlusSettings>({ apiKey: '', tapMode: 'auto', tapX: null, tapY: null });
   const [savingDuoplus, setSavingDuoplus] = useState(false);
+  const [replySettings, setReplySettings] = useState<ReplyAttributionSettings>({ windowHours: 72 });
+  const [savingReplySettings, setSavingReplySettings] = useState(false);
+  const [stopKeywordsEnabled, setStopKeywordsEnabled] = useState(true);
+  // Comma-separated keywords per language, edited as free text and split on save
+  const [stopKeywords, setStopKeywords] = useState<Record<keyof SuppressionKeywordSettings['keywords'], string>>({ en: '', he: '', ar: '' });
+  const [savingStopKeywords, setSavingStopKeywords] = useState(false);
 
   useEffect(() => {
     loadSettings();
     loadVersion();
     loadDuoplusSettings();
+    loadReplySettings();
+    loadStopKeywords();
     setupUpdateListeners();
 
     return () => {
@@ -194,6 +203,67 @@ export default function Settings() {
     }
   };
 
+  const loadReplySettings = async () => {
+    try {
+      const settings = await api.replyAttribution.getSettings();
+      setReplySettings(settings);
+    } catch (error) {
+      console.error('Failed to load reply attribution settings:', error);
+    }
+  };
+
+  const saveReplySettings = async () => {
+    setSavingReplySettings(true);
+    try {
+      await api.replyAttribution.saveSettings(replySettings);
+      toast.success(
+        language === 'he' ? 'הגדרות ייחוס תגובות נשמרו' : language === 'ar' ? 'تم حفظ إعدادات نسب الردود' : 'Reply attribution settings saved'
+      );
+    } catch (error) {
+      console.error('Failed to save reply attribution settings:', error);
+      toast.error(
+        language === 'he' ? 'שגיאה בשמירת ההגדרות' : language === 'ar' ? 'خطأ في حفظ الإعدادات' : 'Failed to save settings'
+      );
+    } finally {
+      setSavingReplySettings(false);
+    }
+  };
+
+  const loadStopKeywords = async () => {
+    try {
+      const settings = await api.suppressions.getKeywordSettings();
+      setStopKeywordsEnabled(settings.enabled);
+      setStopKeywords({
+        en: settings.keywords.en.join(', '),
+        he: settings.keywords.he.join(', '),
+        ar: settings.keywords.ar.join(', '),
+      });
+    } catch (error) {
+      console.error('Failed to load STOP keyword settings:', error);
+    }
+  };
+
+  const saveStopKeywords = async () => {
+    setSavingStopKeywords(true);
+    try {
+      const split = (value: string) => value.split(',').map(keyword => keyword.trim()).filter(Boolean);
+      await api.suppressions.saveKeywordSettings({
+        enabled: stopKeywordsEnabled,
+        keywords: { en: split(stopKeywords.en), he: split(stopKeywords.he), ar: split(stopKeywords.ar) },
+      });
+      toast.success(
+        language === 'he' ? 'מילות ההסרה נשמרו' : language === 'ar' ? 'تم حفظ كلمات الإيقاف' : 'STOP keywords saved'
+      );
+    } catch (error) {
+      console.error('Failed to save STOP keyword settings:', error);
+      toast.error(
+        language === 'he' ? 'שגיאה בשמירת ההגדרות' : language === 'ar' ? 'خطأ في حفظ الإعدادات' : 'Failed to save settings'
+      );
+    } finally {
+      setSavingStopKeywords(false);
+    }
+  };
+
   const formatDate = (dateString?: string) => {
     if (!dateString) return 'N/A';
     return new Date(dateString).toLocaleDateString(language === 'he' ? 'he-IL' : 'en-US', {
@@ -507,6 +577,114 @@ export default function Settings() {
               </Button>
             </CardContent>
           </Card>
+
+          {/* Campaign Reply Attribution */}
+          <Card className="overflow-hidden border-none shadow-md hover:shadow-lg transition-shadow duration-300">
+            <div className="bg-gradient-to-r from-emerald-500/10 to-teal-500/10 p-1 h-2 w-full"></div>
+            <CardHeader className="pb-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-emerald-100 dark:bg-emerald-900/30 rounded-lg">
+                  <MessageCircleReply className="h-5 w-5 text-emerald-600 dark:text-emerald-400" />
+                </div>
+                <div>
+                  <CardTitle className="text-xl">
+                    {language === 'he' ? 'ייחוס תגובות לקמפיינים' : language === 'ar' ? 'نسب الردود إلى الحملات' : 'Campaign Reply Attribution'}
+                  </CardTitle>
+                  <CardDescription>
+                    {language === 'he'
+                      ? 'הודעה נכנסת תיספר כתגובה לקמפיין אם הגיעה בתוך חלון הזמן שאחרי השליחה'
+                      : language === 'ar'
+                      ? 'تُحتسب الرسالة الواردة ردًا على الحملة إذا وصلت خلال هذه المدة بعد الإرسال'
+                      : 'An incoming message counts as a campaign reply if it arrives within this window after the send'
+                    }
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2.5">
+                <Label className="text-sm font-medium text-muted-foreground">
+                  {language === 'he' ? 'חלון ייחוס (שעות)' : language === 'ar' ? 'مدة النسب (ساعات)' : 'Attribution window (hours)'}
+                </Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={replySettings.windowHours}
+                  onChange={(e) => setReplySettings({ ...replySettings, windowHours: Math.max(1, +e.target.value || 1) })}
+                  className="h-11 font-mono"
+                />
+              </div>
+
+              <Button onClick={saveReplySettings} disabled={savingReplySettings} className="w-full gap-2">
+                <Save className="h-4 w-4" />
+                {savingReplySettings
+                  ? (language === 'he' ? 'שומר...' : language === 'ar' ? 'جاري الحفظ...' : 'Saving...')
+                  : (language === 'he' ? 'שמור הגדרות' : language === 'ar' ? 'حفظ الإعدادات' : 'Save Settings')
+                }
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* STOP keywords (automatic opt-out) */}
+          <Card className="overflow-hidden border-none shadow-md hover:shadow-lg transition-shadow duration-300">
+            <div className="bg-gradient-to-r from-red-500/10 to-rose-500/10 p-1 h-2 w-full"></div>
+            <CardHeader className="pb-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-red-100 dark:bg-red-900/30 rounded-lg">
+                  <Ban className="h-5 w-5 text-red-600 dark:text-red-400" />
+                </div>
+                <div>
+                  <CardTitle className="text-xl">
+                    {language === 'he' ? 'מילות הסרה (STOP)' : language === 'ar' ? 'كلمات الإيقاف (STOP)' : 'STOP Keywords'}
+                  </CardTitle>
+                  <CardDescription>
+                    {language === 'he'
+                      ? 'מי ששולח הודעה שהיא בדיוק אחת מהמילים האלה נוסף לרשימת ההסרה בכל החשבונות'
+                      : language === 'ar'
+                      ? 'من يرسل رسالة تطابق إحدى هذه الكلمات تمامًا يُضاف إلى قائمة الحظر في جميع الحسابات'
+                      : 'Anyone whose message is exactly one of these words is added to the suppression list for every account'
+                    }
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-medium">
+                  {language === 'he' ? 'הסרה אוטומטית לפי מילות מפתח' : language === 'ar' ? 'الحظر التلقائي بالكلمات المفتاحية' : 'Automatic keyword opt-out'}
+                </Label>
+                <Switch checked={stopKeywordsEnabled} onCheckedChange={setStopKeywordsEnabled} />
+              </div>
+
+              {([
+                ['en', 'English'],
+                ['he', 'עברית'],
+                ['ar', 'العربية'],
+              ] as const).map(([keywordLanguage, label]) => (
+                <div key={keywordLanguage} className="space-y-2.5">
+                  <Label className="text-sm font-medium text-muted-foreground">{label}</Label>
+                  <Input
+                    value={stopKeywords[keywordLanguage]}
+                    onChange={(e) => setStopKeywords({ ...stopKeywords, [keywordLanguage]: e.target.value })}
+                    dir={keywordLanguage === 'en' ? 'ltr' : 'rtl'}
+                    disabled={!stopKeywordsEnabled}
+                    className="h-11"
+                  />
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                {language === 'he' ? 'הפרד מילים בפסיקים. אין הבדל בין אותיות גדולות לקטנות ופיסוק מתעלמים ממנו.' : language === 'ar' ? 'افصل الكلمات بفواصل. لا فرق بين الأحرف الكبيرة والصغيرة ويتم تجاهل علامات الترقيم.' : 'Separate keywords with commas. Matching ignores case and punctuation.'}
+              </p>
+
+              <Button onClick={saveStopKeywords} disabled={savingStopKeywords} className="w-full gap-2">
+                <Save className="h-4 w-4" />
+                {savingStopKeywords
+                  ? (language === 'he' ? 'שומר...' : language === 'ar' ? 'جاري الحفظ...' : 'Saving...')
+                  : (language === 'he' ? 'שמור הגדרות' : language === 'ar' ? 'حفظ الإعدادات' : 'Save Settings')
+                }
+              </Button>
+            </CardContent>
+          </Card>
         </div>
 
         {/* Right Column - Preferences */}
@@ -106,6 +106,12 @@ export default function Templates() {
                   {template.message.length > 150 && '...'}
                 </div>
 
+                {!!template.usage_count && (
+                  <p className="text-xs text-muted-foreground">
+                    {t('templates.usageCount').replace('{count}', String(template.usage_count))}
+                  </p>
+                )}
+
                 <div className="flex gap-2">
                   <Button 
                     size="sm" 
@@ -3,7 +3,7 @@ export interface Account {
   id: string;
   phone_number: string;
   name?: string;
-  status: 'connected' | 'disconnected' | 'connecting' | 'qr' | 'pairing';
+  status: 'connected' | 'disconnected' | 'connecting' | 'qr' | 'pairing' | 'banned' | 'restricted';
   proxy_host?: string;
   proxy_port?: number;
   proxy_username?: string;
@@ -14,10 +14,117 @@ export interface Account {
   pairing_code?: string;
   profile_picture_url?: string;
   duoplus_device_id?: string;
+  health_score?: number | null; // latest AccountHealth score, null until first computed
+  health_level?: AccountHealthLevel | null;
+  health_updated_at?: string | null;
+  restricted_until?: string | null; // temporary restriction detected from send errors
+  quota_per_hour?: number | null; // account-level sending quotas, null = no limit (see AccountQuotas)
+  quota_per_day?: number | null;
+  quota_rolling_24h?: number | null;
+  quota_new_chats_per_day?: number | null;
+  quota_existing_chats_per_day?: number | null;
   last_seen?: string;
   created_at: string;
 }
 
+// Account health: healthy accounts send normally, warning ones are throttled, critical ones are pulled from campaigns
+export type AccountHealthLevel = 'healthy' | 'warning' | 'critical';
+
+export type AccountHealthFactorKey =
+  | 'failures'
+  | 'not_registered'
+  | 'disconnects'
+  | 'restrictions'
+  | 'low_reply_rate'
+  | 'new_account'
+  | 'high_volume';
+
+export interface AccountHealthFactor {
+  key: AccountHealthFactorKey;
+  penalty: number; // points taken off the score of 100
+}
+
+// Raw numbers behind the score, over the last 7 days unless noted
+export interface AccountHealthMetrics {
+  attempts: number;
+  failures: number;
+  notRegistered: number;
+  messagesSent: number;
+  replies: number;
+  disconnects: number;
+  authFailures: number;
+  restrictions: number; // bans and temporary restrictions detected
+  ageDays: number; // since the account was added or first warmed up
+  sentToday: number;
+  dailyAllowance: number; // sends per day considered safe for an account of this age
+}
+
+export interface AccountHealth {
+  accountId: string;
+  score: number; // 0-100
+  level: AccountHealthLevel;
+  factors: AccountHealthFactor[];
+  metrics: AccountHealthMetrics;
+  delayMultiplier: number; // applied to campaign delays
+  dailyLimitFactor: number; // applied to campaign max_messages_per_day (0 = out of rotation)
+  updatedAt: string;
+}
+
+export interface AccountHealthSnapshot {
+  score: number;
+  level: AccountHealthLevel;
+  created_at: string;
+}
+
+// Account-level sending quotas, shared by campaigns, group campaigns, the group adder and warm-up.
+// null = no limit. Days are calendar days; rolling24h counts the last 24 hours
+export interface AccountQuotas {
+  perHour: number | null;
+  perDay: number | null;
+  rolling24h: number | null;
+  newChatsPerDay: number | null;
+  existingChatsPerDay: number | null;
+}
+
+export type AccountQuotaKey = keyof AccountQuotas;
+
+export type AccountSendKind = 'campaign' | 'group_campaign' | 'group_add' | 'warmup';
+
+export interface AccountQuotaUsage {
+  perHour: number;
+  perDay: number;
+  rolling24h: number;
+  newChatsPerDay: number;
+  existingChatsPerDay: number;
+}
+
+export interface AccountQuotaBudget {
+  accountId: string;
+  quotas: AccountQuotas;
+  usage: AccountQuotaUsage;
+  remaining: Record<AccountQuotaKey, number | null>; // null where there is no limit
+}
+
+// Result of asking whether an account may send now
+export interface AccountQuotaCheck {
+  allowed: boolean;
+  exhausted?: AccountQuotaKey;
+  retryAt?: string; // when the exhausted quota frees up
+}
+
+// Why an account dropped out: logged_out needs re-pairing, banned/restricted come from WhatsApp,
+// network is a transient connection problem
+export type AccountRestrictionKind = 'logged_out' | 'banned' | 'restricted' | 'network';
+
+// Sent on the 'account:alert' channel when an account is taken out of running campaigns
+export interface AccountAlert {
+  accountId: string;
+  accountName: string;
+  kind: AccountRestrictionKind;
+  reason: string;
+  campaigns: { id: string; name: string; redistributed: number; paused: boolean }[];
+}
+
 // DuoPlus cloud-phone integration types
 export type DuoPlusTapMode = 'auto' | 'coordinates' | 'enter';
 
@@ -28,6 +135,17 @@ export interface DuoPlusSettings {
   tapY: number | null;
 }
 
+// Inbound messages within this many hours of a campaign send count as replies to it
+export interface ReplyAttributionSettings {
+  windowHours: number;
+}
+
+// Inbound messages matching one of these keywords suppress the sender from every account
+export interface SuppressionKeywordSettings {
+  enabled: boolean;
+  keywords: Record<'en' | 'he' | 'ar', string[]>;
+}
+
 export interface DuoPlusStatusItem {
   id: string;
   name: string;
@@ -58,6 +176,7 @@ export type CampaignContactResultCode =
   | 'account_not_connected'
   | 'group_not_found'
   | 'group_access_denied'
+  | 'suppressed'
   | 'unknown_error';
 
 export interface WhatsAppGroupSummary {
@@ -128,6 +247,13 @@ export interface Campaign {
   source_tag_ids?: string[];
   message_variants?: string[]; // גרסאות נוספות של ההודעה, נבחרת אחת אקראית בכל שליחה
   send_mode?: 'web' | 'cloud_phone'; // 'cloud_phone' = send via DuoPlus cloud phone (text only)
+  ab_auto_winner?: boolean; // אחרי מדגם - כל השליחות הנותרות עוברות לגרסה המנצחת
+  ab_sample_size?: number; // results per variant before a winner is picked
+  ab_winner_index?: number | null; // index into [message, ...message_variants], set once decided
+  ab_winner_at?: string;
+  ab_evaluation_hours?: number; // wait after the sample for replies/reads before picking the winner
+  ab_sample_completed_at?: string | null;
+  segment_id?: string | null; // קהל דינמי - אנשי הקשר נקבעים לפי הסגמנט בזמן ההפעלה
   created_at: string;
   started_at?: string;
   completed_at?: string;
@@ -143,13 +269,31 @@ export interface CampaignContact {
   error?: string;
   retry_count?: number;
   result_code?: CampaignContactResultCode;
+  message_id?: string;
+  variant_index?: number; // index into [message, ...message_variants] of the text that was sent
+  ack?: MessageAck;
+  server_at?: string;
+  delivered_at?: string;
+  read_at?: string;
+  played_at?: string;
+  replied_at?: string; // first inbound reply within the attribution window
+  reply_latency_seconds?: number;
+  reply_message_id?: string;
+  reply_chat_id?: string;
 }
 
+// whatsapp-web.js message_ack levels: -1 error, 0 pending, 1 server, 2 delivered, 3 read, 4 played
+export type MessageAck = -1 | 0 | 1 | 2 | 3 | 4;
+
 export interface CampaignStats {
   total: number;
   sent: number;
   pending: number;
   failed: number;
+  delivered?: number;
+  read?: number;
+  replied?: number;
+  variants?: StatsVariantRow[]; // only for campaigns with message variants
 }
 
 // Group campaign types (recurring scheduled broadcasts to WhatsApp groups)
@@ -197,6 +341,100 @@ export interface Contact {
   tags?: Tag[];
 }
 
+export type SegmentOutcome = 'sent' | 'failed' | 'not_registered' | 'replied' | 'read';
+
+export type SegmentCustomFieldOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'is_empty'
+  | 'is_not_empty'
+  | 'greater_than'
+  | 'less_than';
+
+export type SegmentRule =
+  | { type: 'tags_include'; tagIds: string[] } // has at least one of the tags
+  | { type: 'tags_exclude'; tagIds: string[] } // has none of the tags
+  | { type: 'custom_field'; field: string; operator: SegmentCustomFieldOperator; value?: string }
+  | { type: 'created_at'; from?: string; to?: string } // YYYY-MM-DD, inclusive
+  | { type: 'replied_within_days'; days: number }
+  | { type: 'never_messaged' }
+  | { type: 'campaign_outcome'; outcome: SegmentOutcome; campaignId?: string }; // any campaign when campaignId is empty
+
+export interface SegmentRules {
+  match: 'all' | 'any';
+  rules: SegmentRule[];
+}
+
+export interface ContactSegment {
+  id: string;
+  name: string;
+  description?: string;
+  rules: SegmentRules;
+  contact_count?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SegmentPreview {
+  count: number;
+  sample: { id: string; phone_number: string; name: string | null }[];
+}
+
+export type ContactTimelineEventType =
+  | 'campaign_sent'
+  | 'campaign_delivered'
+  | 'campaign_read'
+  | 'campaign_replied'
+  | 'campaign_failed'
+  | 'group_added'
+  | 'group_invite_sent'
+  | 'group_add_failed'
+  | 'message_in'
+  | 'message_out'
+  | 'flow_execution'
+  | 'blacklisted';
+
+export interface ContactTimelineEvent {
+  id: string;
+  type: ContactTimelineEventType;
+  timestamp: string | null; // null when the source row never recorded a time
+  campaignId?: string;
+  campaignName?: string;
+  groupName?: string;
+  accountName?: string;
+  flowName?: string;
+  status?: string; // result code / flow execution status
+  text?: string; // message text or error
+}
+
+export interface ContactTimeline {
+  contact: Contact | null;
+  phoneNumber: string;
+  events: ContactTimelineEvent[];
+}
+
+export type SuppressionSource = 'manual' | 'keyword' | 'flow' | 'import';
+
+// One opted-out number (or group id). Matched by the last 9 digits, like contacts everywhere else
+export interface Suppression {
+  id: string;
+  phone_number: string;
+  phone_key: string;
+  name: string | null;
+  reason: string | null;
+  source: SuppressionSource;
+  account_id: string | null;
+  account_name?: string | null;
+  created_at: string;
+}
+
+export interface SuppressionImportResult {
+  imported: number;
+  skipped: number;
+}
+
 export interface CustomField {
   id: string;
   name: string;
@@ -235,17 +473,74 @@ export interface Message {
   is_warmup?: boolean;
   type?: string;
   timestamp: string;
+  wa_message_id?: string | null; // WhatsApp's serialized id - needed to quote, react to and forward it
+  // A reply carries the message it quotes
+  quoted_wa_message_id?: string | null;
+  quoted_message_text?: string | null;
+  quoted_is_from_me?: boolean | null;
+  is_forwarded?: boolean;
+  reactions?: MessageReaction[];
+}
+
+export interface MessageReaction {
+  emoji: string;
+  count: number;
+  from_me: boolean; // one of them is ours
+}
+
+// Inbox full-text search
+export type MessageSearchDirection = 'all' | 'incoming' | 'outgoing';
+
+export interface MessageSearchFilters {
+  accountId?: string;
+  dateFrom?: string; // ISO timestamps
+  dateTo?: string;
+  direction?: MessageSearchDirection;
+}
+
+export interface MessageSearchHit {
+  message_id: string;
+  timestamp: string;
+  is_from_me: boolean;
+  message_type: string;
+  media_filename?: string | null;
+  // The matching part of the text or file name, split so the renderer can highlight the matches
+  snippet: Array<{ text: string; match: boolean }>;
+}
+
+export interface MessageSearchChatGroup {
+  chat_id: string; // chats.id
+  account_id: string;
+  name?: string | null;
+  phone_number: string;
+  photo?: string | null;
+  total_hits: number;
+  hits: MessageSearchHit[]; // newest first, at most a few per chat
 }
 
+export interface MessageSearchResult {
+  groups: MessageSearchChatGroup[];
+  total_hits: number;
+  // More messages matched than were read - narrow the search
+  truncated: boolean;
+}
+
+// open - waiting for us, pending - waiting for the contact, snoozed - hidden until snoozed_until, closed - done
+export type ChatStatus = 'open' | 'pending' | 'snoozed' | 'closed';
+
 export interface Chat {
   id: string;
   contact_id: string;
   account_id: string;
   phone_number: string;
-  status: 'handled' | 'unhandled';
+  status: ChatStatus;
   photo?: string;
   name?: string;
   last_message_at?: string;
+  assigned_to?: string | null; // agent name
+  snoozed_until?: string | null;
+  is_pinned?: boolean;
+  notes_count?: number;
   unread_count: number;
   last_message?: Message;
   // Legacy fields for backward compat
@@ -253,6 +548,48 @@ export interface Chat {
   is_handled?: boolean;
 }
 
+// Internal team note on a chat - never sent to WhatsApp
+export interface ChatNote {
+  id: string;
+  chat_id: string;
+  author?: string | null;
+  note: string;
+  created_at: string;
+}
+
+// Inbox messages queued to go out later
+export type ScheduledMessageStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled';
+
+export interface ScheduledMessage {
+  id: string;
+  chat_id: string; // chats.id
+  account_id: string;
+  to_id: string; // WhatsApp chat id the message goes to
+  message_text?: string | null;
+  media_path?: string | null; // copy kept until the message is sent
+  scheduled_at: string;
+  status: ScheduledMessageStatus;
+  attempts: number;
+  error?: string | null;
+  sent_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateScheduledMessageInput {
+  chatId: string;
+  accountId: string;
+  to: string;
+  message?: string;
+  mediaPath?: string;
+  scheduledAt: string; // ISO timestamp
+}
+
+export interface UpdateScheduledMessageInput {
+  message?: string;
+  scheduledAt?: string;
+}
+
 // Warm-up types
 export interface WarmUpSession {
   id: string;
@@ -271,10 +608,21 @@ export interface Flow {
   description?: string;
   is_active: boolean;
   account_ids: string[];
+  // Run settings - they apply as soon as the flow is saved, not on publish
+  priority?: number; // higher is checked first
+  stop_other_flows?: boolean; // no lower-priority flow starts once this one matched
+  cooldown_minutes?: number; // 0 = no cooldown per chat
+  max_executions_per_contact?: number; // 0 = unlimited
+  skip_human_handled?: boolean; // leave chats someone replied to from the Inbox alone
+  // Number of the version flow_nodes/flow_edges currently run, null before the first publish
+  published_version?: number | null;
+  has_draft?: boolean;
   created_at: string;
   updated_at: string;
 }
 
+export type FlowSettings = Pick<Flow, 'priority' | 'stop_other_flows' | 'cooldown_minutes' | 'max_executions_per_contact' | 'skip_human_handled'>;
+
 export interface FlowNode {
   id: string;
   type: string;
@@ -294,12 +642,112 @@ export interface FlowEdge {
   [key: string]: any;
 }
 
+export interface FlowGraph {
+  nodes: FlowNode[];
+  edges: FlowEdge[];
+}
+
+export interface FlowVersion {
+  id: string;
+  flow_id: string;
+  version: number;
+  note: string | null;
+  node_count: number;
+  edge_count: number;
+  is_published: boolean;
+  created_at: string;
+}
+
+// What publishing a draft (or rolling back to a version) changes in the live flow
+export interface FlowDiffSummary {
+  addedNodes: Array<{ id: string; type: string }>;
+  removedNodes: Array<{ id: string; type: string }>;
+  changedNodes: Array<{ id: string; type: string }>;
+  movedNodes: number;
+  addedEdges: number;
+  removedEdges: number;
+}
+
+// File format of an exported flow
+export interface FlowExportFile {
+  format: 'leadsender-flow';
+  format_version: 1;
+  exported_at: string;
+  name: string;
+  description: string | null;
+  nodes: FlowNode[];
+  edges: FlowEdge[];
+}
+
+export type FlowExecutionStatus = 'running' | 'waiting' | 'completed' | 'failed' | 'cancelled';
+
+export interface FlowExecution {
+  id: string;
+  flow_id: string;
+  account_id: string;
+  account_name: string | null;
+  chat_id: string;
+  status: FlowExecutionStatus;
+  started_at: string;
+  completed_at: string | null;
+  wait_until: string | null;
+  step_count: number;
+}
+
+// One executed node. branch is the output it left through (yes/no/reply/timeout/next),
+// 'waiting' when the execution paused on it, null when the flow ended there.
+export interface FlowExecutionStep {
+  id: string;
+  execution_id: string;
+  node_id: string;
+  node_type: string;
+  branch: string | null;
+  input_text: string | null;
+  details: Record<string, any>;
+  error: string | null;
+  duration_ms: number;
+  created_at: string;
+}
+
+// Flow simulator (FlowEditor dry run) - the unsaved canvas runs against a made-up sender,
+// and sends, webhooks, CRM changes and delays are captured instead of executed.
+export interface FlowSimulationInput {
+  nodes: Array<{ id: string; type?: string; data: any }>;
+  edges: Array<{ source: string; target: string; label?: string | null }>;
+  message: string;
+  phone: string;
+  name?: string;
+  tagIds?: string[];
+  accountId?: string;
+  // Continue a simulation that stopped on a wait-for-reply node
+  resume?: { nodeId: string; variables: Record<string, string> };
+}
+
+export interface FlowSimulationAction {
+  node_id: string;
+  type: 'send' | 'forward' | 'webhook' | 'delay' | 'typing' | 'tag' | 'field' | 'chat_status' | 'campaign' | 'blacklist';
+  details: Record<string, any>;
+}
+
+export type FlowSimulationStep = Pick<FlowExecutionStep, 'node_id' | 'node_type' | 'branch' | 'details' | 'error'>;
+
+export interface FlowSimulationResult {
+  started: boolean;
+  steps: FlowSimulationStep[];
+  actions: FlowSimulationAction[];
+  variables: Record<string, string>;
+  waitingNodeId: string | null;
+}
+
 export interface MessageTemplate {
   id: string;
   name: string;
   message: string;
   media_path?: string;
   media_type?: 'image' | 'video' | 'document';
+  // How often it was sent as an Inbox quick reply
+  usage_count?: number;
+  last_used_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -318,6 +766,42 @@ export interface StatsSummary {
   sent: number;
   failed: number;
   successRate: number;
+  // Delivery receipts - only reported for message campaigns
+  delivered?: number;
+  read?: number;
+  deliveryRate?: number;
+  readRate?: number;
+  // Reply attribution - replies / sent
+  replied?: number;
+  replyRate?: number;
+  avgReplyMinutes?: number;
+}
+
+export interface StatsDeliveryBreakdownRow {
+  id: string;
+  label: string;
+  sent: number;
+  delivered: number;
+  read: number;
+  deliveryRate: number;
+  readRate: number;
+}
+
+// Per message-variant results (A/B testing). Delivery rates only count sends with a recorded ack
+export interface StatsVariantRow {
+  id: string;
+  label: string;
+  campaign_id: string;
+  variant_index: number;
+  isWinner: boolean;
+  sent: number;
+  failed: number;
+  replied: number;
+  replyRate: number;
+  delivered: number;
+  read: number;
+  deliveryRate: number;
+  readRate: number;
 }
 
 export interface StatsDailyPoint {
@@ -330,6 +814,8 @@ export interface StatsResult {
   summary: StatsSummary;
   daily: StatsDailyPoint[];
   rows: any[];
+  byAccount?: StatsDeliveryBreakdownRow[];
+  byVariant?: StatsVariantRow[];
 }
 
 export interface StatsListItem {
@@ -383,6 +869,9 @@ export interface ElectronAPI {
     updateWhatsAppImage: (id: string, imagePath: string) => Promise<void>;
     refreshProfilePicture: (id: string) => Promise<void>;
     setDuoplusDeviceId: (id: string, deviceId: string | null) => Promise<void>;
+    getHealth: (id: string) => Promise<{ health: AccountHealth; history: AccountHealthSnapshot[] }>;
+    getQuotaBudgets: () => Promise<AccountQuotaBudget[]>;
+    setQuotas: (id: string, quotas: AccountQuotas) => Promise<AccountQuotaBudget>;
   };
 
   // DuoPlus cloud-phone operations
@@ -392,6 +881,12 @@ export interface ElectronAPI {
     testDevice: (deviceId: string) => Promise<DuoPlusStatusItem | null>;
   };
 
+  // Campaign reply attribution
+  replyAttribution: {
+    getSettings: () => Promise<ReplyAttributionSettings>;
+    saveSettings: (settings: Partial<ReplyAttributionSettings>) => Promise<void>;
+  };
+
   // Campaign operations
   campaigns: {
     getAll: () => Promise<Campaign[]>;
@@ -444,6 +939,27 @@ export interface ElectronAPI {
     onImportProgress: (callback: (progress: { current: number; total: number; percent: number }) => void) => () => void;
     addTag: (contactId: string, tagId: string) => Promise<void>;
     removeTag: (contactId: string, tagId: string) => Promise<void>;
+    getTimeline: (phoneNumber: string) => Promise<ContactTimeline>;
+  };
+
+  // Contact segments (saved dynamic audiences)
+  segments: {
+    getAll: () => Promise<ContactSegment[]>;
+    create: (data: { name: string; description?: string; rules: SegmentRules }) => Promise<ContactSegment>;
+    update: (id: string, data: Partial<Pick<ContactSegment, 'name' | 'description' | 'rules'>>) => Promise<void>;
+    delete: (id: string) => Promise<void>;
+    preview: (rules: SegmentRules) => Promise<SegmentPreview>;
+  };
+
+  // Suppression list (opt-outs) and STOP keyword settings
+  suppressions: {
+    getAll: (search?: string) => Promise<Suppression[]>;
+    add: (phoneNumber: string, reason?: string) => Promise<Suppression | null>;
+    remove: (id: string) => Promise<void>;
+    import: () => Promise<SuppressionImportResult | null>;
+    export: () => Promise<string | null>;
+    getKeywordSettings: () => Promise<SuppressionKeywordSettings>;
+    saveKeywordSettings: (settings: Partial<SuppressionKeywordSettings>) => Promise<void>;
   };
 
   // Tag operations
@@ -492,19 +1008,38 @@ export interface ElectronAPI {
   // Message operations
   messages: {
     getByChat: (softwareChatId: string) => Promise<Message[]>;
-    getChats: (accountId?: string, searchQuery?: string) => Promise<Chat[]>;
+    getChats: (accountId?: string, searchQuery?: string, campaignId?: string) => Promise<Chat[]>;
+    search: (query: string, filters?: MessageSearchFilters) => Promise<MessageSearchResult>;
     send: (accountId: string, to: string, message: string) => Promise<void>;
     sendMedia: (accountId: string, to: string, filePath: string, caption?: string) => Promise<void>;
+    reply: (messageId: string, text: string, filePath?: string) => Promise<void>;
+    react: (messageId: string, emoji: string) => Promise<void>;
+    forward: (messageId: string, targetChatId: string) => Promise<void>;
     saveTempFile: (fileName: string, buffer: Buffer) => Promise<string>;
     deleteTempFile: (filePath: string) => Promise<void>;
     markAsRead: (softwareChatId: string) => Promise<void>;
     markAsHandled: (chatId: string, accountId: string) => Promise<void>;
-    markChatStatus: (softwareChatId: string, status: string) => Promise<void>;
+    markChatStatus: (softwareChatId: string, status: ChatStatus, snoozedUntil?: string | null) => Promise<void>;
     markAllChats: (accountId: string | undefined, handled: boolean) => Promise<number>;
+    assignChat: (softwareChatId: string, agent: string | null) => Promise<void>;
+    setChatPinned: (softwareChatId: string, pinned: boolean) => Promise<void>;
+    getChatNotes: (softwareChatId: string) => Promise<ChatNote[]>;
+    addChatNote: (softwareChatId: string, note: string, author?: string | null) => Promise<ChatNote>;
+    deleteChatNote: (noteId: string) => Promise<void>;
+    getAgents: () => Promise<string[]>;
+    saveAgents: (agents: string[]) => Promise<string[]>;
     getMediaFile: (messageId: string) => Promise<{ buffer: number[]; fileName: string } | null>;
     getChatPhoto: (photoPath: string) => Promise<{ buffer: number[]; fileName: string } | null>;
   };
 
+  // Messages queued from the Inbox to go out later
+  scheduledMessages: {
+    getByChat: (softwareChatId: string) => Promise<ScheduledMessage[]>;
+    create: (input: CreateScheduledMessageInput) => Promise<ScheduledMessage>;
+    update: (id: string, changes: UpdateScheduledMessageInput) => Promise<ScheduledMessage>;
+    cancel: (id: string) => Promise<void>;
+  };
+
   // Warm-up operations
   warmup: {
     start: (accountIds: string[], minDelay: number, maxDelay: number) => Promise<string>;
@@ -547,7 +1082,7 @@ export interface ElectronAPI {
   // Flows
   flows: {
     create: (flowData: Partial<Flow>) => Promise<string>;
-    save: (flowId: string, flowData: {
+    save: (flowId: string, flowData: FlowSettings & {
       name: string;
       description?: string;
       account_ids: string[];
@@ -556,9 +1091,20 @@ export interface ElectronAPI {
     }) => Promise<void>;
     getAll: () => Promise<Flow[]>;
     getById: (flowId: string) => Promise<{ flow: Flow; nodes: FlowNode[]; edges: FlowEdge[] }>;
+    publish: (flowId: string, note?: string) => Promise<number>;
+    discardDraft: (flowId: string) => Promise<void>;
+    getVersions: (flowId: string) => Promise<FlowVersion[]>;
+    getDiff: (flowId: string, versionId?: string) => Promise<FlowDiffSummary>;
+    rollback: (flowId: string, versionId: string) => Promise<number>;
+    exportToFile: (flowId: string) => Promise<string | null>;
+    importFromFile: () => Promise<string | null>;
     toggleActive: (flowId: string) => Promise<void>;
     delete: (flowId: string) => Promise<void>;
     selectMedia: () => Promise<string | null>;
+    getExecutions: (flowId: string, limit?: number) => Promise<FlowExecution[]>;
+    getExecutionSteps: (executionId: string) => Promise<FlowExecutionStep[]>;
+    simulate: (input: FlowSimulationInput) => Promise<FlowSimulationResult>;
+    getWebhookBaseUrl: () => Promise<string | null>;
   };
 
   // Message Templates
@@ -569,6 +1115,8 @@ export interface ElectronAPI {
     update: (id: string, data: Partial<MessageTemplate>) => Promise<void>;
     delete: (id: string) => Promise<void>;
     getMediaFile: (mediaPath: string) => Promise<{ buffer: number[]; fileName: string } | null>;
+    renderForChat: (templateId: string, softwareChatId: string) => Promise<string | null>;
+    markUsed: (id: string) => Promise<void>;
   };
 
   // Event listeners